@@ -0,0 +1,48 @@
+import { Role } from '@prisma/client';
+
+/**
+ * Fine-grained permissions checked by requirePermission()
+ * Roles map to a default set; individual users can be granted extras
+ */
+export const PERMISSIONS = [
+  'users:read',
+  'users:impersonate',
+  'roles:manage',
+  'projects:manage',
+  'quotes:manage',
+  'pricing:manage',
+  'pricing:override',
+  'emails:approve',
+  'knowledge:manage',
+  'audit:read',
+] as const;
+
+export type Permission = (typeof PERMISSIONS)[number];
+
+export const ROLES: Role[] = ['user', 'admin', 'ops', 'finance'];
+
+// Default permissions granted by each role
+export const ROLE_PERMISSIONS: Record<Role, Permission[]> = {
+  user: [],
+  admin: [...PERMISSIONS],
+  ops: ['users:read', 'users:impersonate', 'projects:manage', 'quotes:manage', 'emails:approve', 'knowledge:manage', 'audit:read'],
+  finance: ['users:read', 'quotes:manage', 'pricing:manage', 'pricing:override', 'audit:read'],
+};
+
+export const isRole = (value: unknown): value is Role =>
+  typeof value === 'string' && (ROLES as string[]).includes(value);
+
+export const isPermission = (value: unknown): value is Permission =>
+  typeof value === 'string' && (PERMISSIONS as readonly string[]).includes(value);
+
+/**
+ * Resolve the effective permissions for a set of roles plus direct grants
+ */
+export const resolvePermissions = (roles: Role[], granted: string[] = []): Permission[] => {
+  const effective = new Set<Permission>();
+
+  roles.forEach((role) => ROLE_PERMISSIONS[role]?.forEach((permission) => effective.add(permission)));
+  granted.filter(isPermission).forEach((permission) => effective.add(permission));
+
+  return [...effective];
+};
@@ -0,0 +1,2835 @@
+import { Request, Response, NextFunction } from 'express';
+import {
+  ClientTier,
+  CounterOfferStatus,
+  DiscountType,
+  KybStatus,
+  PricingTable,
+  ProjectStatus,
+  PromoCodeKind,
+  SettlementRail,
+} from '@prisma/client';
+import { prisma } from '../config/database.js';
+import { isPermission, isRole, resolvePermissions } from '../config/permissions.js';
+import { sessionService } from '../services/sessionService.js';
+import { totpService } from '../services/totpService.js';
+import { privacyService, PrivacyError } from '../services/privacyService.js';
+import { identityService, IdentityError } from '../services/identityService.js';
+import {
+  projectLifecycleService,
+  ProjectTransitionError,
+  PROJECT_TRANSITIONS,
+} from '../services/projectLifecycleService.js';
+import {
+  pricingOverrideService,
+  PricingOverrideError,
+  OVERRIDE_REASON_REGEX,
+  MIN_ADVANCE_PERCENTAGE,
+  MAX_ADVANCE_PERCENTAGE,
+} from '../services/pricingOverrideService.js';
+import { quoteRevisionService, QuoteRevisionError } from '../services/quoteRevisionService.js';
+import { quoteExpiryService } from '../services/quoteExpiryService.js';
+import {
+  paymentTermsService,
+  PaymentTermsError,
+  TemplateInput,
+  TemplateInstallment,
+} from '../services/paymentTermsService.js';
+import {
+  promoCodeService,
+  PromoCodeError,
+  PromoCodeInput,
+  PromoCodeUpdate,
+  PROMO_CODE_PATTERN,
+  normalizePromoCode,
+} from '../services/promoCodeService.js';
+import {
+  pricingTableService,
+  PricingTableError,
+  PricingTableInputs,
+  PricingTableUpdates,
+  PRICING_TABLE_PATHS,
+  PRICING_CODE_PATTERN,
+  BasePricingImportRow,
+  parseBasePricingCsv,
+} from '../services/pricingTableService.js';
+import { priceBookService, PriceBookError, PriceBookInput } from '../services/priceBookService.js';
+import {
+  pricingRuleService,
+  PricingRuleError,
+  PricingRuleSetInput,
+  parsePricingRules,
+} from '../services/pricingRuleService.js';
+
+const accessSelect = {
+  id: true,
+  email: true,
+  walletAddress: true,
+  businessName: true,
+  roles: true,
+  permissions: true,
+} as const;
+
+/**
+ * Validate a pricing override request body
+ * Returns the parsed values, or an error message for a 400 response
+ */
+const parseOverrideBody = (
+  body: Record<string, unknown>
+): { advancePercentage: number; reason: string; expiresAt: Date | null } | string => {
+  const { advancePercentage, reason, expiresAt } = body;
+
+  if (
+    typeof advancePercentage !== 'number' ||
+    !Number.isFinite(advancePercentage) ||
+    advancePercentage < MIN_ADVANCE_PERCENTAGE ||
+    advancePercentage > MAX_ADVANCE_PERCENTAGE
+  ) {
+    return `advancePercentage must be a number between ${MIN_ADVANCE_PERCENTAGE} and ${MAX_ADVANCE_PERCENTAGE}`;
+  }
+
+  if (typeof reason !== 'string' || reason.length > 255 || !OVERRIDE_REASON_REGEX.test(reason)) {
+    return 'reason must match "<AUTH|RISK|SLA|TECH>: <DETAILS>" (uppercase, at least 10 characters of detail)';
+  }
+
+  let expiry: Date | null = null;
+
+  if (expiresAt !== undefined && expiresAt !== null) {
+    expiry = typeof expiresAt === 'string' ? new Date(expiresAt) : null;
+
+    if (!expiry || isNaN(expiry.getTime()) || expiry <= new Date()) {
+      return 'expiresAt must be a future ISO date';
+    }
+  }
+
+  return { advancePercentage: Math.round(advancePercentage * 100) / 100, reason, expiresAt: expiry };
+};
+
+const MAX_RESPONSE_LENGTH = 2000;
+
+const handleQuoteRevisionError = (error: unknown, res: Response): boolean => {
+  if (error instanceof QuoteRevisionError) {
+    res.status(error.status).json({
+      success: false,
+      error: error.message,
+    });
+    return true;
+  }
+  return false;
+};
+
+const logPricingOverride = (
+  req: Request,
+  action: 'pricing_override_created' | 'pricing_override_revoked',
+  overrideId: string,
+  requestData: object
+) =>
+  prisma.auditLog.create({
+    data: {
+      userId: req.userId,
+      action,
+      entityType: 'pricing_override',
+      entityId: overrideId,
+      ipAddress: req.ip,
+      userAgent: req.headers['user-agent'],
+      requestData,
+      responseStatus: 200,
+    },
+  });
+
+const handlePricingOverrideError = (error: unknown, res: Response): boolean => {
+  if (error instanceof PricingOverrideError) {
+    res.status(error.status).json({
+      success: false,
+      error: error.message,
+    });
+    return true;
+  }
+  return false;
+};
+
+const INSTALLMENT_TRIGGERS = ['milestone', 'days', 'delivery'];
+
+/**
+ * Validate a payment term template body (all fields on create, any subset on update)
+ * Returns the parsed values, or an error message for a 400 response
+ */
+const parseTemplateBody = (body: Record<string, any>, partial: boolean): Partial<TemplateInput> | string => {
+  const data: Partial<TemplateInput> = {};
+
+  if (body.name !== undefined || !partial) {
+    if (typeof body.name !== 'string' || !body.name.trim() || body.name.length > 100) {
+      return 'name is required and must be at most 100 characters';
+    }
+    data.name = body.name.trim();
+  }
+
+  const keys = [
+    ['clientTier', Object.values(ClientTier)],
+    ['kybStatus', Object.values(KybStatus)],
+    ['settlementRail', Object.values(SettlementRail)],
+  ] as const;
+
+  for (const [field, allowed] of keys) {
+    if (body[field] !== undefined || !partial) {
+      if (body[field] !== undefined && body[field] !== null && !(allowed as readonly string[]).includes(body[field])) {
+        return `${field} must be null (any) or one of: ${allowed.join(', ')}`;
+      }
+      (data as Record<string, unknown>)[field] = body[field] ?? null;
+    }
+  }
+
+  if (body.advancePercentage !== undefined || !partial) {
+    if (typeof body.advancePercentage !== 'number' || !(body.advancePercentage >= 0 && body.advancePercentage <= 100)) {
+      return 'advancePercentage must be a number between 0 and 100';
+    }
+    data.advancePercentage = Math.round(body.advancePercentage * 100) / 100;
+  }
+
+  if (body.installments !== undefined || !partial) {
+    const installments = body.installments ?? [];
+
+    if (
+      !Array.isArray(installments) ||
+      installments.length > 12 ||
+      installments.some(
+        (installment: any) =>
+          typeof installment !== 'object' ||
+          installment === null ||
+          typeof installment.percentage !== 'number' ||
+          !(installment.percentage > 0) ||
+          !INSTALLMENT_TRIGGERS.includes(installment.trigger) ||
+          (installment.trigger === 'days'
+            ? !Number.isInteger(installment.dueInDays) || installment.dueInDays < 1 || installment.dueInDays > 365
+            : installment.dueInDays !== undefined && installment.dueInDays !== null)
+      )
+    ) {
+      return `installments must be up to 12 of { percentage, trigger: ${INSTALLMENT_TRIGGERS.join(' | ')}, dueInDays (1-365, only for 'days') }`;
+    }
+
+    data.installments = installments.map(
+      (installment: any): TemplateInstallment => ({
+        percentage: Math.round(installment.percentage * 100) / 100,
+        dueInDays: installment.trigger === 'days' ? installment.dueInDays : null,
+        trigger: installment.trigger,
+      })
+    );
+  }
+
+  if (body.remainingTerms !== undefined || !partial) {
+    if (body.remainingTerms !== undefined && body.remainingTerms !== null && (typeof body.remainingTerms !== 'string' || body.remainingTerms.length > 255)) {
+      return 'remainingTerms must be text of at most 255 characters';
+    }
+    data.remainingTerms = body.remainingTerms?.trim() || null;
+  }
+
+  if (body.earlyPayDiscount !== undefined || !partial) {
+    const discount = body.earlyPayDiscount ?? null;
+
+    if (
+      discount !== null &&
+      (typeof discount !== 'object' ||
+        typeof discount.percentage !== 'number' ||
+        !(discount.percentage > 0 && discount.percentage <= 50) ||
+        !Number.isInteger(discount.windowDays) ||
+        discount.windowDays < 1 ||
+        discount.windowDays > 90)
+    ) {
+      return 'earlyPayDiscount must be null or { percentage (0-50), windowDays (1-90) }';
+    }
+
+    data.earlyPayDiscountPercentage = discount ? Math.round(discount.percentage * 100) / 100 : null;
+    data.earlyPayWindowDays = discount ? discount.windowDays : null;
+  }
+
+  if (body.requiresEscrow !== undefined || !partial) {
+    if (body.requiresEscrow !== undefined && typeof body.requiresEscrow !== 'boolean') {
+      return 'requiresEscrow must be a boolean';
+    }
+    data.requiresEscrow = body.requiresEscrow ?? false;
+  }
+
+  return data;
+};
+
+const logPaymentTermTemplate = (
+  req: Request,
+  action: 'payment_term_template_created' | 'payment_term_template_updated' | 'payment_term_template_deactivated',
+  templateId: string,
+  requestData: object
+) =>
+  prisma.auditLog.create({
+    data: {
+      userId: req.userId,
+      action,
+      entityType: 'payment_term_template',
+      entityId: templateId,
+      ipAddress: req.ip,
+      userAgent: req.headers['user-agent'],
+      requestData,
+      responseStatus: 200,
+    },
+  });
+
+const handlePaymentTermsError = (error: unknown, res: Response): boolean => {
+  if (error instanceof PaymentTermsError) {
+    res.status(error.status).json({
+      success: false,
+      error: error.message,
+    });
+    return true;
+  }
+  return false;
+};
+
+/**
+ * Validate a promo code body (all fields on create; code, kind and referrer cannot change afterwards)
+ * Returns the parsed values, or an error message for a 400 response
+ */
+const parsePromoCodeBody = (
+  body: Record<string, any>,
+  partial: boolean
+): PromoCodeInput | PromoCodeUpdate | string => {
+  const data: Partial<PromoCodeInput> = {};
+
+  if (!partial) {
+    const code = typeof body.code === 'string' ? normalizePromoCode(body.code) : '';
+
+    if (!PROMO_CODE_PATTERN.test(code)) {
+      return 'code must be 3 to 40 letters, digits, dashes or underscores';
+    }
+    data.code = code;
+
+    const kind = body.kind ?? 'promo';
+
+    if (!Object.values(PromoCodeKind).includes(kind)) {
+      return `kind must be one of: ${Object.values(PromoCodeKind).join(', ')}`;
+    }
+    data.kind = kind;
+
+    if (kind === 'referral' && typeof body.referrerId !== 'string') {
+      return 'referrerId is required for referral codes';
+    }
+
+    if (kind === 'promo' && body.referrerId !== undefined && body.referrerId !== null) {
+      return 'Only referral codes have a referrerId';
+    }
+    data.referrerId = body.referrerId ?? null;
+  } else if (body.code !== undefined || body.kind !== undefined || body.referrerId !== undefined) {
+    return 'code, kind and referrerId cannot be changed; create a new code instead';
+  }
+
+  if (body.description !== undefined || !partial) {
+    if (body.description !== undefined && body.description !== null && (typeof body.description !== 'string' || body.description.length > 255)) {
+      return 'description must be at most 255 characters';
+    }
+    data.description = body.description ?? null;
+  }
+
+  if (body.discountType !== undefined || !partial) {
+    if (!Object.values(DiscountType).includes(body.discountType)) {
+      return `discountType must be one of: ${Object.values(DiscountType).join(', ')}`;
+    }
+    data.discountType = body.discountType;
+  }
+
+  if (body.discountValue !== undefined || !partial) {
+    if (typeof body.discountValue !== 'number' || !Number.isFinite(body.discountValue) || body.discountValue <= 0) {
+      return 'discountValue must be a positive number';
+    }
+    data.discountValue = Math.round(body.discountValue * 100) / 100;
+  }
+
+  if (body.clientTiers !== undefined || !partial) {
+    const clientTiers = body.clientTiers ?? [];
+
+    if (!Array.isArray(clientTiers) || clientTiers.some((tier: unknown) => !Object.values(ClientTier).includes(tier as ClientTier))) {
+      return `clientTiers must be a list of: ${Object.values(ClientTier).join(', ')}`;
+    }
+    data.clientTiers = [...new Set(clientTiers as ClientTier[])];
+  }
+
+  if (body.maxRedemptions !== undefined || !partial) {
+    if (body.maxRedemptions !== undefined && body.maxRedemptions !== null && (!Number.isInteger(body.maxRedemptions) || body.maxRedemptions < 1)) {
+      return 'maxRedemptions must be a positive whole number or null (unlimited)';
+    }
+    data.maxRedemptions = body.maxRedemptions ?? null;
+  }
+
+  if (body.expiresAt !== undefined || !partial) {
+    let expiry: Date | null = null;
+
+    if (body.expiresAt !== undefined && body.expiresAt !== null) {
+      expiry = typeof body.expiresAt === 'string' ? new Date(body.expiresAt) : null;
+
+      if (!expiry || isNaN(expiry.getTime()) || expiry <= new Date()) {
+        return 'expiresAt must be a future ISO date';
+      }
+    }
+    data.expiresAt = expiry;
+  }
+
+  return data as PromoCodeInput | PromoCodeUpdate;
+};
+
+const logPromoCode = (
+  req: Request,
+  action: 'promo_code_created' | 'promo_code_updated' | 'promo_code_deactivated',
+  promoCodeId: string,
+  requestData: object
+) =>
+  prisma.auditLog.create({
+    data: {
+      userId: req.userId,
+      action,
+      entityType: 'promo_code',
+      entityId: promoCodeId,
+      ipAddress: req.ip,
+      userAgent: req.headers['user-agent'],
+      requestData,
+      responseStatus: 200,
+    },
+  });
+
+const handlePromoCodeError = (error: unknown, res: Response): boolean => {
+  if (error instanceof PromoCodeError) {
+    res.status(error.status).json({
+      success: false,
+      error: error.message,
+    });
+    return true;
+  }
+  return false;
+};
+
+// Fields that identify a pricing row to projects and quotes, so cannot change once it exists
+const PRICING_TABLE_KEYS: Record<PricingTable, string[]> = {
+  revenue_category: ['name', 'code'],
+  company_scale: ['name', 'code'],
+  complexity_tier: ['rating'],
+  base_pricing: ['bundleId', 'revenueCategory', 'companyScale'],
+};
+
+const PRICING_TABLE_TEXT_FIELDS: Record<PricingTable, [string, number][]> = {
+  revenue_category: [['name', 100], ['code', 50]],
+  company_scale: [['name', 100], ['code', 50]],
+  complexity_tier: [['name', 100]],
+  base_pricing: [['bundleId', 100], ['bundleName', 255], ['revenueCategory', 50], ['companyScale', 50]],
+};
+
+/**
+ * Resolve the :table route segment, responding 404 for an unknown table
+ */
+const resolvePricingTable = (req: Request, res: Response): PricingTable | null => {
+  if (!Object.keys(PRICING_TABLE_PATHS).includes(req.params.table)) {
+    res.status(404).json({
+      success: false,
+      error: `Unknown pricing table; use one of: ${Object.keys(PRICING_TABLE_PATHS).join(', ')}`,
+    });
+    return null;
+  }
+  return PRICING_TABLE_PATHS[req.params.table];
+};
+
+/**
+ * Validate a pricing table row body (all fields on create, any changeable subset on update)
+ * Returns the parsed values, or an error message for a 400 response
+ */
+const parsePricingTableBody = (
+  table: PricingTable,
+  body: Record<string, any>,
+  partial: boolean
+): Record<string, any> | string => {
+  const data: Record<string, any> = {};
+  const given = (field: string) => body[field] !== undefined || !partial;
+
+  const keys = PRICING_TABLE_KEYS[table].filter((field) => body[field] !== undefined);
+
+  if (partial && keys.length > 0) {
+    return `${keys.join(', ')} cannot be changed; create a new row and retire this one instead`;
+  }
+
+  for (const [field, limit] of PRICING_TABLE_TEXT_FIELDS[table]) {
+    if (!given(field)) continue;
+
+    if (typeof body[field] !== 'string' || !body[field].trim() || body[field].length > limit) {
+      return `${field} is required and must be at most ${limit} characters`;
+    }
+    data[field] = body[field].trim();
+  }
+
+  for (const field of ['code', 'revenueCategory', 'companyScale']) {
+    if (typeof data[field] === 'string' && !PRICING_CODE_PATTERN.test(data[field])) {
+      return `${field} must be a code of lowercase letters, digits and underscores`;
+    }
+  }
+
+  if (given('description')) {
+    if (body.description !== undefined && body.description !== null && (typeof body.description !== 'string' || body.description.length > 1000)) {
+      return 'description must be at most 1000 characters';
+    }
+    data.description = body.description?.trim() || null;
+  }
+
+  if (table === 'company_scale') {
+    for (const field of ['revenueMin', 'revenueMax']) {
+      if (!given(field)) continue;
+
+      if (body[field] !== undefined && body[field] !== null && (typeof body[field] !== 'number' || !(body[field] >= 0) || body[field] > 1e13)) {
+        return `${field} must be a non-negative amount or null (unbounded)`;
+      }
+      data[field] = body[field] === undefined || body[field] === null ? null : Math.round(body[field] * 100) / 100;
+    }
+  }
+
+  const multiplierField = table === 'company_scale' ? 'multiplier' : table === 'complexity_tier' ? 'adjustmentMultiplier' : null;
+
+  if (multiplierField && given(multiplierField)) {
+    if (typeof body[multiplierField] !== 'number' || !(body[multiplierField] > 0 && body[multiplierField] <= 10)) {
+      return `${multiplierField} must be a number above 0 and at most 10`;
+    }
+    data[multiplierField] = Math.round(body[multiplierField] * 100) / 100;
+  }
+
+  if (table === 'complexity_tier' && given('rating')) {
+    if (!Number.isInteger(body.rating) || body.rating < 1 || body.rating > 10) {
+      return 'rating must be a whole number from 1 to 10';
+    }
+    data.rating = body.rating;
+  }
+
+  if (table === 'base_pricing') {
+    if (given('basePrice')) {
+      if (typeof body.basePrice !== 'number' || !(body.basePrice > 0 && body.basePrice < 1e8)) {
+        return 'basePrice must be a positive amount below 100,000,000';
+      }
+      data.basePrice = Math.round(body.basePrice * 100) / 100;
+    }
+
+    if (given('timelineWeeks')) {
+      if (body.timelineWeeks !== undefined && body.timelineWeeks !== null && (!Number.isInteger(body.timelineWeeks) || body.timelineWeeks < 1 || body.timelineWeeks > 104)) {
+        return "timelineWeeks must be 1 to 104 weeks, or null for the project type's default";
+      }
+      data.timelineWeeks = body.timelineWeeks ?? null;
+    }
+  }
+
+  return data;
+};
+
+const logPricingTable = (
+  req: Request,
+  action: 'pricing_row_created' | 'pricing_row_updated' | 'pricing_row_retired' | 'pricing_row_restored',
+  table: PricingTable,
+  recordId: string,
+  requestData: object
+) =>
+  prisma.auditLog.create({
+    data: {
+      userId: req.userId,
+      action,
+      entityType: table,
+      entityId: recordId,
+      ipAddress: req.ip,
+      userAgent: req.headers['user-agent'],
+      requestData,
+      responseStatus: 200,
+    },
+  });
+
+const handlePricingTableError = (error: unknown, res: Response): boolean => {
+  if (error instanceof PricingTableError) {
+    res.status(error.status).json({
+      success: false,
+      error: error.message,
+      ...(error.details.length > 0 && { details: error.details }),
+    });
+    return true;
+  }
+  return false;
+};
+
+/**
+ * Validate each row of a base pricing CSV the same way as a base-pricing row created through the API
+ * Returns the rows, or every problem found (by spreadsheet row) for a 400 response
+ */
+const parseBasePricingImport = (csv: string): { rows: BasePricingImportRow[]; errors: string[] } => {
+  const parsed = parseBasePricingCsv(csv);
+  if (typeof parsed === 'string') return { rows: [], errors: [parsed] };
+
+  const rows: BasePricingImportRow[] = [];
+  const errors: string[] = [];
+
+  for (const { row, values } of parsed) {
+    const data = parsePricingTableBody(
+      'base_pricing',
+      {
+        bundleId: values.bundle_id,
+        bundleName: values.bundle_name,
+        revenueCategory: values.revenue_category,
+        companyScale: values.company_scale,
+        basePrice: values.base_price === '' ? undefined : Number(values.base_price),
+        timelineWeeks: values.timeline_weeks ? Number(values.timeline_weeks) : null,
+        description: values.description || null,
+      },
+      false
+    );
+
+    if (typeof data === 'string') {
+      errors.push(`Row ${row}: ${data}`);
+      continue;
+    }
+
+    // Left-out optional columns keep each row's current value
+    if (values.timeline_weeks === undefined) delete data.timelineWeeks;
+    if (values.description === undefined) delete data.description;
+
+    rows.push({ ...(data as Omit<BasePricingImportRow, 'row'>), row });
+  }
+
+  return { rows, errors };
+};
+
+/**
+ * Validate a price book publish request
+ * Returns the parsed values, or an error message for a 400 response
+ */
+const parsePriceBookBody = (body: Record<string, any>): PriceBookInput | string => {
+  if (typeof body.name !== 'string' || !body.name.trim() || body.name.length > 100) {
+    return 'name is required (max 100 characters)';
+  }
+
+  if (body.notes !== undefined && body.notes !== null && (typeof body.notes !== 'string' || body.notes.length > 2000)) {
+    return 'notes must be at most 2000 characters';
+  }
+
+  const effectiveFrom = body.effectiveFrom === undefined || body.effectiveFrom === null ? null : new Date(body.effectiveFrom);
+
+  if (effectiveFrom && (typeof body.effectiveFrom !== 'string' || isNaN(effectiveFrom.getTime()))) {
+    return 'effectiveFrom must be an ISO date';
+  }
+
+  return { name: body.name.trim(), notes: body.notes?.trim() || null, effectiveFrom };
+};
+
+const handlePriceBookError = (error: unknown, res: Response): boolean => {
+  if (error instanceof PriceBookError) {
+    res.status(error.status).json({
+      success: false,
+      error: error.message,
+    });
+    return true;
+  }
+  return false;
+};
+
+/**
+ * Validate a new pricing rule set
+ * Returns the parsed values, or an error message for a 400 response
+ */
+const parsePricingRuleSetBody = (body: Record<string, any>): PricingRuleSetInput | string => {
+  if (typeof body.name !== 'string' || !body.name.trim() || body.name.length > 100) {
+    return 'name is required (max 100 characters)';
+  }
+
+  if (body.notes !== undefined && body.notes !== null && (typeof body.notes !== 'string' || body.notes.length > 2000)) {
+    return 'notes must be at most 2000 characters';
+  }
+
+  const rules = parsePricingRules(body.rules);
+  if (typeof rules === 'string') return rules;
+
+  return { name: body.name.trim(), notes: body.notes?.trim() || null, rules };
+};
+
+const logPricingRuleSet = (
+  req: Request,
+  action: 'pricing_rule_set_created' | 'pricing_rule_set_activated' | 'pricing_rule_set_deactivated',
+  ruleSetId: string,
+  requestData: object
+) =>
+  prisma.auditLog.create({
+    data: {
+      userId: req.userId,
+      action,
+      entityType: 'pricing_rule_set',
+      entityId: ruleSetId,
+      ipAddress: req.ip,
+      userAgent: req.headers['user-agent'],
+      requestData,
+      responseStatus: 200,
+    },
+  });
+
+const handlePricingRuleError = (error: unknown, res: Response): boolean => {
+  if (error instanceof PricingRuleError) {
+    res.status(error.status).json({
+      success: false,
+      error: error.message,
+    });
+    return true;
+  }
+  return false;
+};
+
+export const adminController = {
+  /**
+   * List users with their roles
+   * GET /api/admin/users?role=admin
+   */
+  async listUsers(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const role = req.query.role as string | undefined;
+
+      if (role && !isRole(role)) {
+        res.status(400).json({
+          success: false,
+          error: `Unknown role: ${role}`,
+        });
+        return;
+      }
+
+      const users = await prisma.user.findMany({
+        where: role && isRole(role) ? { roles: { has: role } } : {},
+        select: {
+          ...accessSelect,
+          authStage: true,
+          createdAt: true,
+          lastLogin: true,
+        },
+        orderBy: { createdAt: 'desc' },
+      });
+
+      res.json({
+        success: true,
+        users,
+      });
+    } catch (error) {
+      console.error('List users error:', error);
+      next(error);
+    }
+  },
+
+  /**
+   * Get a user's roles and effective permissions
+   * GET /api/admin/users/:userId/access
+   */
+  async getUserAccess(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { userId } = req.params;
+
+      const user = await prisma.user.findUnique({
+        where: { id: userId },
+        select: accessSelect,
+      });
+
+      if (!user) {
+        res.status(404).json({
+          success: false,
+          error: 'User not found',
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        user,
+        effectivePermissions: resolvePermissions(user.roles, user.permissions),
+        identities: await identityService.listIdentities(userId),
+      });
+    } catch (error) {
+      console.error('Get user access error:', error);
+      next(error);
+    }
+  },
+
+  /**
+   * Grant a role to a user
+   * POST /api/admin/users/:userId/roles
+   * Body: { role: 'user' | 'admin' | 'ops' | 'finance' }
+   */
+  async grantRole(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { userId } = req.params;
+      const { role } = req.body;
+
+      if (!isRole(role)) {
+        res.status(400).json({
+          success: false,
+          error: 'role must be one of: user, admin, ops, finance',
+        });
+        return;
+      }
+
+      const user = await prisma.user.findUnique({
+        where: { id: userId },
+        select: { roles: true },
+      });
+
+      if (!user) {
+        res.status(404).json({
+          success: false,
+          error: 'User not found',
+        });
+        return;
+      }
+
+      if (user.roles.includes(role)) {
+        res.status(409).json({
+          success: false,
+          error: `User already has role: ${role}`,
+        });
+        return;
+      }
+
+      const updatedUser = await prisma.user.update({
+        where: { id: userId },
+        data: { roles: { push: role } },
+        select: accessSelect,
+      });
+
+      await prisma.auditLog.create({
+        data: {
+          userId: req.userId,
+          action: 'role_granted',
+          entityType: 'user',
+          entityId: userId,
+          ipAddress: req.ip,
+          userAgent: req.headers['user-agent'],
+          requestData: { role },
+          responseStatus: 200,
+        },
+      });
+
+      res.json({
+        success: true,
+        message: `Role ${role} granted`,
+        user: updatedUser,
+      });
+    } catch (error) {
+      console.error('Grant role error:', error);
+      next(error);
+    }
+  },
+
+  /**
+   * Revoke a role from a user
+   * DELETE /api/admin/users/:userId/roles/:role
+   */
+  async revokeRole(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { userId, role } = req.params;
+
+      if (!isRole(role)) {
+        res.status(400).json({
+          success: false,
+          error: `Unknown role: ${role}`,
+        });
+        return;
+      }
+
+      // Prevent admins from locking themselves out
+      if (userId === req.userId && role === 'admin') {
+        res.status(400).json({
+          success: false,
+          error: 'You cannot revoke your own admin role',
+        });
+        return;
+      }
+
+      const user = await prisma.user.findUnique({
+        where: { id: userId },
+        select: { roles: true },
+      });
+
+      if (!user) {
+        res.status(404).json({
+          success: false,
+          error: 'User not found',
+        });
+        return;
+      }
+
+      if (!user.roles.includes(role)) {
+        res.status(404).json({
+          success: false,
+          error: `User does not have role: ${role}`,
+        });
+        return;
+      }
+
+      const updatedUser = await prisma.user.update({
+        where: { id: userId },
+        data: { roles: { set: user.roles.filter((r) => r !== role) } },
+        select: accessSelect,
+      });
+
+      await prisma.auditLog.create({
+        data: {
+          userId: req.userId,
+          action: 'role_revoked',
+          entityType: 'user',
+          entityId: userId,
+          ipAddress: req.ip,
+          userAgent: req.headers['user-agent'],
+          requestData: { role },
+          responseStatus: 200,
+        },
+      });
+
+      res.json({
+        success: true,
+        message: `Role ${role} revoked`,
+        user: updatedUser,
+      });
+    } catch (error) {
+      console.error('Revoke role error:', error);
+      next(error);
+    }
+  },
+
+  /**
+   * Grant a direct permission to a user
+   * POST /api/admin/users/:userId/permissions
+   * Body: { permission: string }
+   */
+  async grantPermission(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { userId } = req.params;
+      const { permission } = req.body;
+
+      if (!isPermission(permission)) {
+        res.status(400).json({
+          success: false,
+          error: `Unknown permission: ${permission}`,
+        });
+        return;
+      }
+
+      const user = await prisma.user.findUnique({
+        where: { id: userId },
+        select: { permissions: true },
+      });
+
+      if (!user) {
+        res.status(404).json({
+          success: false,
+          error: 'User not found',
+        });
+        return;
+      }
+
+      if (user.permissions.includes(permission)) {
+        res.status(409).json({
+          success: false,
+          error: `User already has permission: ${permission}`,
+        });
+        return;
+      }
+
+      const updatedUser = await prisma.user.update({
+        where: { id: userId },
+        data: { permissions: { push: permission } },
+        select: accessSelect,
+      });
+
+      await prisma.auditLog.create({
+        data: {
+          userId: req.userId,
+          action: 'permission_granted',
+          entityType: 'user',
+          entityId: userId,
+          ipAddress: req.ip,
+          userAgent: req.headers['user-agent'],
+          requestData: { permission },
+          responseStatus: 200,
+        },
+      });
+
+      res.json({
+        success: true,
+        message: `Permission ${permission} granted`,
+        user: updatedUser,
+      });
+    } catch (error) {
+      console.error('Grant permission error:', error);
+      next(error);
+    }
+  },
+
+  /**
+   * Revoke a direct permission from a user
+   * DELETE /api/admin/users/:userId/permissions/:permission
+   */
+  async revokePermission(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { userId, permission } = req.params;
+
+      const user = await prisma.user.findUnique({
+        where: { id: userId },
+        select: { permissions: true },
+      });
+
+      if (!user) {
+        res.status(404).json({
+          success: false,
+          error: 'User not found',
+        });
+        return;
+      }
+
+      if (!user.permissions.includes(permission)) {
+        res.status(404).json({
+          success: false,
+          error: `User does not have permission: ${permission}`,
+        });
+        return;
+      }
+
+      const updatedUser = await prisma.user.update({
+        where: { id: userId },
+        data: { permissions: { set: user.permissions.filter((p) => p !== permission) } },
+        select: accessSelect,
+      });
+
+      await prisma.auditLog.create({
+        data: {
+          userId: req.userId,
+          action: 'permission_revoked',
+          entityType: 'user',
+          entityId: userId,
+          ipAddress: req.ip,
+          userAgent: req.headers['user-agent'],
+          requestData: { permission },
+          responseStatus: 200,
+        },
+      });
+
+      res.json({
+        success: true,
+        message: `Permission ${permission} revoked`,
+        user: updatedUser,
+      });
+    } catch (error) {
+      console.error('Revoke permission error:', error);
+      next(error);
+    }
+  },
+
+  /**
+   * List a user's active sessions
+   * GET /api/admin/users/:userId/sessions
+   */
+  async listUserSessions(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { userId } = req.params;
+
+      const sessions = await sessionService.listActiveSessions(userId);
+
+      res.json({
+        success: true,
+        sessions,
+      });
+    } catch (error) {
+      console.error('List user sessions error:', error);
+      next(error);
+    }
+  },
+
+  /**
+   * Revoke every session of a user, forcing re-login everywhere
+   * DELETE /api/admin/users/:userId/sessions
+   */
+  async revokeUserSessions(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { userId } = req.params;
+
+      const revoked = await sessionService.revokeAllSessions(userId, 'admin_revoked');
+
+      await prisma.auditLog.create({
+        data: {
+          userId: req.userId,
+          action: 'sessions_revoked',
+          entityType: 'user',
+          entityId: userId,
+          ipAddress: req.ip,
+          userAgent: req.headers['user-agent'],
+          requestData: { revoked },
+          responseStatus: 200,
+        },
+      });
+
+      res.json({
+        success: true,
+        message: `${revoked} session(s) revoked`,
+        revoked,
+      });
+    } catch (error) {
+      console.error('Revoke user sessions error:', error);
+      next(error);
+    }
+  },
+
+  /**
+   * Revoke a single session
+   * DELETE /api/admin/sessions/:sessionId
+   */
+  async revokeSession(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { sessionId } = req.params;
+
+      const session = await prisma.authSession.findUnique({
+        where: { id: sessionId },
+        select: { userId: true },
+      });
+
+      if (!session) {
+        res.status(404).json({
+          success: false,
+          error: 'Session not found',
+        });
+        return;
+      }
+
+      await sessionService.revokeSession(sessionId, 'admin_revoked');
+
+      await prisma.auditLog.create({
+        data: {
+          userId: req.userId,
+          action: 'session_revoked',
+          entityType: 'session',
+          entityId: sessionId,
+          ipAddress: req.ip,
+          userAgent: req.headers['user-agent'],
+          requestData: { targetUserId: session.userId },
+          responseStatus: 200,
+        },
+      });
+
+      res.json({
+        success: true,
+        message: 'Session revoked',
+      });
+    } catch (error) {
+      console.error('Revoke session error:', error);
+      next(error);
+    }
+  },
+
+  /**
+   * Reset a user's two-factor enrolment so they can enrol again
+   * DELETE /api/admin/users/:userId/2fa
+   */
+  async resetTwoFactor(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { userId } = req.params;
+
+      const status = await totpService.getStatus(userId);
+
+      if (!status.enabled) {
+        res.status(404).json({
+          success: false,
+          error: 'Two-factor authentication is not enabled for this user',
+        });
+        return;
+      }
+
+      await totpService.disable(userId);
+
+      await prisma.auditLog.create({
+        data: {
+          userId: req.userId,
+          action: 'two_factor_reset',
+          entityType: 'user',
+          entityId: userId,
+          ipAddress: req.ip,
+          userAgent: req.headers['user-agent'],
+          responseStatus: 200,
+        },
+      });
+
+      res.json({
+        success: true,
+        message: 'Two-factor authentication reset',
+      });
+    } catch (error) {
+      console.error('Reset two-factor error:', error);
+      next(error);
+    }
+  },
+
+  /**
+   * Merge another account into this user
+   * POST /api/admin/users/:userId/merge
+   * Body: { sourceUserId: string }
+   */
+  async mergeUsers(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { userId } = req.params;
+      const { sourceUserId } = req.body;
+
+      if (!sourceUserId) {
+        res.status(400).json({
+          success: false,
+          error: 'sourceUserId is required',
+        });
+        return;
+      }
+
+      const result = await identityService.mergeUsers(userId, sourceUserId, {
+        reason: 'admin_merge',
+        performedBy: req.userId,
+        ipAddress: req.ip,
+        userAgent: req.headers['user-agent'],
+      });
+
+      res.json({
+        success: true,
+        message: 'Accounts merged',
+        mergeId: result.mergeId,
+        movedRecords: result.movedRecords,
+        user: {
+          id: result.user.id,
+          email: result.user.email,
+          walletAddress: result.user.walletAddress,
+          roles: result.user.roles,
+        },
+      });
+    } catch (error) {
+      if (error instanceof IdentityError) {
+        res.status(error.status).json({
+          success: false,
+          error: error.message,
+        });
+        return;
+      }
+      console.error('Merge users error:', error);
+      next(error);
+    }
+  },
+
+  /**
+   * List account merges, optionally for one user (as target or source)
+   * GET /api/admin/merges?userId=
+   */
+  async listMerges(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const userId = req.query.userId as string | undefined;
+
+      const merges = await prisma.accountMerge.findMany({
+        where: userId ? { OR: [{ targetUserId: userId }, { sourceUserId: userId }] } : {},
+        orderBy: { createdAt: 'desc' },
+        take: 100,
+      });
+
+      res.json({
+        success: true,
+        merges,
+      });
+    } catch (error) {
+      console.error('List merges error:', error);
+      next(error);
+    }
+  },
+
+  /**
+   * Export everything stored about a user (e.g. to answer a data access request)
+   * GET /api/admin/users/:userId/export
+   */
+  async exportUserData(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { userId } = req.params;
+
+      const archive = await privacyService.exportUserData(userId);
+
+      await prisma.auditLog.create({
+        data: {
+          userId: req.userId,
+          action: 'personal_data_exported',
+          entityType: 'user',
+          entityId: userId,
+          ipAddress: req.ip,
+          userAgent: req.headers['user-agent'],
+          responseStatus: 200,
+        },
+      });
+
+      res.json({
+        success: true,
+        archive,
+      });
+    } catch (error) {
+      if (error instanceof PrivacyError) {
+        res.status(error.status).json({
+          success: false,
+          error: error.message,
+        });
+        return;
+      }
+      console.error('Export user data error:', error);
+      next(error);
+    }
+  },
+
+  /**
+   * Erase a user's personal data on their behalf
+   * POST /api/admin/users/:userId/erase
+   */
+  async eraseUser(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { userId } = req.params;
+
+      const result = await privacyService.eraseUser(userId, { performedBy: req.userId });
+
+      res.json({
+        success: true,
+        message: 'Personal data erased',
+        ...result,
+      });
+    } catch (error) {
+      if (error instanceof PrivacyError) {
+        res.status(error.status).json({
+          success: false,
+          error: error.message,
+        });
+        return;
+      }
+      console.error('Erase user error:', error);
+      next(error);
+    }
+  },
+
+  /**
+   * Start viewing the app as another user
+   * POST /api/admin/users/:userId/impersonate
+   * Body: { reason: string }
+   */
+  async startImpersonation(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { userId } = req.params;
+      const reason = typeof req.body.reason === 'string' ? req.body.reason.trim() : '';
+
+      if (!reason) {
+        res.status(400).json({
+          success: false,
+          error: 'A reason is required to impersonate a user',
+        });
+        return;
+      }
+
+      if (userId === req.userId) {
+        res.status(400).json({
+          success: false,
+          error: 'You cannot impersonate yourself',
+        });
+        return;
+      }
+
+      const target = await prisma.user.findUnique({
+        where: { id: userId },
+        select: { id: true, email: true, authStage: true, roles: true, erasedAt: true },
+      });
+
+      if (!target || target.erasedAt) {
+        res.status(404).json({
+          success: false,
+          error: 'User not found',
+        });
+        return;
+      }
+
+      // Impersonating staff would hand out their access, so only client accounts qualify
+      if (target.roles.some((role) => role !== 'user')) {
+        res.status(403).json({
+          success: false,
+          error: 'Staff accounts cannot be impersonated',
+        });
+        return;
+      }
+
+      const { sessionId, accessToken, expiresAt } = await sessionService.createImpersonationSession(
+        target,
+        req.userId!,
+        reason.slice(0, 255),
+        { ipAddress: req.ip, userAgent: req.headers['user-agent'] }
+      );
+
+      await prisma.auditLog.create({
+        data: {
+          userId: req.userId,
+          action: 'impersonation_started',
+          entityType: 'user',
+          entityId: target.id,
+          ipAddress: req.ip,
+          userAgent: req.headers['user-agent'],
+          requestData: { sessionId, reason, expiresAt },
+          responseStatus: 200,
+        },
+      });
+
+      res.json({
+        success: true,
+        token: accessToken,
+        sessionId,
+        expiresAt,
+        user: {
+          id: target.id,
+          email: target.email,
+          roles: target.roles,
+        },
+      });
+    } catch (error) {
+      console.error('Start impersonation error:', error);
+      next(error);
+    }
+  },
+
+  /**
+   * End the impersonation session making the request
+   * POST /api/admin/impersonation/stop
+   */
+  async stopImpersonation(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.impersonatorId || !req.sessionId) {
+        res.status(400).json({
+          success: false,
+          error: 'Not currently impersonating',
+        });
+        return;
+      }
+
+      await sessionService.revokeSession(req.sessionId, 'impersonation_stopped');
+
+      await prisma.auditLog.create({
+        data: {
+          userId: req.impersonatorId,
+          action: 'impersonation_stopped',
+          entityType: 'user',
+          entityId: req.userId,
+          ipAddress: req.ip,
+          userAgent: req.headers['user-agent'],
+          requestData: { sessionId: req.sessionId },
+          responseStatus: 200,
+        },
+      });
+
+      res.json({
+        success: true,
+        message: 'Impersonation ended',
+      });
+    } catch (error) {
+      console.error('Stop impersonation error:', error);
+      next(error);
+    }
+  },
+
+  /**
+   * List impersonation sessions, optionally for one target user or impersonator
+   * GET /api/admin/impersonations?userId=&impersonatorId=
+   */
+  async listImpersonations(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const userId = req.query.userId as string | undefined;
+      const impersonatorId = req.query.impersonatorId as string | undefined;
+
+      const sessions = await prisma.authSession.findMany({
+        where: {
+          impersonatorId: impersonatorId || { not: null },
+          ...(userId && { userId }),
+        },
+        select: {
+          id: true,
+          userId: true,
+          impersonatorId: true,
+          impersonationReason: true,
+          ipAddress: true,
+          createdAt: true,
+          expiresAt: true,
+          revokedAt: true,
+          revokedReason: true,
+        },
+        orderBy: { createdAt: 'desc' },
+        take: 100,
+      });
+
+      res.json({
+        success: true,
+        sessions,
+      });
+    } catch (error) {
+      console.error('List impersonations error:', error);
+      next(error);
+    }
+  },
+
+  /**
+   * Move a project to another status through the lifecycle rules
+   * POST /api/admin/projects/:projectId/status
+   * Body: { status: ProjectStatus, reason?: string }
+   */
+  async transitionProject(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { projectId } = req.params;
+      const { status, reason } = req.body;
+
+      if (!Object.values(ProjectStatus).includes(status)) {
+        res.status(400).json({
+          success: false,
+          error: `status must be one of: ${Object.values(ProjectStatus).join(', ')}`,
+        });
+        return;
+      }
+
+      if (reason !== undefined && (typeof reason !== 'string' || reason.length > 500)) {
+        res.status(400).json({
+          success: false,
+          error: 'reason must be a string of at most 500 characters',
+        });
+        return;
+      }
+
+      const project = await prisma.projectAssessment.findUnique({
+        where: { id: projectId },
+        select: { status: true },
+      });
+
+      if (!project) {
+        res.status(404).json({
+          success: false,
+          error: 'Project not found',
+        });
+        return;
+      }
+
+      if (project.status === status) {
+        res.status(400).json({
+          success: false,
+          error: `Project is already ${status}`,
+        });
+        return;
+      }
+
+      const updated = await projectLifecycleService.transition(projectId, status, {
+        actorId: req.userId,
+        reason: reason?.trim() || null,
+      });
+
+      await prisma.auditLog.create({
+        data: {
+          userId: req.userId,
+          action: 'project_status_changed',
+          entityType: 'project',
+          entityId: projectId,
+          ipAddress: req.ip,
+          userAgent: req.headers['user-agent'],
+          requestData: { from: project.status, to: status, reason },
+          responseStatus: 200,
+        },
+      });
+
+      res.json({
+        success: true,
+        message: `Project moved to ${status}`,
+        project: updated,
+      });
+    } catch (error) {
+      if (error instanceof ProjectTransitionError) {
+        res.status(error.status).json({
+          success: false,
+          error: error.message,
+        });
+        return;
+      }
+      console.error('Transition project error:', error);
+      next(error);
+    }
+  },
+
+  /**
+   * Status history of any project
+   * GET /api/admin/projects/:projectId/timeline
+   */
+  async getProjectTimeline(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { projectId } = req.params;
+
+      const project = await prisma.projectAssessment.findUnique({
+        where: { id: projectId },
+        select: { status: true, archivedAt: true },
+      });
+
+      if (!project) {
+        res.status(404).json({
+          success: false,
+          error: 'Project not found',
+        });
+        return;
+      }
+
+      const timeline = await projectLifecycleService.getTimeline(projectId);
+
+      res.json({
+        success: true,
+        status: project.status,
+        nextStatuses: project.archivedAt ? [] : PROJECT_TRANSITIONS[project.status],
+        timeline,
+      });
+    } catch (error) {
+      console.error('Get project timeline error:', error);
+      next(error);
+    }
+  },
+
+  /**
+   * Client counter-offers awaiting (or past) a response
+   * GET /api/admin/quote-counter-offers?status=
+   */
+  async listCounterOffers(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const status = (req.query.status as string | undefined) ?? 'open';
+
+      if (!Object.values(CounterOfferStatus).includes(status as CounterOfferStatus)) {
+        res.status(400).json({
+          success: false,
+          error: `status must be one of: ${Object.values(CounterOfferStatus).join(', ')}`,
+        });
+        return;
+      }
+
+      const counterOffers = await quoteRevisionService.listCounterOffers(status as CounterOfferStatus);
+
+      res.json({
+        success: true,
+        counterOffers,
+      });
+    } catch (error) {
+      console.error('List counter-offers error:', error);
+      next(error);
+    }
+  },
+
+  /**
+   * Issue a new revision of an open quote
+   * POST /api/admin/quotes/:quoteId/revise
+   * Body: { totalEstimate?: number, notToExceed?: number, estimatedTimelineWeeks?: number, comment?: string }
+   */
+  async reviseQuote(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { quoteId } = req.params;
+      const { totalEstimate, notToExceed, estimatedTimelineWeeks, comment } = req.body;
+
+      for (const [field, value] of Object.entries({ totalEstimate, notToExceed })) {
+        if (value !== undefined && (typeof value !== 'number' || !(value > 0))) {
+          res.status(400).json({
+            success: false,
+            error: `${field} must be a positive number`,
+          });
+          return;
+        }
+      }
+
+      if (
+        estimatedTimelineWeeks !== undefined &&
+        (!Number.isInteger(estimatedTimelineWeeks) || estimatedTimelineWeeks < 1 || estimatedTimelineWeeks > 104)
+      ) {
+        res.status(400).json({
+          success: false,
+          error: 'estimatedTimelineWeeks must be a whole number of weeks between 1 and 104',
+        });
+        return;
+      }
+
+      if (comment !== undefined && (typeof comment !== 'string' || comment.length > MAX_RESPONSE_LENGTH)) {
+        res.status(400).json({
+          success: false,
+          error: `comment must be a string of at most ${MAX_RESPONSE_LENGTH} characters`,
+        });
+        return;
+      }
+
+      const result = await quoteRevisionService.reviseQuote(quoteId, req.userId!, {
+        totalEstimate,
+        notToExceed,
+        estimatedTimelineWeeks,
+        comment: comment?.trim() || null,
+      });
+
+      await prisma.auditLog.create({
+        data: {
+          userId: req.userId,
+          action: 'quote_revised',
+          entityType: 'quote',
+          entityId: result.quote.id,
+          ipAddress: req.ip,
+          userAgent: req.headers['user-agent'],
+          requestData: {
+            supersededQuoteId: result.supersededQuoteId,
+            revision: result.quote.revision,
+            totalEstimate,
+            notToExceed,
+            estimatedTimelineWeeks,
+            answeredCounterOfferIds: result.answeredCounterOfferIds,
+          },
+          responseStatus: 200,
+        },
+      });
+
+      res.status(201).json({
+        success: true,
+        message: `Revision ${result.quote.revision} issued`,
+        ...result,
+      });
+    } catch (error) {
+      if (handleQuoteRevisionError(error, res)) return;
+      console.error('Revise quote error:', error);
+      next(error);
+    }
+  },
+
+  /**
+   * Reject a client counter-offer
+   * POST /api/admin/quote-counter-offers/:counterOfferId/reject
+   * Body: { response?: string }
+   */
+  async rejectCounterOffer(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { counterOfferId } = req.params;
+      const { response } = req.body;
+
+      if (response !== undefined && (typeof response !== 'string' || response.length > MAX_RESPONSE_LENGTH)) {
+        res.status(400).json({
+          success: false,
+          error: `response must be a string of at most ${MAX_RESPONSE_LENGTH} characters`,
+        });
+        return;
+      }
+
+      const counterOffer = await quoteRevisionService.rejectCounterOffer(
+        counterOfferId,
+        req.userId!,
+        response?.trim() || null
+      );
+
+      await prisma.auditLog.create({
+        data: {
+          userId: req.userId,
+          action: 'quote_counter_rejected',
+          entityType: 'quote',
+          entityId: counterOffer.quoteId,
+          ipAddress: req.ip,
+          userAgent: req.headers['user-agent'],
+          requestData: { counterOfferId },
+          responseStatus: 200,
+        },
+      });
+
+      res.json({
+        success: true,
+        message: 'Counter-offer rejected',
+        counterOffer,
+      });
+    } catch (error) {
+      if (handleQuoteRevisionError(error, res)) return;
+      console.error('Reject counter-offer error:', error);
+      next(error);
+    }
+  },
+
+  /**
+   * Run quote expiry and reminders immediately
+   * POST /api/admin/quotes/expiry/run
+   */
+  async runQuoteExpiry(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const result = await quoteExpiryService.run();
+
+      await prisma.auditLog.create({
+        data: {
+          userId: req.userId,
+          action: 'quote_expiry_run',
+          entityType: 'quote',
+          ipAddress: req.ip,
+          userAgent: req.headers['user-agent'],
+          requestData: { ...result },
+          responseStatus: 200,
+        },
+      });
+
+      res.json({
+        success: true,
+        ...result,
+      });
+    } catch (error) {
+      console.error('Quote expiry run error:', error);
+      next(error);
+    }
+  },
+
+  /**
+   * Set the advance (deposit) percentage for a project's open and future quotes
+   * POST /api/admin/projects/:projectId/pricing-override
+   * Body: { advancePercentage: number, reason: string, expiresAt?: string }
+   */
+  async createProjectPricingOverride(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { projectId } = req.params;
+      const parsed = parseOverrideBody(req.body);
+
+      if (typeof parsed === 'string') {
+        res.status(400).json({
+          success: false,
+          error: parsed,
+        });
+        return;
+      }
+
+      const { override, affectedQuoteIds } = await pricingOverrideService.createOverride({
+        projectId,
+        ...parsed,
+        approvedBy: req.userId!,
+      });
+
+      await logPricingOverride(req, 'pricing_override_created', override.id, {
+        projectId,
+        ...parsed,
+        affectedQuoteIds,
+      });
+
+      res.status(201).json({
+        success: true,
+        message: `Advance set to ${parsed.advancePercentage}% for this project`,
+        override: { ...override, advancePercentage: parsed.advancePercentage },
+        affectedQuoteIds,
+      });
+    } catch (error) {
+      if (handlePricingOverrideError(error, res)) return;
+      console.error('Create project pricing override error:', error);
+      next(error);
+    }
+  },
+
+  /**
+   * Set the advance (deposit) percentage for a single open quote
+   * POST /api/admin/quotes/:quoteId/pricing-override
+   * Body: { advancePercentage: number, reason: string, expiresAt?: string }
+   */
+  async createQuotePricingOverride(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { quoteId } = req.params;
+      const parsed = parseOverrideBody(req.body);
+
+      if (typeof parsed === 'string') {
+        res.status(400).json({
+          success: false,
+          error: parsed,
+        });
+        return;
+      }
+
+      const quote = await prisma.projectQuote.findUnique({
+        where: { id: quoteId },
+        select: { projectId: true },
+      });
+
+      if (!quote) {
+        res.status(404).json({
+          success: false,
+          error: 'Quote not found',
+        });
+        return;
+      }
+
+      const { override } = await pricingOverrideService.createOverride({
+        projectId: quote.projectId,
+        quoteId,
+        ...parsed,
+        approvedBy: req.userId!,
+      });
+
+      await logPricingOverride(req, 'pricing_override_created', override.id, {
+        projectId: quote.projectId,
+        quoteId,
+        ...parsed,
+      });
+
+      res.status(201).json({
+        success: true,
+        message: `Advance set to ${parsed.advancePercentage}% for this quote`,
+        override: { ...override, advancePercentage: parsed.advancePercentage },
+      });
+    } catch (error) {
+      if (handlePricingOverrideError(error, res)) return;
+      console.error('Create quote pricing override error:', error);
+      next(error);
+    }
+  },
+
+  /**
+   * Revoke a pricing override; open quotes fall back to the project override or default terms
+   * DELETE /api/admin/pricing-overrides/:overrideId
+   */
+  async revokePricingOverride(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { overrideId } = req.params;
+
+      const { override, affectedQuoteIds } = await pricingOverrideService.revokeOverride(overrideId, req.userId!);
+
+      await logPricingOverride(req, 'pricing_override_revoked', overrideId, {
+        projectId: override.projectId,
+        quoteId: override.quoteId,
+        affectedQuoteIds,
+      });
+
+      res.json({
+        success: true,
+        message: 'Pricing override revoked',
+        affectedQuoteIds,
+      });
+    } catch (error) {
+      if (handlePricingOverrideError(error, res)) return;
+      console.error('Revoke pricing override error:', error);
+      next(error);
+    }
+  },
+
+  /**
+   * List pricing overrides, newest first
+   * GET /api/admin/pricing-overrides?projectId=&active=true
+   */
+  async listPricingOverrides(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const projectId = typeof req.query.projectId === 'string' ? req.query.projectId : undefined;
+
+      const overrides = await pricingOverrideService.listOverrides({
+        projectId,
+        activeOnly: req.query.active === 'true',
+      });
+
+      res.json({
+        success: true,
+        overrides,
+      });
+    } catch (error) {
+      console.error('List pricing overrides error:', error);
+      next(error);
+    }
+  },
+
+  /**
+   * Set a project's client tier and KYB status; its open quotes are re-termed
+   * PATCH /api/admin/projects/:projectId/billing-profile
+   * Body: { clientTier?: ClientTier | null, kybStatus?: KybStatus }
+   */
+  async updateProjectBillingProfile(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { projectId } = req.params;
+      const { clientTier, kybStatus } = req.body;
+
+      if (clientTier !== undefined && clientTier !== null && !Object.values(ClientTier).includes(clientTier)) {
+        res.status(400).json({
+          success: false,
+          error: `clientTier must be null or one of: ${Object.values(ClientTier).join(', ')}`,
+        });
+        return;
+      }
+
+      if (kybStatus !== undefined && !Object.values(KybStatus).includes(kybStatus)) {
+        res.status(400).json({
+          success: false,
+          error: `kybStatus must be one of: ${Object.values(KybStatus).join(', ')}`,
+        });
+        return;
+      }
+
+      if (clientTier === undefined && kybStatus === undefined) {
+        res.status(400).json({
+          success: false,
+          error: 'No fields to update',
+        });
+        return;
+      }
+
+      const existing = await prisma.projectAssessment.findUnique({
+        where: { id: projectId },
+        select: { clientTier: true, kybStatus: true },
+      });
+
+      if (!existing) {
+        res.status(404).json({
+          success: false,
+          error: 'Project not found',
+        });
+        return;
+      }
+
+      const { project, affectedQuoteIds } = await paymentTermsService.updateBillingProfile(projectId, {
+        ...(clientTier !== undefined && { clientTier }),
+        ...(kybStatus !== undefined && { kybStatus }),
+      });
+
+      await prisma.auditLog.create({
+        data: {
+          userId: req.userId,
+          action: 'project_billing_profile_updated',
+          entityType: 'project',
+          entityId: projectId,
+          ipAddress: req.ip,
+          userAgent: req.headers['user-agent'],
+          requestData: { from: existing, to: { clientTier: project.clientTier, kybStatus: project.kybStatus }, affectedQuoteIds },
+          responseStatus: 200,
+        },
+      });
+
+      res.json({
+        success: true,
+        message: 'Billing profile updated',
+        project,
+        affectedQuoteIds,
+      });
+    } catch (error) {
+      console.error('Update project billing profile error:', error);
+      next(error);
+    }
+  },
+
+  /**
+   * List payment term templates (active only unless ?includeInactive=true)
+   * GET /api/admin/payment-term-templates
+   */
+  async listPaymentTermTemplates(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const templates = await paymentTermsService.listTemplates(req.query.includeInactive === 'true');
+
+      res.json({
+        success: true,
+        templates,
+      });
+    } catch (error) {
+      console.error('List payment term templates error:', error);
+      next(error);
+    }
+  },
+
+  /**
+   * Create a payment term template
+   * POST /api/admin/payment-term-templates
+   */
+  async createPaymentTermTemplate(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const parsed = parseTemplateBody(req.body, false);
+
+      if (typeof parsed === 'string') {
+        res.status(400).json({
+          success: false,
+          error: parsed,
+        });
+        return;
+      }
+
+      const template = await paymentTermsService.createTemplate(parsed as TemplateInput, req.userId!);
+
+      await logPaymentTermTemplate(req, 'payment_term_template_created', template.id, parsed);
+
+      res.status(201).json({
+        success: true,
+        message: 'Payment term template created',
+        template,
+      });
+    } catch (error) {
+      if (handlePaymentTermsError(error, res)) return;
+      console.error('Create payment term template error:', error);
+      next(error);
+    }
+  },
+
+  /**
+   * Update a payment term template (quotes keep the terms they were issued with)
+   * PATCH /api/admin/payment-term-templates/:templateId
+   */
+  async updatePaymentTermTemplate(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { templateId } = req.params;
+      const parsed = parseTemplateBody(req.body, true);
+
+      if (typeof parsed === 'string') {
+        res.status(400).json({
+          success: false,
+          error: parsed,
+        });
+        return;
+      }
+
+      if (Object.keys(parsed).length === 0) {
+        res.status(400).json({
+          success: false,
+          error: 'No fields to update',
+        });
+        return;
+      }
+
+      const template = await paymentTermsService.updateTemplate(templateId, parsed);
+
+      await logPaymentTermTemplate(req, 'payment_term_template_updated', templateId, parsed);
+
+      res.json({
+        success: true,
+        message: 'Payment term template updated',
+        template,
+      });
+    } catch (error) {
+      if (handlePaymentTermsError(error, res)) return;
+      console.error('Update payment term template error:', error);
+      next(error);
+    }
+  },
+
+  /**
+   * Stop offering a payment term template
+   * DELETE /api/admin/payment-term-templates/:templateId
+   */
+  async deactivatePaymentTermTemplate(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { templateId } = req.params;
+
+      await paymentTermsService.deactivateTemplate(templateId);
+
+      await logPaymentTermTemplate(req, 'payment_term_template_deactivated', templateId, {});
+
+      res.json({
+        success: true,
+        message: 'Payment term template deactivated',
+      });
+    } catch (error) {
+      if (handlePaymentTermsError(error, res)) return;
+      console.error('Deactivate payment term template error:', error);
+      next(error);
+    }
+  },
+
+  /**
+   * List promo and referral codes (active only unless ?includeInactive=true)
+   * GET /api/admin/promo-codes?kind=referral
+   */
+  async listPromoCodes(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const kind = req.query.kind as string | undefined;
+
+      if (kind && !Object.values(PromoCodeKind).includes(kind as PromoCodeKind)) {
+        res.status(400).json({
+          success: false,
+          error: `kind must be one of: ${Object.values(PromoCodeKind).join(', ')}`,
+        });
+        return;
+      }
+
+      const promoCodes = await promoCodeService.listCodes({
+        kind: kind as PromoCodeKind | undefined,
+        includeInactive: req.query.includeInactive === 'true',
+      });
+
+      res.json({
+        success: true,
+        promoCodes,
+      });
+    } catch (error) {
+      console.error('List promo codes error:', error);
+      next(error);
+    }
+  },
+
+  /**
+   * Create a promo code, or a referral code crediting a user
+   * POST /api/admin/promo-codes
+   */
+  async createPromoCode(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const parsed = parsePromoCodeBody(req.body, false);
+
+      if (typeof parsed === 'string') {
+        res.status(400).json({
+          success: false,
+          error: parsed,
+        });
+        return;
+      }
+
+      const promoCode = await promoCodeService.createCode(parsed as PromoCodeInput, req.userId!);
+
+      await logPromoCode(req, 'promo_code_created', promoCode.id, parsed);
+
+      res.status(201).json({
+        success: true,
+        message: 'Promo code created',
+        promoCode,
+      });
+    } catch (error) {
+      if (handlePromoCodeError(error, res)) return;
+      console.error('Create promo code error:', error);
+      next(error);
+    }
+  },
+
+  /**
+   * Update a promo code's discount or restrictions (issued quotes keep their discount)
+   * PATCH /api/admin/promo-codes/:promoCodeId
+   */
+  async updatePromoCode(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { promoCodeId } = req.params;
+      const parsed = parsePromoCodeBody(req.body, true);
+
+      if (typeof parsed === 'string') {
+        res.status(400).json({
+          success: false,
+          error: parsed,
+        });
+        return;
+      }
+
+      if (Object.keys(parsed).length === 0) {
+        res.status(400).json({
+          success: false,
+          error: 'No fields to update',
+        });
+        return;
+      }
+
+      const promoCode = await promoCodeService.updateCode(promoCodeId, parsed);
+
+      await logPromoCode(req, 'promo_code_updated', promoCodeId, parsed);
+
+      res.json({
+        success: true,
+        message: 'Promo code updated',
+        promoCode,
+      });
+    } catch (error) {
+      if (handlePromoCodeError(error, res)) return;
+      console.error('Update promo code error:', error);
+      next(error);
+    }
+  },
+
+  /**
+   * Stop accepting a promo code
+   * DELETE /api/admin/promo-codes/:promoCodeId
+   */
+  async deactivatePromoCode(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { promoCodeId } = req.params;
+
+      await promoCodeService.deactivateCode(promoCodeId);
+
+      await logPromoCode(req, 'promo_code_deactivated', promoCodeId, {});
+
+      res.json({
+        success: true,
+        message: 'Promo code deactivated',
+      });
+    } catch (error) {
+      if (handlePromoCodeError(error, res)) return;
+      console.error('Deactivate promo code error:', error);
+      next(error);
+    }
+  },
+
+  /**
+   * Referral attribution: projects each referrer brought in and the accepted quotes that came of them
+   * GET /api/admin/referrals/report?since=<ISO date>
+   */
+  async getReferralReport(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const since = typeof req.query.since === 'string' ? new Date(req.query.since) : null;
+
+      if (since && isNaN(since.getTime())) {
+        res.status(400).json({
+          success: false,
+          error: 'since must be an ISO date',
+        });
+        return;
+      }
+
+      const referrers = await promoCodeService.referralReport(since);
+
+      res.json({
+        success: true,
+        since,
+        referrers,
+      });
+    } catch (error) {
+      console.error('Referral report error:', error);
+      next(error);
+    }
+  },
+  /**
+   * Rows of a pricing table (active only unless ?includeRetired=true)
+   * GET /api/admin/pricing-tables/:table
+   */
+  async listPricingTableRows(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const table = resolvePricingTable(req, res);
+      if (!table) return;
+
+      const rows = await pricingTableService.listRows(table, req.query.includeRetired === 'true');
+
+      res.json({
+        success: true,
+        table,
+        rows,
+      });
+    } catch (error) {
+      console.error('List pricing table rows error:', error);
+      next(error);
+    }
+  },
+
+  /**
+   * Add a row to a pricing table
+   * POST /api/admin/pricing-tables/:table
+   */
+  async createPricingTableRow(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const table = resolvePricingTable(req, res);
+      if (!table) return;
+
+      const parsed = parsePricingTableBody(table, req.body, false);
+
+      if (typeof parsed === 'string') {
+        res.status(400).json({
+          success: false,
+          error: parsed,
+        });
+        return;
+      }
+
+      const row = await pricingTableService.createRow(table, parsed as PricingTableInputs[PricingTable], req.userId!);
+
+      await logPricingTable(req, 'pricing_row_created', table, row.id, parsed);
+
+      res.status(201).json({
+        success: true,
+        message: 'Pricing row created',
+        row,
+      });
+    } catch (error) {
+      if (handlePricingTableError(error, res)) return;
+      console.error('Create pricing table row error:', error);
+      next(error);
+    }
+  },
+
+  /**
+   * Update a pricing table row (issued quotes keep their prices)
+   * PATCH /api/admin/pricing-tables/:table/:recordId
+   */
+  async updatePricingTableRow(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const table = resolvePricingTable(req, res);
+      if (!table) return;
+
+      const { recordId } = req.params;
+      const parsed = parsePricingTableBody(table, req.body, true);
+
+      if (typeof parsed === 'string') {
+        res.status(400).json({
+          success: false,
+          error: parsed,
+        });
+        return;
+      }
+
+      if (Object.keys(parsed).length === 0) {
+        res.status(400).json({
+          success: false,
+          error: 'No fields to update',
+        });
+        return;
+      }
+
+      const row = await pricingTableService.updateRow(
+        table,
+        recordId,
+        parsed as PricingTableUpdates[PricingTable],
+        req.userId!
+      );
+
+      await logPricingTable(req, 'pricing_row_updated', table, recordId, parsed);
+
+      res.json({
+        success: true,
+        message: 'Pricing row updated',
+        row,
+      });
+    } catch (error) {
+      if (handlePricingTableError(error, res)) return;
+      console.error('Update pricing table row error:', error);
+      next(error);
+    }
+  },
+
+  /**
+   * Stop pricing with a row (a category or scale takes its base prices with it)
+   * DELETE /api/admin/pricing-tables/:table/:recordId
+   */
+  async retirePricingTableRow(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const table = resolvePricingTable(req, res);
+      if (!table) return;
+
+      const { recordId } = req.params;
+      const retiredBasePricingIds = await pricingTableService.retireRow(table, recordId, req.userId!);
+
+      await logPricingTable(req, 'pricing_row_retired', table, recordId, { retiredBasePricingIds });
+
+      res.json({
+        success: true,
+        message: 'Pricing row retired',
+        retiredBasePricingIds,
+      });
+    } catch (error) {
+      if (handlePricingTableError(error, res)) return;
+      console.error('Retire pricing table row error:', error);
+      next(error);
+    }
+  },
+
+  /**
+   * Bring a retired pricing row back into use
+   * POST /api/admin/pricing-tables/:table/:recordId/restore
+   */
+  async restorePricingTableRow(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const table = resolvePricingTable(req, res);
+      if (!table) return;
+
+      const { recordId } = req.params;
+      const row = await pricingTableService.restoreRow(table, recordId, req.userId!);
+
+      await logPricingTable(req, 'pricing_row_restored', table, recordId, {});
+
+      res.json({
+        success: true,
+        message: 'Pricing row restored',
+        row,
+      });
+    } catch (error) {
+      if (handlePricingTableError(error, res)) return;
+      console.error('Restore pricing table row error:', error);
+      next(error);
+    }
+  },
+
+  /**
+   * Changes to the pricing tables, newest first
+   * GET /api/admin/pricing-tables/history?table=company-scales&recordId=&limit=100
+   */
+  async getPricingTableHistory(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { table, recordId } = req.query as { table?: string; recordId?: string };
+      const limit = req.query.limit === undefined ? 100 : Number(req.query.limit);
+
+      if (table !== undefined && !Object.keys(PRICING_TABLE_PATHS).includes(table)) {
+        res.status(400).json({
+          success: false,
+          error: `table must be one of: ${Object.keys(PRICING_TABLE_PATHS).join(', ')}`,
+        });
+        return;
+      }
+
+      if (!Number.isInteger(limit) || limit < 1 || limit > 500) {
+        res.status(400).json({
+          success: false,
+          error: 'limit must be a whole number from 1 to 500',
+        });
+        return;
+      }
+
+      const changes = await pricingTableService.history({
+        table: table === undefined ? undefined : PRICING_TABLE_PATHS[table],
+        recordId,
+        limit,
+      });
+
+      res.json({
+        success: true,
+        changes,
+      });
+    } catch (error) {
+      console.error('Pricing table history error:', error);
+      next(error);
+    }
+  },
+
+  /**
+   * Download the active base prices as CSV
+   * GET /api/admin/pricing-matrix/export
+   */
+  async exportPricingMatrix(_req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { csv } = await pricingTableService.exportBasePricingCsv();
+      const date = new Date().toISOString().slice(0, 10);
+
+      res.set({
+        'Content-Type': 'text/csv; charset=utf-8',
+        'Content-Disposition': `attachment; filename="pricing-matrix-${date}.csv"`,
+        'Cache-Control': 'private, no-store',
+      });
+      res.send(csv);
+    } catch (error) {
+      console.error('Export pricing matrix error:', error);
+      next(error);
+    }
+  },
+
+  /**
+   * Preview or apply a base pricing CSV
+   * POST /api/admin/pricing-matrix/import
+   */
+  async importPricingMatrix(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { csv, apply = false, retireMissing = false } = req.body ?? {};
+
+      if (typeof csv !== 'string' || !csv.trim()) {
+        res.status(400).json({
+          success: false,
+          error: 'csv is required',
+        });
+        return;
+      }
+
+      if (typeof apply !== 'boolean' || typeof retireMissing !== 'boolean') {
+        res.status(400).json({
+          success: false,
+          error: 'apply and retireMissing must be true or false',
+        });
+        return;
+      }
+
+      const { rows, errors } = parseBasePricingImport(csv);
+
+      if (errors.length > 0) {
+        res.status(400).json({
+          success: false,
+          error: `The import has ${errors.length} error(s); nothing was changed`,
+          details: errors.slice(0, 100),
+        });
+        return;
+      }
+
+      if (!apply) {
+        const preview = await pricingTableService.previewBasePricingImport(rows, retireMissing);
+
+        res.json({
+          success: true,
+          applied: false,
+          ...preview,
+        });
+        return;
+      }
+
+      const result = await pricingTableService.importBasePricing(rows, retireMissing, req.userId!);
+
+      await prisma.auditLog.create({
+        data: {
+          userId: req.userId,
+          action: 'pricing_matrix_imported',
+          entityType: 'base_pricing',
+          ipAddress: req.ip,
+          userAgent: req.headers['user-agent'],
+          requestData: { retireMissing, summary: result.summary },
+          responseStatus: 200,
+        },
+      });
+
+      res.json({
+        success: true,
+        applied: true,
+        ...result,
+      });
+    } catch (error) {
+      if (handlePricingTableError(error, res)) return;
+      console.error('Import pricing matrix error:', error);
+      next(error);
+    }
+  },
+
+  /**
+   * Price books, newest first
+   * GET /api/admin/price-books
+   */
+  async listPriceBooks(_req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const priceBooks = await priceBookService.listBooks();
+
+      res.json({
+        success: true,
+        priceBooks,
+      });
+    } catch (error) {
+      console.error('List price books error:', error);
+      next(error);
+    }
+  },
+
+  /**
+   * A price book with its prices
+   * GET /api/admin/price-books/:priceBookId
+   */
+  async getPriceBook(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const priceBook = await priceBookService.getBook(req.params.priceBookId);
+
+      res.json({
+        success: true,
+        priceBook,
+      });
+    } catch (error) {
+      if (handlePriceBookError(error, res)) return;
+      console.error('Get price book error:', error);
+      next(error);
+    }
+  },
+
+  /**
+   * Publish the active base prices as a new price book version
+   * POST /api/admin/price-books
+   */
+  async publishPriceBook(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const parsed = parsePriceBookBody(req.body ?? {});
+
+      if (typeof parsed === 'string') {
+        res.status(400).json({
+          success: false,
+          error: parsed,
+        });
+        return;
+      }
+
+      const priceBook = await priceBookService.publish(parsed, req.userId!);
+
+      await prisma.auditLog.create({
+        data: {
+          userId: req.userId,
+          action: 'price_book_published',
+          entityType: 'price_book',
+          entityId: priceBook.id,
+          ipAddress: req.ip,
+          userAgent: req.headers['user-agent'],
+          requestData: {
+            name: parsed.name,
+            version: priceBook.version,
+            effectiveFrom: priceBook.effectiveFrom.toISOString(),
+            entryCount: priceBook.entryCount,
+          },
+          responseStatus: 200,
+        },
+      });
+
+      res.json({
+        success: true,
+        message: `Price book v${priceBook.version} published`,
+        priceBook,
+      });
+    } catch (error) {
+      if (handlePriceBookError(error, res)) return;
+      console.error('Publish price book error:', error);
+      next(error);
+    }
+  },
+
+  /**
+   * Cancel the latest price book before it takes effect
+   * DELETE /api/admin/price-books/:priceBookId
+   */
+  async cancelPriceBook(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { priceBookId } = req.params;
+      const cancelled = await priceBookService.cancelScheduled(priceBookId);
+
+      await prisma.auditLog.create({
+        data: {
+          userId: req.userId,
+          action: 'price_book_cancelled',
+          entityType: 'price_book',
+          entityId: priceBookId,
+          ipAddress: req.ip,
+          userAgent: req.headers['user-agent'],
+          requestData: cancelled,
+          responseStatus: 200,
+        },
+      });
+
+      res.json({
+        success: true,
+        message: `Price book v${cancelled.version} cancelled`,
+        ...cancelled,
+      });
+    } catch (error) {
+      if (handlePriceBookError(error, res)) return;
+      console.error('Cancel price book error:', error);
+      next(error);
+    }
+  },
+
+  /**
+   * Pricing rule set versions, newest first
+   * GET /api/admin/pricing-rule-sets
+   */
+  async listPricingRuleSets(_req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const ruleSets = await pricingRuleService.listSets();
+
+      res.json({
+        success: true,
+        ruleSets,
+      });
+    } catch (error) {
+      console.error('List pricing rule sets error:', error);
+      next(error);
+    }
+  },
+
+  /**
+   * A pricing rule set with its rules
+   * GET /api/admin/pricing-rule-sets/:ruleSetId
+   */
+  async getPricingRuleSet(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const ruleSet = await pricingRuleService.getSet(req.params.ruleSetId);
+
+      res.json({
+        success: true,
+        ruleSet,
+      });
+    } catch (error) {
+      if (handlePricingRuleError(error, res)) return;
+      console.error('Get pricing rule set error:', error);
+      next(error);
+    }
+  },
+
+  /**
+   * Save a rule list as the next draft version
+   * POST /api/admin/pricing-rule-sets
+   */
+  async createPricingRuleSet(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const parsed = parsePricingRuleSetBody(req.body ?? {});
+
+      if (typeof parsed === 'string') {
+        res.status(400).json({
+          success: false,
+          error: parsed,
+        });
+        return;
+      }
+
+      const ruleSet = await pricingRuleService.createSet(parsed, req.userId!);
+
+      await logPricingRuleSet(req, 'pricing_rule_set_created', ruleSet.id, {
+        version: ruleSet.version,
+        name: ruleSet.name,
+        ruleKeys: ruleSet.rules.map((rule) => rule.key),
+      });
+
+      res.json({
+        success: true,
+        message: `Pricing rule set v${ruleSet.version} saved as a draft`,
+        ruleSet,
+      });
+    } catch (error) {
+      if (handlePricingRuleError(error, res)) return;
+      console.error('Create pricing rule set error:', error);
+      next(error);
+    }
+  },
+
+  /**
+   * Run a rule set against recent quotes without changing anything
+   * POST /api/admin/pricing-rule-sets/:ruleSetId/dry-run
+   */
+  async dryRunPricingRuleSet(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { since, limit = 200 } = req.body ?? {};
+      const sinceDate = since === undefined ? new Date(Date.now() - 90 * 24 * 60 * 60 * 1000) : new Date(since);
+
+      if (since !== undefined && (typeof since !== 'string' || isNaN(sinceDate.getTime()))) {
+        res.status(400).json({
+          success: false,
+          error: 'since must be an ISO date',
+        });
+        return;
+      }
+
+      if (!Number.isInteger(limit) || limit < 1 || limit > 1000) {
+        res.status(400).json({
+          success: false,
+          error: 'limit must be a whole number from 1 to 1000',
+        });
+        return;
+      }
+
+      const dryRun = await pricingRuleService.dryRun(req.params.ruleSetId, { since: sinceDate, limit });
+
+      res.json({
+        success: true,
+        ...dryRun,
+      });
+    } catch (error) {
+      if (handlePricingRuleError(error, res)) return;
+      console.error('Dry run pricing rule set error:', error);
+      next(error);
+    }
+  },
+
+  /**
+   * Apply a rule set to new quotes, replacing the active one
+   * POST /api/admin/pricing-rule-sets/:ruleSetId/activate
+   */
+  async activatePricingRuleSet(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { ruleSetId } = req.params;
+      const { ruleSet, replaced } = await pricingRuleService.activateSet(ruleSetId, req.userId!);
+
+      await logPricingRuleSet(req, 'pricing_rule_set_activated', ruleSetId, {
+        version: ruleSet.version,
+        replacedRuleSetId: replaced?.id ?? null,
+        replacedVersion: replaced?.version ?? null,
+      });
+
+      res.json({
+        success: true,
+        message: `Pricing rule set v${ruleSet.version} is now active`,
+        ruleSet,
+        replacedRuleSetId: replaced?.id ?? null,
+      });
+    } catch (error) {
+      if (handlePricingRuleError(error, res)) return;
+      console.error('Activate pricing rule set error:', error);
+      next(error);
+    }
+  },
+
+  /**
+   * Stop applying the active rule set
+   * POST /api/admin/pricing-rule-sets/:ruleSetId/deactivate
+   */
+  async deactivatePricingRuleSet(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { ruleSetId } = req.params;
+      await pricingRuleService.deactivateSet(ruleSetId);
+
+      await logPricingRuleSet(req, 'pricing_rule_set_deactivated', ruleSetId, {});
+
+      res.json({
+        success: true,
+        message: 'Pricing rule set deactivated; quotes are priced without rules',
+      });
+    } catch (error) {
+      if (handlePricingRuleError(error, res)) return;
+      console.error('Deactivate pricing rule set error:', error);
+      next(error);
+    }
+  },
+};
@@ -2,9 +2,22 @@ import { Request, Response } from 'express';
 import { PrismaClient } from '@prisma/client';
 import { storageService } from '../services/storageService.js';
 import { googleCalendarService } from '../services/googleCalendarService.js';
+import { otpService, OtpError } from '../services/otpService.js';
+import { identityService, IdentityError } from '../services/identityService.js';
+import { organizationService } from '../services/organizationService.js';
 
 const prisma = new PrismaClient();
 
+const E164_REGEX = /^\+[1-9]\d{1,14}$/;
+
+/**
+ * US contacts must verify their phone by OTP before submitting an audit
+ * (mirrors auditSubmissionSchema on the frontend). Without an explicit
+ * country, +1 numbers are treated as US.
+ */
+const requiresOtpVerification = (identity: { country: string | null; whatsappNumber: string | null }): boolean =>
+  identity.country ? identity.country === 'US' : !!identity.whatsappNumber?.startsWith('+1');
+
 interface AuthRequest extends Request {
   userId?: string;
   authStage?: number;
@@ -187,7 +200,7 @@ class AuditController {
         return;
       }
 
-      const { linkedinUrl, businessEmail, whatsappNumber } = req.body;
+      const { linkedinUrl, businessEmail, whatsappNumber, country } = req.body;
 
       // Validate at least one field is provided
       if (!linkedinUrl && !businessEmail && !whatsappNumber) {
@@ -199,6 +212,19 @@ class AuditController {
         return;
       }
 
+      if (country !== undefined && !/^[A-Za-z]{2}$/.test(country)) {
+        res.status(400).json({
+          success: false,
+          error: 'country must be an ISO 3166-1 alpha-2 code',
+        });
+        return;
+      }
+
+      // The number may already have been verified in the OTP step
+      const verified = whatsappNumber
+        ? await otpService.hasVerified(userId, whatsappNumber, 'audit')
+        : false;
+
       // Create identity record
       const identity = await prisma.auditIdentity.create({
         data: {
@@ -206,13 +232,16 @@ class AuditController {
           linkedinUrl,
           businessEmail,
           whatsappNumber,
-          verified: false,
+          country: country?.toUpperCase(),
+          verified,
         },
       });
 
       res.json({
         success: true,
         identityId: identity.id,
+        verified: identity.verified,
+        otpRequired: requiresOtpVerification(identity) && !identity.verified,
       });
     } catch (error) {
       console.error('Error submitting identity:', error);
@@ -227,102 +256,127 @@ class AuditController {
    * POST /api/audit/otp/send
    * Send WhatsApp OTP (OTP Step)
    */
-  // async sendOTP(req: AuthRequest, res: Response): Promise<void> {
-  //   try {
-  //     const userId = req.user?.id;
-  //     if (!userId) {
-  //       res.status(401).json({
-  //         success: false,
-  //         error: 'Unauthorized',
-  //       });
-  //       return;
-  //     }
-
-  //     const { phoneNumber } = req.body;
-
-  //     if (!phoneNumber) {
-  //       res.status(400).json({
-  //         success: false,
-  //         error: 'phoneNumber is required',
-  //       });
-  //       return;
-  //     }
-
-  //     // Send OTP via WhatsApp
-  //     await otpService.sendWhatsAppOTP(phoneNumber, userId);
-
-  //     res.json({
-  //       success: true,
-  //       message: 'OTP sent',
-  //       expiresIn: 300, // 5 minutes
-  //     });
-  //   } catch (error) {
-  //     console.error('Error sending OTP:', error);
-  //     res.status(500).json({
-  //       success: false,
-  //       error: 'Failed to send OTP',
-  //     });
-  //   }
-  // }
+  async sendOTP(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const userId = req.userId;
+      if (!userId) {
+        res.status(401).json({
+          success: false,
+          error: 'Unauthorized',
+        });
+        return;
+      }
+
+      const { phoneNumber } = req.body;
+
+      if (!phoneNumber || !E164_REGEX.test(phoneNumber)) {
+        res.status(400).json({
+          success: false,
+          error: 'phoneNumber must be in E.164 format (e.g. +14155552671)',
+        });
+        return;
+      }
+
+      const { expiresIn, resendIn } = await otpService.sendCode({
+        channel: 'whatsapp',
+        destination: phoneNumber,
+        purpose: 'audit',
+        userId,
+      });
+
+      res.json({
+        success: true,
+        message: 'OTP sent',
+        expiresIn,
+        resendIn,
+      });
+    } catch (error) {
+      if (error instanceof OtpError) {
+        if (error.retryAfter) res.setHeader('Retry-After', error.retryAfter);
+        res.status(error.status).json({
+          success: false,
+          error: error.message,
+          retryAfter: error.retryAfter,
+        });
+        return;
+      }
+      console.error('Error sending OTP:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to send OTP',
+      });
+    }
+  }
 
   /**
    * POST /api/audit/otp/verify
    * Verify WhatsApp OTP (OTP Step)
    */
-  // async verifyOTP(req: AuthRequest, res: Response): Promise<void> {
-  //   try {
-  //     const userId = req.user?.id;
-  //     if (!userId) {
-  //       res.status(401).json({
-  //         success: false,
-  //         error: 'Unauthorized',
-  //       });
-  //       return;
-  //     }
-
-  //     const { phoneNumber, code } = req.body;
-
-  //     if (!phoneNumber || !code) {
-  //       res.status(400).json({
-  //         success: false,
-  //         error: 'phoneNumber and code are required',
-  //       });
-  //       return;
-  //     }
-
-  //     // Verify OTP
-  //     const isValid = await otpService.verifyOTP(phoneNumber, code);
-
-  //     if (!isValid) {
-  //       res.status(400).json({
-  //         success: false,
-  //         error: 'Invalid or expired OTP',
-  //       });
-  //       return;
-  //     }
-
-  //     // Update user's phone verification status
-  //     await prisma.user.update({
-  //       where: { id: userId },
-  //       data: {
-  //         phoneE164: phoneNumber,
-  //         whatsappVerified: true,
-  //       },
-  //     });
-
-  //     res.json({
-  //       success: true,
-  //       verified: true,
-  //       message: 'Phone verified',
-  //     });
-  //   } catch (error) {
-  //     console.error('Error verifying OTP:', error);
-  //     res.status(500).json({
-  //       success: false,
-  //       error: 'Failed to verify OTP',
-  //     });
-  //   }
-  // }
+  async verifyOTP(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const userId = req.userId;
+      if (!userId) {
+        res.status(401).json({
+          success: false,
+          error: 'Unauthorized',
+        });
+        return;
+      }
+
+      const { phoneNumber, code } = req.body;
+
+      if (!phoneNumber || !code) {
+        res.status(400).json({
+          success: false,
+          error: 'phoneNumber and code are required',
+        });
+        return;
+      }
+
+      await otpService.verifyCode({
+        destination: phoneNumber,
+        purpose: 'audit',
+        code,
+        userId,
+      });
+
+      await identityService.linkIdentities(userId, [{ type: 'phone', value: phoneNumber, verified: true }]);
+
+      // Update user's phone verification status and any identity step using this number
+      await prisma.user.update({
+        where: { id: userId },
+        data: {
+          phoneE164: phoneNumber,
+          whatsappVerified: true,
+        },
+      });
+
+      await prisma.auditIdentity.updateMany({
+        where: { userId, whatsappNumber: phoneNumber },
+        data: { verified: true },
+      });
+
+      res.json({
+        success: true,
+        verified: true,
+        message: 'Phone verified',
+      });
+    } catch (error) {
+      if (error instanceof OtpError || error instanceof IdentityError) {
+        if (error instanceof OtpError && error.retryAfter) res.setHeader('Retry-After', error.retryAfter);
+        res.status(error.status).json({
+          success: false,
+          error: error.message,
+        });
+        return;
+      }
+      console.error('Error verifying OTP:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to verify OTP',
+      });
+    }
+  }
 
   /**
    * POST /api/audit/schedule
@@ -417,7 +471,7 @@ class AuditController {
         return;
       }
 
-      const { manifestId, identityId, meetingId, goals } = req.body;
+      const { manifestId, identityId, meetingId, goals, organizationId } = req.body;
 
       // Validate required fields
       if (!manifestId || !identityId || !meetingId) {
@@ -428,6 +482,20 @@ class AuditController {
         return;
       }
 
+      // Submitting on behalf of an organization shares the audit with its members
+      if (
+        organizationId !== undefined &&
+        organizationId !== null &&
+        (typeof organizationId !== 'string' ||
+          !(await organizationService.canAccess(userId, { userId, organizationId }, 'edit')))
+      ) {
+        res.status(403).json({
+          success: false,
+          error: 'You cannot submit audits for this organization',
+        });
+        return;
+      }
+
       // Verify all records belong to the user
       const [manifest, identity, meeting] = await Promise.all([
         prisma.auditManifest.findFirst({
@@ -465,6 +533,14 @@ class AuditController {
         return;
       }
 
+      if (requiresOtpVerification(identity) && !identity.verified) {
+        res.status(403).json({
+          success: false,
+          error: 'OTP verification required for USA contacts',
+        });
+        return;
+      }
+
       // Get user's phone verification status
       const user = await prisma.user.findUnique({
         where: { id: userId },
@@ -474,12 +550,13 @@ class AuditController {
       const submission = await prisma.auditSubmission.create({
         data: {
           userId,
+          organizationId: organizationId || null,
           manifestId,
           identityId,
           meetingId,
           goals: goals || {},
           status: 'submitted',
-          phoneVerified: user?.whatsappVerified || false,
+          phoneVerified: identity.verified || user?.whatsappVerified || false,
           googleMeetLink: meeting.meetLink,
           scheduledDate: meeting.scheduledAt,
           submittedAt: new Date(),
@@ -514,7 +591,7 @@ class AuditController {
 
   /**
    * GET /api/audit/my-submissions
-   * Get user's audit submissions
+   * Get user's audit submissions, including those shared with their organizations
    */
   async getMySubmissions(req: AuthRequest, res: Response): Promise<void> {
     try {
@@ -528,7 +605,7 @@ class AuditController {
       }
 
       const submissions = await prisma.auditSubmission.findMany({
-        where: { userId },
+        where: organizationService.accessibleSubmissionsWhere(userId),
         include: {
           manifest: {
             include: {
@@ -577,7 +654,7 @@ class AuditController {
       const submission = await prisma.auditSubmission.findFirst({
         where: {
           id,
-          userId,
+          ...organizationService.accessibleSubmissionsWhere(userId),
         },
         include: {
           manifest: {
@@ -1,7 +1,12 @@
 import { prisma } from '../config/database.js';
 import { privyService } from '../services/privyService.js';
+import { sessionService, SessionError } from '../services/sessionService.js';
+import { identityService, IdentityError } from '../services/identityService.js';
+import { siweService, SiweError } from '../services/siweService.js';
+import { otpService, OtpError } from '../services/otpService.js';
+import { totpService, TwoFactorError } from '../services/totpService.js';
 import { Request, Response, NextFunction } from 'express';
-import jwt from 'jsonwebtoken';
+import { Role } from '@prisma/client';
 
 // Extend Express Request type to include userId
 declare global {
@@ -9,21 +14,32 @@ declare global {
     interface Request {
       userId?: string;
       authStage?: number;
+      sessionId?: string;
+      roles?: Role[];
+      impersonatorId?: string;
     }
   }
 }
 
-// ...existing code...
+// Roles that must hold a second factor before using sensitive admin routes
+const TWO_FACTOR_ROLES: Role[] = ['admin', 'ops', 'finance'];
 
-// Generate JWT token
-const generateToken = (userId: string, authStage: number): string => {
-  const secret = process.env.JWT_SECRET || 'default-secret-change-in-production';
-  return jwt.sign(
-    { userId, authStage },
-    secret,
-    { expiresIn: (process.env.JWT_EXPIRES_IN || '7d') as any }
-  );
-}
+/**
+ * Record a two-factor event (successful or not) in the audit log
+ */
+const logTwoFactorEvent = (req: Request, action: string, responseStatus: number, requestData?: object) =>
+  prisma.auditLog.create({
+    data: {
+      userId: req.userId,
+      action,
+      entityType: 'two_factor',
+      entityId: req.userId,
+      ipAddress: req.ip,
+      userAgent: req.headers['user-agent'],
+      requestData: { sessionId: req.sessionId, ...requestData },
+      responseStatus,
+    },
+  });
 
 export const authController = {
   /**
@@ -50,73 +66,124 @@ export const authController = {
       // Get user details from Privy
       const privyUser = await privyService.getUserByDid(privyUserId);
 
-      // Extract email or wallet address from linked_accounts with proper type checking
-      const emailAccount = privyUser.linked_accounts?.find(
-        (account: any) => account.type === 'email'
-      ) as any;
-      
-      const walletAccount = privyUser.linked_accounts?.find(
-        (account: any) => account.type === 'wallet' || account.type === 'smart_wallet'
-      ) as any;
+      // Resolve (and if needed merge) the account owning the verified identities
+      const { user, mergedUserIds } = await identityService.resolvePrivyLogin(privyUser, privyUserId, {
+        ipAddress: req.ip,
+        userAgent: req.headers['user-agent'],
+      });
 
-      const email = emailAccount?.address;
-      const walletAddress = walletAccount?.address;
+      // Start a server-side session and issue access/refresh tokens
+      const { sessionId, accessToken: token, refreshToken, expiresIn } =
+        await sessionService.createSession(user, {
+          ipAddress: req.ip,
+          userAgent: req.headers['user-agent'],
+        });
 
-      if (!email && !walletAddress) {
-        res.status(400).json({
+      // Log authentication event
+      await prisma.auditLog.create({
+        data: {
+          userId: user.id,
+          action: 'user_login_privy',
+          entityType: 'user',
+          entityId: user.id,
+          ipAddress: req.ip,
+          userAgent: req.headers['user-agent'],
+          requestData: { sessionId, mergedUserIds },
+        },
+      });
+
+      res.json({
+        success: true,
+        message: 'Authenticated successfully',
+        token,
+        refreshToken,
+        expiresIn,
+        user: {
+          id: user.id,
+          email: user.email,
+          walletAddress: user.walletAddress,
+          privyUserId: user.privyUserId,
+          businessName: user.businessName,
+          authStage: user.authStage,
+          emailVerified: user.emailVerified,
+          roles: user.roles,
+        },
+      });
+    } catch (error) {
+      if (error instanceof IdentityError) {
+        res.status(error.status).json({
           success: false,
-          error: 'User must have either email or wallet address',
+          error: error.message,
         });
         return;
       }
+      console.error('authenticateWithPrivy error:', error);
+      next(error);
+    }
+  },
 
-      // Check if user exists in our database, create if not
-      let user = await prisma.user.findFirst({
-        where: {
-          OR: [
-            email ? { email: email.toLowerCase() } : {},
-            walletAddress ? { walletAddress: walletAddress.toLowerCase() } : {},
-          ].filter(obj => Object.keys(obj).length > 0),
-        },
+  /**
+   * Issue a Sign-In With Ethereum nonce
+   * GET /api/auth/siwe/nonce
+   */
+  async getSiweNonce(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const nonce = await siweService.issueNonce(req.ip);
+
+      res.json({
+        success: true,
+        ...nonce,
       });
+    } catch (error) {
+      console.error('getSiweNonce error:', error);
+      next(error);
+    }
+  },
 
-      if (!user) {
-        // Create new user
-        user = await prisma.user.create({
-          data: {
-            email: email?.toLowerCase() || null,
-            walletAddress: walletAddress?.toLowerCase() || null,
-            privyUserId: privyUserId,
-            emailVerified: !!email,
-            authStage: 2, // Fully authenticated with Privy
-            lastLogin: new Date(),
-          },
-        });
-      } else {
-        // Update existing user
-        user = await prisma.user.update({
-          where: { id: user.id },
-          data: {
-            privyUserId: privyUserId,
-            emailVerified: !!email,
-            lastLogin: new Date(),
-            authStage: 2,
-          },
+  /**
+   * Authenticate with a signed SIWE (EIP-4361) message
+   * POST /api/auth/siwe/verify
+   * Body: { message: string, signature: string }
+   */
+  async authenticateWithSiwe(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { message, signature } = req.body;
+
+      if (!message || !signature) {
+        res.status(400).json({
+          success: false,
+          error: 'message and signature are required',
         });
+        return;
       }
 
-      // Generate JWT token
-      const token = generateToken(user.id, 2);
+      const walletAddress = await siweService.verify(message, signature);
+
+      const { user, mergedUserIds } = await identityService.resolveLogin(
+        [{ type: 'wallet', value: walletAddress, verified: true }],
+        {
+          reason: 'siwe_login',
+          ipAddress: req.ip,
+          userAgent: req.headers['user-agent'],
+        }
+      );
+
+      // Same session and tokens as the Privy flow
+      const { sessionId, accessToken: token, refreshToken, expiresIn } =
+        await sessionService.createSession(user, {
+          ipAddress: req.ip,
+          userAgent: req.headers['user-agent'],
+        });
 
-      // Log authentication event
       await prisma.auditLog.create({
         data: {
           userId: user.id,
-          action: 'user_login_privy',
+          action: 'user_login_siwe',
           entityType: 'user',
           entityId: user.id,
           ipAddress: req.ip,
           userAgent: req.headers['user-agent'],
+          requestData: { sessionId, walletAddress, mergedUserIds },
         },
       });
 
@@ -124,6 +191,8 @@ export const authController = {
         success: true,
         message: 'Authenticated successfully',
         token,
+        refreshToken,
+        expiresIn,
         user: {
           id: user.id,
           email: user.email,
@@ -132,19 +201,26 @@ export const authController = {
           businessName: user.businessName,
           authStage: user.authStage,
           emailVerified: user.emailVerified,
+          roles: user.roles,
         },
       });
     } catch (error) {
-      console.error('authenticateWithPrivy error:', error);
+      if (error instanceof SiweError || error instanceof IdentityError) {
+        res.status(error.status).json({
+          success: false,
+          error: error.message,
+        });
+        return;
+      }
+      console.error('authenticateWithSiwe error:', error);
       next(error);
     }
   },
 
   /**
-   * [DEPRECATED - OTP Auth] Phase 1: Send Email OTP
+   * Phase 1: Send Email OTP
    * POST /api/auth/email/send-otp
    */
-  /*
   async sendEmailOTP(req: Request, res: Response, next: NextFunction): Promise<void> {
     try {
       const { email, businessName } = req.body;
@@ -159,64 +235,39 @@ export const authController = {
 
       const emailLower = email.toLowerCase();
 
-      // Check if user exists, create if not
-      let user = await prisma.user.findUnique({
-        where: { email: emailLower },
-        select: { id: true, authStage: true },
-      });
-
-      let userId: string;
-      if (!user) {
-        // Create new user
-        const newUser = await prisma.user.create({
-          data: {
-            email: emailLower,
-            businessName: businessName || null,
-            authStage: 0,
-          },
-          select: { id: true },
-        });
-        userId = newUser.id;
-      } else {
-        userId = user.id;
-      }
-
-      // Generate OTP
-      const otpCode = generateOTP();
-      const expiresAt = new Date(Date.now() + 10 * 60 * 1000); // 10 minutes
-
-      // Store OTP in database
-      await prisma.otpVerification.create({
-        data: {
-          userId,
-          otpType: 'email',
-          otpCode,
-          destination: emailLower,
-          expiresAt,
-        },
+      // The account is only created once the code is verified
+      const { expiresIn, resendIn } = await otpService.sendCode({
+        channel: 'email',
+        destination: emailLower,
+        purpose: 'auth',
+        businessName,
       });
 
-      // Send OTP via email
-      await otpService.sendEmailOTP(emailLower, otpCode, businessName);
-
       res.json({
         success: true,
         message: 'OTP sent to email',
-        userId,
-        expiresIn: 600, // seconds
+        expiresIn,
+        resendIn,
       });
     } catch (error) {
+      if (error instanceof OtpError) {
+        if (error.retryAfter) res.setHeader('Retry-After', error.retryAfter);
+        res.status(error.status).json({
+          success: false,
+          error: error.message,
+          retryAfter: error.retryAfter,
+        });
+        return;
+      }
       console.error('sendEmailOTP error:', error);
       next(error);
     }
   },
-  */
 
   /**
-   * [DEPRECATED - OTP Auth] Phase 1: Verify Email OTP
+   * Phase 1: Verify Email OTP and sign in
    * POST /api/auth/email/verify-otp
    */
-  /*
   async verifyEmailOTP(req: Request, res: Response, next: NextFunction): Promise<void> {
     try {
       const { email, otpCode } = req.body;
@@ -231,226 +282,156 @@ export const authController = {
 
       const emailLower = email.toLowerCase();
 
-      // Find user
-      const user = await prisma.user.findUnique({
-        where: { email: emailLower },
-      });
-
-      if (!user) {
-        res.status(404).json({
-          success: false,
-          error: 'User not found',
-        });
-        return;
-      }
+      await otpService.verifyCode({ destination: emailLower, purpose: 'auth', code: otpCode });
 
-      // Find valid OTP
-      const otpRecord = await prisma.otpVerification.findFirst({
-        where: {
-          userId: user.id,
-          otpType: 'email',
-          destination: emailLower,
-          otpCode,
-          verified: false,
-          expiresAt: {
-            gt: new Date(),
-          },
-        },
-        orderBy: {
-          createdAt: 'desc',
+      // Email alone only reaches authStage 1; phone verification lifts it to 2
+      const { user, mergedUserIds } = await identityService.resolveLogin(
+        [{ type: 'email', value: emailLower, verified: true }],
+        {
+          reason: 'email_otp_login',
+          ipAddress: req.ip,
+          userAgent: req.headers['user-agent'],
         },
-      });
+        1
+      );
 
-      if (!otpRecord) {
-        res.status(400).json({
-          success: false,
-          error: 'Invalid or expired OTP',
+      const { sessionId, accessToken: token, refreshToken, expiresIn } =
+        await sessionService.createSession(user, {
+          ipAddress: req.ip,
+          userAgent: req.headers['user-agent'],
         });
-        return;
-      }
-
-      // Mark OTP as verified
-      await prisma.otpVerification.update({
-        where: { id: otpRecord.id },
-        data: { verified: true },
-      });
 
-      // Update user: mark email as verified, set authStage to 1
-      await prisma.user.update({
-        where: { id: user.id },
+      await prisma.auditLog.create({
         data: {
-          emailVerified: true,
-          authStage: 1,
-          lastLogin: new Date(),
+          userId: user.id,
+          action: 'user_login_email_otp',
+          entityType: 'user',
+          entityId: user.id,
+          ipAddress: req.ip,
+          userAgent: req.headers['user-agent'],
+          requestData: { sessionId, mergedUserIds },
         },
       });
 
-      // Generate JWT token
-      const token = generateToken(user.id, 1);
-
       res.json({
         success: true,
         message: 'Email verified successfully',
         token,
+        refreshToken,
+        expiresIn,
         user: {
           id: user.id,
           email: user.email,
           businessName: user.businessName,
-          authStage: 1,
-          emailVerified: true,
+          authStage: user.authStage,
+          emailVerified: user.emailVerified,
+          roles: user.roles,
         },
       });
     } catch (error) {
+      if (error instanceof OtpError || error instanceof IdentityError) {
+        if (error instanceof OtpError && error.retryAfter) res.setHeader('Retry-After', error.retryAfter);
+        res.status(error.status).json({
+          success: false,
+          error: error.message,
+        });
+        return;
+      }
       console.error('verifyEmailOTP error:', error);
       next(error);
     }
   },
-  */
 
   /**
-   * [DEPRECATED - OTP Auth] Phase 2: Send Phone/WhatsApp OTP
+   * Phase 2: Send Phone/WhatsApp OTP
    * POST /api/auth/phone/send-otp
    */
-  /*
   async sendPhoneOTP(req: Request, res: Response, next: NextFunction): Promise<void> {
     try {
       const { phoneNumber, method } = req.body; // method: 'sms' or 'whatsapp'
-      const userId = req.userId;
-
-      if (!userId) {
-        res.status(401).json({
-          success: false,
-          error: 'Unauthorized. Please complete email verification first.',
-        });
-        return;
-      }
-
-      if (!phoneNumber) {
-        res.status(400).json({
-          success: false,
-          error: 'Phone number is required',
-        });
-        return;
-      }
+      const userId = req.userId!;
 
-      // Validate phone number format (E.164)
       const phoneE164 = phoneNumber.startsWith('+') ? phoneNumber : `+${phoneNumber}`;
+      const channel = method === 'whatsapp' ? 'whatsapp' : 'phone';
 
-      // Generate OTP
-      const otpCode = generateOTP();
-      const expiresAt = new Date(Date.now() + 10 * 60 * 1000); // 10 minutes
-
-      // Store OTP
-      const otpType = method === 'whatsapp' ? 'whatsapp' : 'phone';
-      await prisma.otpVerification.create({
-        data: {
-          userId,
-          otpType,
-          otpCode,
-          destination: phoneE164,
-          expiresAt,
-        },
+      const user = await prisma.user.findUnique({
+        where: { id: userId },
+        select: { businessName: true },
       });
 
-      // Send OTP
-      if (method === 'whatsapp') {
-        const user = await prisma.user.findUnique({
-          where: { id: userId },
-          select: { businessName: true },
-        });
-        await otpService.sendWhatsAppOTP(phoneE164, otpCode, user?.businessName || undefined);
-      } else {
-        await otpService.sendPhoneOTP(phoneE164, otpCode);
-      }
+      const { expiresIn, resendIn } = await otpService.sendCode({
+        channel,
+        destination: phoneE164,
+        purpose: 'phone_verification',
+        userId,
+        businessName: user?.businessName,
+      });
 
       res.json({
         success: true,
         message: `OTP sent via ${method === 'whatsapp' ? 'WhatsApp' : 'SMS'}`,
-        expiresIn: 600,
+        expiresIn,
+        resendIn,
       });
     } catch (error) {
+      if (error instanceof OtpError) {
+        if (error.retryAfter) res.setHeader('Retry-After', error.retryAfter);
+        res.status(error.status).json({
+          success: false,
+          error: error.message,
+          retryAfter: error.retryAfter,
+        });
+        return;
+      }
       console.error('sendPhoneOTP error:', error);
       next(error);
     }
   },
-  */
 
   /**
-   * [DEPRECATED - OTP Auth] Phase 2: Verify Phone/WhatsApp OTP
+   * Phase 2: Verify Phone/WhatsApp OTP
    * POST /api/auth/phone/verify-otp
    */
-  /*
   async verifyPhoneOTP(req: Request, res: Response, next: NextFunction): Promise<void> {
     try {
       const { phoneNumber, otpCode, method } = req.body;
-      const userId = req.userId;
-
-      if (!userId) {
-        res.status(401).json({
-          success: false,
-          error: 'Unauthorized',
-        });
-        return;
-      }
+      const userId = req.userId!;
+      const sessionId = req.sessionId;
 
-      if (!phoneNumber || !otpCode) {
+      // The upgraded access token is tied to the caller's server session
+      if (!sessionId) {
         res.status(400).json({
           success: false,
-          error: 'Phone number and OTP code are required',
+          error: 'Phone verification requires a session token',
         });
         return;
       }
 
       const phoneE164 = phoneNumber.startsWith('+') ? phoneNumber : `+${phoneNumber}`;
-      const otpType = method === 'whatsapp' ? 'whatsapp' : 'phone';
 
-      // Find valid OTP
-      const otpRecord = await prisma.otpVerification.findFirst({
-        where: {
-          userId,
-          otpType,
-          destination: phoneE164,
-          otpCode,
-          verified: false,
-          expiresAt: {
-            gt: new Date(),
-          },
-        },
-        orderBy: {
-          createdAt: 'desc',
-        },
+      await otpService.verifyCode({
+        destination: phoneE164,
+        purpose: 'phone_verification',
+        code: otpCode,
+        userId,
       });
 
-      if (!otpRecord) {
-        res.status(400).json({
-          success: false,
-          error: 'Invalid or expired OTP',
-        });
-        return;
-      }
+      await identityService.linkIdentities(userId, [{ type: 'phone', value: phoneE164, verified: true }]);
 
-      // Mark OTP as verified
-      await prisma.otpVerification.update({
-        where: { id: otpRecord.id },
-        data: { verified: true },
+      const current = await prisma.user.findUniqueOrThrow({
+        where: { id: userId },
+        select: { authStage: true },
       });
 
-      // Update user: mark phone as verified, set authStage to 2
-      const updateData: any = {
-        phoneE164,
-        authStage: 2,
-        lastLogin: new Date(),
-      };
-
-      if (method === 'whatsapp') {
-        updateData.whatsappVerified = true;
-      } else {
-        updateData.phoneVerified = true;
-      }
-
+      // Mark phone as verified and reach authStage 2
       const user = await prisma.user.update({
         where: { id: userId },
-        data: updateData,
+        data: {
+          phoneE164,
+          authStage: Math.max(current.authStage, 2),
+          lastLogin: new Date(),
+          ...(method === 'whatsapp' ? { whatsappVerified: true } : { phoneVerified: true }),
+        },
         select: {
           id: true,
           email: true,
@@ -460,11 +441,25 @@ export const authController = {
           phoneVerified: true,
           whatsappVerified: true,
           authStage: true,
+          roles: true,
+        },
+      });
+
+      await prisma.auditLog.create({
+        data: {
+          userId,
+          action: 'phone_verified',
+          entityType: 'user',
+          entityId: userId,
+          ipAddress: req.ip,
+          userAgent: req.headers['user-agent'],
+          requestData: { method: method === 'whatsapp' ? 'whatsapp' : 'sms' },
+          responseStatus: 200,
         },
       });
 
-      // Generate new JWT token with updated authStage
-      const token = generateToken(user.id, 2);
+      // New access token for the same session carrying the updated authStage
+      const token = sessionService.generateAccessToken(user.id, user.authStage, user.roles, sessionId);
 
       res.json({
         success: true,
@@ -473,11 +468,59 @@ export const authController = {
         user,
       });
     } catch (error) {
+      if (error instanceof OtpError || error instanceof IdentityError) {
+        if (error instanceof OtpError && error.retryAfter) res.setHeader('Retry-After', error.retryAfter);
+        res.status(error.status).json({
+          success: false,
+          error: error.message,
+        });
+        return;
+      }
       console.error('verifyPhoneOTP error:', error);
       next(error);
     }
   },
-  */
+
+  /**
+   * Exchange a refresh token for a new access/refresh token pair
+   * POST /api/auth/refresh
+   * Body: { refreshToken: string }
+   */
+  async refreshToken(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { refreshToken } = req.body;
+
+      if (!refreshToken) {
+        res.status(400).json({
+          success: false,
+          error: 'Refresh token is required',
+        });
+        return;
+      }
+
+      const tokens = await sessionService.rotateRefreshToken(refreshToken, {
+        ipAddress: req.ip,
+        userAgent: req.headers['user-agent'],
+      });
+
+      res.json({
+        success: true,
+        token: tokens.accessToken,
+        refreshToken: tokens.refreshToken,
+        expiresIn: tokens.expiresIn,
+      });
+    } catch (error) {
+      if (error instanceof SessionError) {
+        res.status(error.status).json({
+          success: false,
+          error: error.message,
+        });
+        return;
+      }
+      console.error('refreshToken error:', error);
+      next(error);
+    }
+  },
 
   /**
    * Get current session
@@ -506,6 +549,8 @@ export const authController = {
           phoneVerified: true,
           whatsappVerified: true,
           authStage: true,
+          roles: true,
+          permissions: true,
           createdAt: true,
           lastLogin: true,
         },
@@ -519,9 +564,17 @@ export const authController = {
         return;
       }
 
+      const impersonator = req.impersonatorId
+        ? await prisma.user.findUnique({
+            where: { id: req.impersonatorId },
+            select: { id: true, email: true },
+          })
+        : null;
+
       res.json({
         success: true,
         user,
+        impersonation: impersonator ? { impersonatorId: impersonator.id, impersonatorEmail: impersonator.email } : null,
       });
     } catch (error) {
       console.error('getSession error:', error);
@@ -535,9 +588,13 @@ export const authController = {
    */
   async logout(req: Request, res: Response, next: NextFunction): Promise<void> {
     try {
-      // In a stateless JWT system, logout is handled client-side by removing the token
-      // Here we can log the logout event for audit purposes
+      // Revoke the server-side session so its access and refresh tokens stop working
       const userId = req.userId;
+      const sessionId = req.sessionId;
+
+      if (sessionId) {
+        await sessionService.revokeSession(sessionId, 'user_logout');
+      }
 
       if (userId) {
         await prisma.auditLog.create({
@@ -548,6 +605,7 @@ export const authController = {
             entityId: userId,
             ipAddress: req.ip,
             userAgent: req.headers['user-agent'],
+            requestData: { sessionId },
           },
         });
       }
@@ -561,4 +619,569 @@ export const authController = {
       next(error);
     }
   },
-};
\ No newline at end of file
+
+  /**
+   * List the current user's signed-in devices
+   * GET /api/auth/sessions
+   */
+  async listSessions(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const sessions = await sessionService.listActiveSessions(req.userId!);
+
+      res.json({
+        success: true,
+        sessions: sessions.map((session) => ({
+          ...session,
+          current: session.id === req.sessionId,
+        })),
+      });
+    } catch (error) {
+      console.error('List sessions error:', error);
+      next(error);
+    }
+  },
+
+  /**
+   * Name one of the current user's devices
+   * PATCH /api/auth/sessions/:sessionId
+   */
+  async renameSession(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { sessionId } = req.params;
+      const { deviceName } = req.body;
+
+      if (deviceName !== null && (typeof deviceName !== 'string' || deviceName.trim().length > 100)) {
+        res.status(400).json({
+          success: false,
+          error: 'deviceName must be a string of at most 100 characters, or null',
+        });
+        return;
+      }
+
+      const name = deviceName?.trim() || null;
+      const renamed = await sessionService.renameSession(req.userId!, sessionId, name);
+
+      if (!renamed) {
+        res.status(404).json({
+          success: false,
+          error: 'Session not found',
+        });
+        return;
+      }
+
+      await prisma.auditLog.create({
+        data: {
+          userId: req.userId,
+          action: 'session_renamed',
+          entityType: 'session',
+          entityId: sessionId,
+          ipAddress: req.ip,
+          userAgent: req.headers['user-agent'],
+          requestData: { deviceName: name },
+          responseStatus: 200,
+        },
+      });
+
+      res.json({
+        success: true,
+        message: 'Device renamed',
+      });
+    } catch (error) {
+      console.error('Rename session error:', error);
+      next(error);
+    }
+  },
+
+  /**
+   * Sign out one of the current user's devices
+   * DELETE /api/auth/sessions/:sessionId
+   */
+  async revokeSession(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { sessionId } = req.params;
+
+      const session = await prisma.authSession.findFirst({
+        where: { id: sessionId, userId: req.userId, revokedAt: null },
+        select: { id: true },
+      });
+
+      if (!session) {
+        res.status(404).json({
+          success: false,
+          error: 'Session not found',
+        });
+        return;
+      }
+
+      await sessionService.revokeSession(sessionId, 'user_signed_out_device');
+
+      await prisma.auditLog.create({
+        data: {
+          userId: req.userId,
+          action: 'session_revoked',
+          entityType: 'session',
+          entityId: sessionId,
+          ipAddress: req.ip,
+          userAgent: req.headers['user-agent'],
+          requestData: { current: sessionId === req.sessionId },
+          responseStatus: 200,
+        },
+      });
+
+      res.json({
+        success: true,
+        message: 'Device signed out',
+      });
+    } catch (error) {
+      console.error('Revoke session error:', error);
+      next(error);
+    }
+  },
+
+  /**
+   * Sign out every device except the one making the request
+   * POST /api/auth/sessions/revoke-others
+   */
+  async revokeOtherSessions(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const revoked = await sessionService.revokeAllSessions(
+        req.userId!,
+        'user_signed_out_other_devices',
+        req.sessionId
+      );
+
+      await prisma.auditLog.create({
+        data: {
+          userId: req.userId,
+          action: 'sessions_revoked',
+          entityType: 'user',
+          entityId: req.userId,
+          ipAddress: req.ip,
+          userAgent: req.headers['user-agent'],
+          requestData: { revoked, keptSessionId: req.sessionId },
+          responseStatus: 200,
+        },
+      });
+
+      res.json({
+        success: true,
+        message: `Signed out of ${revoked} other device(s)`,
+        revoked,
+      });
+    } catch (error) {
+      console.error('Revoke other sessions error:', error);
+      next(error);
+    }
+  },
+
+  /**
+   * List the identities (email, wallets, phone, Privy DID) linked to the current user
+   * GET /api/auth/identities
+   */
+  async listIdentities(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const identities = await identityService.listIdentities(req.userId!);
+
+      res.json({
+        success: true,
+        identities,
+      });
+    } catch (error) {
+      console.error('List identities error:', error);
+      next(error);
+    }
+  },
+
+  /**
+   * Link every identity of another Privy login to the current user
+   * Accounts already owning those identities are merged into the current user
+   * POST /api/auth/identities/privy
+   */
+  async linkPrivyIdentities(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { accessToken } = req.body;
+
+      if (!accessToken) {
+        res.status(400).json({
+          success: false,
+          error: 'Access token is required',
+        });
+        return;
+      }
+
+      const verifiedClaims = await privyService.verifyToken(accessToken);
+      const privyUser = await privyService.getUserByDid(verifiedClaims.user_id);
+      const identities = identityService.identitiesFromPrivyUser(privyUser, verifiedClaims.user_id);
+
+      const mergedUserIds = await identityService.linkWithMerge(req.userId!, identities, {
+        reason: 'identity_link',
+        performedBy: req.userId,
+        ipAddress: req.ip,
+        userAgent: req.headers['user-agent'],
+      });
+
+      await prisma.auditLog.create({
+        data: {
+          userId: req.userId,
+          action: 'identities_linked',
+          entityType: 'user',
+          entityId: req.userId,
+          ipAddress: req.ip,
+          userAgent: req.headers['user-agent'],
+          requestData: {
+            identities: identities.map(({ type, value }) => ({ type, value })),
+            mergedUserIds,
+          },
+          responseStatus: 200,
+        },
+      });
+
+      res.json({
+        success: true,
+        message: mergedUserIds.length > 0 ? `Linked and merged ${mergedUserIds.length} account(s)` : 'Identities linked',
+        mergedUserIds,
+        identities: await identityService.listIdentities(req.userId!),
+      });
+    } catch (error) {
+      if (error instanceof IdentityError) {
+        res.status(error.status).json({
+          success: false,
+          error: error.message,
+        });
+        return;
+      }
+      console.error('Link identities error:', error);
+      next(error);
+    }
+  },
+
+  /**
+   * Link a wallet to the current user by signing a SIWE message
+   * POST /api/auth/identities/siwe
+   */
+  async linkSiweIdentity(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { message, signature } = req.body;
+
+      if (!message || !signature) {
+        res.status(400).json({
+          success: false,
+          error: 'message and signature are required',
+        });
+        return;
+      }
+
+      const walletAddress = await siweService.verify(message, signature);
+
+      const mergedUserIds = await identityService.linkWithMerge(
+        req.userId!,
+        [{ type: 'wallet', value: walletAddress, verified: true }],
+        {
+          reason: 'identity_link',
+          performedBy: req.userId,
+          ipAddress: req.ip,
+          userAgent: req.headers['user-agent'],
+        }
+      );
+
+      await prisma.auditLog.create({
+        data: {
+          userId: req.userId,
+          action: 'identities_linked',
+          entityType: 'user',
+          entityId: req.userId,
+          ipAddress: req.ip,
+          userAgent: req.headers['user-agent'],
+          requestData: {
+            identities: [{ type: 'wallet', value: walletAddress }],
+            mergedUserIds,
+          },
+          responseStatus: 200,
+        },
+      });
+
+      res.json({
+        success: true,
+        message: mergedUserIds.length > 0 ? `Linked and merged ${mergedUserIds.length} account(s)` : 'Wallet linked',
+        mergedUserIds,
+        identities: await identityService.listIdentities(req.userId!),
+      });
+    } catch (error) {
+      if (error instanceof SiweError || error instanceof IdentityError) {
+        res.status(error.status).json({
+          success: false,
+          error: error.message,
+        });
+        return;
+      }
+      console.error('Link SIWE identity error:', error);
+      next(error);
+    }
+  },
+
+  /**
+   * Unlink an identity from the current user
+   * DELETE /api/auth/identities/:identityId
+   */
+  async unlinkIdentity(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { identityId } = req.params;
+
+      await identityService.unlinkIdentity(req.userId!, identityId);
+
+      await prisma.auditLog.create({
+        data: {
+          userId: req.userId,
+          action: 'identity_unlinked',
+          entityType: 'identity',
+          entityId: identityId,
+          ipAddress: req.ip,
+          userAgent: req.headers['user-agent'],
+          responseStatus: 200,
+        },
+      });
+
+      res.json({
+        success: true,
+        message: 'Identity unlinked',
+      });
+    } catch (error) {
+      if (error instanceof IdentityError) {
+        res.status(error.status).json({
+          success: false,
+          error: error.message,
+        });
+        return;
+      }
+      console.error('Unlink identity error:', error);
+      next(error);
+    }
+  },
+
+  /**
+   * Two-factor state for the current user and session
+   * GET /api/auth/2fa/status
+   */
+  async getTwoFactorStatus(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const status = await totpService.getStatus(req.userId!);
+      const verifiedAt = req.sessionId ? await sessionService.getSecondFactorAt(req.sessionId) : null;
+      const user = await prisma.user.findUnique({
+        where: { id: req.userId },
+        select: { roles: true },
+      });
+
+      res.json({
+        success: true,
+        ...status,
+        required: !!user?.roles.some((role) => TWO_FACTOR_ROLES.includes(role)),
+        sessionVerifiedAt: verifiedAt,
+      });
+    } catch (error) {
+      console.error('Get two-factor status error:', error);
+      next(error);
+    }
+  },
+
+  /**
+   * Start TOTP enrolment; returns the secret and an otpauth:// URI to render as a QR code
+   * POST /api/auth/2fa/enroll
+   */
+  async enrollTwoFactor(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const user = await prisma.user.findUnique({
+        where: { id: req.userId },
+        select: { id: true, email: true, walletAddress: true },
+      });
+
+      if (!user) {
+        res.status(404).json({
+          success: false,
+          error: 'User not found',
+        });
+        return;
+      }
+
+      const { secret, otpauthUrl } = await totpService.beginEnrolment(
+        user.id,
+        user.email || user.walletAddress || user.id
+      );
+
+      await logTwoFactorEvent(req, 'two_factor_enrolment_started', 200);
+
+      res.json({
+        success: true,
+        secret,
+        otpauthUrl,
+      });
+    } catch (error) {
+      if (error instanceof TwoFactorError) {
+        await logTwoFactorEvent(req, 'two_factor_enrolment_failed', error.status, { reason: error.message });
+        res.status(error.status).json({
+          success: false,
+          error: error.message,
+        });
+        return;
+      }
+      console.error('Enroll two-factor error:', error);
+      next(error);
+    }
+  },
+
+  /**
+   * Confirm enrolment with a first code; returns one-time recovery codes
+   * POST /api/auth/2fa/enroll/confirm
+   * Body: { code: string }
+   */
+  async confirmTwoFactor(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { code } = req.body;
+
+      if (!code || typeof code !== 'string') {
+        res.status(400).json({
+          success: false,
+          error: 'code is required',
+        });
+        return;
+      }
+
+      const recoveryCodes = await totpService.confirmEnrolment(req.userId!, code);
+
+      if (req.sessionId) {
+        await sessionService.markSecondFactor(req.sessionId);
+      }
+
+      await logTwoFactorEvent(req, 'two_factor_enabled', 200);
+
+      res.json({
+        success: true,
+        message: 'Two-factor authentication enabled',
+        recoveryCodes,
+      });
+    } catch (error) {
+      if (error instanceof TwoFactorError) {
+        await logTwoFactorEvent(req, 'two_factor_enrolment_failed', error.status, { reason: error.message });
+        res.status(error.status).json({
+          success: false,
+          error: error.message,
+        });
+        return;
+      }
+      console.error('Confirm two-factor error:', error);
+      next(error);
+    }
+  },
+
+  /**
+   * Pass a second-factor check on the current session with a TOTP or recovery code
+   * POST /api/auth/2fa/verify
+   * Body: { code?: string, recoveryCode?: string }
+   */
+  async verifyTwoFactor(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { code, recoveryCode } = req.body;
+
+      if (!code && !recoveryCode) {
+        res.status(400).json({
+          success: false,
+          error: 'code or recoveryCode is required',
+        });
+        return;
+      }
+
+      if ((code && typeof code !== 'string') || (recoveryCode && typeof recoveryCode !== 'string')) {
+        res.status(400).json({
+          success: false,
+          error: 'code and recoveryCode must be strings',
+        });
+        return;
+      }
+
+      if (!req.sessionId) {
+        res.status(400).json({
+          success: false,
+          error: 'Two-factor verification requires a session token',
+        });
+        return;
+      }
+
+      const status = await totpService.getStatus(req.userId!);
+      if (!status.enabled) {
+        throw new TwoFactorError('Two-factor authentication is not enabled', 404);
+      }
+
+      let recoveryCodesRemaining = status.recoveryCodesRemaining;
+      if (code) {
+        await totpService.verifyTotp(req.userId!, code);
+      } else {
+        recoveryCodesRemaining = await totpService.useRecoveryCode(req.userId!, recoveryCode);
+      }
+
+      await sessionService.markSecondFactor(req.sessionId);
+
+      await logTwoFactorEvent(req, code ? 'two_factor_verified' : 'two_factor_recovery_code_used', 200, {
+        recoveryCodesRemaining,
+      });
+
+      res.json({
+        success: true,
+        message: 'Second factor verified',
+        recoveryCodesRemaining,
+      });
+    } catch (error) {
+      if (error instanceof TwoFactorError) {
+        await logTwoFactorEvent(req, 'two_factor_verification_failed', error.status, {
+          method: req.body.code ? 'totp' : 'recovery_code',
+          reason: error.message,
+        });
+        res.status(error.status).json({
+          success: false,
+          error: error.message,
+        });
+        return;
+      }
+      console.error('Verify two-factor error:', error);
+      next(error);
+    }
+  },
+
+  /**
+   * Replace the recovery codes (requires a recent second factor)
+   * POST /api/auth/2fa/recovery-codes
+   */
+  async regenerateRecoveryCodes(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const recoveryCodes = await totpService.regenerateRecoveryCodes(req.userId!);
+
+      await logTwoFactorEvent(req, 'two_factor_recovery_codes_regenerated', 200);
+
+      res.json({
+        success: true,
+        recoveryCodes,
+      });
+    } catch (error) {
+      console.error('Regenerate recovery codes error:', error);
+      next(error);
+    }
+  },
+
+  /**
+   * Turn two-factor authentication off (requires a recent second factor)
+   * DELETE /api/auth/2fa
+   */
+  async disableTwoFactor(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      await totpService.disable(req.userId!);
+
+      await logTwoFactorEvent(req, 'two_factor_disabled', 200);
+
+      res.json({
+        success: true,
+        message: 'Two-factor authentication disabled',
+      });
+    } catch (error) {
+      console.error('Disable two-factor error:', error);
+      next(error);
+    }
+  },
+};
@@ -1,6 +1,8 @@
 import { Request, Response, NextFunction } from 'express';
 import { prisma } from '../config/database.js';
 import { googleCalendarService } from '../services/googleCalendarService.js';
+import { projectLifecycleService, ProjectTransitionError } from '../services/projectLifecycleService.js';
+import { organizationService } from '../services/organizationService.js';
 
 export const calendarController = {
   /**
@@ -121,13 +123,24 @@ export const calendarController = {
           return;
         }
 
-        if (project.userId !== userId) {
+        if (!(await organizationService.canAccess(userId, project, 'edit'))) {
           res.status(403).json({
             success: false,
             error: 'Access denied',
           });
           return;
         }
+
+        if (project.archivedAt) {
+          res.status(409).json({
+            success: false,
+            error: 'Project is archived',
+          });
+          return;
+        }
+
+        // Checked before the calendar event is created so a rejected booking leaves nothing behind
+        projectLifecycleService.assertTransition(project, 'strategy_call_booked');
       }
 
       const scheduledDate = new Date(scheduledAt);
@@ -180,26 +193,39 @@ export const calendarController = {
         duration
       );
 
-      // Create strategy call record
-      const strategyCall = await prisma.strategyCall.create({
-        data: {
-          userId,
-          projectId: projectId || null,
-          googleEventId: calendarEvent.eventId,
-          scheduledAt: scheduledDate,
-          durationMinutes: duration,
-          meetLink: calendarEvent.meetLink,
-          status: 'scheduled',
-        },
-      });
-
-      // Update project status if project is linked
-      if (projectId) {
-        await prisma.projectAssessment.update({
-          where: { id: projectId },
-          data: { status: 'strategy_call_booked' },
+      // Create strategy call record and move the linked project along with it
+      const strategyCall = await prisma.$transaction(async (tx) => {
+        const call = await tx.strategyCall.create({
+          data: {
+            userId,
+            projectId: projectId || null,
+            googleEventId: calendarEvent.eventId,
+            scheduledAt: scheduledDate,
+            durationMinutes: duration,
+            meetLink: calendarEvent.meetLink,
+            status: 'scheduled',
+          },
         });
-      }
+
+        if (projectId) {
+          await projectLifecycleService.transition(
+            projectId,
+            'strategy_call_booked',
+            { actorId: userId, reason: `Strategy call ${call.id} booked` },
+            tx
+          );
+        }
+
+        return call;
+      }).catch(async (error) => {
+        // The project changed since it was checked; don't leave an orphaned calendar event
+        try {
+          await googleCalendarService.cancelStrategyCall(calendarEvent.eventId);
+        } catch (cancelError) {
+          console.error('Error canceling Google Calendar event:', cancelError);
+        }
+        throw error;
+      });
 
       // Log action
       await prisma.auditLog.create({
@@ -220,6 +246,13 @@ export const calendarController = {
         call: strategyCall,
       });
     } catch (error) {
+      if (error instanceof ProjectTransitionError) {
+        res.status(error.status).json({
+          success: false,
+          error: error.message,
+        });
+        return;
+      }
       console.error('Book strategy call error:', error);
       next(error);
     }
@@ -242,7 +275,7 @@ export const calendarController = {
       }
 
       const calls = await prisma.strategyCall.findMany({
-        where: { userId },
+        where: organizationService.accessibleCallsWhere(userId),
         include: {
           project: {
             select: {
@@ -283,6 +316,7 @@ export const calendarController = {
 
       const strategyCall = await prisma.strategyCall.findUnique({
         where: { id: callId },
+        include: { project: { select: { userId: true, organizationId: true } } },
       });
 
       if (!strategyCall) {
@@ -293,8 +327,8 @@ export const calendarController = {
         return;
       }
 
-      // Verify ownership
-      if (strategyCall.userId !== userId) {
+      // Verify access
+      if (!(await organizationService.canAccessCall(userId, strategyCall, 'edit'))) {
         res.status(403).json({
           success: false,
           error: 'Access denied',
@@ -372,6 +406,8 @@ export const calendarController = {
         include: {
           project: {
             select: {
+              userId: true,
+              organizationId: true,
               projectName: true,
               projectType: true,
               projectDescription: true,
@@ -394,8 +430,8 @@ export const calendarController = {
         return;
       }
 
-      // Verify ownership
-      if (strategyCall.userId !== userId) {
+      // Verify access
+      if (!(await organizationService.canAccessCall(userId, strategyCall, 'read'))) {
         res.status(403).json({
           success: false,
           error: 'Access denied',
@@ -0,0 +1,366 @@
+import { Request, Response, NextFunction } from 'express';
+import { prisma } from '../config/database.js';
+import {
+  organizationService,
+  OrganizationError,
+  OrganizationAction,
+  isOrganizationRole,
+  ORGANIZATION_ROLES,
+} from '../services/organizationService.js';
+
+const EMAIL_REGEX = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const MAX_NAME_LENGTH = 255;
+
+const logOrganizationEvent = (req: Request, action: string, organizationId: string, requestData?: object) =>
+  prisma.auditLog.create({
+    data: {
+      userId: req.userId,
+      action,
+      entityType: 'organization',
+      entityId: organizationId,
+      ipAddress: req.ip,
+      userAgent: req.headers['user-agent'],
+      requestData,
+      responseStatus: 200,
+    },
+  });
+
+/**
+ * Respond and return false unless the current user may perform the action
+ * Non-members get a 404 so organization ids cannot be probed
+ */
+const checkAccess = async (req: Request, res: Response, action: OrganizationAction): Promise<boolean> => {
+  const role = await organizationService.getRole(req.params.organizationId, req.userId!);
+
+  if (!role) {
+    res.status(404).json({
+      success: false,
+      error: 'Organization not found',
+    });
+    return false;
+  }
+
+  if (!organizationService.roleAllows(role, action)) {
+    res.status(403).json({
+      success: false,
+      error: 'Access denied',
+    });
+    return false;
+  }
+
+  return true;
+};
+
+const parseName = (name: unknown): string | null =>
+  typeof name === 'string' && name.trim() && name.trim().length <= MAX_NAME_LENGTH ? name.trim() : null;
+
+const handleOrganizationError = (error: unknown, res: Response): boolean => {
+  if (error instanceof OrganizationError) {
+    res.status(error.status).json({
+      success: false,
+      error: error.message,
+    });
+    return true;
+  }
+  return false;
+};
+
+export const organizationController = {
+  /**
+   * Create an organization (the caller becomes its owner)
+   * POST /api/organizations
+   * Body: { name: string }
+   */
+  async createOrganization(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const userId = req.userId;
+
+      if (!userId) {
+        res.status(401).json({
+          success: false,
+          error: 'Unauthorized',
+        });
+        return;
+      }
+
+      const name = parseName(req.body.name);
+
+      if (!name) {
+        res.status(400).json({
+          success: false,
+          error: `name is required (max ${MAX_NAME_LENGTH} characters)`,
+        });
+        return;
+      }
+
+      const organization = await organizationService.createOrganization(userId, name);
+      await logOrganizationEvent(req, 'organization_created', organization.id, { name });
+
+      res.status(201).json({
+        success: true,
+        message: 'Organization created',
+        organization: { ...organization, role: 'owner' },
+      });
+    } catch (error) {
+      console.error('Create organization error:', error);
+      next(error);
+    }
+  },
+
+  /**
+   * List the organizations the caller belongs to
+   * GET /api/organizations
+   */
+  async listOrganizations(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const userId = req.userId;
+
+      if (!userId) {
+        res.status(401).json({
+          success: false,
+          error: 'Unauthorized',
+        });
+        return;
+      }
+
+      const organizations = await organizationService.listForUser(userId);
+
+      res.json({
+        success: true,
+        organizations,
+      });
+    } catch (error) {
+      console.error('List organizations error:', error);
+      next(error);
+    }
+  },
+
+  /**
+   * Get an organization with its members and pending invitations
+   * GET /api/organizations/:organizationId
+   */
+  async getOrganization(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!(await checkAccess(req, res, 'read'))) return;
+
+      const organization = await organizationService.getOrganization(req.params.organizationId);
+
+      res.json({
+        success: true,
+        organization,
+      });
+    } catch (error) {
+      if (handleOrganizationError(error, res)) return;
+      console.error('Get organization error:', error);
+      next(error);
+    }
+  },
+
+  /**
+   * Rename an organization
+   * PATCH /api/organizations/:organizationId
+   * Body: { name: string }
+   */
+  async updateOrganization(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { organizationId } = req.params;
+      const name = parseName(req.body.name);
+
+      if (!name) {
+        res.status(400).json({
+          success: false,
+          error: `name is required (max ${MAX_NAME_LENGTH} characters)`,
+        });
+        return;
+      }
+
+      if (!(await checkAccess(req, res, 'manage'))) return;
+
+      const organization = await organizationService.renameOrganization(organizationId, name);
+      await logOrganizationEvent(req, 'organization_renamed', organizationId, { name });
+
+      res.json({
+        success: true,
+        message: 'Organization updated',
+        organization,
+      });
+    } catch (error) {
+      console.error('Update organization error:', error);
+      next(error);
+    }
+  },
+
+  /**
+   * Invite someone to the organization by email
+   * POST /api/organizations/:organizationId/invitations
+   * Body: { email: string, role: 'owner' | 'editor' | 'billing' | 'viewer' }
+   */
+  async inviteMember(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { organizationId } = req.params;
+      const { email, role } = req.body;
+
+      if (typeof email !== 'string' || !EMAIL_REGEX.test(email.trim())) {
+        res.status(400).json({
+          success: false,
+          error: 'A valid email is required',
+        });
+        return;
+      }
+
+      if (!isOrganizationRole(role)) {
+        res.status(400).json({
+          success: false,
+          error: `role must be one of: ${ORGANIZATION_ROLES.join(', ')}`,
+        });
+        return;
+      }
+
+      if (!(await checkAccess(req, res, 'manage'))) return;
+
+      const invitation = await organizationService.inviteMember(organizationId, req.userId!, email, role);
+      await logOrganizationEvent(req, 'organization_invitation_sent', organizationId, {
+        invitationId: invitation.id,
+        email: invitation.email,
+        role,
+      });
+
+      res.status(201).json({
+        success: true,
+        message: `Invitation sent to ${invitation.email}`,
+        invitation,
+      });
+    } catch (error) {
+      if (handleOrganizationError(error, res)) return;
+      console.error('Invite member error:', error);
+      next(error);
+    }
+  },
+
+  /**
+   * Revoke a pending invitation
+   * DELETE /api/organizations/:organizationId/invitations/:invitationId
+   */
+  async revokeInvitation(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { organizationId, invitationId } = req.params;
+
+      if (!(await checkAccess(req, res, 'manage'))) return;
+
+      await organizationService.revokeInvitation(organizationId, invitationId);
+      await logOrganizationEvent(req, 'organization_invitation_revoked', organizationId, { invitationId });
+
+      res.json({
+        success: true,
+        message: 'Invitation revoked',
+      });
+    } catch (error) {
+      if (handleOrganizationError(error, res)) return;
+      console.error('Revoke invitation error:', error);
+      next(error);
+    }
+  },
+
+  /**
+   * Accept an invitation sent to the caller's verified email
+   * POST /api/organizations/invitations/accept
+   * Body: { token: string }
+   */
+  async acceptInvitation(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const userId = req.userId;
+      const { token } = req.body;
+
+      if (!userId) {
+        res.status(401).json({
+          success: false,
+          error: 'Unauthorized',
+        });
+        return;
+      }
+
+      if (typeof token !== 'string' || !token) {
+        res.status(400).json({
+          success: false,
+          error: 'token is required',
+        });
+        return;
+      }
+
+      const membership = await organizationService.acceptInvitation(token, userId);
+      await logOrganizationEvent(req, 'organization_joined', membership.organizationId, { role: membership.role });
+
+      res.json({
+        success: true,
+        message: `Joined ${membership.organization.name}`,
+        organization: { ...membership.organization, role: membership.role },
+      });
+    } catch (error) {
+      if (handleOrganizationError(error, res)) return;
+      console.error('Accept invitation error:', error);
+      next(error);
+    }
+  },
+
+  /**
+   * Change a member's role
+   * PATCH /api/organizations/:organizationId/members/:userId
+   * Body: { role: 'owner' | 'editor' | 'billing' | 'viewer' }
+   */
+  async updateMemberRole(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { organizationId, userId: memberId } = req.params;
+      const { role } = req.body;
+
+      if (!isOrganizationRole(role)) {
+        res.status(400).json({
+          success: false,
+          error: `role must be one of: ${ORGANIZATION_ROLES.join(', ')}`,
+        });
+        return;
+      }
+
+      if (!(await checkAccess(req, res, 'manage'))) return;
+
+      const member = await organizationService.changeRole(organizationId, memberId, role);
+      await logOrganizationEvent(req, 'organization_member_role_changed', organizationId, { memberId, role });
+
+      res.json({
+        success: true,
+        message: 'Member role updated',
+        member,
+      });
+    } catch (error) {
+      if (handleOrganizationError(error, res)) return;
+      console.error('Update member role error:', error);
+      next(error);
+    }
+  },
+
+  /**
+   * Remove a member; any member may remove themselves to leave
+   * DELETE /api/organizations/:organizationId/members/:userId
+   */
+  async removeMember(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { organizationId, userId: memberId } = req.params;
+      const leaving = memberId === req.userId;
+
+      if (!(await checkAccess(req, res, leaving ? 'read' : 'manage'))) return;
+
+      await organizationService.removeMember(organizationId, memberId);
+      await logOrganizationEvent(req, leaving ? 'organization_left' : 'organization_member_removed', organizationId, {
+        memberId,
+      });
+
+      res.json({
+        success: true,
+        message: leaving ? 'You left the organization' : 'Member removed',
+      });
+    } catch (error) {
+      if (handleOrganizationError(error, res)) return;
+      console.error('Remove member error:', error);
+      next(error);
+    }
+  },
+};
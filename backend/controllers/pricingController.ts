@@ -1,5 +1,12 @@
 import { Request, Response } from 'express';
-import { pricingService } from '../services/pricingService.js';
+import { ProjectType, Urgency } from '@prisma/client';
+import { pricingService, PricingError } from '../services/pricingService.js';
+import {
+  pricingSimulationService,
+  SimulationScenario,
+  SimulationScope,
+  MAX_SIMULATION_SCENARIOS,
+} from '../services/pricingSimulationService.js';
 
 interface AuthRequest extends Request {
   user?: {
@@ -8,10 +15,88 @@ interface AuthRequest extends Request {
   };
 }
 
+const SIMULATION_TEXT_LIMITS = { bundleId: 100, revenueCategory: 50, companyScale: 50 } as const;
+
+/**
+ * Validate the scope fields of a simulation request (all required fields unless partial, for scenarios)
+ * Returns the parsed values, or an error message for a 400 response
+ */
+const parseSimulationFields = (
+  body: Record<string, any>,
+  partial: boolean
+): Partial<SimulationScope> | string => {
+  const fields: Partial<SimulationScope> = {};
+
+  for (const [field, limit] of Object.entries(SIMULATION_TEXT_LIMITS) as [keyof typeof SIMULATION_TEXT_LIMITS, number][]) {
+    if (body[field] === undefined && partial) continue;
+
+    if (typeof body[field] !== 'string' || !body[field].trim() || body[field].length > limit) {
+      return `${field} is required (max ${limit} characters)`;
+    }
+    fields[field] = body[field].trim();
+  }
+
+  if (body.projectType !== undefined) {
+    if (!Object.values(ProjectType).includes(body.projectType)) {
+      return `projectType must be one of: ${Object.values(ProjectType).join(', ')}`;
+    }
+    fields.projectType = body.projectType;
+  }
+
+  if (body.urgency !== undefined) {
+    if (!Object.values(Urgency).includes(body.urgency)) {
+      return `urgency must be one of: ${Object.values(Urgency).join(', ')}`;
+    }
+    fields.urgency = body.urgency;
+  }
+
+  if (body.features !== undefined) {
+    if (
+      !Array.isArray(body.features) ||
+      body.features.length > 50 ||
+      body.features.some((feature: unknown) => typeof feature !== 'string' || feature.length > 200)
+    ) {
+      return 'features must be a list of at most 50 descriptions';
+    }
+    fields.features = body.features;
+  }
+
+  if (body.integrations !== undefined) {
+    if (
+      !Array.isArray(body.integrations) ||
+      body.integrations.length > 30 ||
+      body.integrations.some(
+        (integration: any) => typeof integration?.type !== 'string' || integration.type.length > 50
+      )
+    ) {
+      return 'integrations must be a list of at most 30 { type } entries';
+    }
+    fields.integrations = body.integrations.map((integration: { type: string }) => ({ type: integration.type }));
+  }
+
+  return fields;
+};
+
+/**
+ * Validate one what-if scenario: a label and the scope fields it changes
+ */
+const parseSimulationScenario = (body: any): SimulationScenario | string => {
+  if (typeof body?.label !== 'string' || !body.label.trim() || body.label.length > 60) {
+    return 'Each scenario needs a label (max 60 characters)';
+  }
+
+  if (body.revenueCategory !== undefined) {
+    return 'revenueCategory cannot change between scenarios';
+  }
+
+  const changes = parseSimulationFields(body, true);
+  return typeof changes === 'string' ? changes : { ...changes, label: body.label.trim() };
+};
+
 class PricingController {
   /**
    * POST /api/pricing/calculate
-   * Calculate pricing based on RC + Scale + Complexity
+   * Calculate pricing based on RC + Scale + Complexity + Urgency
    */
   async calculatePricing(req: AuthRequest, res: Response): Promise<void> {
     try {
@@ -20,6 +105,8 @@ class PricingController {
         revenueCategory,
         companyRevenueScale,
         complexityRating,
+        urgency,
+        asOf,
       } = req.body;
 
       if (!bundleId || !revenueCategory || !companyRevenueScale) {
@@ -30,13 +117,33 @@ class PricingController {
         return;
       }
 
+      if (urgency !== undefined && !Object.values(Urgency).includes(urgency)) {
+        res.status(400).json({
+          success: false,
+          error: `urgency must be one of: ${Object.values(Urgency).join(', ')}`,
+        });
+        return;
+      }
+
+      const asOfDate = asOf === undefined ? undefined : new Date(asOf);
+
+      if (asOfDate && (typeof asOf !== 'string' || isNaN(asOfDate.getTime()))) {
+        res.status(400).json({
+          success: false,
+          error: 'asOf must be an ISO date',
+        });
+        return;
+      }
+
       const complexityRatingValue = complexityRating || 5; // Default to medium complexity
 
       const pricing = await pricingService.calculatePricing(
         bundleId,
         revenueCategory,
         companyRevenueScale,
-        complexityRatingValue
+        complexityRatingValue,
+        urgency,
+        asOfDate
       );
 
       res.json({
@@ -44,6 +151,13 @@ class PricingController {
         pricing,
       });
     } catch (error: any) {
+      if (error instanceof PricingError) {
+        res.status(error.status).json({
+          success: false,
+          error: error.message,
+        });
+        return;
+      }
       console.error('Error calculating pricing:', error);
       res.status(500).json({
         success: false,
@@ -52,6 +166,120 @@ class PricingController {
     }
   }
 
+  /**
+   * POST /api/pricing/simulate
+   * Price a hypothetical scope and what-if scenarios side by side, without storing anything
+   */
+  async simulatePricing(req: Request, res: Response): Promise<void> {
+    try {
+      const parsed = parseSimulationFields(req.body ?? {}, false);
+
+      if (typeof parsed === 'string') {
+        res.status(400).json({
+          success: false,
+          error: parsed,
+        });
+        return;
+      }
+
+      const scope: SimulationScope = {
+        projectType: 'fullstack',
+        urgency: 'standard',
+        features: [],
+        integrations: [],
+        ...(parsed as Pick<SimulationScope, 'bundleId' | 'revenueCategory' | 'companyScale'>),
+      };
+
+      let scenarios: SimulationScenario[];
+
+      if (req.body.scenarios === undefined) {
+        scenarios = pricingSimulationService.defaultScenarios(scope);
+      } else {
+        if (!Array.isArray(req.body.scenarios) || req.body.scenarios.length > MAX_SIMULATION_SCENARIOS) {
+          res.status(400).json({
+            success: false,
+            error: `scenarios must be a list of at most ${MAX_SIMULATION_SCENARIOS} scenarios`,
+          });
+          return;
+        }
+
+        scenarios = [];
+
+        for (const body of req.body.scenarios) {
+          const scenario = parseSimulationScenario(body);
+
+          if (typeof scenario === 'string') {
+            res.status(400).json({
+              success: false,
+              error: scenario,
+            });
+            return;
+          }
+
+          scenarios.push(scenario);
+        }
+      }
+
+      const results = await pricingSimulationService.simulate(scope, scenarios);
+
+      res.json({
+        success: true,
+        scenarios: results,
+      });
+    } catch (error: any) {
+      if (error instanceof PricingError) {
+        res.status(error.status).json({
+          success: false,
+          error: error.message,
+        });
+        return;
+      }
+      console.error('Error simulating pricing:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to simulate pricing',
+      });
+    }
+  }
+
+  /**
+   * GET /api/pricing/bundles/:bundleId/history
+   * A bundle's base prices in each published price book, for price history charts
+   */
+  async getBundlePriceHistory(req: Request, res: Response): Promise<void> {
+    try {
+      const { revenueCategory, companyScale } = req.query;
+
+      if (
+        (revenueCategory !== undefined && typeof revenueCategory !== 'string') ||
+        (companyScale !== undefined && typeof companyScale !== 'string')
+      ) {
+        res.status(400).json({
+          success: false,
+          error: 'revenueCategory and companyScale must be single codes',
+        });
+        return;
+      }
+
+      const history = await pricingService.getBundlePriceHistory(req.params.bundleId, {
+        revenueCategory,
+        companyScale,
+      });
+
+      res.json({
+        success: true,
+        bundleId: req.params.bundleId,
+        history,
+      });
+    } catch (error) {
+      console.error('Error fetching bundle price history:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to fetch bundle price history',
+      });
+    }
+  }
+
   /**
    * GET /api/pricing/categories
    * Get all revenue categories
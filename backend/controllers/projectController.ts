@@ -0,0 +1,671 @@
+import { Request, Response, NextFunction } from 'express';
+import { Prisma, ProjectStatus, ProjectType, Urgency } from '@prisma/client';
+import { prisma } from '../config/database.js';
+import {
+  projectLifecycleService,
+  ProjectTransitionError,
+  PROJECT_TRANSITIONS,
+} from '../services/projectLifecycleService.js';
+import { organizationService } from '../services/organizationService.js';
+
+const PROJECT_TYPES: ProjectType[] = ['creative', 'fullstack', 'web3', 'ai_automation'];
+const URGENCY_LEVELS: Urgency[] = ['standard', 'urgent', 'critical'];
+const BUDGET_RANGES = ['under_10k', '10k_25k', '25k_50k', '50k_100k', '100k_250k', 'over_250k'];
+
+// projectScope shape understood by the quote engine's complexity scoring
+const SCOPE_TIMELINES = ['standard', 'urgent', 'critical'];
+const INTEGRATION_TYPES = ['payment', 'blockchain', 'ai', 'custom_api', 'auth', 'crm', 'analytics', 'storage', 'other'];
+const SCOPE_KEYS = ['features', 'integrations', 'timeline', 'notes'];
+const MAX_SCOPE_ITEMS = 50;
+
+// Pricing inputs are matched against the pricing tables when a quote is generated
+const PRICING_INPUT_LIMITS = { bundleId: 100, revenueCategory: 50, companyScale: 50 } as const;
+
+// Once work is agreed the brief is frozen
+const LOCKED_STATUSES: ProjectStatus[] = ['quote_accepted', 'in_progress', 'completed'];
+
+type ProjectInput = Pick<
+  Prisma.ProjectAssessmentUncheckedCreateInput,
+  | 'projectName'
+  | 'projectType'
+  | 'projectDescription'
+  | 'projectScope'
+  | 'budgetRange'
+  | 'urgency'
+  | 'bundleId'
+  | 'revenueCategory'
+  | 'companyScale'
+>;
+
+/**
+ * Validate projectScope: { features?: string[], integrations?: { type, name? }[], timeline?, notes? }
+ * Returns an error message, or null when the scope is valid
+ */
+const validateScope = (scope: any): string | null => {
+  if (typeof scope !== 'object' || scope === null || Array.isArray(scope)) {
+    return 'projectScope must be an object';
+  }
+
+  const unknownKeys = Object.keys(scope).filter((key) => !SCOPE_KEYS.includes(key));
+  if (unknownKeys.length > 0) {
+    return `Unknown projectScope fields: ${unknownKeys.join(', ')}`;
+  }
+
+  if (scope.features !== undefined) {
+    if (
+      !Array.isArray(scope.features) ||
+      scope.features.length > MAX_SCOPE_ITEMS ||
+      scope.features.some((feature: unknown) => typeof feature !== 'string' || !feature.trim() || feature.length > 200)
+    ) {
+      return `projectScope.features must be a list of up to ${MAX_SCOPE_ITEMS} short descriptions`;
+    }
+  }
+
+  if (scope.integrations !== undefined) {
+    if (
+      !Array.isArray(scope.integrations) ||
+      scope.integrations.length > MAX_SCOPE_ITEMS ||
+      scope.integrations.some(
+        (integration: any) =>
+          typeof integration !== 'object' ||
+          integration === null ||
+          !INTEGRATION_TYPES.includes(integration.type) ||
+          (integration.name !== undefined && (typeof integration.name !== 'string' || integration.name.length > 100))
+      )
+    ) {
+      return `projectScope.integrations must be a list of { type, name? } with type one of: ${INTEGRATION_TYPES.join(', ')}`;
+    }
+  }
+
+  if (scope.timeline !== undefined && !SCOPE_TIMELINES.includes(scope.timeline)) {
+    return `projectScope.timeline must be one of: ${SCOPE_TIMELINES.join(', ')}`;
+  }
+
+  if (scope.notes !== undefined && (typeof scope.notes !== 'string' || scope.notes.length > 2000)) {
+    return 'projectScope.notes must be text of at most 2000 characters';
+  }
+
+  return null;
+};
+
+/**
+ * Validate a create (all required fields) or update (any subset) body
+ * Returns the cleaned fields, or an error message
+ */
+const parseProjectInput = (
+  body: any,
+  partial: boolean
+): { data: Partial<ProjectInput>; error?: string } => {
+  const data: Partial<ProjectInput> = {};
+
+  if (body.projectName !== undefined || !partial) {
+    if (typeof body.projectName !== 'string' || !body.projectName.trim() || body.projectName.length > 255) {
+      return { data, error: 'projectName is required and must be at most 255 characters' };
+    }
+    data.projectName = body.projectName.trim();
+  }
+
+  if (body.projectType !== undefined || !partial) {
+    if (!PROJECT_TYPES.includes(body.projectType)) {
+      return { data, error: `projectType must be one of: ${PROJECT_TYPES.join(', ')}` };
+    }
+    data.projectType = body.projectType;
+  }
+
+  if (body.projectDescription !== undefined) {
+    if (body.projectDescription !== null && (typeof body.projectDescription !== 'string' || body.projectDescription.length > 10000)) {
+      return { data, error: 'projectDescription must be text of at most 10000 characters' };
+    }
+    data.projectDescription = body.projectDescription;
+  }
+
+  if (body.projectScope !== undefined) {
+    if (body.projectScope === null) {
+      data.projectScope = Prisma.DbNull;
+    } else {
+      const scopeError = validateScope(body.projectScope);
+      if (scopeError) {
+        return { data, error: scopeError };
+      }
+      data.projectScope = body.projectScope;
+    }
+  }
+
+  if (body.budgetRange !== undefined) {
+    if (body.budgetRange !== null && !BUDGET_RANGES.includes(body.budgetRange)) {
+      return { data, error: `budgetRange must be one of: ${BUDGET_RANGES.join(', ')}` };
+    }
+    data.budgetRange = body.budgetRange;
+  }
+
+  if (body.urgency !== undefined) {
+    if (body.urgency !== null && !URGENCY_LEVELS.includes(body.urgency)) {
+      return { data, error: `urgency must be one of: ${URGENCY_LEVELS.join(', ')}` };
+    }
+    data.urgency = body.urgency;
+  }
+
+  for (const [field, maxLength] of Object.entries(PRICING_INPUT_LIMITS) as [keyof typeof PRICING_INPUT_LIMITS, number][]) {
+    if (body[field] !== undefined) {
+      if (body[field] !== null && (typeof body[field] !== 'string' || !body[field].trim() || body[field].length > maxLength)) {
+        return { data, error: `${field} must be a pricing code of at most ${maxLength} characters` };
+      }
+      data[field] = body[field] === null ? null : body[field].trim();
+    }
+  }
+
+  return { data };
+};
+
+export const projectController = {
+  /**
+   * Create a project assessment
+   * POST /api/projects
+   */
+  async createProject(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const userId = req.userId;
+
+      if (!userId) {
+        res.status(401).json({
+          success: false,
+          error: 'Unauthorized',
+        });
+        return;
+      }
+
+      const { data, error } = parseProjectInput(req.body, false);
+
+      if (error) {
+        res.status(400).json({
+          success: false,
+          error,
+        });
+        return;
+      }
+
+      const organizationId: string | null = req.body.organizationId ?? null;
+
+      if (
+        organizationId !== null &&
+        (typeof organizationId !== 'string' ||
+          !(await organizationService.canAccess(userId, { userId, organizationId }, 'edit')))
+      ) {
+        res.status(403).json({
+          success: false,
+          error: 'You cannot create projects in this organization',
+        });
+        return;
+      }
+
+      const project = await prisma.$transaction(async (tx) => {
+        const created = await tx.projectAssessment.create({
+          data: {
+            ...(data as ProjectInput),
+            userId,
+            organizationId,
+          },
+        });
+
+        await projectLifecycleService.recordCreated(created.id, userId, tx);
+
+        return created;
+      });
+
+      await prisma.auditLog.create({
+        data: {
+          userId,
+          action: 'project_created',
+          entityType: 'project',
+          entityId: project.id,
+          ipAddress: req.ip,
+          userAgent: req.headers['user-agent'],
+          requestData: { projectType: project.projectType, organizationId },
+          responseStatus: 201,
+        },
+      });
+
+      res.status(201).json({
+        success: true,
+        message: 'Project created successfully',
+        project,
+      });
+    } catch (error) {
+      console.error('Create project error:', error);
+      next(error);
+    }
+  },
+
+  /**
+   * List the user's projects and those of their organizations (archived ones only when asked for)
+   * GET /api/projects?status=&organizationId=&includeArchived=true
+   */
+  async getUserProjects(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const userId = req.userId;
+
+      if (!userId) {
+        res.status(401).json({
+          success: false,
+          error: 'Unauthorized',
+        });
+        return;
+      }
+
+      const status = req.query.status as ProjectStatus | undefined;
+      const includeArchived = req.query.includeArchived === 'true';
+      const organizationId = typeof req.query.organizationId === 'string' ? req.query.organizationId : undefined;
+
+      if (status && !Object.values(ProjectStatus).includes(status)) {
+        res.status(400).json({
+          success: false,
+          error: `status must be one of: ${Object.values(ProjectStatus).join(', ')}`,
+        });
+        return;
+      }
+
+      const projects = await prisma.projectAssessment.findMany({
+        where: {
+          ...organizationService.accessibleProjectsWhere(userId),
+          ...(organizationId && { organizationId }),
+          ...(status && { status }),
+          ...(!includeArchived && { archivedAt: null }),
+        },
+        include: {
+          organization: { select: { id: true, name: true } },
+          _count: { select: { quotes: true, strategyCalls: true } },
+        },
+        orderBy: { createdAt: 'desc' },
+      });
+
+      res.json({
+        success: true,
+        projects,
+      });
+    } catch (error) {
+      console.error('Get user projects error:', error);
+      next(error);
+    }
+  },
+
+  /**
+   * Get project by ID with its quotes and strategy calls
+   * GET /api/projects/:projectId
+   */
+  async getProjectById(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { projectId } = req.params;
+      const userId = req.userId;
+
+      if (!userId) {
+        res.status(401).json({
+          success: false,
+          error: 'Unauthorized',
+        });
+        return;
+      }
+
+      const project = await prisma.projectAssessment.findUnique({
+        where: { id: projectId },
+        include: {
+          quotes: {
+            select: { id: true, status: true, totalEstimate: true, notToExceed: true, validUntil: true, createdAt: true },
+            orderBy: { createdAt: 'desc' },
+          },
+          strategyCalls: {
+            select: { id: true, status: true, scheduledAt: true, meetLink: true },
+            orderBy: { scheduledAt: 'desc' },
+          },
+        },
+      });
+
+      if (!project) {
+        res.status(404).json({
+          success: false,
+          error: 'Project not found',
+        });
+        return;
+      }
+
+      // Verify access
+      if (!(await organizationService.canAccess(userId, project, 'read'))) {
+        res.status(403).json({
+          success: false,
+          error: 'Access denied',
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        project: {
+          ...project,
+          quotes: project.quotes.map((quote) => ({
+            ...quote,
+            totalEstimate: parseFloat(quote.totalEstimate.toString()),
+            notToExceed: parseFloat(quote.notToExceed.toString()),
+          })),
+        },
+      });
+    } catch (error) {
+      console.error('Get project error:', error);
+      next(error);
+    }
+  },
+
+  /**
+   * Update a project's brief
+   * PATCH /api/projects/:projectId
+   */
+  async updateProject(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { projectId } = req.params;
+      const userId = req.userId;
+
+      if (!userId) {
+        res.status(401).json({
+          success: false,
+          error: 'Unauthorized',
+        });
+        return;
+      }
+
+      const project = await prisma.projectAssessment.findUnique({
+        where: { id: projectId },
+      });
+
+      if (!project) {
+        res.status(404).json({
+          success: false,
+          error: 'Project not found',
+        });
+        return;
+      }
+
+      // Verify access
+      if (!(await organizationService.canAccess(userId, project, 'edit'))) {
+        res.status(403).json({
+          success: false,
+          error: 'Access denied',
+        });
+        return;
+      }
+
+      if (project.archivedAt) {
+        res.status(409).json({
+          success: false,
+          error: 'Archived projects cannot be edited',
+        });
+        return;
+      }
+
+      if (LOCKED_STATUSES.includes(project.status)) {
+        res.status(409).json({
+          success: false,
+          error: `Projects cannot be edited once they are ${project.status}`,
+        });
+        return;
+      }
+
+      const { data, error } = parseProjectInput(req.body, true);
+
+      if (error) {
+        res.status(400).json({
+          success: false,
+          error,
+        });
+        return;
+      }
+
+      if (Object.keys(data).length === 0) {
+        res.status(400).json({
+          success: false,
+          error: 'No fields to update',
+        });
+        return;
+      }
+
+      // Anything that feeds complexity scoring invalidates the cached score
+      const rescore = ['projectType', 'projectScope', 'urgency'].some((field) => field in data);
+
+      const updated = await prisma.projectAssessment.update({
+        where: { id: projectId },
+        data: {
+          ...data,
+          ...(rescore && { complexityScore: null }),
+        },
+      });
+
+      await prisma.auditLog.create({
+        data: {
+          userId,
+          action: 'project_updated',
+          entityType: 'project',
+          entityId: projectId,
+          ipAddress: req.ip,
+          userAgent: req.headers['user-agent'],
+          requestData: { fields: Object.keys(data) },
+          responseStatus: 200,
+        },
+      });
+
+      res.json({
+        success: true,
+        message: 'Project updated successfully',
+        project: updated,
+      });
+    } catch (error) {
+      console.error('Update project error:', error);
+      next(error);
+    }
+  },
+
+  /**
+   * Archive a project (hidden from lists, kept with its quotes and calls)
+   * POST /api/projects/:projectId/archive
+   */
+  async archiveProject(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { projectId } = req.params;
+      const userId = req.userId;
+
+      if (!userId) {
+        res.status(401).json({
+          success: false,
+          error: 'Unauthorized',
+        });
+        return;
+      }
+
+      const project = await prisma.projectAssessment.findUnique({
+        where: { id: projectId },
+      });
+
+      if (!project) {
+        res.status(404).json({
+          success: false,
+          error: 'Project not found',
+        });
+        return;
+      }
+
+      // Verify access
+      if (!(await organizationService.canAccess(userId, project, 'edit'))) {
+        res.status(403).json({
+          success: false,
+          error: 'Access denied',
+        });
+        return;
+      }
+
+      if (project.archivedAt) {
+        res.status(400).json({
+          success: false,
+          error: 'Project is already archived',
+        });
+        return;
+      }
+
+      if (project.status === 'in_progress') {
+        res.status(409).json({
+          success: false,
+          error: 'Projects in progress cannot be archived',
+        });
+        return;
+      }
+
+      const archived = await prisma.projectAssessment.update({
+        where: { id: projectId },
+        data: { archivedAt: new Date() },
+      });
+
+      await prisma.auditLog.create({
+        data: {
+          userId,
+          action: 'project_archived',
+          entityType: 'project',
+          entityId: projectId,
+          ipAddress: req.ip,
+          userAgent: req.headers['user-agent'],
+          responseStatus: 200,
+        },
+      });
+
+      res.json({
+        success: true,
+        message: 'Project archived',
+        project: archived,
+      });
+    } catch (error) {
+      console.error('Archive project error:', error);
+      next(error);
+    }
+  },
+
+  /**
+   * Submit the brief for assessment (initiated -> assessment_complete)
+   * POST /api/projects/:projectId/submit
+   */
+  async submitProject(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { projectId } = req.params;
+      const userId = req.userId;
+
+      if (!userId) {
+        res.status(401).json({
+          success: false,
+          error: 'Unauthorized',
+        });
+        return;
+      }
+
+      const project = await prisma.projectAssessment.findUnique({
+        where: { id: projectId },
+        select: { userId: true, organizationId: true },
+      });
+
+      if (!project) {
+        res.status(404).json({
+          success: false,
+          error: 'Project not found',
+        });
+        return;
+      }
+
+      // Verify access
+      if (!(await organizationService.canAccess(userId, project, 'edit'))) {
+        res.status(403).json({
+          success: false,
+          error: 'Access denied',
+        });
+        return;
+      }
+
+      const updated = await projectLifecycleService.transition(projectId, 'assessment_complete', {
+        actorId: userId,
+        reason: 'Brief submitted',
+      });
+
+      await prisma.auditLog.create({
+        data: {
+          userId,
+          action: 'project_submitted',
+          entityType: 'project',
+          entityId: projectId,
+          ipAddress: req.ip,
+          userAgent: req.headers['user-agent'],
+          responseStatus: 200,
+        },
+      });
+
+      res.json({
+        success: true,
+        message: 'Project submitted for assessment',
+        project: updated,
+      });
+    } catch (error) {
+      if (error instanceof ProjectTransitionError) {
+        res.status(error.status).json({
+          success: false,
+          error: error.message,
+        });
+        return;
+      }
+      console.error('Submit project error:', error);
+      next(error);
+    }
+  },
+
+  /**
+   * Status history of a project, with the statuses it can move to next
+   * GET /api/projects/:projectId/timeline
+   */
+  async getProjectTimeline(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { projectId } = req.params;
+      const userId = req.userId;
+
+      if (!userId) {
+        res.status(401).json({
+          success: false,
+          error: 'Unauthorized',
+        });
+        return;
+      }
+
+      const project = await prisma.projectAssessment.findUnique({
+        where: { id: projectId },
+        select: { userId: true, organizationId: true, status: true, archivedAt: true },
+      });
+
+      if (!project) {
+        res.status(404).json({
+          success: false,
+          error: 'Project not found',
+        });
+        return;
+      }
+
+      // Verify access
+      if (!(await organizationService.canAccess(userId, project, 'read'))) {
+        res.status(403).json({
+          success: false,
+          error: 'Access denied',
+        });
+        return;
+      }
+
+      const timeline = await projectLifecycleService.getTimeline(projectId);
+
+      res.json({
+        success: true,
+        status: project.status,
+        nextStatuses: project.archivedAt ? [] : PROJECT_TRANSITIONS[project.status],
+        timeline,
+      });
+    } catch (error) {
+      console.error('Get project timeline error:', error);
+      next(error);
+    }
+  },
+};
@@ -1,82 +1,36 @@
 import { Request, Response, NextFunction } from 'express';
 import { prisma } from '../config/database.js';
-import { ProjectType, Urgency } from '@prisma/client';
-
-// Base rates by project type (from .env)
-const BASE_RATES: Record<ProjectType, number> = {
-  creative: parseFloat(process.env.BASE_RATE_CREATIVE || '5000'),
-  fullstack: parseFloat(process.env.BASE_RATE_FULLSTACK || '8000'),
-  web3: parseFloat(process.env.BASE_RATE_WEB3 || '12000'),
-  ai_automation: parseFloat(process.env.BASE_RATE_AI_AUTOMATION || '10000'),
-};
-
-// Complexity multipliers
-const COMPLEXITY_MULTIPLIERS = {
-  low: 1.0,
-  medium: 1.3,
-  high: 1.5,
-  critical: 1.8,
-};
-
-// Urgency multipliers
-const URGENCY_MULTIPLIERS: Record<Urgency, number> = {
-  standard: 1.0,
-  urgent: 1.3,
-  critical: 1.5,
-};
-
-/**
- * Calculate complexity score based on project scope
- * Returns 0.00 to 10.00 scale
- */
-const calculateComplexity = (
-  projectType: ProjectType,
-  scope: any,
-  urgency: Urgency
-): number => {
-  let score = 0;
-
-  // Feature count scoring
-  const features = scope?.features || [];
-  score += Math.min(features.length * 0.5, 3.0); // Max 3 points
-
-  // Integration complexity
-  const integrations = scope?.integrations || [];
-  const complexIntegrations = integrations.filter((i: any) =>
-    ['payment', 'blockchain', 'ai', 'custom_api'].includes(i.type)
-  );
-  score += Math.min(complexIntegrations.length * 0.8, 3.0); // Max 3 points
-
-  // Timeline pressure
-  const timeline = scope?.timeline || 'standard';
-  if (timeline === 'urgent') score += 1.5;
-  if (timeline === 'critical') score += 2.5;
-
-  // Project type base complexity
-  const typeComplexity: Record<ProjectType, number> = {
-    creative: 1.0,
-    fullstack: 2.0,
-    web3: 3.0,
-    ai_automation: 2.5,
-  };
-  score += typeComplexity[projectType] || 1.0;
-
-  // Urgency factor
-  if (urgency === 'urgent') score += 0.5;
-  if (urgency === 'critical') score += 1.0;
-
-  // Cap at 10.00
-  return Math.min(score, 10.0);
-};
+import { SettlementRail } from '@prisma/client';
+import { projectLifecycleService, ProjectTransitionError } from '../services/projectLifecycleService.js';
+import { organizationService } from '../services/organizationService.js';
+import { pricingOverrideService, toPublicOverride } from '../services/pricingOverrideService.js';
+import { paymentTermsService, PaymentTermsError } from '../services/paymentTermsService.js';
+import {
+  quoteRevisionService,
+  QuoteRevisionError,
+  diffQuotes,
+  serializeQuote,
+} from '../services/quoteRevisionService.js';
+import { quoteDocumentService, QUOTE_DOCUMENT_VERSION } from '../services/quoteDocumentService.js';
+import { pricingService, PricingError } from '../services/pricingService.js';
+import { buildLineItems, parseBundleSelection, NOT_TO_EXCEED_MULTIPLIER } from '../services/quoteLineItemService.js';
+import { promoCodeService, PromoCodeError } from '../services/promoCodeService.js';
+import { pricingRuleService } from '../services/pricingRuleService.js';
+
+const MAX_COMMENT_LENGTH = 2000;
 
 export const quoteController = {
   /**
    * Generate automated quote with "Not to Exceed" guarantee
    * POST /api/quotes/generate/:projectId
+   * Body: { settlementRail?: SettlementRail, items?: { bundleId: string, quantity?: number }[], promoCode?: string }
+   * Prices the cart's bundles as line items, or the project's own bundle when no items are sent
    */
   async generateQuote(req: Request, res: Response, next: NextFunction): Promise<void> {
     try {
       const { projectId } = req.params;
+      const settlementRail = req.body?.settlementRail ?? null;
+      const promoCode = req.body?.promoCode ?? null;
       const userId = req.userId;
 
       if (!userId) {
@@ -87,6 +41,32 @@ export const quoteController = {
         return;
       }
 
+      if (settlementRail !== null && !Object.values(SettlementRail).includes(settlementRail)) {
+        res.status(400).json({
+          success: false,
+          error: `settlementRail must be one of: ${Object.values(SettlementRail).join(', ')}`,
+        });
+        return;
+      }
+
+      if (promoCode !== null && (typeof promoCode !== 'string' || !promoCode.trim() || promoCode.length > 40)) {
+        res.status(400).json({
+          success: false,
+          error: 'promoCode must be a code of at most 40 characters',
+        });
+        return;
+      }
+
+      const cart = req.body?.items !== undefined ? parseBundleSelection(req.body.items) : null;
+
+      if (typeof cart === 'string') {
+        res.status(400).json({
+          success: false,
+          error: cart,
+        });
+        return;
+      }
+
       // Fetch project details
       const project = await prisma.projectAssessment.findUnique({
         where: { id: projectId },
@@ -100,8 +80,8 @@ export const quoteController = {
         return;
       }
 
-      // Verify ownership
-      if (project.userId !== userId) {
+      // Verify access
+      if (!(await organizationService.canAccess(userId, project, 'edit'))) {
         res.status(403).json({
           success: false,
           error: 'Access denied',
@@ -109,6 +89,17 @@ export const quoteController = {
         return;
       }
 
+      if (project.archivedAt) {
+        res.status(409).json({
+          success: false,
+          error: 'Project is archived',
+        });
+        return;
+      }
+
+      // Reject before pricing anything if the project is past the quoting stage
+      projectLifecycleService.assertTransition(project, 'quote_generated');
+
       // Check if quote already exists
       const existingQuote = await prisma.projectQuote.findFirst({
         where: {
@@ -125,12 +116,12 @@ export const quoteController = {
         return;
       }
 
-      const scope = project.projectScope as any;
-
-      // Calculate complexity if not already set
-      let complexityScore = project.complexityScore
-        ? parseFloat(project.complexityScore.toString())
-        : calculateComplexity(project.projectType, scope, project.urgency || 'standard');
+      // Same pricing model as /api/pricing/calculate, driven by the pricing tables
+      const { complexityScore, lines, priceBook, snapshot } = await pricingService.priceBundles(
+        project,
+        cart ?? (project.bundleId ? [{ bundleId: project.bundleId, quantity: 1 }] : [])
+      );
+      const { lineItems, totals, estimatedTimelineWeeks: estimatedTimeline } = buildLineItems(project.projectType, lines);
 
       // Update project with complexity score if not set
       if (!project.complexityScore) {
@@ -140,78 +131,91 @@ export const quoteController = {
         });
       }
 
-      // Base rate for project type
-      const baseRate = BASE_RATES[project.projectType] || 5000;
-
-      // Complexity adjustment
-      const complexityLevel =
-        complexityScore < 3 ? 'low' :
-        complexityScore < 6 ? 'medium' :
-        complexityScore < 8 ? 'high' : 'critical';
-
-      const complexityMultiplier = COMPLEXITY_MULTIPLIERS[complexityLevel];
-      const complexityAdjustment = baseRate * (complexityMultiplier - 1);
-
-      // Urgency adjustment
-      const urgencyMultiplier = URGENCY_MULTIPLIERS[project.urgency || 'standard'];
-      const urgencyAdjustment = baseRate * (urgencyMultiplier - 1);
+      // Active pricing rules adjust the total after the line item discounts
+      const rules = await pricingRuleService.applyActive(
+        pricingRuleService.contextFor(project, lines[0].pricing.resolved, pricingService.complexityRating(complexityScore)),
+        totals.totalEstimate
+      );
 
-      // Total estimate
-      const totalEstimate = baseRate + complexityAdjustment + urgencyAdjustment;
+      // Promo or referral discount comes off the total after the pricing rules
+      const promo = promoCode
+        ? await promoCodeService.quoteDiscount(promoCode, project, userId, rules.total)
+        : null;
+      const promoDiscount = promo?.discount ?? 0;
+      const totalEstimate = Math.round((rules.total - promoDiscount) * 100) / 100;
 
       // "Not to Exceed" guarantee (15% buffer)
-      const notToExceed = Math.ceil(totalEstimate * 1.15);
-
-      // Estimated timeline (weeks)
-      const baseTimeline: Record<ProjectType, number> = {
-        creative: 4,
-        fullstack: 8,
-        web3: 12,
-        ai_automation: 10,
-      };
-
-      const estimatedTimeline = Math.ceil(
-        (baseTimeline[project.projectType] || 6) * complexityMultiplier
-      );
+      const notToExceed = Math.ceil(totalEstimate * NOT_TO_EXCEED_MULTIPLIER);
 
       // Delivery date
       const deliveryDate = new Date();
       deliveryDate.setDate(deliveryDate.getDate() + estimatedTimeline * 7);
 
-      // Payment structure (milestone-based)
-      const paymentStructure = {
-        deposit: Math.round(totalEstimate * 0.3),
-        milestone_1: Math.round(totalEstimate * 0.3),
-        milestone_2: Math.round(totalEstimate * 0.2),
-        final: Math.round(totalEstimate * 0.2),
-      };
+      // Payment terms from the template for the client's tier, KYB status and rail,
+      // with any approved advance override for the project
+      const pricingOverride = await pricingOverrideService.getActiveForProject(projectId);
+      const { paymentTerms, paymentStructure, paymentTermTemplateId } = await paymentTermsService.termsFor({
+        total: totalEstimate,
+        clientTier: project.clientTier,
+        kybStatus: project.kybStatus,
+        settlementRail,
+        advanceOverride: pricingOverride ? parseFloat(pricingOverride.advancePercentage.toString()) : null,
+      });
 
       // Quote validity (30 days)
       const validUntil = new Date();
       validUntil.setDate(validUntil.getDate() + 30);
 
-      // Create quote record
-      const quote = await prisma.projectQuote.create({
-        data: {
+      // Create quote record and move the project along with it
+      const quote = await prisma.$transaction(async (tx) => {
+        const created = await tx.projectQuote.create({
+          data: {
+            projectId,
+            userId,
+            revision: await quoteRevisionService.nextRevision(projectId, tx),
+            ...totals,
+            promoCodeId: promo?.promoCode.id ?? null,
+            promoDiscount,
+            totalEstimate,
+            notToExceed,
+            pricingSnapshot: { ...snapshot, rules: { ruleSet: rules.ruleSet, fired: rules.fired } },
+            priceBookId: priceBook?.id ?? null,
+            ruleAdjustment: rules.adjustment,
+            pricingRuleSetId: rules.ruleSet?.id ?? null,
+            estimatedTimelineWeeks: estimatedTimeline,
+            deliveryDate,
+            paymentStructure,
+            paymentTerms,
+            paymentTermTemplateId,
+            settlementRail,
+            pricingOverrideId: pricingOverride?.id ?? null,
+            validUntil,
+            status: 'pending',
+            lineItems: { create: lineItems },
+          },
+          include: {
+            lineItems: { orderBy: { position: 'asc' } },
+            promoCode: { select: { code: true, kind: true } },
+            priceBook: { select: { version: true, name: true } },
+          },
+        });
+
+        if (promo) {
+          await promoCodeService.recordRedemption(
+            promo.promoCode,
+            { projectId, quoteId: created.id, redeemedBy: userId, discountAmount: promoDiscount },
+            tx
+          );
+        }
+
+        await projectLifecycleService.transition(
           projectId,
-          userId,
-          baseRate,
-          complexityAdjustment,
-          urgencyAdjustment,
-          totalEstimate,
-          notToExceed,
-          estimatedTimelineWeeks: estimatedTimeline,
-          deliveryDate,
-          paymentStructure,
-          validUntil,
-          status: 'pending',
-        },
-      });
+          'quote_generated',
+          { actorId: userId, reason: `Quote ${created.id} generated` },
+          tx
+        );
 
-      // Update project status
-      await prisma.projectAssessment.update({
-        where: { id: projectId },
-        data: { status: 'quote_generated' },
+        return created;
       });
 
       // Log action
@@ -223,7 +227,13 @@ export const quoteController = {
           entityId: quote.id,
           ipAddress: req.ip,
           userAgent: req.headers['user-agent'],
-          requestData: { projectId },
+          requestData: {
+            projectId,
+            lineItems: lineItems.map(({ bundleId, basePricingId, quantity }) => ({ bundleId, basePricingId, quantity })),
+            promoCodeId: promo?.promoCode.id ?? null,
+            pricingRuleSetId: rules.ruleSet?.id ?? null,
+            pricingOverrideId: pricingOverride?.id ?? null,
+          },
           responseStatus: 200,
         },
       });
@@ -232,15 +242,18 @@ export const quoteController = {
         success: true,
         message: 'Quote generated successfully',
         quote: {
-          ...quote,
-          baseRate: parseFloat(quote.baseRate.toString()),
-          complexityAdjustment: parseFloat(quote.complexityAdjustment.toString()),
-          urgencyAdjustment: parseFloat(quote.urgencyAdjustment.toString()),
-          totalEstimate: parseFloat(quote.totalEstimate.toString()),
-          notToExceed: parseFloat(quote.notToExceed.toString()),
+          ...serializeQuote(quote),
+          pricingOverride: toPublicOverride(pricingOverride),
         },
       });
     } catch (error) {
+      if (error instanceof ProjectTransitionError || error instanceof PricingError || error instanceof PromoCodeError) {
+        res.status(error.status).json({
+          success: false,
+          error: error.message,
+        });
+        return;
+      }
       console.error('Quote generation error:', error);
       next(error);
     }
@@ -268,12 +281,17 @@ export const quoteController = {
         include: {
           project: {
             select: {
+              userId: true,
+              organizationId: true,
               projectName: true,
               projectType: true,
               projectDescription: true,
               urgency: true,
             },
           },
+          pricingOverride: { select: { id: true, advancePercentage: true, expiresAt: true } },
+          lineItems: { orderBy: { position: 'asc' } },
+          promoCode: { select: { code: true, kind: true } },
         },
       });
 
@@ -285,8 +303,8 @@ export const quoteController = {
         return;
       }
 
-      // Verify ownership
-      if (quote.userId !== userId) {
+      // Verify access
+      if (!(await organizationService.canAccess(userId, quote.project, 'read'))) {
         res.status(403).json({
           success: false,
           error: 'Access denied',
@@ -297,12 +315,8 @@ export const quoteController = {
       res.json({
         success: true,
         quote: {
-          ...quote,
-          baseRate: parseFloat(quote.baseRate.toString()),
-          complexityAdjustment: parseFloat(quote.complexityAdjustment.toString()),
-          urgencyAdjustment: parseFloat(quote.urgencyAdjustment.toString()),
-          totalEstimate: parseFloat(quote.totalEstimate.toString()),
-          notToExceed: parseFloat(quote.notToExceed.toString()),
+          ...serializeQuote(quote),
+          pricingOverride: toPublicOverride(quote.pricingOverride),
         },
       });
     } catch (error) {
@@ -312,7 +326,7 @@ export const quoteController = {
   },
 
   /**
-   * Get all quotes for user
+   * Get all quotes for the user's projects and their organizations' projects
    * GET /api/quotes
    */
   async getUserQuotes(req: Request, res: Response, next: NextFunction): Promise<void> {
@@ -328,7 +342,7 @@ export const quoteController = {
       }
 
       const quotes = await prisma.projectQuote.findMany({
-        where: { userId },
+        where: { project: organizationService.accessibleProjectsWhere(userId) },
         include: {
           project: {
             select: {
@@ -337,6 +351,9 @@ export const quoteController = {
               urgency: true,
             },
           },
+          pricingOverride: { select: { id: true, advancePercentage: true, expiresAt: true } },
+          lineItems: { orderBy: { position: 'asc' } },
+          promoCode: { select: { code: true, kind: true } },
         },
         orderBy: { createdAt: 'desc' },
       });
@@ -344,12 +361,8 @@ export const quoteController = {
       res.json({
         success: true,
         quotes: quotes.map((quote) => ({
-          ...quote,
-          baseRate: parseFloat(quote.baseRate.toString()),
-          complexityAdjustment: parseFloat(quote.complexityAdjustment.toString()),
-          urgencyAdjustment: parseFloat(quote.urgencyAdjustment.toString()),
-          totalEstimate: parseFloat(quote.totalEstimate.toString()),
-          notToExceed: parseFloat(quote.notToExceed.toString()),
+          ...serializeQuote(quote),
+          pricingOverride: toPublicOverride(quote.pricingOverride),
         })),
       });
     } catch (error) {
@@ -377,6 +390,7 @@ export const quoteController = {
 
       const quote = await prisma.projectQuote.findUnique({
         where: { id: quoteId },
+        include: { project: { select: { userId: true, organizationId: true, status: true, archivedAt: true } } },
       });
 
       if (!quote) {
@@ -387,8 +401,8 @@ export const quoteController = {
         return;
       }
 
-      // Verify ownership
-      if (quote.userId !== userId) {
+      // Verify access (accepting commits the organization to pay)
+      if (!(await organizationService.canAccess(userId, quote.project, 'billing'))) {
         res.status(403).json({
           success: false,
           error: 'Access denied',
@@ -414,20 +428,45 @@ export const quoteController = {
         return;
       }
 
-      // Update quote status
-      const updatedQuote = await prisma.projectQuote.update({
-        where: { id: quoteId },
-        data: {
-          status: 'accepted',
-          termsAccepted: true,
-          acceptedAt: new Date(),
-        },
-      });
+      projectLifecycleService.assertTransition(quote.project, 'quote_accepted');
+
+      // Fingerprint the document being accepted so it can be matched later
+      const document = await quoteDocumentService.render(quoteId);
+
+      // Update quote status and the project with it
+      const now = new Date();
+      const updatedQuote = await prisma.$transaction(async (tx) => {
+        // Claimed only while still open and valid, so a concurrent revision or expiry is never overwritten
+        const { count } = await tx.projectQuote.updateMany({
+          where: { id: quoteId, status: { in: ['pending', 'sent'] }, validUntil: { gt: now } },
+          data: {
+            status: 'accepted',
+            termsAccepted: true,
+            acceptedAt: now,
+            metadata: {
+              ...((quote.metadata as any) || {}),
+              acceptedDocument: { sha256: document.sha256, version: QUOTE_DOCUMENT_VERSION },
+            },
+          },
+        });
+
+        if (count === 0) {
+          throw new QuoteRevisionError('Quote changed concurrently. Please retry');
+        }
+
+        await quoteRevisionService.withdrawOpenCounterOffers(quoteId, tx);
+
+        await projectLifecycleService.transition(
+          quote.projectId,
+          'quote_accepted',
+          { actorId: userId, reason: `Quote ${quoteId} accepted` },
+          tx
+        );
 
-      // Update project status
-      await prisma.projectAssessment.update({
-        where: { id: quote.projectId },
-        data: { status: 'quote_accepted' },
+        return tx.projectQuote.findUniqueOrThrow({
+          where: { id: quoteId },
+          include: { pricingOverride: { select: { id: true, advancePercentage: true, expiresAt: true } } },
+        });
       });
 
       // Log action
@@ -439,6 +478,7 @@ export const quoteController = {
           entityId: quoteId,
           ipAddress: req.ip,
           userAgent: req.headers['user-agent'],
+          requestData: { documentSha256: document.sha256 },
         },
       });
 
@@ -446,15 +486,18 @@ export const quoteController = {
         success: true,
         message: 'Quote accepted successfully',
         quote: {
-          ...updatedQuote,
-          baseRate: parseFloat(updatedQuote.baseRate.toString()),
-          complexityAdjustment: parseFloat(updatedQuote.complexityAdjustment.toString()),
-          urgencyAdjustment: parseFloat(updatedQuote.urgencyAdjustment.toString()),
-          totalEstimate: parseFloat(updatedQuote.totalEstimate.toString()),
-          notToExceed: parseFloat(updatedQuote.notToExceed.toString()),
+          ...serializeQuote(updatedQuote),
+          pricingOverride: toPublicOverride(updatedQuote.pricingOverride),
         },
       });
     } catch (error) {
+      if (error instanceof ProjectTransitionError || error instanceof QuoteRevisionError) {
+        res.status(error.status).json({
+          success: false,
+          error: error.message,
+        });
+        return;
+      }
       console.error('Accept quote error:', error);
       next(error);
     }
@@ -480,6 +523,7 @@ export const quoteController = {
 
       const quote = await prisma.projectQuote.findUnique({
         where: { id: quoteId },
+        include: { project: { select: { userId: true, organizationId: true, status: true, archivedAt: true } } },
       });
 
       if (!quote) {
@@ -490,8 +534,8 @@ export const quoteController = {
         return;
       }
 
-      // Verify ownership
-      if (quote.userId !== userId) {
+      // Verify access
+      if (!(await organizationService.canAccess(userId, quote.project, 'billing'))) {
         res.status(403).json({
           success: false,
           error: 'Access denied',
@@ -499,17 +543,37 @@ export const quoteController = {
         return;
       }
 
+      // Superseded, accepted or expired quotes are no longer up for decision
+      if (quote.status !== 'pending' && quote.status !== 'sent') {
+        res.status(400).json({
+          success: false,
+          error: `Quote cannot be declined (status: ${quote.status})`,
+        });
+        return;
+      }
+
       // Update quote status
-      const updatedQuote = await prisma.projectQuote.update({
-        where: { id: quoteId },
-        data: {
-          status: 'declined',
-          metadata: {
-            ...((quote.metadata as any) || {}),
-            declineReason: reason,
-            declinedAt: new Date().toISOString(),
+      const updatedQuote = await prisma.$transaction(async (tx) => {
+        // Claimed only while still open, so a concurrent revision, acceptance or expiry is never overwritten
+        const { count } = await tx.projectQuote.updateMany({
+          where: { id: quoteId, status: { in: ['pending', 'sent'] } },
+          data: {
+            status: 'declined',
+            metadata: {
+              ...((quote.metadata as any) || {}),
+              declineReason: reason,
+              declinedAt: new Date().toISOString(),
+            },
           },
-        },
+        });
+
+        if (count === 0) {
+          throw new QuoteRevisionError('Quote changed concurrently. Please retry');
+        }
+
+        await quoteRevisionService.withdrawOpenCounterOffers(quoteId, tx);
+
+        return tx.projectQuote.findUniqueOrThrow({ where: { id: quoteId } });
       });
 
       // Log action
@@ -528,11 +592,401 @@ export const quoteController = {
       res.json({
         success: true,
         message: 'Quote declined',
-        quote: updatedQuote,
+        quote: serializeQuote(updatedQuote),
       });
     } catch (error) {
+      if (error instanceof QuoteRevisionError) {
+        res.status(error.status).json({
+          success: false,
+          error: error.message,
+        });
+        return;
+      }
       console.error('Decline quote error:', error);
       next(error);
     }
   },
+
+  /**
+   * Download the quote as a branded PDF
+   * GET /api/quotes/:quoteId/pdf
+   * The SHA-256 of the file is returned in X-Document-SHA256 and kept in the quote's metadata
+   */
+  async downloadQuotePdf(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { quoteId } = req.params;
+      const userId = req.userId;
+
+      if (!userId) {
+        res.status(401).json({
+          success: false,
+          error: 'Unauthorized',
+        });
+        return;
+      }
+
+      const quote = await prisma.projectQuote.findUnique({
+        where: { id: quoteId },
+        select: { project: { select: { userId: true, organizationId: true } } },
+      });
+
+      if (!quote) {
+        res.status(404).json({
+          success: false,
+          error: 'Quote not found',
+        });
+        return;
+      }
+
+      // Verify access
+      if (!(await organizationService.canAccess(userId, quote.project, 'read'))) {
+        res.status(403).json({
+          success: false,
+          error: 'Access denied',
+        });
+        return;
+      }
+
+      const document = await quoteDocumentService.render(quoteId);
+      await quoteDocumentService.recordRendered(quoteId, document.quote.metadata, document.sha256);
+
+      // Log action
+      await prisma.auditLog.create({
+        data: {
+          userId,
+          action: 'quote_pdf_downloaded',
+          entityType: 'quote',
+          entityId: quoteId,
+          ipAddress: req.ip,
+          userAgent: req.headers['user-agent'],
+          requestData: { sha256: document.sha256 },
+          responseStatus: 200,
+        },
+      });
+
+      res.set({
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': `attachment; filename="${document.filename}"`,
+        'Content-Length': String(document.buffer.length),
+        'Cache-Control': 'private, no-store',
+        'X-Document-SHA256': document.sha256,
+      });
+      res.send(document.buffer);
+    } catch (error) {
+      console.error('Quote PDF error:', error);
+      next(error);
+    }
+  },
+
+  /**
+   * Propose different terms for an open quote
+   * POST /api/quotes/:quoteId/counter
+   * Body: { comment: string, proposedTotal?: number, proposedTimelineWeeks?: number }
+   */
+  async counterQuote(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { quoteId } = req.params;
+      const { comment, proposedTotal, proposedTimelineWeeks } = req.body;
+      const userId = req.userId;
+
+      if (!userId) {
+        res.status(401).json({
+          success: false,
+          error: 'Unauthorized',
+        });
+        return;
+      }
+
+      if (typeof comment !== 'string' || !comment.trim() || comment.length > MAX_COMMENT_LENGTH) {
+        res.status(400).json({
+          success: false,
+          error: `comment is required (max ${MAX_COMMENT_LENGTH} characters)`,
+        });
+        return;
+      }
+
+      if (proposedTotal !== undefined && (typeof proposedTotal !== 'number' || !(proposedTotal > 0))) {
+        res.status(400).json({
+          success: false,
+          error: 'proposedTotal must be a positive number',
+        });
+        return;
+      }
+
+      if (
+        proposedTimelineWeeks !== undefined &&
+        (!Number.isInteger(proposedTimelineWeeks) || proposedTimelineWeeks < 1 || proposedTimelineWeeks > 104)
+      ) {
+        res.status(400).json({
+          success: false,
+          error: 'proposedTimelineWeeks must be a whole number of weeks between 1 and 104',
+        });
+        return;
+      }
+
+      const quote = await prisma.projectQuote.findUnique({
+        where: { id: quoteId },
+        include: { project: { select: { userId: true, organizationId: true } } },
+      });
+
+      if (!quote) {
+        res.status(404).json({
+          success: false,
+          error: 'Quote not found',
+        });
+        return;
+      }
+
+      // Negotiating terms is part of deciding on the quote
+      if (!(await organizationService.canAccess(userId, quote.project, 'billing'))) {
+        res.status(403).json({
+          success: false,
+          error: 'Access denied',
+        });
+        return;
+      }
+
+      const counterOffer = await quoteRevisionService.submitCounterOffer(quote, userId, {
+        comment: comment.trim(),
+        proposedTotal,
+        proposedTimelineWeeks,
+      });
+
+      // Log action
+      await prisma.auditLog.create({
+        data: {
+          userId,
+          action: 'quote_countered',
+          entityType: 'quote',
+          entityId: quoteId,
+          ipAddress: req.ip,
+          userAgent: req.headers['user-agent'],
+          requestData: { counterOfferId: counterOffer.id, proposedTotal, proposedTimelineWeeks },
+          responseStatus: 200,
+        },
+      });
+
+      res.status(201).json({
+        success: true,
+        message: 'Counter-offer sent',
+        counterOffer,
+      });
+    } catch (error) {
+      if (error instanceof QuoteRevisionError) {
+        res.status(error.status).json({
+          success: false,
+          error: error.message,
+        });
+        return;
+      }
+      console.error('Counter quote error:', error);
+      next(error);
+    }
+  },
+
+  /**
+   * Choose how an open quote will be paid; its payment terms are recomputed for the rail
+   * POST /api/quotes/:quoteId/settlement-rail
+   * Body: { settlementRail: SettlementRail }
+   */
+  async selectSettlementRail(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { quoteId } = req.params;
+      const { settlementRail } = req.body;
+      const userId = req.userId;
+
+      if (!userId) {
+        res.status(401).json({
+          success: false,
+          error: 'Unauthorized',
+        });
+        return;
+      }
+
+      if (!Object.values(SettlementRail).includes(settlementRail)) {
+        res.status(400).json({
+          success: false,
+          error: `settlementRail must be one of: ${Object.values(SettlementRail).join(', ')}`,
+        });
+        return;
+      }
+
+      const quote = await prisma.projectQuote.findUnique({
+        where: { id: quoteId },
+        include: { project: { select: { userId: true, organizationId: true } } },
+      });
+
+      if (!quote) {
+        res.status(404).json({
+          success: false,
+          error: 'Quote not found',
+        });
+        return;
+      }
+
+      if (!(await organizationService.canAccess(userId, quote.project, 'billing'))) {
+        res.status(403).json({
+          success: false,
+          error: 'Access denied',
+        });
+        return;
+      }
+
+      const updated = await paymentTermsService.selectSettlementRail(quoteId, settlementRail);
+
+      await prisma.auditLog.create({
+        data: {
+          userId,
+          action: 'quote_settlement_rail_selected',
+          entityType: 'quote',
+          entityId: quoteId,
+          ipAddress: req.ip,
+          userAgent: req.headers['user-agent'],
+          requestData: { from: quote.settlementRail, to: settlementRail },
+          responseStatus: 200,
+        },
+      });
+
+      res.json({
+        success: true,
+        message: 'Settlement rail updated',
+        quote: serializeQuote(updated!),
+      });
+    } catch (error) {
+      if (error instanceof PaymentTermsError) {
+        res.status(error.status).json({
+          success: false,
+          error: error.message,
+        });
+        return;
+      }
+      console.error('Select settlement rail error:', error);
+      next(error);
+    }
+  },
+
+  /**
+   * All revisions of the quote's project, oldest first, with their counter-offers
+   * GET /api/quotes/:quoteId/revisions
+   */
+  async getQuoteRevisions(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { quoteId } = req.params;
+      const userId = req.userId;
+
+      if (!userId) {
+        res.status(401).json({
+          success: false,
+          error: 'Unauthorized',
+        });
+        return;
+      }
+
+      const quote = await prisma.projectQuote.findUnique({
+        where: { id: quoteId },
+        select: { projectId: true, project: { select: { userId: true, organizationId: true } } },
+      });
+
+      if (!quote) {
+        res.status(404).json({
+          success: false,
+          error: 'Quote not found',
+        });
+        return;
+      }
+
+      // Verify access
+      if (!(await organizationService.canAccess(userId, quote.project, 'read'))) {
+        res.status(403).json({
+          success: false,
+          error: 'Access denied',
+        });
+        return;
+      }
+
+      const revisions = await quoteRevisionService.listRevisions(quote.projectId);
+
+      res.json({
+        success: true,
+        revisions,
+      });
+    } catch (error) {
+      console.error('Get quote revisions error:', error);
+      next(error);
+    }
+  },
+
+  /**
+   * Changes between a quote and another revision of the same project
+   * GET /api/quotes/:quoteId/diff?against=<quoteId>
+   * Compares against the revision it superseded when `against` is omitted
+   */
+  async getQuoteDiff(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { quoteId } = req.params;
+      const against = typeof req.query.against === 'string' ? req.query.against : undefined;
+      const userId = req.userId;
+
+      if (!userId) {
+        res.status(401).json({
+          success: false,
+          error: 'Unauthorized',
+        });
+        return;
+      }
+
+      const quote = await prisma.projectQuote.findUnique({
+        where: { id: quoteId },
+        include: { project: { select: { userId: true, organizationId: true } } },
+      });
+
+      if (!quote) {
+        res.status(404).json({
+          success: false,
+          error: 'Quote not found',
+        });
+        return;
+      }
+
+      // Verify access
+      if (!(await organizationService.canAccess(userId, quote.project, 'read'))) {
+        res.status(403).json({
+          success: false,
+          error: 'Access denied',
+        });
+        return;
+      }
+
+      const otherId = against ?? quote.previousQuoteId;
+
+      if (!otherId) {
+        res.status(400).json({
+          success: false,
+          error: 'This is the first revision; pass ?against=<quoteId> to compare with another quote',
+        });
+        return;
+      }
+
+      const other = await prisma.projectQuote.findUnique({ where: { id: otherId } });
+
+      if (!other || other.projectId !== quote.projectId) {
+        res.status(404).json({
+          success: false,
+          error: 'Revision not found for this project',
+        });
+        return;
+      }
+
+      const [older, newer] = other.revision <= quote.revision ? [other, quote] : [quote, other];
+
+      res.json({
+        success: true,
+        diff: diffQuotes(older, newer),
+        quotes: { from: serializeQuote(older), to: serializeQuote(newer) },
+      });
+    } catch (error) {
+      console.error('Get quote diff error:', error);
+      next(error);
+    }
+  },
 };
@@ -111,14 +111,20 @@ class SeedController {
         const categories = await prisma.revenueCategory.findMany();
         const scales = await prisma.companyScale.findMany();
 
-        // Sample bundles
+        // Sample bundles, then the capability nodes sold through the 443 builder cart
         const bundles = [
-          { id: 'bundle_saas_starter', name: 'SaaS Starter Bundle', basePrice: 5000 },
-          { id: 'bundle_saas_pro', name: 'SaaS Pro Bundle', basePrice: 12000 },
-          { id: 'bundle_saas_enterprise', name: 'SaaS Enterprise Bundle', basePrice: 25000 },
-          { id: 'bundle_web_basic', name: 'Web Basic', basePrice: 3000 },
-          { id: 'bundle_web_advanced', name: 'Web Advanced', basePrice: 8000 },
-          { id: 'bundle_mobile_app', name: 'Mobile App', basePrice: 15000 },
+          { id: 'bundle_saas_starter', name: 'SaaS Starter Bundle', basePrice: 5000, timelineWeeks: null },
+          { id: 'bundle_saas_pro', name: 'SaaS Pro Bundle', basePrice: 12000, timelineWeeks: null },
+          { id: 'bundle_saas_enterprise', name: 'SaaS Enterprise Bundle', basePrice: 25000, timelineWeeks: null },
+          { id: 'bundle_web_basic', name: 'Web Basic', basePrice: 3000, timelineWeeks: null },
+          { id: 'bundle_web_advanced', name: 'Web Advanced', basePrice: 8000, timelineWeeks: null },
+          { id: 'bundle_mobile_app', name: 'Mobile App', basePrice: 15000, timelineWeeks: null },
+          { id: 'node_platform_core', name: 'Platform Core Node', basePrice: 4995, timelineWeeks: 6 },
+          { id: 'node_web3_protocol', name: 'Web3 Protocol Node', basePrice: 3495, timelineWeeks: 6 },
+          { id: 'node_treasury_tech', name: 'Treasury Tech Node', basePrice: 5595, timelineWeeks: 8 },
+          { id: 'node_creative_strategy', name: 'Creative Strategy Node', basePrice: 1595, timelineWeeks: 3 },
+          { id: 'node_ai_optimization', name: 'AI Optimization Node', basePrice: 2000, timelineWeeks: 4 },
+          { id: 'node_branding', name: 'Branding Node', basePrice: 1800, timelineWeeks: 3 },
         ];
 
         for (const bundle of bundles) {
@@ -141,10 +147,12 @@ class SeedController {
                   revenueCategoryId: category.id,
                   companyScaleId: scale.id,
                   basePrice: adjustedPrice,
+                  timelineWeeks: bundle.timelineWeeks,
                   description: `${bundle.name} for ${category.name} at ${scale.name} scale`,
                 },
                 update: {
                   basePrice: adjustedPrice,
+                  timelineWeeks: bundle.timelineWeeks,
                   description: `${bundle.name} for ${category.name} at ${scale.name} scale`,
                 },
               });
@@ -156,6 +164,62 @@ class SeedController {
         seeded.push('pricing');
       }
 
+      // Seed Payment Term Templates (the terms the checkout has always shown per KYB status)
+      if (seedType === 'all' || seedType === 'payment_terms') {
+        if (overwrite) {
+          await prisma.paymentTermTemplate.deleteMany({});
+        }
+
+        const templates = [
+          {
+            name: 'KYB verified',
+            kybStatus: 'verified' as const,
+            advancePercentage: 15,
+            installments: [
+              { percentage: 28.33, dueInDays: 30, trigger: 'days' },
+              { percentage: 28.33, dueInDays: 60, trigger: 'days' },
+              { percentage: 28.34, dueInDays: 90, trigger: 'days' },
+            ],
+            earlyPayDiscountPercentage: 10,
+            earlyPayWindowDays: 5,
+          },
+          {
+            name: 'KYB rejected',
+            kybStatus: 'rejected' as const,
+            advancePercentage: 50,
+            installments: [{ percentage: 50, dueInDays: null, trigger: 'delivery' }],
+            requiresEscrow: true,
+          },
+          {
+            name: 'KYB pending',
+            kybStatus: 'pending' as const,
+            advancePercentage: 100,
+            installments: [],
+            remainingTerms: 'Verification Pending',
+          },
+          {
+            name: 'KYB not started',
+            kybStatus: 'idle' as const,
+            advancePercentage: 100,
+            installments: [],
+            remainingTerms: 'Verification Pending',
+          },
+        ];
+
+        for (const template of templates) {
+          const existing = await prisma.paymentTermTemplate.findFirst({ where: { name: template.name } });
+
+          if (existing) {
+            await prisma.paymentTermTemplate.update({ where: { id: existing.id }, data: template });
+          } else {
+            await prisma.paymentTermTemplate.create({ data: template });
+          }
+          count++;
+        }
+
+        seeded.push('payment_terms');
+      }
+
       res.json({
         success: true,
         seeded,
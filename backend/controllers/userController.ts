@@ -0,0 +1,81 @@
+import { Request, Response, NextFunction } from 'express';
+import { prisma } from '../config/database.js';
+import { privacyService, PrivacyError } from '../services/privacyService.js';
+
+// Typed by the user to confirm that erasure is intended
+const ERASURE_CONFIRMATION = 'ERASE';
+
+export const userController = {
+  /**
+   * Download everything stored about the current user as a JSON archive
+   * GET /api/users/me/export
+   */
+  async exportMyData(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const archive = await privacyService.exportUserData(req.userId!);
+
+      await prisma.auditLog.create({
+        data: {
+          userId: req.userId,
+          action: 'personal_data_exported',
+          entityType: 'user',
+          entityId: req.userId,
+          ipAddress: req.ip,
+          userAgent: req.headers['user-agent'],
+          responseStatus: 200,
+        },
+      });
+
+      const date = archive.exportedAt.slice(0, 10);
+      res.setHeader('Content-Disposition', `attachment; filename="personal-data-${date}.json"`);
+      res.json(archive);
+    } catch (error) {
+      if (error instanceof PrivacyError) {
+        res.status(error.status).json({
+          success: false,
+          error: error.message,
+        });
+        return;
+      }
+      console.error('Export personal data error:', error);
+      next(error);
+    }
+  },
+
+  /**
+   * Erase the current user's personal data and sign out everywhere
+   * POST /api/users/me/erase
+   * Body: { confirm: 'ERASE' }
+   */
+  async eraseMyData(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { confirm } = req.body;
+
+      if (confirm !== ERASURE_CONFIRMATION) {
+        res.status(400).json({
+          success: false,
+          error: `Send { "confirm": "${ERASURE_CONFIRMATION}" } to erase your account`,
+        });
+        return;
+      }
+
+      const result = await privacyService.eraseUser(req.userId!, { performedBy: req.userId });
+
+      res.json({
+        success: true,
+        message: 'Your personal data has been erased',
+        ...result,
+      });
+    } catch (error) {
+      if (error instanceof PrivacyError) {
+        res.status(error.status).json({
+          success: false,
+          error: error.message,
+        });
+        return;
+      }
+      console.error('Erase personal data error:', error);
+      next(error);
+    }
+  },
+};
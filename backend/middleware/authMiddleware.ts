@@ -1,18 +1,60 @@
 import { Request, Response, NextFunction } from 'express';
 import jwt from 'jsonwebtoken';
 import { prisma } from '../config/database.js';
-import { privyService } from '../services/privyService.js';
+import { sessionService } from '../services/sessionService.js';
+import { Role } from '@prisma/client';
+import { Permission, resolvePermissions } from '../config/permissions.js';
 
 interface JwtPayload {
   userId: string;
   authStage: number;
+  roles?: Role[];
+  sid?: string;
+  imp?: string;
   iat?: number;
   exp?: number;
 }
 
+// While impersonating, only reads are allowed, plus the calls needed to leave impersonation
+const IMPERSONATION_SAFE_METHODS = ['GET', 'HEAD', 'OPTIONS'];
+const IMPERSONATION_ALLOWED_PATHS = ['/api/auth/logout', '/api/admin/impersonation/stop'];
+const IMPERSONATION_BLOCKED_PATHS = ['/api/users/me/export'];
+
+const isAllowedWhileImpersonating = (req: Request): boolean => {
+  const path = req.originalUrl.split('?')[0];
+
+  if (IMPERSONATION_BLOCKED_PATHS.includes(path)) {
+    return false;
+  }
+
+  return IMPERSONATION_SAFE_METHODS.includes(req.method) || IMPERSONATION_ALLOWED_PATHS.includes(path);
+};
+
 /**
- * Middleware to authenticate JWT token or Privy token
- * Supports both our JWT tokens and Privy access tokens
+ * Record a request made under impersonation once its response has been sent
+ */
+const auditImpersonatedRequest = (req: Request, res: Response, impersonatorId: string, userId: string) => {
+  res.on('finish', () => {
+    prisma.auditLog
+      .create({
+        data: {
+          userId: impersonatorId,
+          action: 'impersonated_request',
+          entityType: 'user',
+          entityId: userId,
+          ipAddress: req.ip,
+          userAgent: req.headers['user-agent'],
+          requestData: { sessionId: req.sessionId, method: req.method, path: req.originalUrl },
+          responseStatus: res.statusCode,
+        },
+      })
+      .catch((error) => console.error('Impersonation audit error:', error));
+  });
+};
+
+/**
+ * Middleware to authenticate our JWT access tokens
+ * Tokens must reference a live server-side session (sid claim), so revoking the session revokes them
  */
 export const authenticateToken = async (
   req: Request,
@@ -31,59 +73,58 @@ export const authenticateToken = async (
       return;
     }
 
-    // Try to verify as JWT token first
+    // Verify as one of our JWTs
     try {
       const decoded = jwt.verify(
         token,
         process.env.JWT_SECRET || 'default-secret-change-in-production'
       ) as JwtPayload;
 
-      // Attach userId and authStage to request
+      // Tokens without a session cannot be revoked, so they are no longer accepted
+      const sessionActive = decoded.sid
+        ? await sessionService.verifySession(decoded.sid, {
+            ipAddress: req.ip,
+            userAgent: req.headers['user-agent'],
+          })
+        : false;
+
+      if (!sessionActive) {
+        res.status(401).json({
+          success: false,
+          error: 'Session expired or revoked. Please sign in again',
+        });
+        return;
+      }
+
+      // Attach userId, authStage, session and role claims to request
       req.userId = decoded.userId;
       req.authStage = decoded.authStage;
-      next();
-      return;
-    } catch (jwtError) {
-      // If JWT verification fails, try Privy token verification
-      try {
-        const verifiedClaims = await privyService.verifyToken(token);
-        const privyUserId = (verifiedClaims as any).userId || (verifiedClaims as any).user_id;
+      req.sessionId = decoded.sid;
+      req.roles = decoded.roles || [];
 
-        if (!privyUserId) {
-          res.status(401).json({
-            success: false,
-            error: 'Invalid Privy token: missing user id',
-          });
-          return;
-        }
-
-        // Find user by Privy ID
-        const user = await prisma.user.findFirst({
-          where: { privyUserId },
-          select: { id: true, authStage: true },
-        });
+      if (decoded.imp) {
+        req.impersonatorId = decoded.imp;
+        auditImpersonatedRequest(req, res, decoded.imp, decoded.userId);
 
-        if (!user) {
-          res.status(401).json({
+        if (!isAllowedWhileImpersonating(req)) {
+          res.status(403).json({
             success: false,
-            error: 'User not found. Please authenticate first.',
+            error: 'This action is not available while impersonating a user',
           });
           return;
         }
-
-        // Attach userId and authStage to request
-        req.userId = user.id;
-        req.authStage = user.authStage;
-        next();
-        return;
-      } catch (privyError) {
-        // Both verifications failed
-        res.status(403).json({
-          success: false,
-          error: 'Invalid or expired token',
-        });
-        return;
       }
+
+      next();
+      return;
+    } catch (jwtError) {
+      // Privy access tokens are only exchanged for a session (POST /api/auth/privy/authenticate),
+      // so a token that is not one of our session JWTs is rejected
+      res.status(403).json({
+        success: false,
+        error: 'Invalid or expired token',
+      });
+      return;
     }
   } catch (error) {
     res.status(500).json({
@@ -240,3 +281,160 @@ export const requirePhoneVerified = async (
     });
   }
 };
+
+/**
+ * Middleware to check if user holds at least one of the given roles
+ * Roles are read from the database so revocations apply immediately,
+ * regardless of the role claims baked into an older JWT
+ */
+export const requireRole = (...roles: Role[]) => {
+  return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const userId = req.userId;
+
+      if (!userId) {
+        res.status(401).json({
+          success: false,
+          error: 'Authentication required',
+        });
+        return;
+      }
+
+      const user = await prisma.user.findUnique({
+        where: { id: userId },
+        select: { roles: true },
+      });
+
+      if (!user) {
+        res.status(404).json({
+          success: false,
+          error: 'User not found',
+        });
+        return;
+      }
+
+      if (!roles.some((role) => user.roles.includes(role))) {
+        res.status(403).json({
+          success: false,
+          error: `One of the following roles is required: ${roles.join(', ')}`,
+        });
+        return;
+      }
+
+      req.roles = user.roles;
+      next();
+    } catch (error) {
+      console.error('requireRole error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Authorization check failed',
+      });
+    }
+  };
+};
+
+/**
+ * Middleware to check if user holds all of the given permissions,
+ * either through one of their roles or as a direct grant
+ */
+export const requirePermission = (...permissions: Permission[]) => {
+  return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const userId = req.userId;
+
+      if (!userId) {
+        res.status(401).json({
+          success: false,
+          error: 'Authentication required',
+        });
+        return;
+      }
+
+      const user = await prisma.user.findUnique({
+        where: { id: userId },
+        select: { roles: true, permissions: true },
+      });
+
+      if (!user) {
+        res.status(404).json({
+          success: false,
+          error: 'User not found',
+        });
+        return;
+      }
+
+      const effective = resolvePermissions(user.roles, user.permissions);
+      const missing = permissions.filter((permission) => !effective.includes(permission));
+
+      if (missing.length > 0) {
+        res.status(403).json({
+          success: false,
+          error: `Missing required permissions: ${missing.join(', ')}`,
+        });
+        return;
+      }
+
+      req.roles = user.roles;
+      next();
+    } catch (error) {
+      console.error('requirePermission error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Authorization check failed',
+      });
+    }
+  };
+};
+
+/**
+ * Middleware to require a recent second factor (TOTP or recovery code) on the current session
+ * Users without two-factor enrolment are turned away until they enrol
+ */
+export const requireRecentSecondFactor = (
+  maxAgeMinutes: number = parseInt(process.env.TWO_FACTOR_MAX_AGE_MINUTES || '15')
+) => {
+  return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const userId = req.userId;
+
+      if (!userId) {
+        res.status(401).json({
+          success: false,
+          error: 'Authentication required',
+        });
+        return;
+      }
+
+      const twoFactor = await prisma.userTwoFactor.findUnique({
+        where: { userId },
+        select: { enabledAt: true },
+      });
+
+      if (!twoFactor?.enabledAt) {
+        res.status(403).json({
+          success: false,
+          error: 'Two-factor enrolment required',
+        });
+        return;
+      }
+
+      const verifiedAt = req.sessionId ? await sessionService.getSecondFactorAt(req.sessionId) : null;
+
+      if (!verifiedAt || Date.now() - verifiedAt.getTime() > maxAgeMinutes * 60 * 1000) {
+        res.status(403).json({
+          success: false,
+          error: 'Recent two-factor verification required',
+        });
+        return;
+      }
+
+      next();
+    } catch (error) {
+      console.error('requireRecentSecondFactor error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Authorization check failed',
+      });
+    }
+  };
+};
@@ -53,4 +53,22 @@ export const authRateLimiter = rateLimit({
   validate: {
     trustProxy: false, // Disable trust proxy validation
   },
-});
\ No newline at end of file
+});
+
+/**
+ * Rate limiter for the public pricing simulator
+ * Limits: 30 requests per 15 minutes per IP
+ */
+export const simulationRateLimiter = rateLimit({
+  windowMs: 15 * 60 * 1000, // 15 minutes
+  max: 30, // Limit each IP to 30 simulations per windowMs
+  message: {
+    success: false,
+    error: 'Too many pricing simulations. Please try again after 15 minutes.',
+  },
+  standardHeaders: true,
+  legacyHeaders: false,
+  validate: {
+    trustProxy: false, // Disable trust proxy validation
+  },
+});
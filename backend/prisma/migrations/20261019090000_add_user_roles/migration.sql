@@ -0,0 +1,6 @@
+-- CreateEnum
+CREATE TYPE "Role" AS ENUM ('user', 'admin', 'ops', 'finance');
+
+-- AlterTable
+ALTER TABLE "users" ADD COLUMN     "permissions" TEXT[] DEFAULT ARRAY[]::TEXT[],
+ADD COLUMN     "roles" "Role"[] DEFAULT ARRAY['user']::"Role"[];
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "auth_sessions" ADD COLUMN     "device_name" VARCHAR(100);
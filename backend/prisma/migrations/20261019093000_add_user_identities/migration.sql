@@ -0,0 +1,64 @@
+-- CreateEnum
+CREATE TYPE "IdentityType" AS ENUM ('email', 'wallet', 'phone', 'privy');
+
+-- CreateTable
+CREATE TABLE "user_identities" (
+    "id" UUID NOT NULL DEFAULT gen_random_uuid(),
+    "user_id" UUID NOT NULL,
+    "type" "IdentityType" NOT NULL,
+    "value" VARCHAR(255) NOT NULL,
+    "verified" BOOLEAN NOT NULL DEFAULT false,
+    "created_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "last_used_at" TIMESTAMPTZ(6),
+
+    CONSTRAINT "user_identities_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "account_merges" (
+    "id" UUID NOT NULL DEFAULT gen_random_uuid(),
+    "target_user_id" UUID NOT NULL,
+    "source_user_id" UUID NOT NULL,
+    "performed_by" UUID,
+    "reason" VARCHAR(100) NOT NULL,
+    "source_snapshot" JSONB NOT NULL,
+    "moved_records" JSONB NOT NULL,
+    "created_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "account_merges_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "user_identities_type_value_key" ON "user_identities"("type", "value");
+
+-- CreateIndex
+CREATE INDEX "idx_identities_user" ON "user_identities"("user_id");
+
+-- CreateIndex
+CREATE INDEX "idx_merges_target" ON "account_merges"("target_user_id");
+
+-- CreateIndex
+CREATE INDEX "idx_merges_source" ON "account_merges"("source_user_id");
+
+-- AddForeignKey
+ALTER TABLE "user_identities" ADD CONSTRAINT "user_identities_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "account_merges" ADD CONSTRAINT "account_merges_target_user_id_fkey" FOREIGN KEY ("target_user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Backfill identities from existing user columns
+INSERT INTO "user_identities" ("user_id", "type", "value", "verified")
+SELECT "id", 'email', LOWER("email"), "email_verified" FROM "users" WHERE "email" IS NOT NULL
+ON CONFLICT DO NOTHING;
+
+INSERT INTO "user_identities" ("user_id", "type", "value", "verified")
+SELECT "id", 'wallet', LOWER("wallet_address"), true FROM "users" WHERE "wallet_address" IS NOT NULL
+ON CONFLICT DO NOTHING;
+
+INSERT INTO "user_identities" ("user_id", "type", "value", "verified")
+SELECT "id", 'phone', "phone_e164", "phone_verified" FROM "users" WHERE "phone_e164" IS NOT NULL
+ON CONFLICT DO NOTHING;
+
+INSERT INTO "user_identities" ("user_id", "type", "value", "verified")
+SELECT "id", 'privy', "privy_user_id", true FROM "users" WHERE "privy_user_id" IS NOT NULL
+ON CONFLICT DO NOTHING;
@@ -0,0 +1,17 @@
+-- CreateTable
+CREATE TABLE "siwe_nonces" (
+    "id" UUID NOT NULL DEFAULT gen_random_uuid(),
+    "nonce" VARCHAR(64) NOT NULL,
+    "ip_address" INET,
+    "expires_at" TIMESTAMPTZ(6) NOT NULL,
+    "used_at" TIMESTAMPTZ(6),
+    "created_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "siwe_nonces_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "siwe_nonces_nonce_key" ON "siwe_nonces"("nonce");
+
+-- CreateIndex
+CREATE INDEX "idx_siwe_nonces_expires" ON "siwe_nonces"("expires_at");
@@ -0,0 +1,12 @@
+-- Outstanding plaintext codes expire within minutes and are discarded
+DELETE FROM "otp_verifications";
+
+-- AlterTable
+ALTER TABLE "otp_verifications" DROP COLUMN "otp_code",
+ADD COLUMN     "purpose" VARCHAR(50) NOT NULL DEFAULT 'auth',
+ADD COLUMN     "code_hash" VARCHAR(64) NOT NULL,
+ADD COLUMN     "attempts" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "locked_until" TIMESTAMPTZ(6);
+
+-- AlterTable
+ALTER TABLE "audit_identities" ADD COLUMN     "country" VARCHAR(2);
@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "auth_sessions" ADD COLUMN     "impersonation_reason" VARCHAR(255),
+ADD COLUMN     "impersonator_id" UUID;
+
+-- CreateIndex
+CREATE INDEX "idx_sessions_impersonator" ON "auth_sessions"("impersonator_id");
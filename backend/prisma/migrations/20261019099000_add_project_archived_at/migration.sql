@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "project_assessments" ADD COLUMN     "archived_at" TIMESTAMPTZ(6);
@@ -0,0 +1,23 @@
+-- CreateTable
+CREATE TABLE "project_status_history" (
+    "id" UUID NOT NULL DEFAULT gen_random_uuid(),
+    "project_id" UUID NOT NULL,
+    "from_status" "ProjectStatus",
+    "to_status" "ProjectStatus" NOT NULL,
+    "actor_id" UUID,
+    "reason" VARCHAR(500),
+    "created_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "project_status_history_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "idx_project_status_history_project" ON "project_status_history"("project_id", "created_at");
+
+-- AddForeignKey
+ALTER TABLE "project_status_history" ADD CONSTRAINT "project_status_history_project_id_fkey" FOREIGN KEY ("project_id") REFERENCES "project_assessments"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Backfill: one entry per existing project recording its current status
+INSERT INTO "project_status_history" ("project_id", "from_status", "to_status", "reason", "created_at")
+SELECT "id", NULL, "status", 'Recorded when status history was introduced', "updated_at"
+FROM "project_assessments";
@@ -0,0 +1,84 @@
+-- CreateEnum
+CREATE TYPE "OrganizationRole" AS ENUM ('owner', 'editor', 'billing', 'viewer');
+
+-- AlterTable
+ALTER TABLE "project_assessments" ADD COLUMN     "organization_id" UUID;
+
+-- AlterTable
+ALTER TABLE "audit_submissions" ADD COLUMN     "organization_id" UUID;
+
+-- CreateTable
+CREATE TABLE "organizations" (
+    "id" UUID NOT NULL DEFAULT gen_random_uuid(),
+    "name" VARCHAR(255) NOT NULL,
+    "created_by" UUID,
+    "created_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMPTZ(6) NOT NULL,
+
+    CONSTRAINT "organizations_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "organization_members" (
+    "id" UUID NOT NULL DEFAULT gen_random_uuid(),
+    "organization_id" UUID NOT NULL,
+    "user_id" UUID NOT NULL,
+    "role" "OrganizationRole" NOT NULL,
+    "created_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMPTZ(6) NOT NULL,
+
+    CONSTRAINT "organization_members_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "organization_invitations" (
+    "id" UUID NOT NULL DEFAULT gen_random_uuid(),
+    "organization_id" UUID NOT NULL,
+    "email" VARCHAR(255) NOT NULL,
+    "role" "OrganizationRole" NOT NULL,
+    "token_hash" VARCHAR(64) NOT NULL,
+    "invited_by" UUID,
+    "expires_at" TIMESTAMPTZ(6) NOT NULL,
+    "accepted_at" TIMESTAMPTZ(6),
+    "accepted_by" UUID,
+    "revoked_at" TIMESTAMPTZ(6),
+    "created_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "organization_invitations_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "idx_org_members_user" ON "organization_members"("user_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "organization_members_organization_id_user_id_key" ON "organization_members"("organization_id", "user_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "organization_invitations_token_hash_key" ON "organization_invitations"("token_hash");
+
+-- CreateIndex
+CREATE INDEX "idx_org_invitations_org" ON "organization_invitations"("organization_id");
+
+-- CreateIndex
+CREATE INDEX "idx_org_invitations_email" ON "organization_invitations"("email");
+
+-- CreateIndex
+CREATE INDEX "idx_projects_organization" ON "project_assessments"("organization_id");
+
+-- CreateIndex
+CREATE INDEX "idx_audit_submission_organization" ON "audit_submissions"("organization_id");
+
+-- AddForeignKey
+ALTER TABLE "organization_members" ADD CONSTRAINT "organization_members_organization_id_fkey" FOREIGN KEY ("organization_id") REFERENCES "organizations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "organization_members" ADD CONSTRAINT "organization_members_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "organization_invitations" ADD CONSTRAINT "organization_invitations_organization_id_fkey" FOREIGN KEY ("organization_id") REFERENCES "organizations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "project_assessments" ADD CONSTRAINT "project_assessments_organization_id_fkey" FOREIGN KEY ("organization_id") REFERENCES "organizations"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "audit_submissions" ADD CONSTRAINT "audit_submissions_organization_id_fkey" FOREIGN KEY ("organization_id") REFERENCES "organizations"("id") ON DELETE SET NULL ON UPDATE CASCADE;
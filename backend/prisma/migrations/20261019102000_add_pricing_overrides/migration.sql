@@ -0,0 +1,33 @@
+-- AlterTable
+ALTER TABLE "project_quotes" ADD COLUMN     "pricing_override_id" UUID;
+
+-- CreateTable
+CREATE TABLE "pricing_overrides" (
+    "id" UUID NOT NULL DEFAULT gen_random_uuid(),
+    "project_id" UUID NOT NULL,
+    "quote_id" UUID,
+    "advance_percentage" DECIMAL(5,2) NOT NULL,
+    "reason" VARCHAR(255) NOT NULL,
+    "approved_by" UUID,
+    "expires_at" TIMESTAMPTZ(6),
+    "revoked_at" TIMESTAMPTZ(6),
+    "revoked_by" UUID,
+    "created_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "pricing_overrides_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "idx_pricing_overrides_project" ON "pricing_overrides"("project_id");
+
+-- CreateIndex
+CREATE INDEX "idx_pricing_overrides_quote" ON "pricing_overrides"("quote_id");
+
+-- AddForeignKey
+ALTER TABLE "project_quotes" ADD CONSTRAINT "project_quotes_pricing_override_id_fkey" FOREIGN KEY ("pricing_override_id") REFERENCES "pricing_overrides"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "pricing_overrides" ADD CONSTRAINT "pricing_overrides_project_id_fkey" FOREIGN KEY ("project_id") REFERENCES "project_assessments"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "pricing_overrides" ADD CONSTRAINT "pricing_overrides_quote_id_fkey" FOREIGN KEY ("quote_id") REFERENCES "project_quotes"("id") ON DELETE CASCADE ON UPDATE CASCADE;
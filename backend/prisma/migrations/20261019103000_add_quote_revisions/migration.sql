@@ -0,0 +1,61 @@
+-- AlterEnum
+ALTER TYPE "QuoteStatus" ADD VALUE 'superseded';
+
+-- CreateEnum
+CREATE TYPE "CounterOfferStatus" AS ENUM ('open', 'revised', 'rejected', 'withdrawn');
+
+-- AlterTable
+ALTER TABLE "project_quotes" ADD COLUMN     "revision" INTEGER NOT NULL DEFAULT 1,
+ADD COLUMN     "previous_quote_id" UUID,
+ADD COLUMN     "superseded_at" TIMESTAMPTZ(6);
+
+-- Number existing quotes per project in creation order
+UPDATE "project_quotes" q
+SET "revision" = numbered."revision"
+FROM (
+    SELECT "id", ROW_NUMBER() OVER (PARTITION BY "project_id" ORDER BY "created_at", "id") AS "revision"
+    FROM "project_quotes"
+) numbered
+WHERE q."id" = numbered."id";
+
+-- CreateTable
+CREATE TABLE "quote_counter_offers" (
+    "id" UUID NOT NULL DEFAULT gen_random_uuid(),
+    "quote_id" UUID NOT NULL,
+    "user_id" UUID NOT NULL,
+    "proposed_total" DECIMAL(10,2),
+    "proposed_timeline_weeks" INTEGER,
+    "comment" VARCHAR(2000),
+    "status" "CounterOfferStatus" NOT NULL DEFAULT 'open',
+    "response" VARCHAR(2000),
+    "responded_by" UUID,
+    "responded_at" TIMESTAMPTZ(6),
+    "revision_quote_id" UUID,
+    "created_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "quote_counter_offers_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "project_quotes_previous_quote_id_key" ON "project_quotes"("previous_quote_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "uq_quotes_project_revision" ON "project_quotes"("project_id", "revision");
+
+-- CreateIndex
+CREATE INDEX "idx_counter_offers_quote" ON "quote_counter_offers"("quote_id");
+
+-- CreateIndex
+CREATE INDEX "idx_counter_offers_status" ON "quote_counter_offers"("status");
+
+-- AddForeignKey
+ALTER TABLE "project_quotes" ADD CONSTRAINT "project_quotes_previous_quote_id_fkey" FOREIGN KEY ("previous_quote_id") REFERENCES "project_quotes"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "quote_counter_offers" ADD CONSTRAINT "quote_counter_offers_quote_id_fkey" FOREIGN KEY ("quote_id") REFERENCES "project_quotes"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "quote_counter_offers" ADD CONSTRAINT "quote_counter_offers_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "quote_counter_offers" ADD CONSTRAINT "quote_counter_offers_revision_quote_id_fkey" FOREIGN KEY ("revision_quote_id") REFERENCES "project_quotes"("id") ON DELETE SET NULL ON UPDATE CASCADE;
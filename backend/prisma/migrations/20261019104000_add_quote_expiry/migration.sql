@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "project_quotes" ADD COLUMN     "expired_at" TIMESTAMPTZ(6),
+ADD COLUMN     "reminders_sent" INTEGER[] DEFAULT ARRAY[]::INTEGER[];
+
+-- CreateIndex
+CREATE INDEX "idx_quotes_status_valid_until" ON "project_quotes"("status", "valid_until");
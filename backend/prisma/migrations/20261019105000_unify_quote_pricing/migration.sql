@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "project_assessments" ADD COLUMN     "bundle_id" VARCHAR(100),
+ADD COLUMN     "revenue_category" VARCHAR(50),
+ADD COLUMN     "company_scale" VARCHAR(50);
+
+-- AlterTable
+ALTER TABLE "project_quotes" ADD COLUMN     "scale_adjustment" DECIMAL(10,2) NOT NULL DEFAULT 0,
+ADD COLUMN     "pricing_snapshot" JSONB;
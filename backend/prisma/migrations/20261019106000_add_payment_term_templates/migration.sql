@@ -0,0 +1,44 @@
+-- CreateEnum
+CREATE TYPE "ClientTier" AS ENUM ('MVP', 'PAYFI', 'WEB3', 'SME', 'SMB', 'FI', 'CRE', 'ELITE', 'VENTURE');
+
+-- CreateEnum
+CREATE TYPE "KybStatus" AS ENUM ('idle', 'pending', 'verified', 'rejected');
+
+-- CreateEnum
+CREATE TYPE "SettlementRail" AS ENUM ('crypto_wallet', 'usdc_solana', 'usdc_base', 'usdc_eth', 'stripe');
+
+-- AlterTable
+ALTER TABLE "project_assessments" ADD COLUMN     "client_tier" "ClientTier",
+ADD COLUMN     "kyb_status" "KybStatus" NOT NULL DEFAULT 'idle';
+
+-- AlterTable
+ALTER TABLE "project_quotes" ADD COLUMN     "payment_terms" JSONB,
+ADD COLUMN     "payment_term_template_id" UUID,
+ADD COLUMN     "settlement_rail" "SettlementRail";
+
+-- CreateTable
+CREATE TABLE "payment_term_templates" (
+    "id" UUID NOT NULL DEFAULT gen_random_uuid(),
+    "name" VARCHAR(100) NOT NULL,
+    "client_tier" "ClientTier",
+    "kyb_status" "KybStatus",
+    "settlement_rail" "SettlementRail",
+    "advance_percentage" DECIMAL(5,2) NOT NULL,
+    "installments" JSONB NOT NULL DEFAULT '[]',
+    "remaining_terms" VARCHAR(255),
+    "early_pay_discount_percentage" DECIMAL(5,2),
+    "early_pay_window_days" INTEGER,
+    "requires_escrow" BOOLEAN NOT NULL DEFAULT false,
+    "active" BOOLEAN NOT NULL DEFAULT true,
+    "created_by" UUID,
+    "created_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMPTZ(6) NOT NULL,
+
+    CONSTRAINT "payment_term_templates_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "idx_payment_term_templates_active" ON "payment_term_templates"("active");
+
+-- AddForeignKey
+ALTER TABLE "project_quotes" ADD CONSTRAINT "project_quotes_payment_term_template_id_fkey" FOREIGN KEY ("payment_term_template_id") REFERENCES "payment_term_templates"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,36 @@
+-- AlterTable
+ALTER TABLE "base_pricing" ADD COLUMN     "timeline_weeks" INTEGER;
+
+-- AlterTable
+ALTER TABLE "project_quotes" ADD COLUMN     "discount_amount" DECIMAL(10,2) NOT NULL DEFAULT 0;
+
+-- CreateTable
+CREATE TABLE "quote_line_items" (
+    "id" UUID NOT NULL DEFAULT gen_random_uuid(),
+    "quote_id" UUID NOT NULL,
+    "position" INTEGER NOT NULL,
+    "bundle_id" VARCHAR(100) NOT NULL,
+    "base_pricing_id" UUID,
+    "name" VARCHAR(255) NOT NULL,
+    "quantity" INTEGER NOT NULL DEFAULT 1,
+    "unit_price" DECIMAL(10,2) NOT NULL,
+    "discount_amount" DECIMAL(10,2) NOT NULL DEFAULT 0,
+    "discount_reason" VARCHAR(100),
+    "line_total" DECIMAL(10,2) NOT NULL,
+    "timeline_weeks" INTEGER NOT NULL,
+    "created_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "quote_line_items_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "idx_quote_line_items_bundle" ON "quote_line_items"("bundle_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "uq_quote_line_items_position" ON "quote_line_items"("quote_id", "position");
+
+-- AddForeignKey
+ALTER TABLE "quote_line_items" ADD CONSTRAINT "quote_line_items_quote_id_fkey" FOREIGN KEY ("quote_id") REFERENCES "project_quotes"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "quote_line_items" ADD CONSTRAINT "quote_line_items_base_pricing_id_fkey" FOREIGN KEY ("base_pricing_id") REFERENCES "base_pricing"("id") ON DELETE SET NULL ON UPDATE CASCADE;
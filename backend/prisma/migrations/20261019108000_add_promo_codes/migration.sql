@@ -0,0 +1,72 @@
+-- CreateEnum
+CREATE TYPE "PromoCodeKind" AS ENUM ('promo', 'referral');
+
+-- CreateEnum
+CREATE TYPE "DiscountType" AS ENUM ('percentage', 'fixed');
+
+-- AlterTable
+ALTER TABLE "project_quotes" ADD COLUMN     "promo_code_id" UUID,
+ADD COLUMN     "promo_discount" DECIMAL(10,2) NOT NULL DEFAULT 0;
+
+-- CreateTable
+CREATE TABLE "promo_codes" (
+    "id" UUID NOT NULL DEFAULT gen_random_uuid(),
+    "code" VARCHAR(40) NOT NULL,
+    "kind" "PromoCodeKind" NOT NULL DEFAULT 'promo',
+    "description" VARCHAR(255),
+    "discount_type" "DiscountType" NOT NULL,
+    "discount_value" DECIMAL(10,2) NOT NULL,
+    "referrer_id" UUID,
+    "client_tiers" "ClientTier"[] DEFAULT ARRAY[]::"ClientTier"[],
+    "max_redemptions" INTEGER,
+    "redemption_count" INTEGER NOT NULL DEFAULT 0,
+    "expires_at" TIMESTAMPTZ(6),
+    "active" BOOLEAN NOT NULL DEFAULT true,
+    "created_by" UUID,
+    "created_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMPTZ(6) NOT NULL,
+
+    CONSTRAINT "promo_codes_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "promo_redemptions" (
+    "id" UUID NOT NULL DEFAULT gen_random_uuid(),
+    "promo_code_id" UUID NOT NULL,
+    "project_id" UUID NOT NULL,
+    "quote_id" UUID,
+    "redeemed_by" UUID NOT NULL,
+    "referrer_id" UUID,
+    "discount_amount" DECIMAL(10,2) NOT NULL,
+    "created_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMPTZ(6) NOT NULL,
+
+    CONSTRAINT "promo_redemptions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "promo_codes_code_key" ON "promo_codes"("code");
+
+-- CreateIndex
+CREATE INDEX "idx_promo_codes_referrer" ON "promo_codes"("referrer_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "uq_promo_redemptions_code_project" ON "promo_redemptions"("promo_code_id", "project_id");
+
+-- CreateIndex
+CREATE INDEX "idx_promo_redemptions_referrer" ON "promo_redemptions"("referrer_id");
+
+-- AddForeignKey
+ALTER TABLE "project_quotes" ADD CONSTRAINT "project_quotes_promo_code_id_fkey" FOREIGN KEY ("promo_code_id") REFERENCES "promo_codes"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "promo_codes" ADD CONSTRAINT "promo_codes_referrer_id_fkey" FOREIGN KEY ("referrer_id") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "promo_redemptions" ADD CONSTRAINT "promo_redemptions_promo_code_id_fkey" FOREIGN KEY ("promo_code_id") REFERENCES "promo_codes"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "promo_redemptions" ADD CONSTRAINT "promo_redemptions_project_id_fkey" FOREIGN KEY ("project_id") REFERENCES "project_assessments"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "promo_redemptions" ADD CONSTRAINT "promo_redemptions_quote_id_fkey" FOREIGN KEY ("quote_id") REFERENCES "project_quotes"("id") ON DELETE SET NULL ON UPDATE CASCADE;
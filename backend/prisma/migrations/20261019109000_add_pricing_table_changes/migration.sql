@@ -0,0 +1,37 @@
+-- CreateEnum
+CREATE TYPE "PricingTable" AS ENUM ('revenue_category', 'company_scale', 'complexity_tier', 'base_pricing');
+
+-- CreateEnum
+CREATE TYPE "PricingChangeAction" AS ENUM ('created', 'updated', 'retired', 'restored');
+
+-- AlterTable
+ALTER TABLE "revenue_categories" ADD COLUMN     "active" BOOLEAN NOT NULL DEFAULT true;
+
+-- AlterTable
+ALTER TABLE "company_scales" ADD COLUMN     "active" BOOLEAN NOT NULL DEFAULT true;
+
+-- AlterTable
+ALTER TABLE "complexity_tiers" ADD COLUMN     "active" BOOLEAN NOT NULL DEFAULT true;
+
+-- AlterTable
+ALTER TABLE "base_pricing" ADD COLUMN     "active" BOOLEAN NOT NULL DEFAULT true;
+
+-- CreateTable
+CREATE TABLE "pricing_table_changes" (
+    "id" UUID NOT NULL DEFAULT gen_random_uuid(),
+    "table" "PricingTable" NOT NULL,
+    "record_id" UUID NOT NULL,
+    "action" "PricingChangeAction" NOT NULL,
+    "before" JSONB,
+    "after" JSONB NOT NULL,
+    "changed_by" UUID,
+    "changed_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "pricing_table_changes_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "idx_pricing_table_changes_record" ON "pricing_table_changes"("table", "record_id");
+
+-- CreateIndex
+CREATE INDEX "idx_pricing_table_changes_changed" ON "pricing_table_changes"("changed_at" DESC);
@@ -0,0 +1,52 @@
+-- AlterTable
+ALTER TABLE "project_quotes" ADD COLUMN     "price_book_id" UUID;
+
+-- CreateTable
+CREATE TABLE "price_books" (
+    "id" UUID NOT NULL DEFAULT gen_random_uuid(),
+    "version" INTEGER NOT NULL,
+    "name" VARCHAR(100) NOT NULL,
+    "notes" TEXT,
+    "effective_from" TIMESTAMPTZ(6) NOT NULL,
+    "effective_to" TIMESTAMPTZ(6),
+    "created_by" UUID,
+    "created_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "price_books_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "price_book_entries" (
+    "id" UUID NOT NULL DEFAULT gen_random_uuid(),
+    "price_book_id" UUID NOT NULL,
+    "base_pricing_id" UUID,
+    "bundle_id" VARCHAR(100) NOT NULL,
+    "bundle_name" VARCHAR(255) NOT NULL,
+    "revenue_category_code" VARCHAR(50) NOT NULL,
+    "company_scale_code" VARCHAR(50) NOT NULL,
+    "base_price" DECIMAL(10,2) NOT NULL,
+    "timeline_weeks" INTEGER,
+
+    CONSTRAINT "price_book_entries_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "price_books_version_key" ON "price_books"("version");
+
+-- CreateIndex
+CREATE INDEX "idx_price_books_effective_from" ON "price_books"("effective_from");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "uq_price_book_entries_row" ON "price_book_entries"("price_book_id", "base_pricing_id");
+
+-- CreateIndex
+CREATE INDEX "idx_price_book_entries_bundle" ON "price_book_entries"("bundle_id");
+
+-- AddForeignKey
+ALTER TABLE "project_quotes" ADD CONSTRAINT "project_quotes_price_book_id_fkey" FOREIGN KEY ("price_book_id") REFERENCES "price_books"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "price_book_entries" ADD CONSTRAINT "price_book_entries_price_book_id_fkey" FOREIGN KEY ("price_book_id") REFERENCES "price_books"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "price_book_entries" ADD CONSTRAINT "price_book_entries_base_pricing_id_fkey" FOREIGN KEY ("base_pricing_id") REFERENCES "base_pricing"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,31 @@
+-- CreateEnum
+CREATE TYPE "PricingRuleSetStatus" AS ENUM ('draft', 'active', 'retired');
+
+-- AlterTable
+ALTER TABLE "project_quotes" ADD COLUMN     "pricing_rule_set_id" UUID,
+ADD COLUMN     "rule_adjustment" DECIMAL(10,2) NOT NULL DEFAULT 0;
+
+-- CreateTable
+CREATE TABLE "pricing_rule_sets" (
+    "id" UUID NOT NULL DEFAULT gen_random_uuid(),
+    "version" INTEGER NOT NULL,
+    "name" VARCHAR(100) NOT NULL,
+    "notes" TEXT,
+    "rules" JSONB NOT NULL,
+    "status" "PricingRuleSetStatus" NOT NULL DEFAULT 'draft',
+    "created_by" UUID,
+    "created_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "activated_by" UUID,
+    "activated_at" TIMESTAMPTZ(6),
+
+    CONSTRAINT "pricing_rule_sets_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "pricing_rule_sets_version_key" ON "pricing_rule_sets"("version");
+
+-- CreateIndex
+CREATE INDEX "idx_pricing_rule_sets_status" ON "pricing_rule_sets"("status");
+
+-- AddForeignKey
+ALTER TABLE "project_quotes" ADD CONSTRAINT "project_quotes_pricing_rule_set_id_fkey" FOREIGN KEY ("pricing_rule_set_id") REFERENCES "pricing_rule_sets"("id") ON DELETE SET NULL ON UPDATE CASCADE;
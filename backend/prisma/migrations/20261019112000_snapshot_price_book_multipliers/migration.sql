@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "price_books" ADD COLUMN     "tier_multipliers" JSONB;
+
+-- AlterTable
+ALTER TABLE "price_book_entries" ADD COLUMN     "scale_multiplier" DECIMAL(5,2);
@@ -0,0 +1,3 @@
+-- CreateIndex
+-- At most one active rule set; partial indexes are not expressible in schema.prisma
+CREATE UNIQUE INDEX "uq_pricing_rule_sets_active" ON "pricing_rule_sets"("status") WHERE "status" = 'active';
@@ -0,0 +1,479 @@
+import { Router } from 'express';
+import { adminController } from '../controllers/adminController.js';
+import { authenticateToken, requirePermission, requireRecentSecondFactor } from '../middleware/authMiddleware.js';
+
+const router = Router();
+
+// All routes require authentication
+router.use(authenticateToken);
+
+// Sensitive changes additionally require a second factor verified within the last few minutes
+const secondFactor = requireRecentSecondFactor();
+
+// ==========================================
+// Users & Access Control
+// ==========================================
+
+/**
+ * List users with their roles
+ * GET /api/admin/users?role=admin
+ * Requires: users:read
+ */
+router.get('/users', requirePermission('users:read'), adminController.listUsers);
+
+/**
+ * Get a user's roles and effective permissions
+ * GET /api/admin/users/:userId/access
+ * Requires: users:read
+ */
+router.get('/users/:userId/access', requirePermission('users:read'), adminController.getUserAccess);
+
+/**
+ * Grant a role
+ * POST /api/admin/users/:userId/roles
+ * Body: { role: 'user' | 'admin' | 'ops' | 'finance' }
+ * Requires: roles:manage, recent second factor
+ */
+router.post('/users/:userId/roles', requirePermission('roles:manage'), secondFactor, adminController.grantRole);
+
+/**
+ * Revoke a role
+ * DELETE /api/admin/users/:userId/roles/:role
+ * Requires: roles:manage, recent second factor
+ */
+router.delete('/users/:userId/roles/:role', requirePermission('roles:manage'), secondFactor, adminController.revokeRole);
+
+/**
+ * Grant a direct permission
+ * POST /api/admin/users/:userId/permissions
+ * Body: { permission: string }
+ * Requires: roles:manage, recent second factor
+ */
+router.post('/users/:userId/permissions', requirePermission('roles:manage'), secondFactor, adminController.grantPermission);
+
+/**
+ * Revoke a direct permission
+ * DELETE /api/admin/users/:userId/permissions/:permission
+ * Requires: roles:manage, recent second factor
+ */
+router.delete('/users/:userId/permissions/:permission', requirePermission('roles:manage'), secondFactor, adminController.revokePermission);
+
+// ==========================================
+// Sessions
+// ==========================================
+
+/**
+ * List a user's active sessions
+ * GET /api/admin/users/:userId/sessions
+ * Requires: users:read
+ */
+router.get('/users/:userId/sessions', requirePermission('users:read'), adminController.listUserSessions);
+
+/**
+ * Revoke all sessions of a user (force re-login)
+ * DELETE /api/admin/users/:userId/sessions
+ * Requires: roles:manage, recent second factor
+ */
+router.delete('/users/:userId/sessions', requirePermission('roles:manage'), secondFactor, adminController.revokeUserSessions);
+
+/**
+ * Revoke a single session
+ * DELETE /api/admin/sessions/:sessionId
+ * Requires: roles:manage, recent second factor
+ */
+router.delete('/sessions/:sessionId', requirePermission('roles:manage'), secondFactor, adminController.revokeSession);
+
+/**
+ * Reset a user's two-factor enrolment (lost device and recovery codes)
+ * DELETE /api/admin/users/:userId/2fa
+ * Requires: roles:manage, recent second factor
+ */
+router.delete('/users/:userId/2fa', requirePermission('roles:manage'), secondFactor, adminController.resetTwoFactor);
+
+// ==========================================
+// Account Merges
+// ==========================================
+
+/**
+ * Merge another account into this user (re-parents projects, quotes, calls, audits, conversations)
+ * POST /api/admin/users/:userId/merge
+ * Body: { sourceUserId: string }
+ * Requires: roles:manage, recent second factor
+ */
+router.post('/users/:userId/merge', requirePermission('roles:manage'), secondFactor, adminController.mergeUsers);
+
+/**
+ * List the account merge trail
+ * GET /api/admin/merges?userId=
+ * Requires: users:read
+ */
+router.get('/merges', requirePermission('users:read'), adminController.listMerges);
+
+// ==========================================
+// Impersonation
+// ==========================================
+
+/**
+ * View the app as a client user (read-only, expires after IMPERSONATION_TTL_MINUTES)
+ * POST /api/admin/users/:userId/impersonate
+ * Body: { reason: string }
+ * Requires: users:impersonate, recent second factor
+ */
+router.post('/users/:userId/impersonate', requirePermission('users:impersonate'), secondFactor, adminController.startImpersonation);
+
+/**
+ * Leave impersonation (called with the impersonation token)
+ * POST /api/admin/impersonation/stop
+ */
+router.post('/impersonation/stop', adminController.stopImpersonation);
+
+/**
+ * List impersonation sessions
+ * GET /api/admin/impersonations?userId=&impersonatorId=
+ * Requires: audit:read
+ */
+router.get('/impersonations', requirePermission('audit:read'), adminController.listImpersonations);
+
+// ==========================================
+// Personal Data (GDPR)
+// ==========================================
+
+/**
+ * Export all personal data of a user
+ * GET /api/admin/users/:userId/export
+ * Requires: roles:manage, recent second factor
+ */
+router.get('/users/:userId/export', requirePermission('roles:manage'), secondFactor, adminController.exportUserData);
+
+/**
+ * Erase a user's personal data
+ * POST /api/admin/users/:userId/erase
+ * Requires: roles:manage, recent second factor
+ */
+router.post('/users/:userId/erase', requirePermission('roles:manage'), secondFactor, adminController.eraseUser);
+
+// ==========================================
+// Projects
+// ==========================================
+
+/**
+ * Move a project to another status (e.g. quote_accepted -> in_progress -> completed)
+ * POST /api/admin/projects/:projectId/status
+ * Body: { status: ProjectStatus, reason?: string }
+ * Requires: projects:manage
+ */
+router.post('/projects/:projectId/status', requirePermission('projects:manage'), adminController.transitionProject);
+
+/**
+ * Get a project's status history
+ * GET /api/admin/projects/:projectId/timeline
+ * Requires: projects:manage
+ */
+router.get('/projects/:projectId/timeline', requirePermission('projects:manage'), adminController.getProjectTimeline);
+
+// ==========================================
+// Quote Negotiation
+// ==========================================
+
+/**
+ * List client counter-offers (open ones by default)
+ * GET /api/admin/quote-counter-offers?status=open|revised|rejected|withdrawn
+ * Requires: quotes:manage
+ */
+router.get('/quote-counter-offers', requirePermission('quotes:manage'), adminController.listCounterOffers);
+
+/**
+ * Issue a new revision of an open quote, superseding it and answering open counter-offers
+ * POST /api/admin/quotes/:quoteId/revise
+ * Body: { totalEstimate?: number, notToExceed?: number, estimatedTimelineWeeks?: number, comment?: string }
+ * Requires: quotes:manage
+ */
+router.post('/quotes/:quoteId/revise', requirePermission('quotes:manage'), adminController.reviseQuote);
+
+/**
+ * Reject a counter-offer, keeping the current revision
+ * POST /api/admin/quote-counter-offers/:counterOfferId/reject
+ * Body: { response?: string }
+ * Requires: quotes:manage
+ */
+router.post('/quote-counter-offers/:counterOfferId/reject', requirePermission('quotes:manage'), adminController.rejectCounterOffer);
+
+/**
+ * Expire stale quotes and send expiry reminders now (for external cron or manual runs)
+ * POST /api/admin/quotes/expiry/run
+ * Requires: quotes:manage
+ */
+router.post('/quotes/expiry/run', requirePermission('quotes:manage'), adminController.runQuoteExpiry);
+
+// ==========================================
+// Pricing Overrides
+// ==========================================
+
+/**
+ * Override the advance percentage for a project's open and future quotes
+ * POST /api/admin/projects/:projectId/pricing-override
+ * Body: { advancePercentage: number (10-100), reason: 'AUTH|RISK|SLA|TECH: DETAILS', expiresAt?: string }
+ * Requires: pricing:override, recent second factor
+ */
+router.post('/projects/:projectId/pricing-override', requirePermission('pricing:override'), secondFactor, adminController.createProjectPricingOverride);
+
+/**
+ * Override the advance percentage for a single open quote
+ * POST /api/admin/quotes/:quoteId/pricing-override
+ * Body: { advancePercentage: number (10-100), reason: 'AUTH|RISK|SLA|TECH: DETAILS', expiresAt?: string }
+ * Requires: pricing:override, recent second factor
+ */
+router.post('/quotes/:quoteId/pricing-override', requirePermission('pricing:override'), secondFactor, adminController.createQuotePricingOverride);
+
+/**
+ * Revoke a pricing override
+ * DELETE /api/admin/pricing-overrides/:overrideId
+ * Requires: pricing:override, recent second factor
+ */
+router.delete('/pricing-overrides/:overrideId', requirePermission('pricing:override'), secondFactor, adminController.revokePricingOverride);
+
+/**
+ * List pricing overrides
+ * GET /api/admin/pricing-overrides?projectId=&active=true
+ * Requires: pricing:override
+ */
+router.get('/pricing-overrides', requirePermission('pricing:override'), adminController.listPricingOverrides);
+
+// ==========================================
+// Payment Terms
+// ==========================================
+
+/**
+ * Set the client tier and KYB status that select a project's payment terms (open quotes are re-termed)
+ * PATCH /api/admin/projects/:projectId/billing-profile
+ * Body: { clientTier?: ClientTier | null, kybStatus?: 'idle' | 'pending' | 'verified' | 'rejected' }
+ * Requires: pricing:manage, recent second factor
+ */
+router.patch('/projects/:projectId/billing-profile', requirePermission('pricing:manage'), secondFactor, adminController.updateProjectBillingProfile);
+
+/**
+ * List payment term templates
+ * GET /api/admin/payment-term-templates?includeInactive=true
+ * Requires: pricing:manage
+ */
+router.get('/payment-term-templates', requirePermission('pricing:manage'), adminController.listPaymentTermTemplates);
+
+/**
+ * Create a payment term template
+ * POST /api/admin/payment-term-templates
+ * Body: { name, clientTier?, kybStatus?, settlementRail?, advancePercentage, installments: [{ percentage, trigger, dueInDays? }], remainingTerms?, earlyPayDiscount?: { percentage, windowDays }, requiresEscrow? }
+ * Requires: pricing:manage, recent second factor
+ */
+router.post('/payment-term-templates', requirePermission('pricing:manage'), secondFactor, adminController.createPaymentTermTemplate);
+
+/**
+ * Update a payment term template
+ * PATCH /api/admin/payment-term-templates/:templateId
+ * Body: any subset of the create fields
+ * Requires: pricing:manage, recent second factor
+ */
+router.patch('/payment-term-templates/:templateId', requirePermission('pricing:manage'), secondFactor, adminController.updatePaymentTermTemplate);
+
+/**
+ * Deactivate a payment term template
+ * DELETE /api/admin/payment-term-templates/:templateId
+ * Requires: pricing:manage, recent second factor
+ */
+router.delete('/payment-term-templates/:templateId', requirePermission('pricing:manage'), secondFactor, adminController.deactivatePaymentTermTemplate);
+
+// ==========================================
+// Promo & Referral Codes
+// ==========================================
+
+/**
+ * List promo and referral codes
+ * GET /api/admin/promo-codes?kind=promo|referral&includeInactive=true
+ * Requires: pricing:manage
+ */
+router.get('/promo-codes', requirePermission('pricing:manage'), adminController.listPromoCodes);
+
+/**
+ * Create a promo code, or a referral code crediting a user
+ * POST /api/admin/promo-codes
+ * Body: { code, kind?: 'promo' | 'referral', referrerId?, description?, discountType: 'percentage' | 'fixed', discountValue, clientTiers?: ClientTier[], maxRedemptions?, expiresAt? }
+ * Requires: pricing:manage, recent second factor
+ */
+router.post('/promo-codes', requirePermission('pricing:manage'), secondFactor, adminController.createPromoCode);
+
+/**
+ * Update a promo code's discount or restrictions
+ * PATCH /api/admin/promo-codes/:promoCodeId
+ * Body: any of { description, discountType, discountValue, clientTiers, maxRedemptions, expiresAt }
+ * Requires: pricing:manage, recent second factor
+ */
+router.patch('/promo-codes/:promoCodeId', requirePermission('pricing:manage'), secondFactor, adminController.updatePromoCode);
+
+/**
+ * Deactivate a promo code
+ * DELETE /api/admin/promo-codes/:promoCodeId
+ * Requires: pricing:manage, recent second factor
+ */
+router.delete('/promo-codes/:promoCodeId', requirePermission('pricing:manage'), secondFactor, adminController.deactivatePromoCode);
+
+/**
+ * Referral attribution by referrer (referred projects, accepted quotes and their value)
+ * GET /api/admin/referrals/report?since=<ISO date>
+ * Requires: pricing:manage
+ */
+router.get('/referrals/report', requirePermission('pricing:manage'), adminController.getReferralReport);
+
+// ==========================================
+// Pricing Tables
+// ==========================================
+// :table is one of revenue-categories, company-scales, complexity-tiers, base-pricing
+
+/**
+ * Changes to the pricing tables, newest first, with the row before and after
+ * GET /api/admin/pricing-tables/history?table=&recordId=&limit=100
+ * Requires: pricing:manage
+ */
+router.get('/pricing-tables/history', requirePermission('pricing:manage'), adminController.getPricingTableHistory);
+
+/**
+ * List a pricing table's rows
+ * GET /api/admin/pricing-tables/:table?includeRetired=true
+ * Requires: pricing:manage
+ */
+router.get('/pricing-tables/:table', requirePermission('pricing:manage'), adminController.listPricingTableRows);
+
+/**
+ * Add a pricing table row
+ * POST /api/admin/pricing-tables/:table
+ * Body: revenue-categories { name, code, description? }
+ *       company-scales { name, code, revenueMin, revenueMax, multiplier, description? }
+ *       complexity-tiers { rating, name, adjustmentMultiplier, description? }
+ *       base-pricing { bundleId, bundleName, revenueCategory, companyScale, basePrice, timelineWeeks?, description? }
+ * Requires: pricing:manage, recent second factor
+ */
+router.post('/pricing-tables/:table', requirePermission('pricing:manage'), secondFactor, adminController.createPricingTableRow);
+
+/**
+ * Update a pricing table row (names, codes, ratings and bundle keys cannot change)
+ * PATCH /api/admin/pricing-tables/:table/:recordId
+ * Requires: pricing:manage, recent second factor
+ */
+router.patch('/pricing-tables/:table/:recordId', requirePermission('pricing:manage'), secondFactor, adminController.updatePricingTableRow);
+
+/**
+ * Retire a pricing table row (a category or scale also retires its base prices)
+ * DELETE /api/admin/pricing-tables/:table/:recordId
+ * Requires: pricing:manage, recent second factor
+ */
+router.delete('/pricing-tables/:table/:recordId', requirePermission('pricing:manage'), secondFactor, adminController.retirePricingTableRow);
+
+/**
+ * Restore a retired pricing table row
+ * POST /api/admin/pricing-tables/:table/:recordId/restore
+ * Requires: pricing:manage, recent second factor
+ */
+router.post('/pricing-tables/:table/:recordId/restore', requirePermission('pricing:manage'), secondFactor, adminController.restorePricingTableRow);
+
+// ==========================================
+// Pricing Matrix (base prices as CSV)
+// ==========================================
+
+/**
+ * Download the active base prices as CSV, with revenue category and company scale codes
+ * GET /api/admin/pricing-matrix/export
+ * Columns: bundle_id, bundle_name, revenue_category, company_scale, base_price, timeline_weeks, description
+ * Requires: pricing:manage
+ */
+router.get('/pricing-matrix/export', requirePermission('pricing:manage'), adminController.exportPricingMatrix);
+
+/**
+ * Preview (default) or apply a base pricing CSV in one transaction
+ * POST /api/admin/pricing-matrix/import
+ * Body: { csv, apply?: boolean, retireMissing?: boolean }
+ * Requires: pricing:manage, recent second factor
+ */
+router.post('/pricing-matrix/import', requirePermission('pricing:manage'), secondFactor, adminController.importPricingMatrix);
+
+// ==========================================
+// Price Books
+// ==========================================
+
+/**
+ * List price books, newest first, with their status (scheduled, current or superseded)
+ * GET /api/admin/price-books
+ * Requires: pricing:manage
+ */
+router.get('/price-books', requirePermission('pricing:manage'), adminController.listPriceBooks);
+
+/**
+ * Publish the active base prices as the next price book version
+ * POST /api/admin/price-books
+ * Body: { name, notes?, effectiveFrom?: ISO date (defaults to now) }
+ * Requires: pricing:manage, recent second factor
+ */
+router.post('/price-books', requirePermission('pricing:manage'), secondFactor, adminController.publishPriceBook);
+
+/**
+ * Get a price book with its prices
+ * GET /api/admin/price-books/:priceBookId
+ * Requires: pricing:manage
+ */
+router.get('/price-books/:priceBookId', requirePermission('pricing:manage'), adminController.getPriceBook);
+
+/**
+ * Cancel the latest price book before it takes effect; the previous book stays in effect
+ * DELETE /api/admin/price-books/:priceBookId
+ * Requires: pricing:manage, recent second factor
+ */
+router.delete('/price-books/:priceBookId', requirePermission('pricing:manage'), secondFactor, adminController.cancelPriceBook);
+
+// ==========================================
+// Pricing Rules
+// ==========================================
+
+/**
+ * List pricing rule set versions, newest first
+ * GET /api/admin/pricing-rule-sets
+ * Requires: pricing:manage
+ */
+router.get('/pricing-rule-sets', requirePermission('pricing:manage'), adminController.listPricingRuleSets);
+
+/**
+ * Save a rule list as the next draft version (rule sets cannot be edited once saved)
+ * POST /api/admin/pricing-rule-sets
+ * Body: { name, notes?, rules: [{ key, description, when?, action: multiply|add|floor|cap, value }] }
+ *       when: { projectTypes?, revenueCategories?, companyScales?, clientTiers?, urgencies?,
+ *               complexityRating?: { min?, max? }, features?, integrations? }
+ * Requires: pricing:manage
+ */
+router.post('/pricing-rule-sets', requirePermission('pricing:manage'), adminController.createPricingRuleSet);
+
+/**
+ * Get a pricing rule set with its rules
+ * GET /api/admin/pricing-rule-sets/:ruleSetId
+ * Requires: pricing:manage
+ */
+router.get('/pricing-rule-sets/:ruleSetId', requirePermission('pricing:manage'), adminController.getPricingRuleSet);
+
+/**
+ * Run a rule set against recent quotes and compare the totals, without changing anything
+ * POST /api/admin/pricing-rule-sets/:ruleSetId/dry-run
+ * Body: { since?: ISO date (default 90 days ago), limit?: number (default 200, max 1000) }
+ * Requires: pricing:manage
+ */
+router.post('/pricing-rule-sets/:ruleSetId/dry-run', requirePermission('pricing:manage'), adminController.dryRunPricingRuleSet);
+
+/**
+ * Apply a rule set to new quotes, retiring the active one (retired versions can be activated again)
+ * POST /api/admin/pricing-rule-sets/:ruleSetId/activate
+ * Requires: pricing:manage, recent second factor
+ */
+router.post('/pricing-rule-sets/:ruleSetId/activate', requirePermission('pricing:manage'), secondFactor, adminController.activatePricingRuleSet);
+
+/**
+ * Stop applying the active rule set
+ * POST /api/admin/pricing-rule-sets/:ruleSetId/deactivate
+ * Requires: pricing:manage, recent second factor
+ */
+router.post('/pricing-rule-sets/:ruleSetId/deactivate', requirePermission('pricing:manage'), secondFactor, adminController.deactivatePricingRuleSet);
+
+export default router;
@@ -2,7 +2,7 @@ import { Router } from 'express';
 import multer from 'multer';
 import { auditController } from '../controllers/auditController.js';
 import { authenticateToken } from '../middleware/authMiddleware.js';
-import { authRateLimiter } from '../middleware/rateLimiter.js';
+import { authRateLimiter, otpRateLimiter } from '../middleware/rateLimiter.js';
 
 const router = Router();
 
@@ -52,30 +52,24 @@ router.post('/manifest', authRateLimiter, auditController.submitManifest);
 /**
  * Store identity verification (Auth Identity Step)
  * POST /api/audit/identity
- * Body: { linkedinUrl?: string, businessEmail?: string, whatsappNumber?: string }
+ * Body: { linkedinUrl?: string, businessEmail?: string, whatsappNumber?: string, country?: string }
  */
 router.post('/identity', authRateLimiter, auditController.submitIdentity);
 
-// ==========================================
-// [DEPRECATED - OTP/WhatsApp/Twilio Routes]
-// These routes are not currently in use
-// ==========================================
-
 /**
- * [DEPRECATED] Send WhatsApp OTP (OTP Step)
+ * Send WhatsApp OTP (OTP Step)
  * POST /api/audit/otp/send
  * Body: { phoneNumber: string }
- * Note: Currently not in use. OTP verification handled via Privy authentication.
+ * Required before submission for US contacts
  */
-// router.post('/otp/send', authRateLimiter, auditController.sendOTP);
+router.post('/otp/send', otpRateLimiter, auditController.sendOTP);
 
 /**
- * [DEPRECATED] Verify WhatsApp OTP (OTP Step)
+ * Verify WhatsApp OTP (OTP Step)
  * POST /api/audit/otp/verify
  * Body: { phoneNumber: string, code: string }
- * Note: Currently not in use. OTP verification handled via Privy authentication.
  */
-// router.post('/otp/verify', authRateLimiter, auditController.verifyOTP);
+router.post('/otp/verify', authRateLimiter, auditController.verifyOTP);
 
 /**
  * Schedule Google Meet (Google Meet Step)
@@ -87,12 +81,12 @@ router.post('/schedule', authRateLimiter, auditController.scheduleCall);
 /**
  * Finalize audit submission (Success Step)
  * POST /api/audit/submit
- * Body: { manifestId: string, identityId: string, meetingId: string, goals?: object }
+ * Body: { manifestId: string, identityId: string, meetingId: string, goals?: object, organizationId?: string }
  */
 router.post('/submit', authRateLimiter, auditController.submitAudit);
 
 /**
- * Get user's audit submissions
+ * Get user's audit submissions (and those of their organizations)
  * GET /api/audit/my-submissions
  */
 router.get('/my-submissions', auditController.getMySubmissions);
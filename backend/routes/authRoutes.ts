@@ -1,6 +1,7 @@
 import { authController } from '../controllers/authController.js';
-import { authenticateToken } from '../middleware/authMiddleware.js';
-import { authRateLimiter } from '../middleware/rateLimiter.js';
+import { authenticateToken, requireRecentSecondFactor } from '../middleware/authMiddleware.js';
+import { authRateLimiter, otpRateLimiter } from '../middleware/rateLimiter.js';
+import { validateEmail, validateOTP, validatePhone } from '../middleware/validator.js';
 import { Router } from 'express';
 
 const router = Router();
@@ -17,43 +18,67 @@ const router = Router();
 router.post('/privy/authenticate', authRateLimiter, authController.authenticateWithPrivy);
 
 // ==========================================
-// [DEPRECATED - OTP Authentication Routes]
+// Sign-In With Ethereum (EIP-4361)
 // ==========================================
 
 /**
- * [DEPRECATED] Send OTP to email
+ * Get a single-use nonce and the message fields (domain, uri, chainId, statement)
+ * GET /api/auth/siwe/nonce
+ */
+router.get('/siwe/nonce', authRateLimiter, authController.getSiweNonce);
+
+/**
+ * Verify a signed SIWE message and sign in with the wallet
+ * POST /api/auth/siwe/verify
+ * Body: { message: string, signature: string }
+ */
+router.post('/siwe/verify', authRateLimiter, authController.authenticateWithSiwe);
+
+// ==========================================
+// OTP Authentication
+// ==========================================
+
+/**
+ * Send OTP to email
  * POST /api/auth/email/send-otp
  * Body: { email: string, businessName?: string }
  */
-// router.post('/email/send-otp', otpRateLimiter, validateEmail, authController.sendEmailOTP);
+router.post('/email/send-otp', otpRateLimiter, validateEmail, authController.sendEmailOTP);
 
 /**
- * [DEPRECATED] Verify email OTP
+ * Verify email OTP and sign in
  * POST /api/auth/email/verify-otp
  * Body: { email: string, otpCode: string }
  */
-// router.post('/email/verify-otp', authRateLimiter, validateEmail, authController.verifyEmailOTP);
+router.post('/email/verify-otp', authRateLimiter, validateEmail, validateOTP, authController.verifyEmailOTP);
 
 /**
- * [DEPRECATED] Send OTP to phone/WhatsApp (requires authentication from Phase 1)
+ * Send OTP to phone/WhatsApp (requires authentication from Phase 1)
  * POST /api/auth/phone/send-otp
  * Headers: Authorization: Bearer <token>
  * Body: { phoneNumber: string, method: 'sms' | 'whatsapp' }
  */
-// router.post('/phone/send-otp', otpRateLimiter, authenticateToken, validatePhone, authController.sendPhoneOTP);
+router.post('/phone/send-otp', otpRateLimiter, authenticateToken, validatePhone, authController.sendPhoneOTP);
 
 /**
- * [DEPRECATED] Verify phone/WhatsApp OTP (requires authentication from Phase 1)
+ * Verify phone/WhatsApp OTP (requires authentication from Phase 1)
  * POST /api/auth/phone/verify-otp
  * Headers: Authorization: Bearer <token>
  * Body: { phoneNumber: string, otpCode: string, method: 'sms' | 'whatsapp' }
  */
-// router.post('/phone/verify-otp', authRateLimiter, authenticateToken, validatePhone, authController.verifyPhoneOTP);
+router.post('/phone/verify-otp', authRateLimiter, authenticateToken, validatePhone, validateOTP, authController.verifyPhoneOTP);
 
 // ==========================================
 // Session Management
 // ==========================================
 
+/**
+ * Rotate refresh token and issue a new access token
+ * POST /api/auth/refresh
+ * Body: { refreshToken: string }
+ */
+router.post('/refresh', authRateLimiter, authController.refreshToken);
+
 /**
  * Get current user session
  * GET /api/auth/session
@@ -62,10 +87,127 @@ router.post('/privy/authenticate', authRateLimiter, authController.authenticateW
 router.get('/session', authenticateToken, authController.getSession);
 
 /**
- * Logout
+ * Logout (revokes the current session)
  * POST /api/auth/logout
  * Headers: Authorization: Bearer <token>
  */
 router.post('/logout', authenticateToken, authController.logout);
 
+// ==========================================
+// Devices
+// ==========================================
+
+/**
+ * List signed-in devices (the requesting one is flagged as current)
+ * GET /api/auth/sessions
+ * Headers: Authorization: Bearer <token>
+ */
+router.get('/sessions', authenticateToken, authController.listSessions);
+
+/**
+ * Sign out every other device
+ * POST /api/auth/sessions/revoke-others
+ * Headers: Authorization: Bearer <token>
+ */
+router.post('/sessions/revoke-others', authenticateToken, authController.revokeOtherSessions);
+
+/**
+ * Name a device
+ * PATCH /api/auth/sessions/:sessionId
+ * Headers: Authorization: Bearer <token>
+ * Body: { deviceName: string | null }
+ */
+router.patch('/sessions/:sessionId', authenticateToken, authController.renameSession);
+
+/**
+ * Sign out a device
+ * DELETE /api/auth/sessions/:sessionId
+ * Headers: Authorization: Bearer <token>
+ */
+router.delete('/sessions/:sessionId', authenticateToken, authController.revokeSession);
+
+// ==========================================
+// Linked Identities
+// ==========================================
+
+/**
+ * List linked identities (email, wallets, phone, Privy DID)
+ * GET /api/auth/identities
+ * Headers: Authorization: Bearer <token>
+ */
+router.get('/identities', authenticateToken, authController.listIdentities);
+
+/**
+ * Link the identities of another Privy login, merging any account that owns them
+ * POST /api/auth/identities/privy
+ * Headers: Authorization: Bearer <token>
+ * Body: { accessToken: string }
+ */
+router.post('/identities/privy', authRateLimiter, authenticateToken, authController.linkPrivyIdentities);
+
+/**
+ * Link a wallet by signing a SIWE message (nonce from /api/auth/siwe/nonce)
+ * POST /api/auth/identities/siwe
+ * Headers: Authorization: Bearer <token>
+ * Body: { message: string, signature: string }
+ */
+router.post('/identities/siwe', authRateLimiter, authenticateToken, authController.linkSiweIdentity);
+
+/**
+ * Unlink an identity
+ * DELETE /api/auth/identities/:identityId
+ * Headers: Authorization: Bearer <token>
+ */
+router.delete('/identities/:identityId', authenticateToken, authController.unlinkIdentity);
+
+// ==========================================
+// Two-Factor Authentication (TOTP)
+// ==========================================
+
+/**
+ * Two-factor state (enabled, required for the user's roles, last verified on this session)
+ * GET /api/auth/2fa/status
+ * Headers: Authorization: Bearer <token>
+ */
+router.get('/2fa/status', authenticateToken, authController.getTwoFactorStatus);
+
+/**
+ * Start enrolment (returns secret and otpauth:// provisioning URI for the QR code)
+ * POST /api/auth/2fa/enroll
+ * Headers: Authorization: Bearer <token>
+ */
+router.post('/2fa/enroll', authRateLimiter, authenticateToken, authController.enrollTwoFactor);
+
+/**
+ * Confirm enrolment with the first code (returns recovery codes)
+ * POST /api/auth/2fa/enroll/confirm
+ * Headers: Authorization: Bearer <token>
+ * Body: { code: string }
+ */
+router.post('/2fa/enroll/confirm', authRateLimiter, authenticateToken, authController.confirmTwoFactor);
+
+/**
+ * Verify a second factor for the current session
+ * POST /api/auth/2fa/verify
+ * Headers: Authorization: Bearer <token>
+ * Body: { code?: string, recoveryCode?: string }
+ */
+router.post('/2fa/verify', authRateLimiter, authenticateToken, authController.verifyTwoFactor);
+
+/**
+ * Regenerate recovery codes
+ * POST /api/auth/2fa/recovery-codes
+ * Headers: Authorization: Bearer <token>
+ * Requires: recent second factor
+ */
+router.post('/2fa/recovery-codes', authenticateToken, requireRecentSecondFactor(), authController.regenerateRecoveryCodes);
+
+/**
+ * Disable two-factor authentication
+ * DELETE /api/auth/2fa
+ * Headers: Authorization: Bearer <token>
+ * Requires: recent second factor
+ */
+router.delete('/2fa', authenticateToken, requireRecentSecondFactor(), authController.disableTwoFactor);
+
 export default router;
\ No newline at end of file
@@ -1,6 +1,6 @@
 import { Router } from 'express';
 import { knowledgeController } from '../controllers/knowledgeController.js';
-import { authenticateToken } from '../middleware/authMiddleware.js';
+import { authenticateToken, requirePermission } from '../middleware/authMiddleware.js';
 import { authRateLimiter } from '../middleware/rateLimiter.js';
 
 const router = Router();
@@ -12,8 +12,9 @@ router.use(authenticateToken);
  * Ingest documents into knowledge base
  * POST /api/knowledge/ingest
  * Body: { documents: [{ type, content, metadata }] }
+ * Requires: knowledge:manage
  */
-router.post('/ingest', authRateLimiter, knowledgeController.ingestDocuments);
+router.post('/ingest', authRateLimiter, requirePermission('knowledge:manage'), knowledgeController.ingestDocuments);
 
 /**
  * Vector similarity search
@@ -38,7 +39,8 @@ router.get('/document/:id', knowledgeController.getDocumentById);
 /**
  * Delete document
  * DELETE /api/knowledge/document/:id
+ * Requires: knowledge:manage
  */
-router.delete('/document/:id', knowledgeController.deleteDocument);
+router.delete('/document/:id', requirePermission('knowledge:manage'), knowledgeController.deleteDocument);
 
 export default router;
@@ -0,0 +1,80 @@
+import { Router } from 'express';
+import { organizationController } from '../controllers/organizationController.js';
+import { authenticateToken } from '../middleware/authMiddleware.js';
+import { authRateLimiter } from '../middleware/rateLimiter.js';
+
+const router = Router();
+
+// All routes require authentication
+router.use(authenticateToken);
+
+/**
+ * Create organization (caller becomes owner)
+ * POST /api/organizations
+ * Body: { name: string }
+ */
+router.post('/', organizationController.createOrganization);
+
+/**
+ * List the caller's organizations with their role in each
+ * GET /api/organizations
+ */
+router.get('/', organizationController.listOrganizations);
+
+/**
+ * Accept an invitation sent to the caller's verified email
+ * POST /api/organizations/invitations/accept
+ * Body: { token: string }
+ */
+router.post('/invitations/accept', authRateLimiter, organizationController.acceptInvitation);
+
+/**
+ * Get organization with members and pending invitations
+ * GET /api/organizations/:organizationId
+ * Requires: membership
+ */
+router.get('/:organizationId', organizationController.getOrganization);
+
+/**
+ * Rename organization
+ * PATCH /api/organizations/:organizationId
+ * Body: { name: string }
+ * Requires: owner
+ */
+router.patch('/:organizationId', organizationController.updateOrganization);
+
+// ==========================================
+// Members & Invitations
+// ==========================================
+
+/**
+ * Invite a member by email
+ * POST /api/organizations/:organizationId/invitations
+ * Body: { email: string, role: 'owner' | 'editor' | 'billing' | 'viewer' }
+ * Requires: owner
+ */
+router.post('/:organizationId/invitations', authRateLimiter, organizationController.inviteMember);
+
+/**
+ * Revoke a pending invitation
+ * DELETE /api/organizations/:organizationId/invitations/:invitationId
+ * Requires: owner
+ */
+router.delete('/:organizationId/invitations/:invitationId', organizationController.revokeInvitation);
+
+/**
+ * Change a member's role (the last owner cannot be demoted)
+ * PATCH /api/organizations/:organizationId/members/:userId
+ * Body: { role: 'owner' | 'editor' | 'billing' | 'viewer' }
+ * Requires: owner
+ */
+router.patch('/:organizationId/members/:userId', organizationController.updateMemberRole);
+
+/**
+ * Remove a member, or leave when :userId is the caller (the last owner cannot leave)
+ * DELETE /api/organizations/:organizationId/members/:userId
+ * Requires: owner (or self)
+ */
+router.delete('/:organizationId/members/:userId', organizationController.removeMember);
+
+export default router;
@@ -1,17 +1,33 @@
 import { Router } from 'express';
 import { pricingController } from '../controllers/pricingController.js';
 import { authenticateToken } from '../middleware/authMiddleware.js';
-import { authRateLimiter } from '../middleware/rateLimiter.js';
+import { authRateLimiter, simulationRateLimiter } from '../middleware/rateLimiter.js';
 
 const router = Router();
 
-// All routes require authentication
+/**
+ * Compare the price of a hypothetical scope across what-if scenarios (public, nothing is stored)
+ * POST /api/pricing/simulate
+ * Body: { bundleId, revenueCategory, companyScale, projectType?, urgency?, features?, integrations?: [{ type }],
+ *         scenarios?: [{ label, bundleId?, companyScale?, projectType?, urgency?, features?, integrations? }] }
+ * Without scenarios, the scope is compared at the other urgency levels
+ */
+router.post('/simulate', simulationRateLimiter, pricingController.simulatePricing);
+
+/**
+ * A bundle's base price in each price book that has taken effect, oldest first (public)
+ * GET /api/pricing/bundles/:bundleId/history?revenueCategory=&companyScale=
+ */
+router.get('/bundles/:bundleId/history', pricingController.getBundlePriceHistory);
+
+// All other routes require authentication
 router.use(authenticateToken);
 
 /**
  * Calculate pricing
  * POST /api/pricing/calculate
- * Body: { bundleId, revenueCategory, companyRevenueScale, complexityRating? }
+ * Body: { bundleId, revenueCategory, companyRevenueScale, complexityRating?, urgency?, asOf?: ISO date }
+ * With asOf, prices come from the price book in effect on that date
  */
 router.post('/calculate', authRateLimiter, pricingController.calculatePricing);
 
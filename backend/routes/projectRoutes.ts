@@ -0,0 +1,54 @@
+import { Router } from 'express';
+import { projectController } from '../controllers/projectController.js';
+import { authenticateToken } from '../middleware/authMiddleware.js';
+
+const router = Router();
+
+// All routes require authentication
+router.use(authenticateToken);
+
+/**
+ * Create project
+ * POST /api/projects
+ * Body: { projectName, projectType, projectDescription?, projectScope?, budgetRange?, urgency?, organizationId? }
+ */
+router.post('/', projectController.createProject);
+
+/**
+ * Get all projects for authenticated user and their organizations
+ * GET /api/projects?status=&organizationId=&includeArchived=true
+ */
+router.get('/', projectController.getUserProjects);
+
+/**
+ * Get project by ID (with quotes and strategy calls)
+ * GET /api/projects/:projectId
+ */
+router.get('/:projectId', projectController.getProjectById);
+
+/**
+ * Update project brief (not allowed once a quote is accepted)
+ * PATCH /api/projects/:projectId
+ * Body: any of the create fields except organizationId
+ */
+router.patch('/:projectId', projectController.updateProject);
+
+/**
+ * Archive project
+ * POST /api/projects/:projectId/archive
+ */
+router.post('/:projectId/archive', projectController.archiveProject);
+
+/**
+ * Submit the brief for assessment (requires a scope and budget range)
+ * POST /api/projects/:projectId/submit
+ */
+router.post('/:projectId/submit', projectController.submitProject);
+
+/**
+ * Get the project's status history and the statuses it can move to next
+ * GET /api/projects/:projectId/timeline
+ */
+router.get('/:projectId/timeline', projectController.getProjectTimeline);
+
+export default router;
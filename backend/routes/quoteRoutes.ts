@@ -8,8 +8,9 @@ const router = Router();
 router.use(authenticateToken);
 
 /**
- * Generate quote for project
+ * Generate quote for project (from the builder cart's bundles when items are sent)
  * POST /api/quotes/generate/:projectId
+ * Body: { settlementRail?: SettlementRail, items?: { bundleId: string, quantity?: number }[] }
  * Requires: Auth Stage 2 (fully authenticated)
  */
 router.post(
@@ -30,6 +31,12 @@ router.get('/:quoteId', quoteController.getQuoteById);
  */
 router.get('/', quoteController.getUserQuotes);
 
+/**
+ * Download quote as PDF (breakdown, payment schedule, timeline and project scope)
+ * GET /api/quotes/:quoteId/pdf
+ */
+router.get('/:quoteId/pdf', quoteController.downloadQuotePdf);
+
 /**
  * Accept quote
  * POST /api/quotes/:quoteId/accept
@@ -43,4 +50,30 @@ router.post('/:quoteId/accept', quoteController.acceptQuote);
  */
 router.post('/:quoteId/decline', quoteController.declineQuote);
 
+/**
+ * Propose different terms (one open counter-offer per quote)
+ * POST /api/quotes/:quoteId/counter
+ * Body: { comment: string, proposedTotal?: number, proposedTimelineWeeks?: number }
+ */
+router.post('/:quoteId/counter', quoteController.counterQuote);
+
+/**
+ * Choose the settlement rail for an open quote (payment terms are recomputed)
+ * POST /api/quotes/:quoteId/settlement-rail
+ * Body: { settlementRail: 'crypto_wallet' | 'usdc_solana' | 'usdc_base' | 'usdc_eth' | 'stripe' }
+ */
+router.post('/:quoteId/settlement-rail', quoteController.selectSettlementRail);
+
+/**
+ * List every revision of the quote's project with counter-offers
+ * GET /api/quotes/:quoteId/revisions
+ */
+router.get('/:quoteId/revisions', quoteController.getQuoteRevisions);
+
+/**
+ * Compare a revision with the one it superseded, or with ?against=<quoteId>
+ * GET /api/quotes/:quoteId/diff
+ */
+router.get('/:quoteId/diff', quoteController.getQuoteDiff);
+
 export default router;
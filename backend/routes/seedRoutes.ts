@@ -1,13 +1,19 @@
 import { Router } from 'express';
 import { seedController } from '../controllers/seedController.js';
+import { authenticateToken, requireRole } from '../middleware/authMiddleware.js';
 
 const router = Router();
 
+// Seeding stays open in development; every other environment requires an admin
+if (process.env.NODE_ENV !== 'development') {
+  router.use(authenticateToken, requireRole('admin'));
+}
+
 /**
  * Seed database
  * POST /api/seed
  * Body: { seedType?, overwrite? }
- * No auth required for development purposes
+ * No auth required in development; admin role required otherwise
  */
 router.post('/', seedController.seedDatabase);
 
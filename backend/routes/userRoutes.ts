@@ -0,0 +1,30 @@
+import { Router } from 'express';
+import { userController } from '../controllers/userController.js';
+import { authenticateToken } from '../middleware/authMiddleware.js';
+import { authRateLimiter } from '../middleware/rateLimiter.js';
+
+const router = Router();
+
+// All routes require authentication
+router.use(authenticateToken);
+
+// ==========================================
+// Personal Data (GDPR)
+// ==========================================
+
+/**
+ * Export all personal data as a machine-readable JSON archive
+ * GET /api/users/me/export
+ * Headers: Authorization: Bearer <token>
+ */
+router.get('/me/export', authRateLimiter, userController.exportMyData);
+
+/**
+ * Erase personal data (deletes or anonymises records and stored files, signs out everywhere)
+ * POST /api/users/me/erase
+ * Headers: Authorization: Bearer <token>
+ * Body: { confirm: 'ERASE' }
+ */
+router.post('/me/erase', authRateLimiter, userController.eraseMyData);
+
+export default router;
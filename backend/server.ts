@@ -4,14 +4,19 @@ import helmet from 'helmet';
 import dotenv from 'dotenv';
 import authRoutes from './routes/authRoutes.js';
 import quoteRoutes from './routes/quoteRoutes.js';
+import projectRoutes from './routes/projectRoutes.js';
 import calendarRoutes from './routes/calendarRoutes.js';
 import auditRoutes from './routes/auditRoutes.js';
 import knowledgeRoutes from './routes/knowledgeRoutes.js';
 import chatRoutes from './routes/chatRoutes.js';
 import pricingRoutes from './routes/pricingRoutes.js';
 import seedRoutes from './routes/seedRoutes.js';
+import adminRoutes from './routes/adminRoutes.js';
+import userRoutes from './routes/userRoutes.js';
+import organizationRoutes from './routes/organizationRoutes.js';
 import { rateLimiter } from './middleware/rateLimiter.js';
 import { seedController } from './controllers/seedController.js';
+import { quoteExpiryService } from './services/quoteExpiryService.js';
 
 dotenv.config();
 
@@ -42,6 +47,7 @@ app.get('/', (_req: any, res: any) => {
 
 // API Routes
 app.use('/api/auth', authRoutes);
+app.use('/api/projects', projectRoutes);
 app.use('/api/quotes', quoteRoutes);
 app.use('/api/calendar', calendarRoutes);
 app.use('/api/audit', auditRoutes);
@@ -50,6 +56,9 @@ app.use('/api/chat', chatRoutes);
 app.use('/api/conversations', chatRoutes);
 app.use('/api/pricing', pricingRoutes);
 app.use('/api/seed', seedRoutes);
+app.use('/api/admin', adminRoutes);
+app.use('/api/users', userRoutes);
+app.use('/api/organizations', organizationRoutes);
 
 // Health check endpoint (no auth required)
 app.get('/api/health', seedController.healthCheck);
@@ -76,6 +85,9 @@ app.use((_req: express.Request, res: express.Response) => {
 app.listen(PORT, () => {
   console.log(`🚀 Server is running on port ${PORT}`);
   console.log(`📍 Environment: ${process.env.NODE_ENV || 'development'}`);
+
+  // Expire stale quotes and send expiry reminders in the background
+  quoteExpiryService.start();
 });
 
 export default app;
\ No newline at end of file
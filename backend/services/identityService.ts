@@ -0,0 +1,456 @@
+import { IdentityType, Prisma, User } from '@prisma/client';
+import { prisma } from '../config/database.js';
+
+export interface IdentityInput {
+  type: IdentityType;
+  value: string;
+  verified: boolean;
+}
+
+interface LoginContext {
+  ipAddress?: string;
+  userAgent?: string;
+}
+
+interface MergeOptions extends LoginContext {
+  reason: string;
+  performedBy?: string;
+}
+
+/**
+ * Error raised when an identity cannot be linked or accounts cannot be merged
+ * Carries an HTTP status so the global error handler can respond with it
+ */
+export class IdentityError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = 'IdentityError';
+  }
+}
+
+// Legacy User columns that mirror the primary identity of each type
+const PRIMARY_COLUMNS: Record<IdentityType, 'email' | 'walletAddress' | 'phoneE164' | 'privyUserId'> = {
+  email: 'email',
+  wallet: 'walletAddress',
+  phone: 'phoneE164',
+  privy: 'privyUserId',
+};
+
+const normalizeValue = (type: IdentityType, value: string): string => {
+  const trimmed = value.trim();
+  return type === 'email' || type === 'wallet' ? trimmed.toLowerCase() : trimmed;
+};
+
+const identityFilter = (identities: IdentityInput[]): Prisma.UserIdentityWhereInput[] =>
+  identities.map(({ type, value }) => ({ type, value }));
+
+/**
+ * Merges started by signing in or linking only take plain accounts
+ * Proving one identity of a staff or two-factor account must not hand over its roles or
+ * replace its second factor, so those accounts are merged by an admin instead
+ */
+const assertSelfServiceMergeable = async (sources: User[]): Promise<void> => {
+  for (const source of sources) {
+    const twoFactor = await prisma.userTwoFactor.findUnique({
+      where: { userId: source.id },
+      select: { enabledAt: true },
+    });
+    const privileged = source.roles.some((role) => role !== 'user') || source.permissions.length > 0;
+
+    if (privileged || twoFactor?.enabledAt) {
+      throw new IdentityError(
+        'This identity belongs to an account with staff access or two-factor authentication. Ask an admin to merge the accounts',
+        409
+      );
+    }
+  }
+};
+
+export const identityService = {
+  /**
+   * Collect every identity Privy has verified for a user (DID, emails, wallets, phones)
+   */
+  identitiesFromPrivyUser(privyUser: any, privyUserId: string): IdentityInput[] {
+    const identities: IdentityInput[] = [{ type: 'privy', value: privyUserId, verified: true }];
+
+    for (const account of privyUser.linked_accounts ?? []) {
+      if (account.type === 'email' && account.address) {
+        identities.push({ type: 'email', value: normalizeValue('email', account.address), verified: true });
+      } else if ((account.type === 'wallet' || account.type === 'smart_wallet') && account.address) {
+        identities.push({ type: 'wallet', value: normalizeValue('wallet', account.address), verified: true });
+      } else if (account.type === 'phone' && (account.phoneNumber || account.number)) {
+        identities.push({
+          type: 'phone',
+          value: normalizeValue('phone', account.phoneNumber || account.number),
+          verified: true,
+        });
+      }
+    }
+
+    return identities;
+  },
+
+  /**
+   * Find the users owning any of the given verified identities
+   * The owner of the Privy DID comes first, then the oldest account
+   */
+  async findOwners(identities: IdentityInput[]): Promise<User[]> {
+    const matches = await prisma.userIdentity.findMany({
+      where: { verified: true, OR: identityFilter(identities) },
+      include: { user: true },
+    });
+
+    const owners = new Map<string, { user: User; ownsPrivy: boolean }>();
+    for (const match of matches) {
+      const existing = owners.get(match.userId);
+      owners.set(match.userId, {
+        user: match.user,
+        ownsPrivy: (existing?.ownsPrivy ?? false) || match.type === 'privy',
+      });
+    }
+
+    return [...owners.values()]
+      .sort((a, b) =>
+        a.ownsPrivy !== b.ownsPrivy
+          ? Number(b.ownsPrivy) - Number(a.ownsPrivy)
+          : a.user.createdAt.getTime() - b.user.createdAt.getTime()
+      )
+      .map(({ user }) => user);
+  },
+
+  /**
+   * Attach identities to a user
+   * Unverified claims held by other users are released to the verified owner
+   */
+  async linkIdentities(userId: string, identities: IdentityInput[]): Promise<void> {
+    if (identities.length === 0) return;
+
+    const claimed = await prisma.userIdentity.findMany({
+      where: { userId: { not: userId }, OR: identityFilter(identities) },
+    });
+
+    const conflicts = claimed.filter((identity) => identity.verified);
+    if (conflicts.length > 0) {
+      throw new IdentityError('Identity is already linked to another account', 409);
+    }
+
+    const now = new Date();
+
+    await prisma.$transaction(async (tx) => {
+      for (const identity of claimed) {
+        await tx.userIdentity.delete({ where: { id: identity.id } });
+        await tx.user.updateMany({
+          where: { id: identity.userId, [PRIMARY_COLUMNS[identity.type]]: identity.value },
+          data: { [PRIMARY_COLUMNS[identity.type]]: null },
+        });
+      }
+
+      for (const identity of identities) {
+        await tx.userIdentity.upsert({
+          where: { type_value: { type: identity.type, value: identity.value } },
+          create: { userId, ...identity, lastUsedAt: now },
+          update: { lastUsedAt: now, ...(identity.verified && { verified: true }) },
+        });
+      }
+    });
+
+    await this.syncPrimaryColumns(userId);
+  },
+
+  /**
+   * Fill empty legacy User columns (email, walletAddress, phoneE164, privyUserId)
+   * from the user's oldest identity of each type
+   */
+  async syncPrimaryColumns(userId: string): Promise<User> {
+    const [user, identities] = await Promise.all([
+      prisma.user.findUniqueOrThrow({ where: { id: userId } }),
+      prisma.userIdentity.findMany({ where: { userId }, orderBy: { createdAt: 'asc' } }),
+    ]);
+
+    const data: Prisma.UserUpdateInput = {};
+    for (const identity of identities) {
+      const column = PRIMARY_COLUMNS[identity.type];
+      if (!user[column] && data[column] === undefined) {
+        data[column] = identity.value;
+      }
+    }
+
+    if (identities.some((identity) => identity.type === 'email' && identity.verified)) {
+      data.emailVerified = true;
+    }
+    if (identities.some((identity) => identity.type === 'phone' && identity.verified)) {
+      data.phoneVerified = true;
+    }
+
+    return await prisma.user.update({ where: { id: userId }, data });
+  },
+
+  /**
+   * Resolve the account for a Privy login
+   */
+  async resolvePrivyLogin(privyUser: any, privyUserId: string, context: LoginContext) {
+    const identities = this.identitiesFromPrivyUser(privyUser, privyUserId);
+
+    if (!identities.some((identity) => identity.type === 'email' || identity.type === 'wallet')) {
+      throw new IdentityError('User must have either email or wallet address');
+    }
+
+    return await this.resolveLogin(identities, { reason: 'privy_login', ...context });
+  },
+
+  /**
+   * Resolve the account for a set of verified sign-in identities
+   * (authStage 2 = fully authenticated, 1 = email only)
+   * Creates the user on first sign-in; when the identities are spread
+   * across several users they are merged into one before issuing a session
+   */
+  async resolveLogin(
+    identities: IdentityInput[],
+    options: MergeOptions,
+    authStage: number = 2
+  ): Promise<{ user: User; mergedUserIds: string[] }> {
+    const owners = await this.findOwners(identities);
+    let [primary] = owners;
+    const mergedUserIds: string[] = [];
+
+    await assertSelfServiceMergeable(owners.slice(1));
+
+    if (!primary) {
+      primary = await prisma.user.create({
+        data: {
+          authStage,
+          lastLogin: new Date(),
+        },
+      });
+    }
+
+    for (const duplicate of owners.slice(1)) {
+      await this.mergeUsers(primary.id, duplicate.id, options);
+      mergedUserIds.push(duplicate.id);
+    }
+
+    await this.linkIdentities(primary.id, identities);
+
+    const user = await prisma.user.update({
+      where: { id: primary.id },
+      data: {
+        lastLogin: new Date(),
+        authStage: Math.max(primary.authStage, authStage),
+      },
+    });
+
+    return { user, mergedUserIds };
+  },
+
+  /**
+   * Link proven identities to a signed-in user
+   * Accounts already owning them are merged into that user, since proving the
+   * identity proves ownership of the other account, unless they hold roles or two-factor
+   */
+  async linkWithMerge(userId: string, identities: IdentityInput[], options: MergeOptions): Promise<string[]> {
+    const owners = (await this.findOwners(identities)).filter((candidate) => candidate.id !== userId);
+    const mergedUserIds: string[] = [];
+
+    await assertSelfServiceMergeable(owners);
+
+    for (const owner of owners) {
+      await this.mergeUsers(userId, owner.id, options);
+      mergedUserIds.push(owner.id);
+    }
+
+    await this.linkIdentities(userId, identities);
+
+    return mergedUserIds;
+  },
+
+  /**
+   * List a user's linked identities
+   */
+  async listIdentities(userId: string) {
+    return await prisma.userIdentity.findMany({
+      where: { userId },
+      select: {
+        id: true,
+        type: true,
+        value: true,
+        verified: true,
+        createdAt: true,
+        lastUsedAt: true,
+      },
+      orderBy: { createdAt: 'asc' },
+    });
+  },
+
+  /**
+   * Remove an identity from a user
+   * The last sign-in identity (Privy DID, email or wallet) cannot be removed
+   */
+  async unlinkIdentity(userId: string, identityId: string): Promise<void> {
+    const identities = await prisma.userIdentity.findMany({ where: { userId } });
+    const identity = identities.find((candidate) => candidate.id === identityId);
+
+    if (!identity) {
+      throw new IdentityError('Identity not found', 404);
+    }
+
+    const remainingSignIns = identities.filter(
+      (candidate) => candidate.id !== identityId && candidate.type !== 'phone'
+    );
+    if (identity.type !== 'phone' && remainingSignIns.length === 0) {
+      throw new IdentityError('You cannot remove your last sign-in identity');
+    }
+
+    const column = PRIMARY_COLUMNS[identity.type];
+
+    await prisma.$transaction([
+      prisma.userIdentity.delete({ where: { id: identityId } }),
+      prisma.user.updateMany({
+        where: { id: userId, [column]: identity.value },
+        data: { [column]: null },
+      }),
+    ]);
+
+    await this.syncPrimaryColumns(userId);
+  },
+
+  /**
+   * Merge the source user into the target user
+   * Re-parents everything the source owns, moves its identities, keeps the
+   * union of roles/permissions, deletes the source and records the merge
+   */
+  async mergeUsers(targetUserId: string, sourceUserId: string, options: MergeOptions) {
+    if (targetUserId === sourceUserId) {
+      throw new IdentityError('Cannot merge a user into itself');
+    }
+
+    const [target, source] = await Promise.all([
+      prisma.user.findUnique({ where: { id: targetUserId } }),
+      prisma.user.findUnique({ where: { id: sourceUserId } }),
+    ]);
+
+    if (!target || !source) {
+      throw new IdentityError('User not found', 404);
+    }
+
+    const sourceSnapshot = {
+      email: source.email,
+      walletAddress: source.walletAddress,
+      privyUserId: source.privyUserId,
+      phoneE164: source.phoneE164,
+      businessName: source.businessName,
+      authStage: source.authStage,
+      roles: source.roles,
+      permissions: source.permissions,
+      createdAt: source.createdAt.toISOString(),
+    };
+
+    return await prisma.$transaction(async (tx) => {
+      const reparent = { where: { userId: sourceUserId }, data: { userId: targetUserId } };
+
+      const movedRecords = {
+        projects: (await tx.projectAssessment.updateMany(reparent)).count,
+        quotes: (await tx.projectQuote.updateMany(reparent)).count,
+        quoteCounterOffers: (await tx.quoteCounterOffer.updateMany(reparent)).count,
+        strategyCalls: (await tx.strategyCall.updateMany(reparent)).count,
+        auditSubmissions: (await tx.auditSubmission.updateMany(reparent)).count,
+        auditManifests: (await tx.auditManifest.updateMany(reparent)).count,
+        auditIdentities: (await tx.auditIdentity.updateMany(reparent)).count,
+        uploadedFiles: (await tx.uploadedFile.updateMany(reparent)).count,
+        conversations: (await tx.conversation.updateMany(reparent)).count,
+        auditLogs: (await tx.auditLog.updateMany(reparent)).count,
+        identities: (await tx.userIdentity.updateMany(reparent)).count,
+        referralCodes: (
+          await tx.promoCode.updateMany({
+            where: { referrerId: sourceUserId },
+            data: { referrerId: targetUserId },
+          })
+        ).count,
+        promoRedemptions: (
+          await tx.promoRedemption.updateMany({
+            where: { redeemedBy: sourceUserId },
+            data: { redeemedBy: targetUserId },
+          })
+        ).count,
+        referredRedemptions: (
+          await tx.promoRedemption.updateMany({
+            where: { referrerId: sourceUserId },
+            data: { referrerId: targetUserId },
+          })
+        ).count,
+        // Where both were members the target keeps its own role, unless the source owned the
+        // organization: the target becomes an owner so the organization is never left without one
+        promotedToOwner: (
+          await tx.organizationMember.updateMany({
+            where: {
+              userId: targetUserId,
+              role: { not: 'owner' },
+              organization: { members: { some: { userId: sourceUserId, role: 'owner' } } },
+            },
+            data: { role: 'owner' },
+          })
+        ).count,
+        organizationMemberships: (
+          await tx.organizationMember.updateMany({
+            where: {
+              userId: sourceUserId,
+              organization: { members: { none: { userId: targetUserId } } },
+            },
+            data: { userId: targetUserId },
+          })
+        ).count,
+      };
+
+      // Earlier merges into the source now belong to the target
+      await tx.accountMerge.updateMany({
+        where: { targetUserId: sourceUserId },
+        data: { targetUserId },
+      });
+
+      // Frees the unique email/wallet/privy columns; source sessions cascade away
+      await tx.user.delete({ where: { id: sourceUserId } });
+
+      const user = await tx.user.update({
+        where: { id: targetUserId },
+        data: {
+          email: target.email ?? source.email,
+          walletAddress: target.walletAddress ?? source.walletAddress,
+          privyUserId: target.privyUserId ?? source.privyUserId,
+          phoneE164: target.phoneE164 ?? source.phoneE164,
+          businessName: target.businessName ?? source.businessName,
+          emailVerified: target.emailVerified || source.emailVerified,
+          phoneVerified: target.phoneVerified || source.phoneVerified,
+          whatsappVerified: target.whatsappVerified || source.whatsappVerified,
+          authStage: Math.max(target.authStage, source.authStage),
+          roles: { set: [...new Set([...target.roles, ...source.roles])] },
+          permissions: { set: [...new Set([...target.permissions, ...source.permissions])] },
+        },
+      });
+
+      const merge = await tx.accountMerge.create({
+        data: {
+          targetUserId,
+          sourceUserId,
+          performedBy: options.performedBy,
+          reason: options.reason,
+          sourceSnapshot,
+          movedRecords,
+        },
+      });
+
+      await tx.auditLog.create({
+        data: {
+          userId: options.performedBy ?? targetUserId,
+          action: 'account_merged',
+          entityType: 'user',
+          entityId: targetUserId,
+          ipAddress: options.ipAddress,
+          userAgent: options.userAgent,
+          requestData: { mergeId: merge.id, sourceUserId, reason: options.reason, movedRecords },
+          responseStatus: 200,
+        },
+      });
+
+      return { mergeId: merge.id, movedRecords, user };
+    });
+  },
+};
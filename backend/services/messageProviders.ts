@@ -0,0 +1,149 @@
+import fs from 'fs/promises';
+import path from 'path';
+import nodemailer from 'nodemailer';
+import twilio from 'twilio';
+
+export type MessageChannel = 'email' | 'phone' | 'whatsapp';
+
+export interface OutboundMessage {
+  channel: MessageChannel;
+  to: string;
+  subject?: string;
+  text: string;
+  html?: string;
+}
+
+/**
+ * A way of delivering a message on one or more channels
+ */
+export interface MessageProvider {
+  name: string;
+  send(message: OutboundMessage): Promise<void>;
+}
+
+// Created on first use so development setups without Twilio credentials still boot
+let twilioClient: ReturnType<typeof twilio> | null = null;
+
+const getTwilioClient = () => {
+  if (!twilioClient) {
+    twilioClient = twilio(process.env.TWILIO_ACCOUNT_SID, process.env.TWILIO_AUTH_TOKEN);
+  }
+  return twilioClient;
+};
+
+const createEmailTransporter = () => {
+  if (process.env.SENDGRID_API_KEY) {
+    // Using SendGrid
+    return nodemailer.createTransport({
+      host: 'smtp.sendgrid.net',
+      port: 587,
+      auth: {
+        user: 'apikey',
+        pass: process.env.SENDGRID_API_KEY,
+      },
+    });
+  }
+
+  // Fallback to Gmail or other SMTP
+  return nodemailer.createTransport({
+    service: 'gmail',
+    auth: {
+      user: process.env.EMAIL_USER,
+      pass: process.env.EMAIL_PASSWORD,
+    },
+  });
+};
+
+/**
+ * SMTP (SendGrid or Gmail) email delivery
+ */
+export const smtpProvider: MessageProvider = {
+  name: 'smtp',
+  async send(message) {
+    await createEmailTransporter().sendMail({
+      from: `${process.env.FROM_NAME || 'Decensat Design'} <${process.env.FROM_EMAIL || 'noreply@decensatdesign.com'}>`,
+      to: message.to,
+      subject: message.subject,
+      text: message.text,
+      html: message.html,
+    });
+  },
+};
+
+/**
+ * Twilio SMS delivery
+ */
+export const twilioSmsProvider: MessageProvider = {
+  name: 'twilio',
+  async send(message) {
+    await getTwilioClient().messages.create({
+      from: process.env.TWILIO_PHONE_FROM,
+      to: message.to,
+      body: message.text,
+    });
+  },
+};
+
+/**
+ * Twilio WhatsApp delivery
+ */
+export const twilioWhatsAppProvider: MessageProvider = {
+  name: 'twilio',
+  async send(message) {
+    await getTwilioClient().messages.create({
+      from: process.env.TWILIO_WHATSAPP_FROM || 'whatsapp:+14155238886',
+      to: `whatsapp:${message.to}`,
+      body: message.text,
+    });
+  },
+};
+
+/**
+ * Development delivery: prints messages to the server log
+ */
+export const consoleProvider: MessageProvider = {
+  name: 'console',
+  async send(message) {
+    console.log(`[${message.channel} → ${message.to}] ${message.subject ? `${message.subject}: ` : ''}${message.text}`);
+  },
+};
+
+/**
+ * Development/test delivery: appends messages as JSON lines to MESSAGE_OUTBOX_FILE
+ */
+export const fileProvider: MessageProvider = {
+  name: 'file',
+  async send(message) {
+    const outbox = process.env.MESSAGE_OUTBOX_FILE || path.join('tmp', 'outbox.jsonl');
+    await fs.mkdir(path.dirname(outbox), { recursive: true });
+    await fs.appendFile(outbox, JSON.stringify({ ...message, sentAt: new Date().toISOString() }) + '\n');
+  },
+};
+
+const PROVIDERS: Record<MessageChannel, Record<string, MessageProvider>> = {
+  email: { smtp: smtpProvider, console: consoleProvider, file: fileProvider },
+  phone: { twilio: twilioSmsProvider, console: consoleProvider, file: fileProvider },
+  whatsapp: { twilio: twilioWhatsAppProvider, console: consoleProvider, file: fileProvider },
+};
+
+const PROVIDER_ENV: Record<MessageChannel, string> = {
+  email: 'EMAIL_PROVIDER',
+  phone: 'SMS_PROVIDER',
+  whatsapp: 'WHATSAPP_PROVIDER',
+};
+
+/**
+ * Resolve the provider configured for a channel
+ * Defaults to the real provider in production and the console everywhere else
+ */
+export const getMessageProvider = (channel: MessageChannel): MessageProvider => {
+  const fallback = process.env.NODE_ENV === 'production' ? (channel === 'email' ? 'smtp' : 'twilio') : 'console';
+  const name = process.env[PROVIDER_ENV[channel]] || fallback;
+  const provider = PROVIDERS[channel][name];
+
+  if (!provider) {
+    throw new Error(`Unknown ${channel} provider "${name}". Use one of: ${Object.keys(PROVIDERS[channel]).join(', ')}`);
+  }
+
+  return provider;
+};
@@ -0,0 +1,363 @@
+import crypto from 'crypto';
+import { OrganizationRole, Prisma } from '@prisma/client';
+import { prisma } from '../config/database.js';
+import { getMessageProvider } from './messageProviders.js';
+
+const INVITATION_TTL_DAYS = parseInt(process.env.ORG_INVITATION_TTL_DAYS || '7');
+const FRONTEND_URL = process.env.FRONTEND_URL || 'http://localhost:3000';
+
+export const ORGANIZATION_ROLES: OrganizationRole[] = ['owner', 'editor', 'billing', 'viewer'];
+
+/**
+ * What can be done with an organization and the projects, quotes, strategy
+ * calls and audit submissions that belong to it
+ * - read: view them
+ * - edit: create and change project briefs, generate quotes, book and cancel calls
+ * - billing: accept or decline quotes
+ * - manage: rename the organization and manage its members and invitations
+ */
+export type OrganizationAction = 'read' | 'edit' | 'billing' | 'manage';
+
+const ROLE_ACTIONS: Record<OrganizationRole, OrganizationAction[]> = {
+  owner: ['read', 'edit', 'billing', 'manage'],
+  editor: ['read', 'edit'],
+  billing: ['read', 'billing'],
+  viewer: ['read'],
+};
+
+/**
+ * Anything owned either by a single user or by an organization
+ */
+interface OwnedResource {
+  userId: string;
+  organizationId?: string | null;
+}
+
+const memberSelect = {
+  role: true,
+  createdAt: true,
+  user: { select: { id: true, email: true, businessName: true } },
+} satisfies Prisma.OrganizationMemberSelect;
+
+const invitationSelect = {
+  id: true,
+  email: true,
+  role: true,
+  invitedBy: true,
+  expiresAt: true,
+  createdAt: true,
+} satisfies Prisma.OrganizationInvitationSelect;
+
+/**
+ * Error raised when an organization operation is not allowed
+ * Carries an HTTP status so controllers can respond with it
+ */
+export class OrganizationError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = 'OrganizationError';
+  }
+}
+
+export const isOrganizationRole = (value: unknown): value is OrganizationRole =>
+  typeof value === 'string' && (ORGANIZATION_ROLES as string[]).includes(value);
+
+const hashToken = (token: string) => crypto.createHash('sha256').update(token).digest('hex');
+
+export const organizationService = {
+  roleAllows(role: OrganizationRole, action: OrganizationAction): boolean {
+    return ROLE_ACTIONS[role].includes(action);
+  },
+
+  /**
+   * The user's role in an organization, or null if they are not a member
+   */
+  async getRole(organizationId: string, userId: string): Promise<OrganizationRole | null> {
+    const member = await prisma.organizationMember.findUnique({
+      where: { organizationId_userId: { organizationId, userId } },
+      select: { role: true },
+    });
+
+    return member?.role ?? null;
+  },
+
+  /**
+   * Whether a user may perform an action on a resource
+   * Organization resources are governed by membership, personal ones by ownership
+   */
+  async canAccess(userId: string, resource: OwnedResource, action: OrganizationAction): Promise<boolean> {
+    if (!resource.organizationId) {
+      return resource.userId === userId;
+    }
+
+    const role = await this.getRole(resource.organizationId, userId);
+    return !!role && this.roleAllows(role, action);
+  },
+
+  /**
+   * Filter matching the user's personal projects and those of their organizations
+   */
+  accessibleProjectsWhere(userId: string): Prisma.ProjectAssessmentWhereInput {
+    return {
+      OR: [{ userId, organizationId: null }, { organization: { members: { some: { userId } } } }],
+    };
+  },
+
+  /**
+   * Strategy calls follow their project; calls without one belong to whoever booked them
+   */
+  async canAccessCall(
+    userId: string,
+    call: { userId: string; project: OwnedResource | null },
+    action: OrganizationAction
+  ): Promise<boolean> {
+    return call.project ? this.canAccess(userId, call.project, action) : call.userId === userId;
+  },
+
+  accessibleCallsWhere(userId: string): Prisma.StrategyCallWhereInput {
+    return {
+      OR: [{ userId, projectId: null }, { project: this.accessibleProjectsWhere(userId) }],
+    };
+  },
+
+  /**
+   * Filter matching the user's personal audit submissions and those of their organizations
+   */
+  accessibleSubmissionsWhere(userId: string): Prisma.AuditSubmissionWhereInput {
+    return {
+      OR: [{ userId, organizationId: null }, { organization: { members: { some: { userId } } } }],
+    };
+  },
+
+  /**
+   * Create an organization with the creator as its first owner
+   */
+  async createOrganization(userId: string, name: string) {
+    return prisma.organization.create({
+      data: {
+        name,
+        createdBy: userId,
+        members: { create: { userId, role: 'owner' } },
+      },
+    });
+  },
+
+  /**
+   * Organizations the user belongs to, with their role in each
+   */
+  async listForUser(userId: string) {
+    const memberships = await prisma.organizationMember.findMany({
+      where: { userId },
+      include: { organization: { include: { _count: { select: { members: true, projects: true } } } } },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    return memberships.map(({ organization: { _count, ...organization }, role }) => ({
+      ...organization,
+      role,
+      memberCount: _count.members,
+      projectCount: _count.projects,
+    }));
+  },
+
+  /**
+   * Organization with its members and pending invitations
+   */
+  async getOrganization(organizationId: string) {
+    const organization = await prisma.organization.findUnique({
+      where: { id: organizationId },
+      include: {
+        members: { select: memberSelect, orderBy: { createdAt: 'asc' } },
+        invitations: {
+          where: { acceptedAt: null, revokedAt: null, expiresAt: { gt: new Date() } },
+          select: invitationSelect,
+          orderBy: { createdAt: 'asc' },
+        },
+      },
+    });
+
+    if (!organization) {
+      throw new OrganizationError('Organization not found', 404);
+    }
+
+    return organization;
+  },
+
+  async renameOrganization(organizationId: string, name: string) {
+    return prisma.organization.update({
+      where: { id: organizationId },
+      data: { name },
+    });
+  },
+
+  /**
+   * Invite someone by email; a pending invitation to the same address is replaced
+   * The accept link is only ever sent to the invitee, never returned to the inviter
+   */
+  async inviteMember(organizationId: string, invitedBy: string, email: string, role: OrganizationRole) {
+    const normalizedEmail = email.trim().toLowerCase();
+
+    const [organization, existingMember] = await Promise.all([
+      prisma.organization.findUnique({ where: { id: organizationId }, select: { name: true } }),
+      prisma.organizationMember.findFirst({
+        where: { organizationId, user: { email: { equals: normalizedEmail, mode: 'insensitive' } } },
+        select: { id: true },
+      }),
+    ]);
+
+    if (!organization) {
+      throw new OrganizationError('Organization not found', 404);
+    }
+
+    if (existingMember) {
+      throw new OrganizationError('This person is already a member', 409);
+    }
+
+    const token = crypto.randomBytes(32).toString('base64url');
+    const expiresAt = new Date(Date.now() + INVITATION_TTL_DAYS * 24 * 60 * 60 * 1000);
+
+    const invitation = await prisma.$transaction(async (tx) => {
+      await tx.organizationInvitation.updateMany({
+        where: { organizationId, email: normalizedEmail, acceptedAt: null, revokedAt: null },
+        data: { revokedAt: new Date() },
+      });
+
+      return tx.organizationInvitation.create({
+        data: {
+          organizationId,
+          email: normalizedEmail,
+          role,
+          tokenHash: hashToken(token),
+          invitedBy,
+          expiresAt,
+        },
+        select: invitationSelect,
+      });
+    });
+
+    const link = `${FRONTEND_URL}/invite?token=${token}`;
+    const provider = getMessageProvider('email');
+
+    try {
+      await provider.send({
+        channel: 'email',
+        to: normalizedEmail,
+        subject: `You're invited to join ${organization.name}`,
+        text: `You have been invited to join ${organization.name} as ${role}. Accept the invitation within ${INVITATION_TTL_DAYS} days: ${link}`,
+      });
+    } catch (error) {
+      console.error(`Error sending organization invitation via ${provider.name}:`, error);
+      await prisma.organizationInvitation.delete({ where: { id: invitation.id } });
+      throw new OrganizationError('Failed to send invitation email', 502);
+    }
+
+    return invitation;
+  },
+
+  async revokeInvitation(organizationId: string, invitationId: string) {
+    const { count } = await prisma.organizationInvitation.updateMany({
+      where: { id: invitationId, organizationId, acceptedAt: null, revokedAt: null },
+      data: { revokedAt: new Date() },
+    });
+
+    if (count === 0) {
+      throw new OrganizationError('Invitation not found', 404);
+    }
+  },
+
+  /**
+   * Join an organization with an invitation token
+   * The invitation must have been sent to the user's verified email address
+   */
+  async acceptInvitation(token: string, userId: string) {
+    const invitation = await prisma.organizationInvitation.findUnique({
+      where: { tokenHash: hashToken(token) },
+    });
+
+    if (!invitation || invitation.revokedAt || invitation.acceptedAt || invitation.expiresAt < new Date()) {
+      throw new OrganizationError('Invitation is invalid or has expired', 404);
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { email: true, emailVerified: true },
+    });
+
+    if (!user?.email || !user.emailVerified || user.email.toLowerCase() !== invitation.email) {
+      throw new OrganizationError('This invitation was sent to a different email address', 403);
+    }
+
+    const existing = await this.getRole(invitation.organizationId, userId);
+
+    if (existing) {
+      throw new OrganizationError('You are already a member of this organization', 409);
+    }
+
+    return prisma.$transaction(async (tx) => {
+      // Claim the invitation first so it cannot be used twice
+      const { count } = await tx.organizationInvitation.updateMany({
+        where: { id: invitation.id, acceptedAt: null, revokedAt: null },
+        data: { acceptedAt: new Date(), acceptedBy: userId },
+      });
+
+      if (count === 0) {
+        throw new OrganizationError('Invitation is invalid or has expired', 404);
+      }
+
+      return tx.organizationMember.create({
+        data: { organizationId: invitation.organizationId, userId, role: invitation.role },
+        include: { organization: true },
+      });
+    });
+  },
+
+  /**
+   * Change a member's role; the last owner cannot be demoted
+   */
+  async changeRole(organizationId: string, userId: string, role: OrganizationRole) {
+    const current = await this.getRole(organizationId, userId);
+
+    if (!current) {
+      throw new OrganizationError('Member not found', 404);
+    }
+
+    if (current === 'owner' && role !== 'owner') {
+      await this.assertAnotherOwner(organizationId, userId);
+    }
+
+    return prisma.organizationMember.update({
+      where: { organizationId_userId: { organizationId, userId } },
+      data: { role },
+      select: memberSelect,
+    });
+  },
+
+  /**
+   * Remove a member (or leave); the last owner cannot be removed
+   */
+  async removeMember(organizationId: string, userId: string) {
+    const current = await this.getRole(organizationId, userId);
+
+    if (!current) {
+      throw new OrganizationError('Member not found', 404);
+    }
+
+    if (current === 'owner') {
+      await this.assertAnotherOwner(organizationId, userId);
+    }
+
+    await prisma.organizationMember.delete({
+      where: { organizationId_userId: { organizationId, userId } },
+    });
+  },
+
+  async assertAnotherOwner(organizationId: string, userId: string) {
+    const otherOwners = await prisma.organizationMember.count({
+      where: { organizationId, role: 'owner', userId: { not: userId } },
+    });
+
+    if (otherOwners === 0) {
+      throw new OrganizationError('An organization must keep at least one owner', 409);
+    }
+  },
+};
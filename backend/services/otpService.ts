@@ -1,51 +1,60 @@
-import nodemailer from 'nodemailer';
-import twilio from 'twilio';
-import { PrismaClient } from '@prisma/client';
-
-const prisma = new PrismaClient();
-
-const twilioClient = twilio(
-  process.env.TWILIO_ACCOUNT_SID,
-  process.env.TWILIO_AUTH_TOKEN
-);
-
-// Configure email transporter
-const createEmailTransporter = () => {
-  if (process.env.SENDGRID_API_KEY) {
-    // Using SendGrid
-    return nodemailer.createTransport({
-      host: 'smtp.sendgrid.net',
-      port: 587,
-      auth: {
-        user: 'apikey',
-        pass: process.env.SENDGRID_API_KEY,
-      },
-    });
-  } else {
-    // Fallback to Gmail or other SMTP
-    return nodemailer.createTransport({
-      service: 'gmail',
-      auth: {
-        user: process.env.EMAIL_USER,
-        pass: process.env.EMAIL_PASSWORD,
-      },
-    });
+import crypto from 'crypto';
+import { OtpType } from '@prisma/client';
+import { prisma } from '../config/database.js';
+import { getMessageProvider, OutboundMessage } from './messageProviders.js';
+
+// Codes are stored as HMACs, never in plaintext
+const OTP_SECRET = process.env.OTP_SECRET || process.env.JWT_SECRET || 'default-secret-change-in-production';
+const OTP_TTL_MINUTES = parseInt(process.env.OTP_TTL_MINUTES || '10');
+const OTP_MAX_ATTEMPTS = parseInt(process.env.OTP_MAX_ATTEMPTS || '5');
+const OTP_LOCKOUT_MINUTES = parseInt(process.env.OTP_LOCKOUT_MINUTES || '15');
+const OTP_RESEND_COOLDOWN_SECONDS = parseInt(process.env.OTP_RESEND_COOLDOWN_SECONDS || '60');
+
+/**
+ * What a code proves; a code issued for one purpose cannot be used for another
+ */
+export type OtpPurpose = 'auth' | 'phone_verification' | 'audit';
+
+interface SendCodeOptions {
+  channel: OtpType;
+  destination: string;
+  purpose: OtpPurpose;
+  userId?: string;
+  businessName?: string | null;
+}
+
+interface VerifyCodeOptions {
+  destination: string;
+  purpose: OtpPurpose;
+  code: string;
+  userId?: string;
+}
+
+/**
+ * Error raised when a code cannot be sent or verified
+ * Carries an HTTP status (and Retry-After seconds for 429s)
+ */
+export class OtpError extends Error {
+  constructor(message: string, public status: number = 400, public retryAfter?: number) {
+    super(message);
+    this.name = 'OtpError';
   }
-};
+}
 
-export const otpService = {
-  /**
-   * Send OTP via Email
-   */
-  async sendEmailOTP(email: string, otpCode: string, businessName?: string): Promise<void> {
-    try {
-      const transporter = createEmailTransporter();
-      
-      const mailOptions = {
-        from: `${process.env.FROM_NAME || 'Decensat Design'} <${process.env.FROM_EMAIL || 'noreply@decensatdesign.com'}>`,
-        to: email,
-        subject: 'Your Verification Code',
-        html: `
+const hashCode = (destination: string, code: string): string =>
+  crypto.createHmac('sha256', OTP_SECRET).update(`${destination}:${code}`).digest('hex');
+
+const generateCode = (): string => crypto.randomInt(0, 1_000_000).toString().padStart(6, '0');
+
+const secondsUntil = (date: Date): number => Math.max(1, Math.ceil((date.getTime() - Date.now()) / 1000));
+
+const renderMessage = (channel: OtpType, to: string, code: string, businessName?: string | null): OutboundMessage => {
+  if (channel === 'email') {
+    return {
+      channel,
+      to,
+      subject: 'Your Verification Code',
+      html: `
           <!DOCTYPE html>
           <html>
           <head>
@@ -66,8 +75,8 @@ export const otpService = {
               <div class="content">
                 <p>Hello${businessName ? ` ${businessName}` : ''},</p>
                 <p>Your verification code is:</p>
-                <div class="otp-code">${otpCode}</div>
-                <p>This code will expire in <strong>10 minutes</strong>.</p>
+                <div class="otp-code">${code}</div>
+                <p>This code will expire in <strong>${OTP_TTL_MINUTES} minutes</strong>.</p>
                 <p>If you didn't request this code, please ignore this email.</p>
               </div>
               <div class="footer">
@@ -77,113 +86,146 @@ export const otpService = {
           </body>
           </html>
         `,
-        text: `Your verification code is: ${otpCode}\n\nThis code will expire in 10 minutes.\n\nIf you didn't request this code, please ignore this email.`,
-      };
-
-      await transporter.sendMail(mailOptions);
-      console.log(`Email OTP sent to ${email}`);
-    } catch (error) {
-      console.error('Error sending email OTP:', error);
-      throw new Error('Failed to send email OTP');
-    }
-  },
-
+      text: `Your verification code is: ${code}\n\nThis code will expire in ${OTP_TTL_MINUTES} minutes.\n\nIf you didn't request this code, please ignore this email.`,
+    };
+  }
 
+  const formattedCode = channel === 'whatsapp' ? `*${code}*` : code;
+  return {
+    channel,
+    to,
+    text: `Your verification code is: ${formattedCode}\n\nThis code will expire in ${OTP_TTL_MINUTES} minutes.\n\n- Decensat Design`,
+  };
+};
 
+export const otpService = {
   /**
-   * Send OTP via SMS
+   * Generate a code, store its hash and deliver it through the channel's provider
+   * Enforces the resend cooldown and any active lockout for the destination
    */
-  async sendPhoneOTP(phoneNumber: string, otpCode: string): Promise<void> {
-    try {
-      const message = `Your verification code is: ${otpCode}\n\nThis code will expire in 10 minutes.\n\n- Decensat Design`;
+  async sendCode(options: SendCodeOptions): Promise<{ expiresIn: number; resendIn: number }> {
+    const { channel, destination, purpose, userId, businessName } = options;
+    const now = new Date();
 
-      await twilioClient.messages.create({
-        from: process.env.TWILIO_PHONE_FROM,
-        to: phoneNumber,
-        body: message,
-      });
+    const latest = await prisma.otpVerification.findFirst({
+      where: { destination, purpose },
+      orderBy: { createdAt: 'desc' },
+    });
 
-      console.log(`SMS OTP sent to ${phoneNumber}`);
-    } catch (error) {
-      console.error('Error sending SMS OTP:', error);
-      throw new Error('Failed to send SMS OTP');
+    if (latest?.lockedUntil && latest.lockedUntil > now) {
+      throw new OtpError('Too many incorrect codes. Please try again later', 429, secondsUntil(latest.lockedUntil));
     }
-  },
 
-  /**
-   * Generate and send WhatsApp OTP for audit system
-   */
-  async sendWhatsAppOTP(phoneNumber: string, userId: string): Promise<string> {
-    try {
-      // Generate 6-digit OTP
-      const otpCode = Math.floor(100000 + Math.random() * 900000).toString();
-      
-      // Set expiration to 5 minutes from now
-      const expiresAt = new Date();
-      expiresAt.setMinutes(expiresAt.getMinutes() + 5);
-
-      // Save OTP to database
-      await prisma.otpVerification.create({
-        data: {
-          userId,
-          otpType: 'whatsapp',
-          otpCode,
-          destination: phoneNumber,
-          expiresAt,
-          verified: false,
-        },
-      });
+    const resendAt = latest && new Date(latest.createdAt.getTime() + OTP_RESEND_COOLDOWN_SECONDS * 1000);
+    if (resendAt && resendAt > now) {
+      throw new OtpError('Please wait before requesting another code', 429, secondsUntil(resendAt));
+    }
 
-      // Send OTP via WhatsApp
-      const message = `Your verification code is: *${otpCode}*\n\nThis code will expire in 5 minutes.\n\n- DC3 Design`;
+    // Only the newest code for a destination is usable
+    await prisma.otpVerification.updateMany({
+      where: { destination, purpose, verified: false, expiresAt: { gt: now } },
+      data: { expiresAt: now },
+    });
 
-      await twilioClient.messages.create({
-        from: process.env.TWILIO_WHATSAPP_FROM || 'whatsapp:+14155238886',
-        to: `whatsapp:${phoneNumber}`,
-        body: message,
-      });
+    const code = generateCode();
+    const record = await prisma.otpVerification.create({
+      data: {
+        userId,
+        otpType: channel,
+        purpose,
+        codeHash: hashCode(destination, code),
+        destination,
+        expiresAt: new Date(now.getTime() + OTP_TTL_MINUTES * 60 * 1000),
+      },
+    });
 
-      console.log(`WhatsApp OTP sent to ${phoneNumber}`);
-      return otpCode;
+    const provider = getMessageProvider(channel);
+    try {
+      await provider.send(renderMessage(channel, destination, code, businessName));
     } catch (error) {
-      console.error('Error sending WhatsApp OTP:', error);
-      throw new Error('Failed to send WhatsApp OTP');
+      console.error(`Error sending ${channel} OTP via ${provider.name}:`, error);
+      await prisma.otpVerification.delete({ where: { id: record.id } });
+      throw new OtpError(`Failed to send ${channel} OTP`, 502);
     }
+
+    return {
+      expiresIn: OTP_TTL_MINUTES * 60,
+      resendIn: OTP_RESEND_COOLDOWN_SECONDS,
+    };
   },
 
   /**
-   * Verify OTP code
+   * Check a code against the newest outstanding one for the destination
+   * Every try counts towards OTP_MAX_ATTEMPTS; once they are used up by wrong codes the destination is locked out
    */
-  async verifyOTP(phoneNumber: string, otpCode: string): Promise<boolean> {
-    try {
-      const otpRecord = await prisma.otpVerification.findFirst({
-        where: {
-          destination: phoneNumber,
-          otpCode,
-          verified: false,
-          expiresAt: {
-            gte: new Date(),
-          },
-        },
-        orderBy: {
-          createdAt: 'desc',
-        },
+  async verifyCode(options: VerifyCodeOptions): Promise<void> {
+    const { destination, purpose, code, userId } = options;
+    const now = new Date();
+
+    const record = await prisma.otpVerification.findFirst({
+      where: { destination, purpose, verified: false, ...(userId && { userId }) },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    if (record?.lockedUntil && record.lockedUntil > now) {
+      throw new OtpError('Too many incorrect codes. Please try again later', 429, secondsUntil(record.lockedUntil));
+    }
+
+    if (!record || record.expiresAt <= now) {
+      throw new OtpError('Invalid or expired OTP');
+    }
+
+    const lockedUntil = new Date(now.getTime() + OTP_LOCKOUT_MINUTES * 60 * 1000);
+
+    // Take an attempt before comparing, so parallel guesses cannot all read the same count
+    const { count } = await prisma.otpVerification.updateMany({
+      where: { id: record.id, verified: false, attempts: { lt: OTP_MAX_ATTEMPTS } },
+      data: { attempts: { increment: 1 } },
+    });
+
+    if (count === 0) {
+      throw new OtpError('Too many incorrect codes. Please try again later', 429, secondsUntil(record.lockedUntil ?? lockedUntil));
+    }
+
+    const expected = Buffer.from(record.codeHash, 'hex');
+    const actual = Buffer.from(hashCode(destination, String(code)), 'hex');
+
+    if (!crypto.timingSafeEqual(expected, actual)) {
+      const { attempts } = await prisma.otpVerification.findUniqueOrThrow({
+        where: { id: record.id },
+        select: { attempts: true },
       });
 
-      if (!otpRecord) {
-        return false;
+      if (attempts >= OTP_MAX_ATTEMPTS) {
+        await prisma.otpVerification.update({
+          where: { id: record.id },
+          data: { lockedUntil, expiresAt: now },
+        });
+        throw new OtpError('Too many incorrect codes. Please try again later', 429, secondsUntil(lockedUntil));
       }
+      throw new OtpError(`Invalid OTP. ${OTP_MAX_ATTEMPTS - attempts} attempt(s) remaining`);
+    }
 
-      // Mark OTP as verified
-      await prisma.otpVerification.update({
-        where: { id: otpRecord.id },
-        data: { verified: true },
-      });
+    // A code is used once, even when submitted twice at the same time
+    const verified = await prisma.otpVerification.updateMany({
+      where: { id: record.id, verified: false },
+      data: { verified: true },
+    });
 
-      return true;
-    } catch (error) {
-      console.error('Error verifying OTP:', error);
-      return false;
+    if (verified.count === 0) {
+      throw new OtpError('Invalid or expired OTP');
     }
   },
+
+  /**
+   * Whether a user has successfully verified a destination for a purpose
+   */
+  async hasVerified(userId: string, destination: string, purpose: OtpPurpose): Promise<boolean> {
+    const record = await prisma.otpVerification.findFirst({
+      where: { userId, destination, purpose, verified: true },
+      select: { id: true },
+    });
+
+    return !!record;
+  },
 };
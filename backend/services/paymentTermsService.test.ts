@@ -0,0 +1,64 @@
+import { describe, it, expect } from 'vitest';
+import {
+  PaymentTermsError,
+  QuotePaymentTerms,
+  TemplateInstallment,
+  toPaymentStructure,
+  validateTemplateSchedule,
+} from './paymentTermsService.js';
+
+const terms = (advanceAmount: number, installments: QuotePaymentTerms['installments']): QuotePaymentTerms => ({
+  advancePercentage: 0,
+  advanceAmount,
+  remainingTerms: '',
+  installments,
+  kycStatus: 'verified',
+  requiresEscrow: false,
+});
+
+describe('toPaymentStructure', () => {
+  it('numbers milestones and names day and delivery installments', () => {
+    expect(
+      toPaymentStructure(
+        terms(500, [
+          { percentage: 25, amount: 250, dueInDays: null, trigger: 'milestone' },
+          { percentage: 25, amount: 250, dueInDays: null },
+          { percentage: 10, amount: 100, dueInDays: 30, trigger: 'days' },
+          { percentage: 40, amount: 400, dueInDays: null, trigger: 'delivery' },
+        ])
+      )
+    ).toEqual({ deposit: 500, milestone_1: 250, milestone_2: 250, due_30_days: 100, final: 400 });
+  });
+
+  it('adds up installments that share a key', () => {
+    expect(
+      toPaymentStructure(
+        terms(100, [
+          { percentage: 30, amount: 300.1, dueInDays: 30, trigger: 'days' },
+          { percentage: 30, amount: 300.2, dueInDays: 30, trigger: 'days' },
+          { percentage: 30, amount: 300, dueInDays: null, trigger: 'delivery' },
+        ])
+      )
+    ).toEqual({ deposit: 100, due_30_days: 600.3, final: 300 });
+  });
+
+  it('puts the whole amount in the deposit when there are no installments', () => {
+    expect(toPaymentStructure(terms(1000, []))).toEqual({ deposit: 1000 });
+  });
+});
+
+describe('validateTemplateSchedule', () => {
+  const installment = (percentage: number): TemplateInstallment => ({ percentage, dueInDays: null, trigger: 'milestone' });
+
+  it('accepts a schedule adding up to 100, allowing for float rounding', () => {
+    expect(() => validateTemplateSchedule(100, [])).not.toThrow();
+    expect(() => validateTemplateSchedule(33.3, [installment(33.3), installment(33.4)])).not.toThrow();
+  });
+
+  it('rejects a schedule that does not add up to 100', () => {
+    expect(() => validateTemplateSchedule(50, [installment(25)])).toThrow(PaymentTermsError);
+    expect(() => validateTemplateSchedule(50, [installment(60)])).toThrow(
+      'advancePercentage and installment percentages must add up to 100 (got 110)'
+    );
+  });
+});
@@ -0,0 +1,435 @@
+import { ClientTier, KybStatus, PaymentTermTemplate, Prisma, SettlementRail } from '@prisma/client';
+import { prisma } from '../config/database.js';
+
+type Tx = Prisma.TransactionClient;
+
+export type InstallmentTrigger = 'milestone' | 'days' | 'delivery';
+
+export type TemplateInstallment = {
+  percentage: number;
+  dueInDays: number | null;
+  trigger: InstallmentTrigger;
+};
+
+export type QuoteInstallment = {
+  dueInDays: number | null;
+  percentage: number;
+  amount: number;
+  trigger?: InstallmentTrigger;
+};
+
+/**
+ * Payment terms stored on a quote (same shape as the frontend's QuotePaymentTerms)
+ */
+export type QuotePaymentTerms = {
+  advancePercentage: number;
+  advanceAmount: number;
+  remainingTerms: string;
+  installments: QuoteInstallment[];
+  earlyPayDiscount?: {
+    enabled: boolean;
+    percentage: number;
+    windowDays: number;
+  };
+  kycStatus: KybStatus;
+  requiresEscrow: boolean;
+  adminOverrideActive?: boolean;
+};
+
+export interface TemplateInput {
+  name: string;
+  clientTier: ClientTier | null;
+  kybStatus: KybStatus | null;
+  settlementRail: SettlementRail | null;
+  advancePercentage: number;
+  installments: TemplateInstallment[];
+  remainingTerms: string | null;
+  earlyPayDiscountPercentage: number | null;
+  earlyPayWindowDays: number | null;
+  requiresEscrow: boolean;
+}
+
+interface TermsContext {
+  total: number;
+  clientTier: ClientTier | null;
+  kybStatus: KybStatus;
+  settlementRail: SettlementRail | null;
+  advanceOverride: number | null;
+}
+
+type TermsSource = Pick<
+  TemplateInput,
+  'advancePercentage' | 'installments' | 'remainingTerms' | 'earlyPayDiscountPercentage' | 'earlyPayWindowDays' | 'requiresEscrow'
+>;
+
+// Terms used when no template matches: the original 30/30/20/20 milestone plan
+const DEFAULT_TERMS: TermsSource = {
+  advancePercentage: 30,
+  installments: [
+    { percentage: 30, dueInDays: null, trigger: 'milestone' },
+    { percentage: 20, dueInDays: null, trigger: 'milestone' },
+    { percentage: 20, dueInDays: null, trigger: 'delivery' },
+  ],
+  remainingTerms: null,
+  earlyPayDiscountPercentage: null,
+  earlyPayWindowDays: null,
+  requiresEscrow: false,
+};
+
+// Quotes whose terms can still change
+const OPEN_QUOTE_STATUSES: Prisma.EnumQuoteStatusFilter = { in: ['pending', 'sent'] };
+
+/**
+ * Error raised when a template or a terms change is not valid
+ * Carries an HTTP status so controllers can respond with it
+ */
+export class PaymentTermsError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = 'PaymentTermsError';
+  }
+}
+
+/**
+ * Overrides that are neither revoked nor expired
+ */
+export const activeOverrideWhere = (): Prisma.PricingOverrideWhereInput => ({
+  revokedAt: null,
+  OR: [{ expiresAt: null }, { expiresAt: { gt: new Date() } }],
+});
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+const toSource = (template: PaymentTermTemplate): TermsSource => ({
+  advancePercentage: parseFloat(template.advancePercentage.toString()),
+  installments: template.installments as unknown as TemplateInstallment[],
+  remainingTerms: template.remainingTerms,
+  earlyPayDiscountPercentage:
+    template.earlyPayDiscountPercentage === null ? null : parseFloat(template.earlyPayDiscountPercentage.toString()),
+  earlyPayWindowDays: template.earlyPayWindowDays,
+  requiresEscrow: template.requiresEscrow,
+});
+
+/**
+ * Plain-language summary of what is owed after the advance
+ */
+const describeRemaining = (installments: QuoteInstallment[]) => {
+  if (installments.length === 0) return 'Full settlement in advance';
+
+  const remaining = round(installments.reduce((sum, installment) => sum + installment.percentage, 0));
+  const triggers = new Set(installments.map((installment) => installment.trigger));
+
+  if (installments.length === 1 && triggers.has('delivery')) return `${remaining}% upon delivery`;
+
+  if (triggers.size === 1 && triggers.has('days')) {
+    return `${remaining}% over ${Math.max(...installments.map((installment) => installment.dueInDays ?? 0))} days`;
+  }
+
+  if (!triggers.has('days')) return `${remaining}% across ${installments.length} milestones`;
+
+  return `${remaining}% in ${installments.length} installments`;
+};
+
+/**
+ * Terms for a quote total from a template, with an approved advance override if any
+ * An override replaces the advance; the installments keep their proportions of the remainder.
+ * Amounts are rounded to cents and the last payment absorbs the rounding
+ */
+export const buildPaymentTerms = (
+  total: number,
+  source: TermsSource,
+  kybStatus: KybStatus,
+  advanceOverride: number | null = null
+): QuotePaymentTerms => {
+  const advancePercentage = advanceOverride ?? source.advancePercentage;
+  let schedule = source.installments;
+
+  if (advanceOverride !== null && advanceOverride !== source.advancePercentage) {
+    const remaining = 100 - advanceOverride;
+    const templateRemaining = 100 - source.advancePercentage;
+
+    schedule =
+      remaining <= 0
+        ? []
+        : templateRemaining <= 0
+          ? [{ percentage: remaining, dueInDays: null, trigger: 'delivery' }]
+          : source.installments.map((installment) => ({
+              ...installment,
+              percentage: round((installment.percentage * remaining) / templateRemaining),
+            }));
+
+    if (schedule.length > 0) {
+      const scaled = schedule.reduce((sum, installment) => sum + installment.percentage, 0);
+      const last = schedule[schedule.length - 1];
+      schedule[schedule.length - 1] = { ...last, percentage: round(last.percentage + remaining - scaled) };
+    }
+  }
+
+  const advanceAmount = round(total * (advancePercentage / 100));
+  const installments: QuoteInstallment[] = schedule.map((installment) => ({
+    dueInDays: installment.dueInDays,
+    percentage: installment.percentage,
+    amount: round(total * (installment.percentage / 100)),
+    trigger: installment.trigger,
+  }));
+
+  const allocated = installments.reduce((sum, installment) => sum + installment.amount, advanceAmount);
+  const difference = round(total - allocated);
+
+  if (installments.length > 0) {
+    installments[installments.length - 1].amount = round(installments[installments.length - 1].amount + difference);
+  }
+
+  const terms: QuotePaymentTerms = {
+    advancePercentage,
+    advanceAmount: installments.length > 0 ? advanceAmount : round(advanceAmount + difference),
+    remainingTerms:
+      advanceOverride === null && source.remainingTerms ? source.remainingTerms : describeRemaining(installments),
+    installments,
+    kycStatus: kybStatus,
+    requiresEscrow: source.requiresEscrow,
+    adminOverrideActive: advanceOverride !== null,
+  };
+
+  if (source.earlyPayDiscountPercentage && source.earlyPayWindowDays) {
+    terms.earlyPayDiscount = {
+      enabled: true,
+      percentage: source.earlyPayDiscountPercentage,
+      windowDays: source.earlyPayWindowDays,
+    };
+  }
+
+  return terms;
+};
+
+/**
+ * Flat amount per payment, kept in the quote's paymentStructure for existing consumers
+ * e.g. { deposit, milestone_1, milestone_2, final } or { deposit, due_30_days, ... }
+ */
+export const toPaymentStructure = (terms: QuotePaymentTerms) => {
+  const structure: Record<string, number> = { deposit: terms.advanceAmount };
+  let milestone = 0;
+
+  for (const installment of terms.installments) {
+    const key =
+      installment.trigger === 'delivery'
+        ? 'final'
+        : installment.trigger === 'days'
+          ? `due_${installment.dueInDays}_days`
+          : `milestone_${++milestone}`;
+
+    structure[key] = round((structure[key] ?? 0) + installment.amount);
+  }
+
+  return structure;
+};
+
+/**
+ * Check that a template's advance and installments add up to the whole total
+ */
+export const validateTemplateSchedule = (advancePercentage: number, installments: TemplateInstallment[]) => {
+  const total = round(installments.reduce((sum, installment) => sum + installment.percentage, advancePercentage));
+
+  if (total !== 100) {
+    throw new PaymentTermsError(`advancePercentage and installment percentages must add up to 100 (got ${total})`);
+  }
+};
+
+export const serializeTemplate = (template: PaymentTermTemplate) => ({
+  ...template,
+  advancePercentage: parseFloat(template.advancePercentage.toString()),
+  earlyPayDiscountPercentage:
+    template.earlyPayDiscountPercentage === null ? null : parseFloat(template.earlyPayDiscountPercentage.toString()),
+});
+
+export const paymentTermsService = {
+  /**
+   * Most specific active template for a client: each matching key (tier, KYB status, rail)
+   * counts, templates with a different value for a key never match; newest wins a tie
+   */
+  async resolveTemplate(
+    context: Pick<TermsContext, 'clientTier' | 'kybStatus' | 'settlementRail'>,
+    tx: Tx = prisma
+  ): Promise<PaymentTermTemplate | null> {
+    const candidates = await tx.paymentTermTemplate.findMany({
+      where: {
+        active: true,
+        AND: [
+          { OR: [{ clientTier: null }, ...(context.clientTier ? [{ clientTier: context.clientTier }] : [])] },
+          { OR: [{ kybStatus: null }, { kybStatus: context.kybStatus }] },
+          { OR: [{ settlementRail: null }, ...(context.settlementRail ? [{ settlementRail: context.settlementRail }] : [])] },
+        ],
+      },
+      orderBy: { updatedAt: 'desc' },
+    });
+
+    const specificity = (template: PaymentTermTemplate) =>
+      [template.clientTier, template.kybStatus, template.settlementRail].filter((key) => key !== null).length;
+
+    return candidates.reduce<PaymentTermTemplate | null>(
+      (best, template) => (!best || specificity(template) > specificity(best) ? template : best),
+      null
+    );
+  },
+
+  /**
+   * Terms, the matching paymentStructure and the template they came from, ready to store on a quote
+   */
+  async termsFor(context: TermsContext, tx: Tx = prisma) {
+    const template = await this.resolveTemplate(context, tx);
+    const paymentTerms = buildPaymentTerms(
+      context.total,
+      template ? toSource(template) : DEFAULT_TERMS,
+      context.kybStatus,
+      context.advanceOverride
+    );
+
+    return {
+      paymentTerms,
+      paymentStructure: toPaymentStructure(paymentTerms),
+      paymentTermTemplateId: template?.id ?? null,
+    };
+  },
+
+  /**
+   * Recompute an open quote's terms from the client's billing profile, its settlement rail and
+   * the override now in force for it: its own quote override, else the project's
+   */
+  async applyToQuote(quoteId: string, tx: Tx = prisma) {
+    const quote = await tx.projectQuote.findUnique({
+      where: { id: quoteId },
+      include: { project: { select: { clientTier: true, kybStatus: true } } },
+    });
+
+    if (!quote) return null;
+
+    const override =
+      (await tx.pricingOverride.findFirst({
+        where: { quoteId: quote.id, ...activeOverrideWhere() },
+        orderBy: { createdAt: 'desc' },
+      })) ??
+      (await tx.pricingOverride.findFirst({
+        where: { projectId: quote.projectId, quoteId: null, ...activeOverrideWhere() },
+        orderBy: { createdAt: 'desc' },
+      }));
+
+    const terms = await this.termsFor(
+      {
+        total: parseFloat(quote.totalEstimate.toString()),
+        clientTier: quote.project.clientTier,
+        kybStatus: quote.project.kybStatus,
+        settlementRail: quote.settlementRail,
+        advanceOverride: override ? parseFloat(override.advancePercentage.toString()) : null,
+      },
+      tx
+    );
+
+    return tx.projectQuote.update({
+      where: { id: quote.id },
+      data: {
+        paymentTerms: terms.paymentTerms,
+        paymentStructure: terms.paymentStructure,
+        paymentTermTemplateId: terms.paymentTermTemplateId,
+        pricingOverrideId: override?.id ?? null,
+      },
+    });
+  },
+
+  /**
+   * Client's choice of how to pay an open quote; the terms are recomputed for the rail
+   */
+  async selectSettlementRail(quoteId: string, settlementRail: SettlementRail) {
+    return prisma.$transaction(async (tx) => {
+      const { count } = await tx.projectQuote.updateMany({
+        where: { id: quoteId, status: OPEN_QUOTE_STATUSES },
+        data: { settlementRail },
+      });
+
+      if (count === 0) {
+        throw new PaymentTermsError('Settlement rail can only be chosen on pending or sent quotes', 409);
+      }
+
+      return this.applyToQuote(quoteId, tx);
+    });
+  },
+
+  /**
+   * Set a project's client tier and/or KYB status and re-terms its open quotes
+   */
+  async updateBillingProfile(
+    projectId: string,
+    data: { clientTier?: ClientTier | null; kybStatus?: KybStatus }
+  ) {
+    return prisma.$transaction(async (tx) => {
+      const project = await tx.projectAssessment.update({
+        where: { id: projectId },
+        data,
+        select: { id: true, clientTier: true, kybStatus: true },
+      });
+
+      const openQuotes = await tx.projectQuote.findMany({
+        where: { projectId, status: OPEN_QUOTE_STATUSES },
+        select: { id: true },
+      });
+
+      for (const quote of openQuotes) {
+        await this.applyToQuote(quote.id, tx);
+      }
+
+      return { project, affectedQuoteIds: openQuotes.map((quote) => quote.id) };
+    });
+  },
+
+  async listTemplates(includeInactive = false) {
+    const templates = await prisma.paymentTermTemplate.findMany({
+      where: includeInactive ? {} : { active: true },
+      orderBy: [{ active: 'desc' }, { updatedAt: 'desc' }],
+    });
+
+    return templates.map(serializeTemplate);
+  },
+
+  /**
+   * New templates apply to quotes generated or re-termed from now on; stored terms do not change
+   */
+  async createTemplate(input: TemplateInput, createdBy: string) {
+    validateTemplateSchedule(input.advancePercentage, input.installments);
+
+    const template = await prisma.paymentTermTemplate.create({
+      data: { ...input, createdBy },
+    });
+
+    return serializeTemplate(template);
+  },
+
+  async updateTemplate(templateId: string, input: Partial<TemplateInput>) {
+    const existing = await prisma.paymentTermTemplate.findUnique({ where: { id: templateId } });
+
+    if (!existing) {
+      throw new PaymentTermsError('Payment term template not found', 404);
+    }
+
+    validateTemplateSchedule(
+      input.advancePercentage ?? parseFloat(existing.advancePercentage.toString()),
+      input.installments ?? (existing.installments as unknown as TemplateInstallment[])
+    );
+
+    const template = await prisma.paymentTermTemplate.update({
+      where: { id: templateId },
+      data: input,
+    });
+
+    return serializeTemplate(template);
+  },
+
+  async deactivateTemplate(templateId: string) {
+    const { count } = await prisma.paymentTermTemplate.updateMany({
+      where: { id: templateId, active: true },
+      data: { active: false },
+    });
+
+    if (count === 0) {
+      throw new PaymentTermsError('Active payment term template not found', 404);
+    }
+  },
+};
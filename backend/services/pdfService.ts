@@ -0,0 +1,230 @@
+/**
+ * Minimal PDF writer for generated documents (quotes, proposals)
+ * Uses the built-in Helvetica fonts so nothing has to be embedded, and writes
+ * no timestamps or random ids of its own: the same blocks always produce the
+ * same bytes, which keeps document hashes stable
+ */
+
+type Rgb = [number, number, number];
+
+export type PdfBlock =
+  | { type: 'heading'; text: string }
+  | { type: 'text'; text: string; bold?: boolean; size?: number; color?: Rgb }
+  | { type: 'row'; label: string; value: string; bold?: boolean }
+  | { type: 'rule' }
+  | { type: 'spacer'; height?: number };
+
+export interface PdfOptions {
+  title: string;
+  author: string;
+  // Used for the document's CreationDate so it does not change between renders
+  createdAt: Date;
+  headerTitle: string;
+  headerSubtitle?: string;
+  footer: string;
+  accentColor?: Rgb;
+}
+
+// A4 in points
+const PAGE_WIDTH = 595;
+const PAGE_HEIGHT = 842;
+const MARGIN = 50;
+const HEADER_HEIGHT = 90;
+const FOOTER_HEIGHT = 40;
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2;
+
+const TEXT_COLOR: Rgb = [0.13, 0.13, 0.13];
+const MUTED_COLOR: Rgb = [0.45, 0.45, 0.45];
+const HEADER_COLOR: Rgb = [0.04, 0.04, 0.04];
+const DEFAULT_ACCENT: Rgb = [0.64, 0.9, 0.21];
+
+// Helvetica advance widths (1/1000 em) for the characters that differ most from the average
+const NARROW = new Set(" !'(),-./:;I[]`fijlrt|");
+const WIDE = new Set('ABCDEFGHKNOPQRSUVXYZ&w');
+const WIDEST = new Set('MW%m@');
+
+const charWidth = (char: string, bold: boolean) => {
+  const base = NARROW.has(char) ? 278 : WIDEST.has(char) ? 833 : WIDE.has(char) ? 667 : 556;
+  return bold ? base * 1.05 : base;
+};
+
+const textWidth = (text: string, size: number, bold = false) =>
+  [...text].reduce((width, char) => width + charWidth(char, bold), 0) * (size / 1000);
+
+/**
+ * Restrict text to what the standard fonts can show (WinAnsi) and escape it for a PDF string
+ */
+const pdfString = (text: string) =>
+  '(' +
+  text
+    .replace(/[‘’]/g, "'")
+    .replace(/[“”]/g, '"')
+    .replace(/[–—]/g, '-')
+    .replace(/[^\x20-\x7E\xA0-\xFF]/g, '?')
+    .replace(/([\\()])/g, '\\$1') +
+  ')';
+
+const color = ([r, g, b]: Rgb, op: 'rg' | 'RG') => `${r} ${g} ${b} ${op}`;
+
+const wrap = (text: string, size: number, bold: boolean, width: number): string[] => {
+  const lines: string[] = [];
+
+  for (const paragraph of text.split('\n')) {
+    let line = '';
+
+    for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+      const candidate = line ? `${line} ${word}` : word;
+
+      if (line && textWidth(candidate, size, bold) > width) {
+        lines.push(line);
+        line = word;
+      } else {
+        line = candidate;
+      }
+    }
+
+    lines.push(line);
+  }
+
+  return lines;
+};
+
+const pdfDate = (date: Date) => `D:${date.toISOString().replace(/[-:T]/g, '').slice(0, 14)}Z`;
+
+/**
+ * Lay out blocks over as many pages as needed and serialize the document
+ */
+export const renderPdf = (blocks: PdfBlock[], options: PdfOptions): Buffer => {
+  const accent = options.accentColor ?? DEFAULT_ACCENT;
+  const pages: string[][] = [];
+  let ops: string[] = [];
+  let y = 0;
+
+  const text = (value: string, x: number, top: number, size: number, bold: boolean, fill: Rgb) =>
+    ops.push(`BT /${bold ? 'F2' : 'F1'} ${size} Tf ${color(fill, 'rg')} ${x.toFixed(2)} ${top.toFixed(2)} Td ${pdfString(value)} Tj ET`);
+
+  const newPage = () => {
+    ops = [];
+    pages.push(ops);
+
+    ops.push(`${color(HEADER_COLOR, 'rg')} 0 ${PAGE_HEIGHT - HEADER_HEIGHT} ${PAGE_WIDTH} ${HEADER_HEIGHT} re f`);
+    ops.push(`${color(accent, 'rg')} 0 ${PAGE_HEIGHT - HEADER_HEIGHT - 4} ${PAGE_WIDTH} 4 re f`);
+    text(options.author.toUpperCase(), MARGIN, PAGE_HEIGHT - 38, 10, true, accent);
+    text(options.headerTitle, MARGIN, PAGE_HEIGHT - 64, 20, true, [1, 1, 1]);
+
+    if (options.headerSubtitle) {
+      const width = textWidth(options.headerSubtitle, 9);
+      text(options.headerSubtitle, PAGE_WIDTH - MARGIN - width, PAGE_HEIGHT - 38, 9, false, [0.8, 0.8, 0.8]);
+    }
+
+    y = PAGE_HEIGHT - HEADER_HEIGHT - 36;
+  };
+
+  const ensureSpace = (height: number) => {
+    if (y - height < MARGIN + FOOTER_HEIGHT) newPage();
+  };
+
+  newPage();
+
+  for (const block of blocks) {
+    switch (block.type) {
+      case 'heading': {
+        ensureSpace(40);
+        y -= 10;
+        text(block.text.toUpperCase(), MARGIN, y, 11, true, HEADER_COLOR);
+        ops.push(`${color(accent, 'rg')} ${MARGIN} ${(y - 6).toFixed(2)} 40 2 re f`);
+        y -= 22;
+        break;
+      }
+
+      case 'text': {
+        const size = block.size ?? 10;
+        const bold = !!block.bold;
+
+        for (const line of wrap(block.text, size, bold, CONTENT_WIDTH)) {
+          ensureSpace(size + 4);
+          if (line) text(line, MARGIN, y, size, bold, block.color ?? TEXT_COLOR);
+          y -= size + 4;
+        }
+        break;
+      }
+
+      case 'row': {
+        const bold = !!block.bold;
+        const valueWidth = textWidth(block.value, 10, bold);
+        const labelLines = wrap(block.label, 10, bold, CONTENT_WIDTH - valueWidth - 20);
+
+        ensureSpace(labelLines.length * 14 + 4);
+        text(block.value, PAGE_WIDTH - MARGIN - valueWidth, y, 10, bold, TEXT_COLOR);
+
+        for (const line of labelLines) {
+          text(line, MARGIN, y, 10, bold, bold ? TEXT_COLOR : MUTED_COLOR);
+          y -= 14;
+        }
+
+        y -= 4;
+        break;
+      }
+
+      case 'rule': {
+        ensureSpace(12);
+        ops.push(`0.85 0.85 0.85 RG 0.5 w ${MARGIN} ${(y + 6).toFixed(2)} m ${PAGE_WIDTH - MARGIN} ${(y + 6).toFixed(2)} l S`);
+        y -= 8;
+        break;
+      }
+
+      case 'spacer': {
+        y -= block.height ?? 10;
+        break;
+      }
+    }
+  }
+
+  // Footers need the final page count
+  pages.forEach((pageOps, index) => {
+    ops = pageOps;
+    ops.push(`0.85 0.85 0.85 RG 0.5 w ${MARGIN} ${MARGIN + 14} m ${PAGE_WIDTH - MARGIN} ${MARGIN + 14} l S`);
+    text(options.footer, MARGIN, MARGIN, 8, false, MUTED_COLOR);
+    const pageLabel = `Page ${index + 1} of ${pages.length}`;
+    text(pageLabel, PAGE_WIDTH - MARGIN - textWidth(pageLabel, 8), MARGIN, 8, false, MUTED_COLOR);
+  });
+
+  // Objects: 1 catalog, 2 page tree, 3-4 fonts, 5 info, then a page and content stream per page
+  const objects: string[] = [];
+  const pageIds = pages.map((_, index) => 6 + index * 2);
+
+  objects[1] = '<< /Type /Catalog /Pages 2 0 R >>';
+  objects[2] = `<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(' ')}] /Count ${pages.length} >>`;
+  objects[3] = '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>';
+  objects[4] = '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>';
+  objects[5] =
+    `<< /Title ${pdfString(options.title)} /Author ${pdfString(options.author)} ` +
+    `/Producer ${pdfString(options.author)} /CreationDate ${pdfString(pdfDate(options.createdAt))} >>`;
+
+  pages.forEach((pageOps, index) => {
+    const stream = pageOps.join('\n');
+    objects[pageIds[index]] =
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+      `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${pageIds[index] + 1} 0 R >>`;
+    objects[pageIds[index] + 1] = `<< /Length ${Buffer.byteLength(stream, 'latin1')} >>\nstream\n${stream}\nendstream`;
+  });
+
+  let body = '%PDF-1.4\n%\xE2\xE3\xCF\xD3\n';
+  const offsets: number[] = [];
+
+  for (let id = 1; id < objects.length; id++) {
+    offsets[id] = Buffer.byteLength(body, 'latin1');
+    body += `${id} 0 obj\n${objects[id]}\nendobj\n`;
+  }
+
+  const xrefOffset = Buffer.byteLength(body, 'latin1');
+  body += `xref\n0 ${objects.length}\n0000000000 65535 f \n`;
+
+  for (let id = 1; id < objects.length; id++) {
+    body += `${String(offsets[id]).padStart(10, '0')} 00000 n \n`;
+  }
+
+  body += `trailer\n<< /Size ${objects.length} /Root 1 0 R /Info 5 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+  return Buffer.from(body, 'latin1');
+};
@@ -0,0 +1,186 @@
+import { PriceBook, Prisma } from '@prisma/client';
+import { prisma } from '../config/database.js';
+
+export interface PriceBookInput {
+  name: string;
+  notes: string | null;
+  // Defaults to now; a later date schedules the book
+  effectiveFrom: Date | null;
+}
+
+/**
+ * Error raised when a price book cannot be published or cancelled
+ * Carries an HTTP status so controllers can respond with it
+ */
+export class PriceBookError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = 'PriceBookError';
+  }
+}
+
+const bookStatus = (book: PriceBook, now: Date) => {
+  if (book.effectiveFrom > now) return 'scheduled';
+  if (book.effectiveTo && book.effectiveTo <= now) return 'superseded';
+  return 'current';
+};
+
+export const priceBookService = {
+  /**
+   * Every price book, newest first, with whether it is scheduled, current or superseded
+   */
+  async listBooks() {
+    const now = new Date();
+    const books = await prisma.priceBook.findMany({
+      include: { _count: { select: { entries: true, quotes: true } } },
+      orderBy: { version: 'desc' },
+    });
+
+    return books.map(({ _count, ...book }) => ({
+      ...book,
+      status: bookStatus(book, now),
+      entryCount: _count.entries,
+      quoteCount: _count.quotes,
+    }));
+  },
+
+  /**
+   * A price book with its prices
+   */
+  async getBook(priceBookId: string) {
+    const book = await prisma.priceBook.findUnique({
+      where: { id: priceBookId },
+      include: {
+        entries: { orderBy: [{ bundleId: 'asc' }, { revenueCategoryCode: 'asc' }, { basePrice: 'asc' }] },
+      },
+    });
+
+    if (!book) {
+      throw new PriceBookError('Price book not found', 404);
+    }
+
+    return {
+      ...book,
+      status: bookStatus(book, new Date()),
+      entries: book.entries.map((entry) => ({
+        ...entry,
+        basePrice: parseFloat(entry.basePrice.toString()),
+        scaleMultiplier: entry.scaleMultiplier && parseFloat(entry.scaleMultiplier.toString()),
+      })),
+    };
+  },
+
+  /**
+   * Publish the active base prices, with the scale and complexity multipliers they are priced with,
+   * as the next price book version
+   * The previous book stays in effect until this one starts
+   */
+  async publish(input: PriceBookInput, createdBy: string) {
+    const now = new Date();
+    const effectiveFrom = input.effectiveFrom ?? now;
+
+    if (effectiveFrom < now) {
+      throw new PriceBookError('effectiveFrom cannot be in the past');
+    }
+
+    try {
+      return await prisma.$transaction(async (tx) => {
+        const latest = await tx.priceBook.findFirst({ orderBy: { version: 'desc' } });
+
+        if (latest && effectiveFrom <= latest.effectiveFrom) {
+          throw new PriceBookError(
+            `Price book v${latest.version} takes effect ${latest.effectiveFrom.toISOString()}; a new book must start after it`,
+            409
+          );
+        }
+
+        const rows = await tx.basePricing.findMany({
+          where: { active: true },
+          include: {
+            revenueCategory: { select: { code: true } },
+            companyScale: { select: { code: true, multiplier: true } },
+          },
+        });
+
+        if (rows.length === 0) {
+          throw new PriceBookError('There are no active base prices to publish', 409);
+        }
+
+        const tiers = await tx.complexityTier.findMany({
+          where: { active: true },
+          select: { rating: true, adjustmentMultiplier: true },
+        });
+
+        if (latest) {
+          await tx.priceBook.update({ where: { id: latest.id }, data: { effectiveTo: effectiveFrom } });
+        }
+
+        const book = await tx.priceBook.create({
+          data: {
+            version: (latest?.version ?? 0) + 1,
+            name: input.name,
+            notes: input.notes,
+            effectiveFrom,
+            tierMultipliers: Object.fromEntries(
+              tiers.map((tier) => [tier.rating, Number(tier.adjustmentMultiplier)])
+            ),
+            createdBy,
+          },
+        });
+
+        await tx.priceBookEntry.createMany({
+          data: rows.map((row) => ({
+            priceBookId: book.id,
+            basePricingId: row.id,
+            bundleId: row.bundleId,
+            bundleName: row.bundleName,
+            revenueCategoryCode: row.revenueCategory.code,
+            companyScaleCode: row.companyScale.code,
+            basePrice: row.basePrice,
+            timelineWeeks: row.timelineWeeks,
+            scaleMultiplier: row.companyScale.multiplier,
+          })),
+        });
+
+        return { ...book, status: bookStatus(book, now), entryCount: rows.length };
+      });
+    } catch (error) {
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        throw new PriceBookError('Another price book was published at the same time. Please retry', 409);
+      }
+      throw error;
+    }
+  },
+
+  /**
+   * Withdraw the latest price book before it takes effect, leaving the previous one in effect
+   */
+  async cancelScheduled(priceBookId: string) {
+    return prisma.$transaction(async (tx) => {
+      const book = await tx.priceBook.findUnique({ where: { id: priceBookId } });
+
+      if (!book) {
+        throw new PriceBookError('Price book not found', 404);
+      }
+
+      const latest = await tx.priceBook.findFirst({ orderBy: { version: 'desc' } });
+
+      if (book.id !== latest?.id || book.effectiveFrom <= new Date()) {
+        throw new PriceBookError('Only the latest price book can be cancelled, before it takes effect', 409);
+      }
+
+      await tx.priceBook.delete({ where: { id: book.id } });
+
+      const previous = await tx.priceBook.findFirst({
+        where: { version: { lt: book.version } },
+        orderBy: { version: 'desc' },
+      });
+
+      if (previous) {
+        await tx.priceBook.update({ where: { id: previous.id }, data: { effectiveTo: null } });
+      }
+
+      return { version: book.version, reopenedVersion: previous?.version ?? null };
+    });
+  },
+};
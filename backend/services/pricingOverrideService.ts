@@ -0,0 +1,164 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '../config/database.js';
+import { paymentTermsService, activeOverrideWhere } from './paymentTermsService.js';
+
+// Same documentation format the ops dashboard has always required, e.g. "RISK: KYB VERIFIED LONG TERM CLIENT"
+export const OVERRIDE_REASON_REGEX = /^(AUTH|RISK|SLA|TECH): [A-Z0-9_\s]{10,}$/;
+export const MIN_ADVANCE_PERCENTAGE = 10;
+export const MAX_ADVANCE_PERCENTAGE = 100;
+
+// Quotes an override can still change
+const OPEN_QUOTE_STATUSES: Prisma.EnumQuoteStatusFilter = { in: ['pending', 'sent'] };
+
+interface CreateOverrideInput {
+  projectId: string;
+  quoteId?: string | null;
+  advancePercentage: number;
+  reason: string;
+  approvedBy: string;
+  expiresAt?: Date | null;
+}
+
+/**
+ * Error raised when an override cannot be created or revoked
+ * Carries an HTTP status so controllers can respond with it
+ */
+export class PricingOverrideError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = 'PricingOverrideError';
+  }
+}
+
+/**
+ * What a client sees of an override on their quote (no reason or approver)
+ */
+export const toPublicOverride = (
+  override: { id: string; advancePercentage: Prisma.Decimal; expiresAt: Date | null } | null
+) =>
+  override
+    ? {
+        id: override.id,
+        advancePercentage: parseFloat(override.advancePercentage.toString()),
+        expiresAt: override.expiresAt,
+      }
+    : null;
+
+export const pricingOverrideService = {
+  /**
+   * The project-wide override currently in force, if any
+   */
+  async getActiveForProject(projectId: string) {
+    return prisma.pricingOverride.findFirst({
+      where: { projectId, quoteId: null, ...activeOverrideWhere() },
+      orderBy: { createdAt: 'desc' },
+    });
+  },
+
+  /**
+   * Record an override for a project (applies to its open and future quotes) or a
+   * single open quote, replacing the previous one at the same scope
+   */
+  async createOverride(input: CreateOverrideInput) {
+    const project = await prisma.projectAssessment.findUnique({
+      where: { id: input.projectId },
+      select: { id: true },
+    });
+
+    if (!project) {
+      throw new PricingOverrideError('Project not found', 404);
+    }
+
+    if (input.quoteId) {
+      const quote = await prisma.projectQuote.findUnique({
+        where: { id: input.quoteId },
+        select: { status: true },
+      });
+
+      if (!quote || !['pending', 'sent'].includes(quote.status)) {
+        throw new PricingOverrideError('Overrides can only be applied to pending or sent quotes', 409);
+      }
+    }
+
+    return prisma.$transaction(async (tx) => {
+      await tx.pricingOverride.updateMany({
+        where: { projectId: input.projectId, quoteId: input.quoteId ?? null, revokedAt: null },
+        data: { revokedAt: new Date(), revokedBy: input.approvedBy },
+      });
+
+      const override = await tx.pricingOverride.create({
+        data: {
+          projectId: input.projectId,
+          quoteId: input.quoteId ?? null,
+          advancePercentage: input.advancePercentage,
+          reason: input.reason,
+          approvedBy: input.approvedBy,
+          expiresAt: input.expiresAt ?? null,
+        },
+      });
+
+      const openQuotes = await tx.projectQuote.findMany({
+        where: input.quoteId
+          ? { id: input.quoteId }
+          : { projectId: input.projectId, status: OPEN_QUOTE_STATUSES },
+        select: { id: true },
+      });
+
+      for (const quote of openQuotes) {
+        await paymentTermsService.applyToQuote(quote.id, tx);
+      }
+
+      return { override, affectedQuoteIds: openQuotes.map((quote) => quote.id) };
+    });
+  },
+
+  /**
+   * Revoke an override; open quotes using it fall back to whatever else is in force
+   */
+  async revokeOverride(overrideId: string, revokedBy: string) {
+    const existing = await prisma.pricingOverride.findUnique({ where: { id: overrideId } });
+
+    if (!existing) {
+      throw new PricingOverrideError('Override not found', 404);
+    }
+
+    if (existing.revokedAt) {
+      throw new PricingOverrideError('Override is already revoked', 409);
+    }
+
+    return prisma.$transaction(async (tx) => {
+      const override = await tx.pricingOverride.update({
+        where: { id: overrideId },
+        data: { revokedAt: new Date(), revokedBy },
+      });
+
+      const openQuotes = await tx.projectQuote.findMany({
+        where: { pricingOverrideId: overrideId, status: OPEN_QUOTE_STATUSES },
+        select: { id: true },
+      });
+
+      for (const quote of openQuotes) {
+        await paymentTermsService.applyToQuote(quote.id, tx);
+      }
+
+      return { override, affectedQuoteIds: openQuotes.map((quote) => quote.id) };
+    });
+  },
+
+  async listOverrides(filters: { projectId?: string; activeOnly?: boolean }) {
+    const overrides = await prisma.pricingOverride.findMany({
+      where: {
+        ...(filters.projectId && { projectId: filters.projectId }),
+        ...(filters.activeOnly && activeOverrideWhere()),
+      },
+      include: { project: { select: { projectName: true } } },
+      orderBy: { createdAt: 'desc' },
+      take: 200,
+    });
+
+    return overrides.map((override) => ({
+      ...override,
+      advancePercentage: parseFloat(override.advancePercentage.toString()),
+    }));
+  },
+};
@@ -0,0 +1,112 @@
+import { describe, it, expect } from 'vitest';
+import { PricingRule, PricingRuleContext, evaluatePricingRules, parsePricingRules } from './pricingRuleService.js';
+
+const context: PricingRuleContext = {
+  projectType: 'fullstack',
+  revenueCategory: 'saas',
+  companyScale: 'startup',
+  clientTier: 'SME',
+  urgency: 'urgent',
+  complexityRating: 6,
+  features: ['User Dashboard', 'Stripe payments'],
+  integrations: ['payment', 'crm'],
+};
+
+const rule = (overrides: Partial<PricingRule>): PricingRule => ({
+  key: 'rule',
+  description: 'Rule',
+  when: {},
+  action: 'multiply',
+  value: 1,
+  ...overrides,
+});
+
+describe('evaluatePricingRules', () => {
+  it('leaves the total unchanged when no rule fires', () => {
+    const rules = [rule({ key: 'web3_only', when: { projectTypes: ['web3'] }, value: 2 })];
+
+    expect(evaluatePricingRules(rules, context, 1000)).toEqual({ total: 1000, adjustment: 0, fired: [] });
+  });
+
+  it('applies each action to the result of the rule before it', () => {
+    const rules = [
+      rule({ key: 'rush', action: 'multiply', value: 1.15 }),
+      rule({ key: 'setup', action: 'add', value: 250 }),
+      rule({ key: 'minimum', action: 'floor', value: 2000 }),
+      rule({ key: 'maximum', action: 'cap', value: 1800 }),
+    ];
+
+    const result = evaluatePricingRules(rules, context, 1000);
+
+    expect(result.total).toBe(1800);
+    expect(result.adjustment).toBe(800);
+    expect(result.fired.map(({ key, before, after }) => [key, before, after])).toEqual([
+      ['rush', 1000, 1150],
+      ['setup', 1150, 1400],
+      ['minimum', 1400, 2000],
+      ['maximum', 2000, 1800],
+    ]);
+  });
+
+  it('rounds multiplied totals to cents and never adds below zero', () => {
+    expect(evaluatePricingRules([rule({ value: 1.333 })], context, 100.01).total).toBe(133.31);
+    expect(evaluatePricingRules([rule({ action: 'add', value: -500 })], context, 200)).toMatchObject({
+      total: 0,
+      adjustment: -200,
+    });
+  });
+
+  it('fires only when every condition holds', () => {
+    const when = { projectTypes: ['fullstack' as const], clientTiers: ['SME' as const], urgencies: ['critical' as const] };
+
+    expect(evaluatePricingRules([rule({ when, value: 2 })], context, 100).total).toBe(100);
+    expect(evaluatePricingRules([rule({ when, value: 2 })], { ...context, urgency: 'critical' }, 100).total).toBe(200);
+  });
+
+  it('does not match list conditions against a missing value', () => {
+    const rules = [rule({ when: { revenueCategories: ['saas'] }, value: 2 })];
+
+    expect(evaluatePricingRules(rules, { ...context, revenueCategory: null }, 100).total).toBe(100);
+    expect(evaluatePricingRules([rule({ when: { clientTiers: ['SME'] }, value: 2 })], { ...context, clientTier: null }, 100).total).toBe(
+      100
+    );
+  });
+
+  it('matches complexity within the given bounds, inclusive', () => {
+    const bounded = (min?: number, max?: number) => [rule({ when: { complexityRating: { min, max } }, value: 2 })];
+
+    expect(evaluatePricingRules(bounded(6, 8), context, 100).total).toBe(200);
+    expect(evaluatePricingRules(bounded(undefined, 6), context, 100).total).toBe(200);
+    expect(evaluatePricingRules(bounded(7), context, 100).total).toBe(100);
+    expect(evaluatePricingRules(bounded(1), { ...context, complexityRating: null }, 100).total).toBe(100);
+  });
+
+  it('matches features by case-insensitive substring and integrations exactly', () => {
+    expect(evaluatePricingRules([rule({ when: { features: ['DASHBOARD'] }, value: 2 })], context, 100).total).toBe(200);
+    expect(evaluatePricingRules([rule({ when: { features: ['analytics'] }, value: 2 })], context, 100).total).toBe(100);
+    expect(evaluatePricingRules([rule({ when: { integrations: ['crm'] }, value: 2 })], context, 100).total).toBe(200);
+    expect(evaluatePricingRules([rule({ when: { integrations: ['cr'] }, value: 2 })], context, 100).total).toBe(100);
+  });
+});
+
+describe('parsePricingRules', () => {
+  it('trims and rounds accepted rules', () => {
+    expect(
+      parsePricingRules([
+        { key: 'rush', description: ' Rush work ', action: 'multiply', value: 1.1234, when: { features: [' api '] } },
+      ])
+    ).toEqual([{ key: 'rush', description: 'Rush work', action: 'multiply', value: 1.12, when: { features: ['api'] } }]);
+  });
+
+  it('rejects repeated keys, unknown conditions and out-of-range values', () => {
+    const base = { key: 'rush', description: 'Rush', action: 'multiply', value: 1.5 };
+
+    expect(parsePricingRules([base, base])).toBe('rules[1]: key rush is used twice');
+    expect(parsePricingRules([{ ...base, when: { region: ['eu'] } }])).toBe('rules[0]: unknown condition region');
+    expect(parsePricingRules([{ ...base, value: 11 }])).toBe('rules[0]: value must be a multiplier above 0, up to 10');
+    expect(parsePricingRules([{ ...base, when: { projectTypes: ['mobile'] } }])).toMatch(/^rules\[0\]: projectTypes must be a list of/);
+    expect(parsePricingRules([{ ...base, when: { complexityRating: { min: 8, max: 3 } } }])).toMatch(
+      /^rules\[0\]: complexityRating must be/
+    );
+  });
+});
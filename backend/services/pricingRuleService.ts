@@ -0,0 +1,466 @@
+import { ClientTier, Prisma, ProjectAssessment, ProjectType, Urgency } from '@prisma/client';
+import { prisma } from '../config/database.js';
+import { pricingService } from './pricingService.js';
+
+export const PRICING_RULE_ACTIONS = ['multiply', 'add', 'floor', 'cap'] as const;
+export const MAX_PRICING_RULES = 50;
+
+const RULE_KEY_PATTERN = /^[a-z0-9_]{2,50}$/;
+const MAX_RULE_AMOUNT = 99_999_999;
+
+export type PricingRuleAction = (typeof PRICING_RULE_ACTIONS)[number];
+
+// Every condition given must hold for a rule to fire; a list matches any of its values
+export interface PricingRuleConditions {
+  projectTypes?: ProjectType[];
+  // Revenue category and company scale codes
+  revenueCategories?: string[];
+  companyScales?: string[];
+  clientTiers?: ClientTier[];
+  urgencies?: Urgency[];
+  complexityRating?: { min?: number; max?: number };
+  // Matches when a scope feature contains one of these (case-insensitive)
+  features?: string[];
+  // Integration types, as in the project scope
+  integrations?: string[];
+}
+
+export interface PricingRule {
+  key: string;
+  description: string;
+  when: PricingRuleConditions;
+  action: PricingRuleAction;
+  value: number;
+}
+
+export interface PricingRuleSetInput {
+  name: string;
+  notes: string | null;
+  rules: PricingRule[];
+}
+
+// What rules are evaluated against: the project and what its pricing resolved to
+export interface PricingRuleContext {
+  projectType: ProjectType;
+  revenueCategory: string | null;
+  companyScale: string | null;
+  clientTier: ClientTier | null;
+  urgency: Urgency;
+  complexityRating: number | null;
+  features: string[];
+  integrations: string[];
+}
+
+type RuleProject = Pick<ProjectAssessment, 'projectType' | 'clientTier' | 'urgency' | 'projectScope'>;
+
+/**
+ * Error raised when a pricing rule set cannot be changed or run
+ * Carries an HTTP status so controllers can respond with it
+ */
+export class PricingRuleError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = 'PricingRuleError';
+  }
+}
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+const decimal = (value: Prisma.Decimal) => parseFloat(value.toString());
+
+const isStringList = (value: unknown, limit: number): value is string[] =>
+  Array.isArray(value) &&
+  value.length > 0 &&
+  value.length <= 50 &&
+  value.every((item) => typeof item === 'string' && item.trim() && item.length <= limit);
+
+const parseConditions = (when: any, label: string): PricingRuleConditions | string => {
+  if (when === undefined) return {};
+
+  if (typeof when !== 'object' || when === null || Array.isArray(when)) {
+    return `${label}: when must be an object of conditions`;
+  }
+
+  const enumLists = {
+    projectTypes: Object.values(ProjectType),
+    clientTiers: Object.values(ClientTier),
+    urgencies: Object.values(Urgency),
+  } as const;
+  const conditions: PricingRuleConditions = {};
+
+  for (const field of Object.keys(when)) {
+    const value = when[field];
+
+    if (field in enumLists) {
+      const allowed: readonly string[] = enumLists[field as keyof typeof enumLists];
+
+      if (!isStringList(value, 50) || value.some((item) => !allowed.includes(item))) {
+        return `${label}: ${field} must be a list of: ${allowed.join(', ')}`;
+      }
+      (conditions as Record<string, string[]>)[field] = value;
+    } else if (['revenueCategories', 'companyScales', 'features', 'integrations'].includes(field)) {
+      if (!isStringList(value, 100)) {
+        return `${label}: ${field} must be a list of at most 50 values`;
+      }
+      (conditions as Record<string, string[]>)[field] = value.map((item) => item.trim());
+    } else if (field === 'complexityRating') {
+      const { min, max } = value ?? {};
+      const isRating = (rating: unknown) =>
+        rating === undefined || (Number.isInteger(rating) && (rating as number) >= 1 && (rating as number) <= 10);
+
+      if (
+        typeof value !== 'object' ||
+        !isRating(min) ||
+        !isRating(max) ||
+        (min === undefined && max === undefined) ||
+        (min !== undefined && max !== undefined && min > max)
+      ) {
+        return `${label}: complexityRating must be { min?, max? } with ratings from 1 to 10`;
+      }
+      conditions.complexityRating = { min, max };
+    } else {
+      return `${label}: unknown condition ${field}`;
+    }
+  }
+
+  return conditions;
+};
+
+/**
+ * Validate a rule list as submitted for a new rule set
+ * Returns the parsed rules, or an error message for a 400 response
+ */
+export const parsePricingRules = (rules: unknown): PricingRule[] | string => {
+  if (!Array.isArray(rules) || rules.length > MAX_PRICING_RULES) {
+    return `rules must be a list of at most ${MAX_PRICING_RULES} rules`;
+  }
+
+  const parsed: PricingRule[] = [];
+
+  for (const [index, rule] of rules.entries()) {
+    const label = `rules[${index}]`;
+
+    if (typeof rule?.key !== 'string' || !RULE_KEY_PATTERN.test(rule.key)) {
+      return `${label}: key must be 2-50 lowercase letters, digits or underscores`;
+    }
+
+    if (parsed.some((existing) => existing.key === rule.key)) {
+      return `${label}: key ${rule.key} is used twice`;
+    }
+
+    if (typeof rule.description !== 'string' || !rule.description.trim() || rule.description.length > 200) {
+      return `${label}: description is required (max 200 characters)`;
+    }
+
+    if (!PRICING_RULE_ACTIONS.includes(rule.action)) {
+      return `${label}: action must be one of: ${PRICING_RULE_ACTIONS.join(', ')}`;
+    }
+
+    const value = rule.value;
+    const validValue =
+      typeof value === 'number' &&
+      Number.isFinite(value) &&
+      (rule.action === 'multiply'
+        ? value > 0 && value <= 10
+        : rule.action === 'add'
+          ? Math.abs(value) <= MAX_RULE_AMOUNT
+          : value >= 0 && value <= MAX_RULE_AMOUNT);
+
+    if (!validValue) {
+      return `${label}: value must be ${
+        rule.action === 'multiply' ? 'a multiplier above 0, up to 10' : `an amount up to ${MAX_RULE_AMOUNT}`
+      }`;
+    }
+
+    const when = parseConditions(rule.when, label);
+    if (typeof when === 'string') return when;
+
+    parsed.push({ key: rule.key, description: rule.description.trim(), when, action: rule.action, value: round(value) });
+  }
+
+  return parsed;
+};
+
+const matches = (when: PricingRuleConditions, context: PricingRuleContext) => {
+  const includes = (values: string[] | undefined, value: string | null) =>
+    values === undefined || (value !== null && values.includes(value));
+
+  if (!includes(when.projectTypes, context.projectType)) return false;
+  if (!includes(when.revenueCategories, context.revenueCategory)) return false;
+  if (!includes(when.companyScales, context.companyScale)) return false;
+  if (!includes(when.clientTiers, context.clientTier)) return false;
+  if (!includes(when.urgencies, context.urgency)) return false;
+
+  if (when.complexityRating) {
+    const { min = 1, max = 10 } = when.complexityRating;
+    if (context.complexityRating === null || context.complexityRating < min || context.complexityRating > max) {
+      return false;
+    }
+  }
+
+  if (when.features) {
+    const features = context.features.map((feature) => feature.toLowerCase());
+    const wanted = when.features.map((feature) => feature.toLowerCase());
+    if (!features.some((feature) => wanted.some((term) => feature.includes(term)))) return false;
+  }
+
+  if (when.integrations && !context.integrations.some((type) => when.integrations!.includes(type))) {
+    return false;
+  }
+
+  return true;
+};
+
+const applyAction = (rule: PricingRule, total: number) => {
+  switch (rule.action) {
+    case 'multiply':
+      return round(total * rule.value);
+    case 'add':
+      return Math.max(0, round(total + rule.value));
+    case 'floor':
+      return Math.max(total, rule.value);
+    case 'cap':
+      return Math.min(total, rule.value);
+  }
+};
+
+/**
+ * Run rules in order against a calculated total; each rule that fires works on the result of the last
+ * Returns the adjusted total and, for each rule that fired, the total before and after it
+ */
+export const evaluatePricingRules = (rules: PricingRule[], context: PricingRuleContext, subtotal: number) => {
+  let total = subtotal;
+  const fired = [];
+
+  for (const rule of rules) {
+    if (!matches(rule.when, context)) continue;
+
+    const before = total;
+    total = applyAction(rule, total);
+    fired.push({ key: rule.key, description: rule.description, action: rule.action, value: rule.value, before, after: total });
+  }
+
+  return { total, adjustment: round(total - subtotal), fired };
+};
+
+const serializeRuleSet = <T extends { rules: Prisma.JsonValue }>(ruleSet: T) => ({
+  ...ruleSet,
+  rules: ruleSet.rules as unknown as PricingRule[],
+});
+
+export const pricingRuleService = {
+  /**
+   * Rule context for a project priced from the given resolved pricing records
+   */
+  contextFor(
+    project: RuleProject,
+    resolved: { revenueCategory: { code: string }; companyScale: { code: string } } | null,
+    complexityRating: number | null
+  ): PricingRuleContext {
+    const scope = (project.projectScope ?? {}) as { features?: unknown[]; integrations?: { type?: unknown }[] };
+
+    return {
+      projectType: project.projectType,
+      revenueCategory: resolved?.revenueCategory.code ?? null,
+      companyScale: resolved?.companyScale.code ?? null,
+      clientTier: project.clientTier,
+      urgency: project.urgency || 'standard',
+      complexityRating,
+      features: (Array.isArray(scope.features) ? scope.features : [])
+        .map((feature: any) => (typeof feature === 'string' ? feature : feature?.name))
+        .filter((feature): feature is string => typeof feature === 'string'),
+      integrations: (Array.isArray(scope.integrations) ? scope.integrations : [])
+        .map((integration) => integration?.type)
+        .filter((type): type is string => typeof type === 'string'),
+    };
+  },
+
+  /**
+   * Apply the active rule set to a calculated total (unchanged when no rule set is active)
+   */
+  async applyActive(context: PricingRuleContext, subtotal: number) {
+    const ruleSet = await prisma.pricingRuleSet.findFirst({ where: { status: 'active' } });
+
+    if (!ruleSet) {
+      return { ruleSet: null, total: subtotal, adjustment: 0, fired: [] };
+    }
+
+    return {
+      ruleSet: { id: ruleSet.id, version: ruleSet.version },
+      ...evaluatePricingRules(ruleSet.rules as unknown as PricingRule[], context, subtotal),
+    };
+  },
+
+  /**
+   * Every rule set version, newest first
+   */
+  async listSets() {
+    const ruleSets = await prisma.pricingRuleSet.findMany({
+      include: { _count: { select: { quotes: true } } },
+      orderBy: { version: 'desc' },
+    });
+
+    return ruleSets.map(({ _count, ...ruleSet }) => ({ ...serializeRuleSet(ruleSet), quoteCount: _count.quotes }));
+  },
+
+  async getSet(ruleSetId: string) {
+    const ruleSet = await prisma.pricingRuleSet.findUnique({ where: { id: ruleSetId } });
+
+    if (!ruleSet) {
+      throw new PricingRuleError('Pricing rule set not found', 404);
+    }
+
+    return serializeRuleSet(ruleSet);
+  },
+
+  /**
+   * Save rules as the next draft version; rule sets do not change once saved
+   */
+  async createSet(input: PricingRuleSetInput, createdBy: string) {
+    try {
+      return await prisma.$transaction(async (tx) => {
+        const latest = await tx.pricingRuleSet.findFirst({ orderBy: { version: 'desc' }, select: { version: true } });
+        const ruleSet = await tx.pricingRuleSet.create({
+          data: {
+            version: (latest?.version ?? 0) + 1,
+            name: input.name,
+            notes: input.notes,
+            rules: input.rules as unknown as Prisma.InputJsonValue,
+            createdBy,
+          },
+        });
+
+        return serializeRuleSet(ruleSet);
+      });
+    } catch (error) {
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        throw new PricingRuleError('Another rule set was saved at the same time. Please retry', 409);
+      }
+      throw error;
+    }
+  },
+
+  /**
+   * Make a rule set the one applied to new quotes, retiring the one it replaces
+   * Retired versions can be activated again to roll back
+   */
+  async activateSet(ruleSetId: string, activatedBy: string) {
+    try {
+      return await prisma.$transaction(async (tx) => {
+        const ruleSet = await tx.pricingRuleSet.findUnique({ where: { id: ruleSetId } });
+
+        if (!ruleSet) {
+          throw new PricingRuleError('Pricing rule set not found', 404);
+        }
+
+        if (ruleSet.status === 'active') {
+          throw new PricingRuleError('Pricing rule set is already active', 409);
+        }
+
+        const replaced = await tx.pricingRuleSet.findFirst({ where: { status: 'active' }, select: { id: true, version: true } });
+
+        await tx.pricingRuleSet.updateMany({ where: { status: 'active' }, data: { status: 'retired' } });
+
+        const activated = await tx.pricingRuleSet.update({
+          where: { id: ruleSetId },
+          data: { status: 'active', activatedBy, activatedAt: new Date() },
+        });
+
+        return { ruleSet: serializeRuleSet(activated), replaced };
+      });
+    } catch (error) {
+      // The single-active index rejects a concurrent activation that committed first
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        throw new PricingRuleError('Another rule set was activated at the same time. Please retry', 409);
+      }
+      throw error;
+    }
+  },
+
+  /**
+   * Stop applying the active rule set; quotes are then priced without rules
+   */
+  async deactivateSet(ruleSetId: string) {
+    const { count } = await prisma.pricingRuleSet.updateMany({
+      where: { id: ruleSetId, status: 'active' },
+      data: { status: 'retired' },
+    });
+
+    if (count === 0) {
+      await this.getSet(ruleSetId);
+      throw new PricingRuleError('Pricing rule set is not active', 409);
+    }
+  },
+
+  /**
+   * Run a rule set against recent quotes without changing anything
+   * Compares each quote's total before any promo code with what the rule set would have made it
+   */
+  async dryRun(ruleSetId: string, options: { since: Date; limit: number }) {
+    const ruleSet = await this.getSet(ruleSetId);
+
+    const quotes = await prisma.projectQuote.findMany({
+      where: { status: { not: 'superseded' }, createdAt: { gte: options.since } },
+      include: {
+        project: { select: { projectType: true, clientTier: true, urgency: true, projectScope: true, complexityScore: true } },
+      },
+      orderBy: { createdAt: 'desc' },
+      take: options.limit,
+    });
+
+    const results = quotes.map((quote) => {
+      const snapshot = quote.pricingSnapshot as {
+        inputs?: { complexityRating?: number };
+        lines?: { resolved?: { revenueCategory: { code: string }; companyScale: { code: string } } }[];
+      } | null;
+      const complexityRating =
+        snapshot?.inputs?.complexityRating ??
+        (quote.project.complexityScore ? pricingService.complexityRating(decimal(quote.project.complexityScore)) : null);
+      const context = this.contextFor(quote.project, snapshot?.lines?.[0]?.resolved ?? null, complexityRating);
+
+      // Calculated total before rules and promo codes, as the quote was issued
+      const subtotal = round(
+        decimal(quote.baseRate) +
+          decimal(quote.scaleAdjustment) +
+          decimal(quote.complexityAdjustment) +
+          decimal(quote.urgencyAdjustment) -
+          decimal(quote.discountAmount)
+      );
+      const currentTotal = round(subtotal + decimal(quote.ruleAdjustment));
+      const { total, fired } = evaluatePricingRules(ruleSet.rules, context, subtotal);
+
+      return {
+        quoteId: quote.id,
+        projectId: quote.projectId,
+        status: quote.status,
+        createdAt: quote.createdAt,
+        context,
+        subtotal,
+        currentTotal,
+        dryRunTotal: total,
+        difference: round(total - currentTotal),
+        fired,
+      };
+    });
+
+    const firedCounts: Record<string, number> = {};
+    for (const result of results) {
+      for (const rule of result.fired) {
+        firedCounts[rule.key] = (firedCounts[rule.key] ?? 0) + 1;
+      }
+    }
+
+    return {
+      ruleSet: { id: ruleSet.id, version: ruleSet.version, name: ruleSet.name, status: ruleSet.status },
+      summary: {
+        quotesEvaluated: results.length,
+        quotesChanged: results.filter((result) => result.difference !== 0).length,
+        currentTotal: round(results.reduce((sum, result) => sum + result.currentTotal, 0)),
+        dryRunTotal: round(results.reduce((sum, result) => sum + result.dryRunTotal, 0)),
+        difference: round(results.reduce((sum, result) => sum + result.difference, 0)),
+        rulesFired: ruleSet.rules.map((rule) => ({ key: rule.key, count: firedCounts[rule.key] ?? 0 })),
+      },
+      quotes: results,
+    };
+  },
+};
@@ -1,104 +1,356 @@
-import { PrismaClient } from '@prisma/client';
+import { ProjectAssessment, ProjectType, Urgency } from '@prisma/client';
+import { prisma } from '../config/database.js';
 
-const prisma = new PrismaClient();
+// Bump when the calculation changes so stored quote snapshots show which model priced them
+export const PRICING_MODEL_VERSION = 4;
+
+// Urgency surcharge applied on top of the scaled, complexity-adjusted price
+export const URGENCY_MULTIPLIERS: Record<Urgency, number> = {
+  standard: 1.0,
+  urgent: 1.3,
+  critical: 1.5,
+};
+
+type PricedProject = Pick<
+  ProjectAssessment,
+  'projectType' | 'projectScope' | 'urgency' | 'complexityScore' | 'bundleId' | 'revenueCategory' | 'companyScale'
+>;
+
+export interface BundleSelection {
+  bundleId: string;
+  quantity: number;
+}
 
 interface PricingCalculation {
   basePricing: number;
   scaleMultiplier: number;
   complexityAdjustment: number;
+  urgencyMultiplier: number;
   finalPrice: number;
   breakdown: {
     base: number;
     scaleAdjustment: number;
     complexityAdjustment: number;
+    urgencyAdjustment: number;
+  };
+  // What the inputs resolved to, so a quote can record exactly how it was priced
+  resolved: {
+    basePricingId: string;
+    bundleName: string;
+    timelineWeeks: number | null;
+    revenueCategory: { id: string; code: string; name: string };
+    companyScale: { id: string; code: string; name: string };
+    complexityTier: { rating: number; name: string } | null;
+    urgency: Urgency;
+    priceBook: { id: string; version: number } | null;
   };
 }
 
+/**
+ * Error raised when pricing inputs do not match the pricing tables
+ * Carries an HTTP status so controllers can respond with it
+ */
+export class PricingError extends Error {
+  constructor(message: string, public status: number = 422) {
+    super(message);
+    this.name = 'PricingError';
+  }
+}
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
 class PricingService {
   /**
-   * Calculate pricing based on RC + Scale + Complexity
+   * Calculate pricing based on RC + Scale + Complexity + Urgency
+   * Prices as of a past date come from the price book in effect then, and may use rows retired since
+   * Once a price book is in effect, the base price and the scale and complexity multipliers all come from it
    */
   async calculatePricing(
     bundleId: string,
     revenueCategory: string,
     companyRevenueScale: string,
-    complexityRating: number
+    complexityRating: number,
+    urgency: Urgency = 'standard',
+    asOf?: Date
   ): Promise<PricingCalculation> {
-    try {
-      // Find revenue category
-      const revCategory = await prisma.revenueCategory.findFirst({
-        where: {
-          OR: [
-            { code: revenueCategory },
-            { name: { equals: revenueCategory, mode: 'insensitive' } },
-          ],
-        },
-      });
-
-      if (!revCategory) {
-        throw new Error(`Revenue category '${revenueCategory}' not found`);
-      }
-
-      // Find company scale
-      const scale = await prisma.companyScale.findFirst({
-        where: {
-          OR: [
-            { code: companyRevenueScale },
-            { name: { equals: companyRevenueScale, mode: 'insensitive' } },
-          ],
-        },
-      });
-
-      if (!scale) {
-        throw new Error(`Company scale '${companyRevenueScale}' not found`);
-      }
-
-      // Find base pricing
-      const basePricing = await prisma.basePricing.findFirst({
-        where: {
-          bundleId,
-          revenueCategoryId: revCategory.id,
-          companyScaleId: scale.id,
-        },
-      });
+    const activeOnly = asOf ? {} : { active: true };
+
+    // Find revenue category
+    const revCategory = await prisma.revenueCategory.findFirst({
+      where: {
+        ...activeOnly,
+        OR: [
+          { code: revenueCategory },
+          { name: { equals: revenueCategory, mode: 'insensitive' } },
+        ],
+      },
+    });
+
+    if (!revCategory) {
+      throw new PricingError(`Revenue category '${revenueCategory}' not found`);
+    }
+
+    // Find company scale
+    const scale = await prisma.companyScale.findFirst({
+      where: {
+        ...activeOnly,
+        OR: [
+          { code: companyRevenueScale },
+          { name: { equals: companyRevenueScale, mode: 'insensitive' } },
+        ],
+      },
+    });
+
+    if (!scale) {
+      throw new PricingError(`Company scale '${companyRevenueScale}' not found`);
+    }
+
+    // Find base pricing
+    const basePricing = await prisma.basePricing.findFirst({
+      where: {
+        bundleId,
+        revenueCategoryId: revCategory.id,
+        companyScaleId: scale.id,
+        ...activeOnly,
+      },
+    });
 
-      if (!basePricing) {
-        throw new Error(
-          `No pricing found for bundle '${bundleId}', category '${revenueCategory}', and scale '${companyRevenueScale}'`
-        );
-      }
+    if (!basePricing) {
+      throw new PricingError(
+        `No pricing found for bundle '${bundleId}', category '${revenueCategory}', and scale '${companyRevenueScale}'`
+      );
+    }
 
-      // Find complexity tier
-      const complexityTier = await prisma.complexityTier.findFirst({
-        where: { rating: complexityRating },
-      });
+    // Prices from the price book in effect, or the tables themselves before the first book was published
+    const priceBook = await this.priceBookAt(asOf ?? new Date());
+    const entry = priceBook
+      ? await prisma.priceBookEntry.findUnique({
+          where: { uq_price_book_entries_row: { priceBookId: priceBook.id, basePricingId: basePricing.id } },
+        })
+      : null;
 
-      const complexityMultiplier = complexityTier
+    // A row added after the book was published has no price until the next publish
+    if (priceBook && !entry) {
+      throw new PricingError(
+        `Bundle '${bundleId}' for category '${revenueCategory}' and scale '${companyRevenueScale}' is not in price book v${priceBook.version}; publish a new price book to quote it`,
+        409
+      );
+    }
+
+    // Find complexity tier
+    const complexityTier = await prisma.complexityTier.findFirst({
+      where: { rating: complexityRating, ...activeOnly },
+    });
+
+    // Books published before multipliers were kept fall back to the tables
+    const tierMultipliers = priceBook?.tierMultipliers as Record<string, number> | null | undefined;
+    const complexityMultiplier = tierMultipliers
+      ? tierMultipliers[complexityRating] ?? 1.0
+      : complexityTier
         ? Number(complexityTier.adjustmentMultiplier)
         : 1.0;
 
-      // Calculate pricing
-      const base = Number(basePricing.basePrice);
-      const scaleMultiplier = Number(scale.multiplier);
-      const scaleAdjustment = base * (scaleMultiplier - 1);
-      const complexityAdjustmentValue = (base + scaleAdjustment) * (complexityMultiplier - 1);
-      const finalPrice = base + scaleAdjustment + complexityAdjustmentValue;
+    const urgencyMultiplier = URGENCY_MULTIPLIERS[urgency];
 
-      return {
-        basePricing: base,
-        scaleMultiplier,
-        complexityAdjustment: complexityMultiplier,
-        finalPrice: Math.round(finalPrice * 100) / 100,
-        breakdown: {
-          base,
-          scaleAdjustment: Math.round(scaleAdjustment * 100) / 100,
-          complexityAdjustment: Math.round(complexityAdjustmentValue * 100) / 100,
+    // Calculate pricing
+    const base = Number(entry?.basePrice ?? basePricing.basePrice);
+    const scaleMultiplier = Number(entry?.scaleMultiplier ?? scale.multiplier);
+    // Each step is rounded to cents so the stored breakdown adds up to the final price
+    const scaleAdjustment = round(base * (scaleMultiplier - 1));
+    const complexityAdjustmentValue = round((base + scaleAdjustment) * (complexityMultiplier - 1));
+    const urgencyAdjustmentValue = round((base + scaleAdjustment + complexityAdjustmentValue) * (urgencyMultiplier - 1));
+    const finalPrice = round(base + scaleAdjustment + complexityAdjustmentValue + urgencyAdjustmentValue);
+
+    return {
+      basePricing: base,
+      scaleMultiplier,
+      complexityAdjustment: complexityMultiplier,
+      urgencyMultiplier,
+      finalPrice,
+      breakdown: {
+        base,
+        scaleAdjustment,
+        complexityAdjustment: complexityAdjustmentValue,
+        urgencyAdjustment: urgencyAdjustmentValue,
+      },
+      resolved: {
+        basePricingId: basePricing.id,
+        bundleName: basePricing.bundleName,
+        timelineWeeks: entry ? entry.timelineWeeks : basePricing.timelineWeeks,
+        revenueCategory: { id: revCategory.id, code: revCategory.code, name: revCategory.name },
+        companyScale: { id: scale.id, code: scale.code, name: scale.name },
+        complexityTier: complexityTier ? { rating: complexityTier.rating, name: complexityTier.name } : null,
+        urgency,
+        priceBook: priceBook && { id: priceBook.id, version: priceBook.version },
+      },
+    };
+  }
+
+  /**
+   * Price a selection of bundles for a project from its stored pricing inputs
+   * Every bundle shares the project's category, scale, complexity, urgency and price book. Returns each
+   * bundle's calculation with a snapshot of everything they were based on, for storing on a quote
+   */
+  async priceBundles(project: PricedProject, bundles: BundleSelection[]) {
+    const missing = [
+      ...(bundles.length === 0 ? ['bundleId'] : []),
+      ...(['revenueCategory', 'companyScale'] as const).filter((field) => !project[field]),
+    ];
+
+    if (missing.length > 0) {
+      throw new PricingError(`Project is missing pricing inputs: ${missing.join(', ')}`);
+    }
+
+    const urgency = project.urgency || 'standard';
+    const complexityScore = project.complexityScore
+      ? Number(project.complexityScore)
+      : this.scoreComplexity(project.projectType, project.projectScope, urgency);
+    const complexityRating = this.complexityRating(complexityScore);
+
+    const lines = [];
+
+    for (const bundle of bundles) {
+      const pricing = await this.calculatePricing(
+        bundle.bundleId,
+        project.revenueCategory!,
+        project.companyScale!,
+        complexityRating,
+        urgency
+      );
+      lines.push({ ...bundle, pricing });
+    }
+
+    // A quote is pinned to one price book, so a new one taking effect mid-quote means pricing again
+    const priceBook = lines[0].pricing.resolved.priceBook;
+
+    if (lines.some(({ pricing }) => pricing.resolved.priceBook?.id !== priceBook?.id)) {
+      throw new PricingError('A new price book took effect while pricing. Please retry', 409);
+    }
+
+    const snapshot = {
+      modelVersion: PRICING_MODEL_VERSION,
+      calculatedAt: new Date().toISOString(),
+      inputs: {
+        revenueCategory: project.revenueCategory,
+        companyScale: project.companyScale,
+        complexityScore,
+        complexityRating,
+        urgency,
+      },
+      priceBook,
+      lines: lines.map(({ bundleId, quantity, pricing }) => ({
+        bundleId,
+        quantity,
+        resolved: pricing.resolved,
+        multipliers: {
+          scale: pricing.scaleMultiplier,
+          complexity: pricing.complexityAdjustment,
+          urgency: pricing.urgencyMultiplier,
         },
+        breakdown: pricing.breakdown,
+        unitPrice: pricing.finalPrice,
+      })),
+    };
+
+    return { complexityScore, lines, priceBook, snapshot };
+  }
+
+  /**
+   * Price book in effect at a date, if one had been published by then
+   */
+  async priceBookAt(date: Date) {
+    return prisma.priceBook.findFirst({
+      where: {
+        effectiveFrom: { lte: date },
+        OR: [{ effectiveTo: null }, { effectiveTo: { gt: date } }],
+      },
+      orderBy: { effectiveFrom: 'desc' },
+    });
+  }
+
+  /**
+   * A bundle's base prices in each price book that has taken effect, oldest first
+   * Optionally narrowed to one revenue category and company scale (by code)
+   */
+  async getBundlePriceHistory(bundleId: string, filters: { revenueCategory?: string; companyScale?: string }) {
+    const entryFilter = {
+      bundleId,
+      ...(filters.revenueCategory && { revenueCategoryCode: filters.revenueCategory }),
+      ...(filters.companyScale && { companyScaleCode: filters.companyScale }),
+    };
+
+    const priceBooks = await prisma.priceBook.findMany({
+      where: { effectiveFrom: { lte: new Date() }, entries: { some: entryFilter } },
+      include: {
+        entries: { where: entryFilter, orderBy: [{ revenueCategoryCode: 'asc' }, { basePrice: 'asc' }] },
+      },
+      orderBy: { version: 'asc' },
+    });
+
+    return priceBooks.map(({ entries, ...priceBook }) => {
+      const prices = entries.map((entry) => Number(entry.basePrice));
+
+      return {
+        version: priceBook.version,
+        name: priceBook.name,
+        effectiveFrom: priceBook.effectiveFrom,
+        effectiveTo: priceBook.effectiveTo,
+        minPrice: Math.min(...prices),
+        maxPrice: Math.max(...prices),
+        prices: entries.map((entry) => ({
+          revenueCategory: entry.revenueCategoryCode,
+          companyScale: entry.companyScaleCode,
+          basePrice: Number(entry.basePrice),
+        })),
       };
-    } catch (error) {
-      console.error('Error calculating pricing:', error);
-      throw error;
-    }
+    });
+  }
+
+  /**
+   * Score a project's complexity from its type, scope and urgency
+   * Returns 0.00 to 10.00 scale
+   */
+  scoreComplexity(projectType: ProjectType, scope: any, urgency: Urgency): number {
+    let score = 0;
+
+    // Feature count scoring
+    const features = scope?.features || [];
+    score += Math.min(features.length * 0.5, 3.0); // Max 3 points
+
+    // Integration complexity
+    const integrations = scope?.integrations || [];
+    const complexIntegrations = integrations.filter((i: any) =>
+      ['payment', 'blockchain', 'ai', 'custom_api'].includes(i.type)
+    );
+    score += Math.min(complexIntegrations.length * 0.8, 3.0); // Max 3 points
+
+    // Timeline pressure
+    const timeline = scope?.timeline || 'standard';
+    if (timeline === 'urgent') score += 1.5;
+    if (timeline === 'critical') score += 2.5;
+
+    // Project type base complexity
+    const typeComplexity: Record<ProjectType, number> = {
+      creative: 1.0,
+      fullstack: 2.0,
+      web3: 3.0,
+      ai_automation: 2.5,
+    };
+    score += typeComplexity[projectType] || 1.0;
+
+    // Urgency factor
+    if (urgency === 'urgent') score += 0.5;
+    if (urgency === 'critical') score += 1.0;
+
+    // Cap at 10.00
+    return Math.min(score, 10.0);
+  }
+
+  /**
+   * Complexity tier rating (1-10) for a complexity score
+   */
+  complexityRating(score: number): number {
+    return Math.min(10, Math.max(1, Math.round(score)));
   }
 
   /**
@@ -106,6 +358,7 @@ class PricingService {
    */
   async getRevenueCategories() {
     return await prisma.revenueCategory.findMany({
+      where: { active: true },
       orderBy: { name: 'asc' },
     });
   }
@@ -115,6 +368,7 @@ class PricingService {
    */
   async getCompanyScales() {
     return await prisma.companyScale.findMany({
+      where: { active: true },
       orderBy: { revenueMin: 'asc' },
     });
   }
@@ -124,6 +378,7 @@ class PricingService {
    */
   async getComplexityTiers() {
     return await prisma.complexityTier.findMany({
+      where: { active: true },
       orderBy: { rating: 'asc' },
     });
   }
@@ -133,6 +388,7 @@ class PricingService {
    */
   async getAllBasePricing() {
     return await prisma.basePricing.findMany({
+      where: { active: true },
       include: {
         revenueCategory: true,
         companyScale: true,
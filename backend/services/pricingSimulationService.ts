@@ -0,0 +1,103 @@
+import { ProjectType, Urgency } from '@prisma/client';
+import { pricingService, URGENCY_MULTIPLIERS } from './pricingService.js';
+import { buildLineItems, NOT_TO_EXCEED_MULTIPLIER } from './quoteLineItemService.js';
+import { pricingRuleService } from './pricingRuleService.js';
+
+export const MAX_SIMULATION_SCENARIOS = 5;
+
+/**
+ * A prospect's hypothetical project, as they would describe it in a brief
+ */
+export type SimulationScope = {
+  projectType: ProjectType;
+  bundleId: string;
+  revenueCategory: string;
+  companyScale: string;
+  urgency: Urgency;
+  features: string[];
+  integrations: { type: string }[];
+};
+
+// What a scenario changes from the scope; anything left out is kept
+export type SimulationScenario = Partial<Omit<SimulationScope, 'revenueCategory'>> & { label: string };
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+export const pricingSimulationService = {
+  /**
+   * The scope at each of the other urgency levels, for when no scenarios are asked for
+   */
+  defaultScenarios(scope: SimulationScope): SimulationScenario[] {
+    return (Object.keys(URGENCY_MULTIPLIERS) as Urgency[])
+      .filter((urgency) => urgency !== scope.urgency)
+      .map((urgency) => ({ label: `${urgency} urgency`, urgency }));
+  },
+
+  /**
+   * Price the scope and each scenario the way a quote for it would be priced, side by side
+   * Nothing is stored; differences are relative to the scope as described
+   */
+  async simulate(scope: SimulationScope, scenarios: SimulationScenario[]) {
+    const results = [];
+
+    for (const { label, ...changes } of [{ label: 'As described' }, ...scenarios]) {
+      const inputs: SimulationScope = { ...scope, ...changes };
+      const project = {
+        projectType: inputs.projectType,
+        projectScope: { features: inputs.features, integrations: inputs.integrations },
+        urgency: inputs.urgency,
+        // Prospects have no client tier yet, so tier rules do not apply
+        clientTier: null,
+      };
+      const { complexityScore, lines } = await pricingService.priceBundles(
+        {
+          ...project,
+          complexityScore: null,
+          bundleId: inputs.bundleId,
+          revenueCategory: inputs.revenueCategory,
+          companyScale: inputs.companyScale,
+        },
+        [{ bundleId: inputs.bundleId, quantity: 1 }]
+      );
+      const { totals, estimatedTimelineWeeks } = buildLineItems(inputs.projectType, lines);
+      const { pricing } = lines[0];
+      const complexityRating = pricingService.complexityRating(complexityScore);
+      const rules = await pricingRuleService.applyActive(
+        pricingRuleService.contextFor(project, pricing.resolved, complexityRating),
+        totals.totalEstimate
+      );
+
+      results.push({
+        label,
+        inputs,
+        complexityScore,
+        complexityRating,
+        resolved: pricing.resolved,
+        multipliers: {
+          scale: pricing.scaleMultiplier,
+          complexity: pricing.complexityAdjustment,
+          urgency: pricing.urgencyMultiplier,
+        },
+        breakdown: pricing.breakdown,
+        // Public endpoint: what the rules changed, without their keys or thresholds
+        rules: { adjustment: rules.adjustment, applied: rules.fired.map((rule) => rule.description) },
+        totalEstimate: rules.total,
+        notToExceed: Math.ceil(rules.total * NOT_TO_EXCEED_MULTIPLIER),
+        estimatedTimelineWeeks,
+      });
+    }
+
+    const baseline = results[0];
+
+    return results.map((result) => ({
+      ...result,
+      difference: {
+        amount: round(result.totalEstimate - baseline.totalEstimate),
+        percentage: baseline.totalEstimate
+          ? round(((result.totalEstimate - baseline.totalEstimate) / baseline.totalEstimate) * 100)
+          : 0,
+        timelineWeeks: result.estimatedTimelineWeeks - baseline.estimatedTimelineWeeks,
+      },
+    }));
+  },
+};
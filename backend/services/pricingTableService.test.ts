@@ -0,0 +1,121 @@
+import { describe, it, expect } from 'vitest';
+import { BASE_PRICING_CSV_COLUMNS, MAX_IMPORT_ROWS, csvField, parseBasePricingCsv } from './pricingTableService.js';
+
+const HEADER = BASE_PRICING_CSV_COLUMNS.join(',');
+
+describe('csvField', () => {
+  it('leaves plain values and numbers as they are', () => {
+    expect(csvField('core_build')).toBe('core_build');
+    expect(csvField(12)).toBe('12');
+  });
+
+  it('writes null as an empty field', () => {
+    expect(csvField(null)).toBe('');
+  });
+
+  it('quotes fields with commas, quotes or line breaks', () => {
+    expect(csvField('Design, build')).toBe('"Design, build"');
+    expect(csvField('The "core" bundle')).toBe('"The ""core"" bundle"');
+    expect(csvField('line one\nline two')).toBe('"line one\nline two"');
+  });
+
+  it('prefixes text a spreadsheet would read as a formula', () => {
+    expect(csvField('=SUM(A1:A2)')).toBe("'=SUM(A1:A2)");
+    expect(csvField('+1')).toBe("'+1");
+    expect(csvField('-1')).toBe("'-1");
+    expect(csvField('@cmd')).toBe("'@cmd");
+  });
+});
+
+describe('parseBasePricingCsv', () => {
+  it('reads rows keyed by column, numbered from the header', () => {
+    const csv = `${HEADER}\r\ncore_build,Core Build,saas,startup,1500.00,4,Initial build\r\n`;
+
+    expect(parseBasePricingCsv(csv)).toEqual([
+      {
+        row: 2,
+        values: {
+          bundle_id: 'core_build',
+          bundle_name: 'Core Build',
+          revenue_category: 'saas',
+          company_scale: 'startup',
+          base_price: '1500.00',
+          timeline_weeks: '4',
+          description: 'Initial build',
+        },
+      },
+    ]);
+  });
+
+  it('accepts a byte order mark, LF line endings and header case and spacing', () => {
+    const csv = `\uFEFF BUNDLE_ID ,Bundle_Name,revenue_category,company_scale,base_price\ncore_build,Core Build,saas,startup,1500`;
+
+    expect(parseBasePricingCsv(csv)).toEqual([
+      {
+        row: 2,
+        values: {
+          bundle_id: 'core_build',
+          bundle_name: 'Core Build',
+          revenue_category: 'saas',
+          company_scale: 'startup',
+          base_price: '1500',
+        },
+      },
+    ]);
+  });
+
+  it('reads quoted fields and strips the formula prefix written on export', () => {
+    const description = 'Design, "build"\nand launch';
+    const csv = [HEADER, ['core_build', csvField('=Core'), 'saas', 'startup', '1500', '4', csvField(description)].join(',')].join(
+      '\r\n'
+    );
+
+    const parsed = parseBasePricingCsv(csv);
+
+    expect(parsed).not.toBeTypeOf('string');
+    expect((parsed as Exclude<typeof parsed, string>)[0].values).toMatchObject({ bundle_name: '=Core', description });
+  });
+
+  it('skips blank rows but keeps spreadsheet row numbers', () => {
+    const csv = `${HEADER}\n\n,,,,,,\ncore_build,Core Build,saas,startup,1500,4,\n`;
+
+    const parsed = parseBasePricingCsv(csv);
+
+    expect(parsed).not.toBeTypeOf('string');
+    expect((parsed as Exclude<typeof parsed, string>).map(({ row }) => row)).toEqual([4]);
+  });
+
+  it('rejects a header with unknown, missing or repeated columns', () => {
+    const rows = 'core_build,Core Build,saas,startup,1500';
+
+    expect(parseBasePricingCsv(`${HEADER},notes\n${rows},4,,x`)).toMatch(/^The header row must name each of these columns once/);
+    expect(parseBasePricingCsv(`bundle_id,bundle_name,revenue_category,company_scale\n${rows}`)).toMatch(
+      /^The header row must name each/
+    );
+    expect(parseBasePricingCsv(`${HEADER},description\n${rows},4,a,b`)).toMatch(/^The header row must name each/);
+  });
+
+  it('rejects a file without rows', () => {
+    expect(parseBasePricingCsv(`${HEADER}\r\n`)).toBe('The CSV has no rows to import');
+    expect(parseBasePricingCsv('')).toMatch(/^The header row must name each/);
+  });
+
+  it('rejects more rows than one import takes', () => {
+    const row = 'core_build,Core Build,saas,startup,1500,4,';
+    const csv = [HEADER, ...Array.from({ length: MAX_IMPORT_ROWS + 1 }, () => row)].join('\n');
+
+    expect(parseBasePricingCsv(csv)).toBe(`The CSV has ${MAX_IMPORT_ROWS + 1} rows; import at most ${MAX_IMPORT_ROWS} at a time`);
+  });
+
+  it('rejects a row whose field count differs from the header', () => {
+    const csv = `${HEADER}\ncore_build,Core Build,saas,startup,1500,4,\ncore_build,Core Build,saas,startup\n`;
+
+    expect(parseBasePricingCsv(csv)).toBe('Row 3 has 4 fields; the header has 7');
+  });
+
+  it('rejects an unterminated quoted field', () => {
+    expect(parseBasePricingCsv(`${HEADER}\ncore_build,"Core Build,saas,startup,1500,4,`)).toBe(
+      'CSV ends inside a quoted field'
+    );
+  });
+});
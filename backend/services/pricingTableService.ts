@@ -0,0 +1,752 @@
+import { PricingChangeAction, PricingTable, Prisma } from '@prisma/client';
+import { prisma } from '../config/database.js';
+
+type Tx = Prisma.TransactionClient;
+
+// URL segment for each pricing table in the admin API
+export const PRICING_TABLE_PATHS: Record<string, PricingTable> = {
+  'revenue-categories': 'revenue_category',
+  'company-scales': 'company_scale',
+  'complexity-tiers': 'complexity_tier',
+  'base-pricing': 'base_pricing',
+};
+
+export const PRICING_CODE_PATTERN = /^[a-z0-9_]{2,50}$/;
+
+export interface RevenueCategoryInput {
+  name: string;
+  code: string;
+  description: string | null;
+}
+
+export interface CompanyScaleInput {
+  name: string;
+  code: string;
+  revenueMin: number | null;
+  revenueMax: number | null;
+  multiplier: number;
+  description: string | null;
+}
+
+export interface ComplexityTierInput {
+  rating: number;
+  name: string;
+  description: string | null;
+  adjustmentMultiplier: number;
+}
+
+export interface BasePricingInput {
+  bundleId: string;
+  bundleName: string;
+  // Codes of the category and scale the price applies to
+  revenueCategory: string;
+  companyScale: string;
+  basePrice: number;
+  timelineWeeks: number | null;
+  description: string | null;
+}
+
+export type PricingTableInputs = {
+  revenue_category: RevenueCategoryInput;
+  company_scale: CompanyScaleInput;
+  complexity_tier: ComplexityTierInput;
+  base_pricing: BasePricingInput;
+};
+
+// Fields that can change once a row exists; codes, names, ratings and bundle keys are how
+// projects and quotes refer to rows, so those need a new row (and the old one retired)
+export type PricingTableUpdates = {
+  revenue_category: Partial<Pick<RevenueCategoryInput, 'description'>>;
+  company_scale: Partial<Pick<CompanyScaleInput, 'revenueMin' | 'revenueMax' | 'multiplier' | 'description'>>;
+  complexity_tier: Partial<Pick<ComplexityTierInput, 'name' | 'description' | 'adjustmentMultiplier'>>;
+  base_pricing: Partial<Pick<BasePricingInput, 'bundleName' | 'basePrice' | 'timelineWeeks' | 'description'>>;
+};
+
+/**
+ * Error raised when a pricing table change is not valid
+ * Carries an HTTP status so controllers can respond with it
+ */
+export class PricingTableError extends Error {
+  constructor(message: string, public status: number = 400, public details: string[] = []) {
+    super(message);
+    this.name = 'PricingTableError';
+  }
+}
+
+// Columns of the base pricing CSV, in export order; timeline_weeks and description may be left out of an import
+export const BASE_PRICING_CSV_COLUMNS = [
+  'bundle_id',
+  'bundle_name',
+  'revenue_category',
+  'company_scale',
+  'base_price',
+  'timeline_weeks',
+  'description',
+] as const;
+
+const OPTIONAL_CSV_COLUMNS = ['timeline_weeks', 'description'];
+// JSON bodies are limited to 100 KB, which fits about this many rows
+export const MAX_IMPORT_ROWS = 1000;
+
+// A validated CSV row; fields whose column was left out keep their current value
+export type BasePricingImportRow = Omit<BasePricingInput, 'timelineWeeks' | 'description'> &
+  Partial<Pick<BasePricingInput, 'timelineWeeks' | 'description'>> & { row: number };
+
+const decimal = (value: Prisma.Decimal | null) => (value === null ? null : parseFloat(value.toString()));
+
+const basePricingInclude = {
+  revenueCategory: { select: { code: true, name: true } },
+  companyScale: { select: { code: true, name: true } },
+} as const;
+
+/**
+ * A row of any pricing table with its decimal amounts as numbers, as returned by the API and kept in history
+ */
+const findRow = async (tx: Tx, table: PricingTable, id: string) => {
+  switch (table) {
+    case 'revenue_category':
+      return tx.revenueCategory.findUnique({ where: { id } });
+    case 'company_scale': {
+      const scale = await tx.companyScale.findUnique({ where: { id } });
+      return scale && {
+        ...scale,
+        revenueMin: decimal(scale.revenueMin),
+        revenueMax: decimal(scale.revenueMax),
+        multiplier: decimal(scale.multiplier)!,
+      };
+    }
+    case 'complexity_tier': {
+      const tier = await tx.complexityTier.findUnique({ where: { id } });
+      return tier && { ...tier, adjustmentMultiplier: decimal(tier.adjustmentMultiplier)! };
+    }
+    case 'base_pricing': {
+      const row = await tx.basePricing.findUnique({ where: { id }, include: basePricingInclude });
+      return row && { ...row, basePrice: decimal(row.basePrice)! };
+    }
+  }
+};
+
+type PricingRow = NonNullable<Awaited<ReturnType<typeof findRow>>>;
+
+const findExistingRow = async (tx: Tx, table: PricingTable, id: string) => {
+  const row = await findRow(tx, table, id);
+
+  if (!row) {
+    throw new PricingTableError('Pricing row not found', 404);
+  }
+  return row;
+};
+
+const recordChange = (
+  tx: Tx,
+  table: PricingTable,
+  action: PricingChangeAction,
+  before: PricingRow | null,
+  after: PricingRow,
+  changedBy: string
+) =>
+  tx.pricingTableChange.create({
+    data: {
+      table,
+      recordId: after.id,
+      action,
+      // Rows are stored as their API JSON, dates as ISO strings
+      before: before ? JSON.parse(JSON.stringify(before)) : Prisma.JsonNull,
+      after: JSON.parse(JSON.stringify(after)),
+      changedBy,
+    },
+  });
+
+/**
+ * Reject a revenue range that overlaps another active scale's (ranges may share a boundary)
+ */
+const checkRevenueRange = async (
+  tx: Tx,
+  range: { revenueMin: number | null; revenueMax: number | null },
+  scaleId: string | null
+) => {
+  if (range.revenueMin !== null && range.revenueMax !== null && range.revenueMin > range.revenueMax) {
+    throw new PricingTableError('revenueMin cannot be more than revenueMax');
+  }
+
+  const scales = await tx.companyScale.findMany({
+    where: { active: true, ...(scaleId && { id: { not: scaleId } }) },
+  });
+
+  const overlapping = scales.find(
+    (scale) =>
+      (range.revenueMin ?? -Infinity) < (decimal(scale.revenueMax) ?? Infinity) &&
+      (decimal(scale.revenueMin) ?? -Infinity) < (range.revenueMax ?? Infinity)
+  );
+
+  if (overlapping) {
+    throw new PricingTableError(`Revenue range overlaps company scale '${overlapping.code}'`, 409);
+  }
+};
+
+const checkUnique = async (exists: Promise<{ id: string } | null>, message: string) => {
+  if (await exists) {
+    throw new PricingTableError(message, 409);
+  }
+};
+
+const createRow = async <T extends PricingTable>(tx: Tx, table: T, data: PricingTableInputs[T]) => {
+  switch (table) {
+    case 'revenue_category': {
+      const input = data as RevenueCategoryInput;
+      await checkUnique(
+        tx.revenueCategory.findFirst({ where: { OR: [{ code: input.code }, { name: input.name }] }, select: { id: true } }),
+        'A revenue category with this code or name already exists'
+      );
+      return (await tx.revenueCategory.create({ data: input })).id;
+    }
+    case 'company_scale': {
+      const input = data as CompanyScaleInput;
+      await checkUnique(
+        tx.companyScale.findFirst({ where: { OR: [{ code: input.code }, { name: input.name }] }, select: { id: true } }),
+        'A company scale with this code or name already exists'
+      );
+      await checkRevenueRange(tx, input, null);
+      return (await tx.companyScale.create({ data: input })).id;
+    }
+    case 'complexity_tier': {
+      const input = data as ComplexityTierInput;
+      await checkUnique(
+        tx.complexityTier.findUnique({ where: { rating: input.rating }, select: { id: true } }),
+        `A complexity tier for rating ${input.rating} already exists`
+      );
+      return (await tx.complexityTier.create({ data: input })).id;
+    }
+    case 'base_pricing': {
+      const { revenueCategory, companyScale, ...input } = data as BasePricingInput;
+      const category = await tx.revenueCategory.findFirst({ where: { code: revenueCategory, active: true } });
+      const scale = await tx.companyScale.findFirst({ where: { code: companyScale, active: true } });
+
+      if (!category || !scale) {
+        throw new PricingTableError(
+          `Active ${!category ? `revenue category '${revenueCategory}'` : `company scale '${companyScale}'`} not found`,
+          404
+        );
+      }
+
+      await checkUnique(
+        tx.basePricing.findUnique({
+          where: {
+            bundleId_revenueCategoryId_companyScaleId: {
+              bundleId: input.bundleId,
+              revenueCategoryId: category.id,
+              companyScaleId: scale.id,
+            },
+          },
+          select: { id: true },
+        }),
+        'This bundle is already priced for that revenue category and company scale'
+      );
+      return (
+        await tx.basePricing.create({
+          data: { ...input, revenueCategoryId: category.id, companyScaleId: scale.id },
+        })
+      ).id;
+    }
+  }
+  throw new PricingTableError('Unknown pricing table');
+};
+
+const updateRow = async <T extends PricingTable>(
+  tx: Tx,
+  table: T,
+  existing: PricingRow,
+  data: PricingTableUpdates[T]
+) => {
+  switch (table) {
+    case 'revenue_category':
+      await tx.revenueCategory.update({ where: { id: existing.id }, data });
+      return;
+    case 'company_scale': {
+      const current = existing as Extract<PricingRow, { revenueMin: number | null }>;
+      const input = data as PricingTableUpdates['company_scale'];
+
+      if (current.active && (input.revenueMin !== undefined || input.revenueMax !== undefined)) {
+        await checkRevenueRange(
+          tx,
+          { revenueMin: input.revenueMin ?? current.revenueMin, revenueMax: input.revenueMax ?? current.revenueMax },
+          current.id
+        );
+      }
+      await tx.companyScale.update({ where: { id: existing.id }, data: input });
+      return;
+    }
+    case 'complexity_tier':
+      await tx.complexityTier.update({ where: { id: existing.id }, data });
+      return;
+    case 'base_pricing':
+      await tx.basePricing.update({ where: { id: existing.id }, data });
+      return;
+  }
+};
+
+const setActive = async (tx: Tx, table: PricingTable, id: string, active: boolean) => {
+  switch (table) {
+    case 'revenue_category':
+      await tx.revenueCategory.update({ where: { id }, data: { active } });
+      return;
+    case 'company_scale':
+      await tx.companyScale.update({ where: { id }, data: { active } });
+      return;
+    case 'complexity_tier':
+      await tx.complexityTier.update({ where: { id }, data: { active } });
+      return;
+    case 'base_pricing':
+      await tx.basePricing.update({ where: { id }, data: { active } });
+      return;
+  }
+};
+
+/**
+ * Split CSV text into records of fields (RFC 4180 quoting, CRLF or LF line endings)
+ */
+const parseCsv = (text: string): string[][] | string => {
+  const input = text.replace(/^\uFEFF/, '');
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let index = 0; index < input.length; index++) {
+    const char = input[index];
+
+    if (quoted) {
+      if (char !== '"') {
+        field += char;
+      } else if (input[index + 1] === '"') {
+        field += '"';
+        index++;
+      } else {
+        quoted = false;
+      }
+    } else if (char === '"' && field === '') {
+      quoted = true;
+    } else if (char === ',') {
+      record.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[index + 1] === '\n') index++;
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (quoted) {
+    return 'CSV ends inside a quoted field';
+  }
+
+  if (field !== '' || record.length > 0) {
+    record.push(field);
+    records.push(record);
+  }
+
+  return records;
+};
+
+/**
+ * Format one value as a base pricing CSV field, quoted when needed
+ */
+export const csvField = (value: string | number | null) => {
+  let text = value === null ? '' : String(value);
+
+  // Keep spreadsheets from evaluating text as a formula; stripped again on import
+  if (/^[=+\-@]/.test(text)) text = `'${text}`;
+
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Read a base pricing CSV into rows of values keyed by column, numbered as in a spreadsheet (header is row 1)
+ * Returns an error message for a 400 response when the file itself cannot be used
+ */
+export const parseBasePricingCsv = (text: string): { row: number; values: Record<string, string> }[] | string => {
+  const records = parseCsv(text);
+  if (typeof records === 'string') return records;
+
+  const [header, ...body] = records;
+  const columns = (header ?? []).map((column) => column.trim().toLowerCase());
+  const unknown = columns.filter((column) => !(BASE_PRICING_CSV_COLUMNS as readonly string[]).includes(column));
+  const missing = BASE_PRICING_CSV_COLUMNS.filter(
+    (column) => !OPTIONAL_CSV_COLUMNS.includes(column) && !columns.includes(column)
+  );
+
+  if (unknown.length > 0 || missing.length > 0 || new Set(columns).size !== columns.length) {
+    return `The header row must name each of these columns once: ${BASE_PRICING_CSV_COLUMNS.join(', ')} (${OPTIONAL_CSV_COLUMNS.join(' and ')} optional)`;
+  }
+
+  const rows = body
+    .map((fields, index) => ({ row: index + 2, fields }))
+    .filter(({ fields }) => fields.some((field) => field.trim() !== ''));
+
+  if (rows.length === 0) {
+    return 'The CSV has no rows to import';
+  }
+
+  if (rows.length > MAX_IMPORT_ROWS) {
+    return `The CSV has ${rows.length} rows; import at most ${MAX_IMPORT_ROWS} at a time`;
+  }
+
+  const mismatched = rows.find(({ fields }) => fields.length !== columns.length);
+
+  if (mismatched) {
+    return `Row ${mismatched.row} has ${mismatched.fields.length} fields; the header has ${columns.length}`;
+  }
+
+  return rows.map(({ row, fields }) => ({
+    row,
+    values: Object.fromEntries(columns.map((column, index) => [column, fields[index].replace(/^'(?=[=+\-@])/, '').trim()])),
+  }));
+};
+
+const rowKey = (bundleId: string, revenueCategory: string, companyScale: string) =>
+  `${bundleId}|${revenueCategory}|${companyScale}`;
+
+const IMPORT_FIELDS = ['bundleName', 'basePrice', 'timelineWeeks', 'description'] as const;
+
+/**
+ * Compare imported rows with the base pricing table
+ * Unknown or retired codes and rows repeating a bundle, category and scale reject the whole import
+ */
+const diffBasePricing = async (tx: Tx, rows: BasePricingImportRow[], retireMissing: boolean) => {
+  const categories = await tx.revenueCategory.findMany({ where: { active: true }, select: { code: true } });
+  const scales = await tx.companyScale.findMany({ where: { active: true }, select: { code: true } });
+  const errors: string[] = [];
+  const seen = new Map<string, number>();
+
+  for (const row of rows) {
+    if (!categories.some((category) => category.code === row.revenueCategory)) {
+      errors.push(`Row ${row.row}: unknown revenue category '${row.revenueCategory}'`);
+    }
+
+    if (!scales.some((scale) => scale.code === row.companyScale)) {
+      errors.push(`Row ${row.row}: unknown company scale '${row.companyScale}'`);
+    }
+
+    const key = rowKey(row.bundleId, row.revenueCategory, row.companyScale);
+
+    if (seen.has(key)) {
+      errors.push(`Row ${row.row}: repeats row ${seen.get(key)} (same bundle, revenue category and company scale)`);
+    } else {
+      seen.set(key, row.row);
+    }
+  }
+
+  if (errors.length > 0) {
+    throw new PricingTableError(`The import has ${errors.length} error(s); nothing was changed`, 400, errors.slice(0, 100));
+  }
+
+  const existingRows = (await tx.basePricing.findMany({ include: basePricingInclude })).map((row) => ({
+    ...row,
+    basePrice: decimal(row.basePrice)!,
+  }));
+  const existingByKey = new Map(
+    existingRows.map((row) => [rowKey(row.bundleId, row.revenueCategory.code, row.companyScale.code), row])
+  );
+
+  const entries = rows.map((row) => {
+    const existing = existingByKey.get(rowKey(row.bundleId, row.revenueCategory, row.companyScale));
+    const identity = { row: row.row, bundleId: row.bundleId, revenueCategory: row.revenueCategory, companyScale: row.companyScale };
+
+    if (!existing) {
+      return { ...identity, action: 'create' as const, input: row, changes: {} };
+    }
+
+    const changes: Record<string, { from: unknown; to: unknown }> = {};
+
+    for (const field of IMPORT_FIELDS) {
+      if (row[field] !== undefined && row[field] !== existing[field]) {
+        changes[field] = { from: existing[field], to: row[field] };
+      }
+    }
+
+    const action = !existing.active ? 'restore' : Object.keys(changes).length > 0 ? 'update' : 'unchanged';
+    return { ...identity, action: action as 'restore' | 'update' | 'unchanged', recordId: existing.id, input: row, changes };
+  });
+
+  const missing = existingRows
+    .filter((row) => row.active && !seen.has(rowKey(row.bundleId, row.revenueCategory.code, row.companyScale.code)))
+    .map((row) => ({
+      action: retireMissing ? ('retire' as const) : ('missing' as const),
+      recordId: row.id,
+      bundleId: row.bundleId,
+      revenueCategory: row.revenueCategory.code,
+      companyScale: row.companyScale.code,
+    }));
+
+  const count = (action: string) => [...entries, ...missing].filter((entry) => entry.action === action).length;
+
+  return {
+    entries,
+    missing,
+    summary: {
+      rows: rows.length,
+      create: count('create'),
+      update: count('update'),
+      restore: count('restore'),
+      unchanged: count('unchanged'),
+      retire: count('retire'),
+      missing: count('missing'),
+    },
+  };
+};
+
+// What a preview or import reports: every row that changes, without the parsed input
+const describeDiff = ({ entries, missing, summary }: Awaited<ReturnType<typeof diffBasePricing>>) => ({
+  summary,
+  changes: [
+    ...entries.filter((entry) => entry.action !== 'unchanged').map(({ input: _input, ...entry }) => entry),
+    ...missing,
+  ],
+});
+
+export const pricingTableService = {
+  /**
+   * Rows of a pricing table, retired ones only when asked for
+   */
+  async listRows(table: PricingTable, includeRetired: boolean) {
+    const where = includeRetired ? {} : { active: true };
+
+    switch (table) {
+      case 'revenue_category':
+        return prisma.revenueCategory.findMany({ where, orderBy: { name: 'asc' } });
+      case 'company_scale':
+        return (await prisma.companyScale.findMany({ where, orderBy: { revenueMin: 'asc' } })).map((scale) => ({
+          ...scale,
+          revenueMin: decimal(scale.revenueMin),
+          revenueMax: decimal(scale.revenueMax),
+          multiplier: decimal(scale.multiplier)!,
+        }));
+      case 'complexity_tier':
+        return (await prisma.complexityTier.findMany({ where, orderBy: { rating: 'asc' } })).map((tier) => ({
+          ...tier,
+          adjustmentMultiplier: decimal(tier.adjustmentMultiplier)!,
+        }));
+      case 'base_pricing':
+        return (
+          await prisma.basePricing.findMany({
+            where,
+            include: basePricingInclude,
+            orderBy: [{ bundleId: 'asc' }, { revenueCategory: { code: 'asc' } }, { companyScale: { revenueMin: 'asc' } }],
+          })
+        ).map((row) => ({ ...row, basePrice: decimal(row.basePrice)! }));
+    }
+  },
+
+  async createRow<T extends PricingTable>(table: T, input: PricingTableInputs[T], changedBy: string) {
+    return prisma.$transaction(async (tx) => {
+      const id = await createRow(tx, table, input);
+      const row = await findExistingRow(tx, table, id);
+
+      await recordChange(tx, table, 'created', null, row, changedBy);
+      return row;
+    });
+  },
+
+  /**
+   * Quotes keep the prices they were issued with
+   */
+  async updateRow<T extends PricingTable>(table: T, id: string, input: PricingTableUpdates[T], changedBy: string) {
+    return prisma.$transaction(async (tx) => {
+      const before = await findExistingRow(tx, table, id);
+
+      await updateRow(tx, table, before, input);
+      const after = await findExistingRow(tx, table, id);
+
+      await recordChange(tx, table, 'updated', before, after, changedBy);
+      return after;
+    });
+  },
+
+  /**
+   * Stop pricing with a row; retiring a category or scale also retires the base prices that use it
+   * Returns the ids of base pricing rows retired along with it
+   */
+  async retireRow(table: PricingTable, id: string, changedBy: string) {
+    return prisma.$transaction(async (tx) => {
+      const before = await findExistingRow(tx, table, id);
+
+      if (!before.active) {
+        throw new PricingTableError('Pricing row is already retired', 409);
+      }
+
+      await setActive(tx, table, id, false);
+      await recordChange(tx, table, 'retired', before, await findExistingRow(tx, table, id), changedBy);
+
+      const dependents =
+        table === 'revenue_category' || table === 'company_scale'
+          ? await tx.basePricing.findMany({
+              where: { active: true, ...(table === 'revenue_category' ? { revenueCategoryId: id } : { companyScaleId: id }) },
+              select: { id: true },
+            })
+          : [];
+
+      for (const dependent of dependents) {
+        const dependentBefore = await findExistingRow(tx, 'base_pricing', dependent.id);
+        await setActive(tx, 'base_pricing', dependent.id, false);
+        await recordChange(
+          tx,
+          'base_pricing',
+          'retired',
+          dependentBefore,
+          await findExistingRow(tx, 'base_pricing', dependent.id),
+          changedBy
+        );
+      }
+
+      return dependents.map((dependent) => dependent.id);
+    });
+  },
+
+  /**
+   * Bring a retired row back; base prices retired with their category or scale are restored one by one
+   */
+  async restoreRow(table: PricingTable, id: string, changedBy: string) {
+    return prisma.$transaction(async (tx) => {
+      const before = await findExistingRow(tx, table, id);
+
+      if (before.active) {
+        throw new PricingTableError('Pricing row is not retired', 409);
+      }
+
+      if (table === 'company_scale') {
+        await checkRevenueRange(tx, before as Extract<PricingRow, { revenueMin: number | null }>, id);
+      }
+
+      if (table === 'base_pricing') {
+        const row = await tx.basePricing.findUniqueOrThrow({
+          where: { id },
+          include: { revenueCategory: { select: { active: true } }, companyScale: { select: { active: true } } },
+        });
+
+        if (!row.revenueCategory.active || !row.companyScale.active) {
+          throw new PricingTableError('Restore the revenue category and company scale first', 409);
+        }
+      }
+
+      await setActive(tx, table, id, true);
+      const after = await findExistingRow(tx, table, id);
+
+      await recordChange(tx, table, 'restored', before, after, changedBy);
+      return after;
+    });
+  },
+
+  /**
+   * Active base prices as CSV, with revenue category and company scale codes
+   */
+  async exportBasePricingCsv() {
+    const rows = await prisma.basePricing.findMany({
+      where: { active: true },
+      include: basePricingInclude,
+      orderBy: [{ bundleId: 'asc' }, { revenueCategory: { code: 'asc' } }, { companyScale: { revenueMin: 'asc' } }],
+    });
+
+    const lines = [
+      BASE_PRICING_CSV_COLUMNS.join(','),
+      ...rows.map((row) =>
+        [
+          row.bundleId,
+          row.bundleName,
+          row.revenueCategory.code,
+          row.companyScale.code,
+          decimal(row.basePrice)!.toFixed(2),
+          row.timelineWeeks,
+          row.description,
+        ]
+          .map(csvField)
+          .join(',')
+      ),
+    ];
+
+    return { csv: `${lines.join('\r\n')}\r\n`, rowCount: rows.length };
+  },
+
+  /**
+   * What importing the rows would change, without changing anything
+   */
+  async previewBasePricingImport(rows: BasePricingImportRow[], retireMissing: boolean) {
+    return describeDiff(await prisma.$transaction((tx) => diffBasePricing(tx, rows, retireMissing)));
+  },
+
+  /**
+   * Apply imported rows in one transaction: new rows are created, changed and retired ones updated (and
+   * restored), and with retireMissing, active rows left out of the file are retired. Each change goes to history
+   */
+  async importBasePricing(rows: BasePricingImportRow[], retireMissing: boolean, changedBy: string) {
+    return prisma.$transaction(
+      async (tx) => {
+        const diff = await diffBasePricing(tx, rows, retireMissing);
+
+        for (const entry of diff.entries) {
+          const { timelineWeeks = null, description = null } = entry.input;
+          const updates = Object.fromEntries(
+            Object.entries(entry.changes).map(([field, change]) => [field, change.to])
+          ) as PricingTableUpdates['base_pricing'];
+
+          if (entry.action === 'create') {
+            const id = await createRow(tx, 'base_pricing', { ...entry.input, timelineWeeks, description });
+            await recordChange(tx, 'base_pricing', 'created', null, await findExistingRow(tx, 'base_pricing', id), changedBy);
+          }
+
+          if (entry.action === 'restore') {
+            const before = await findExistingRow(tx, 'base_pricing', entry.recordId);
+            await setActive(tx, 'base_pricing', entry.recordId, true);
+            await recordChange(tx, 'base_pricing', 'restored', before, await findExistingRow(tx, 'base_pricing', entry.recordId), changedBy);
+          }
+
+          if ((entry.action === 'update' || entry.action === 'restore') && Object.keys(updates).length > 0) {
+            const before = await findExistingRow(tx, 'base_pricing', entry.recordId);
+            await updateRow(tx, 'base_pricing', before, updates);
+            await recordChange(tx, 'base_pricing', 'updated', before, await findExistingRow(tx, 'base_pricing', entry.recordId), changedBy);
+          }
+        }
+
+        for (const entry of diff.missing) {
+          if (entry.action !== 'retire') continue;
+
+          const before = await findExistingRow(tx, 'base_pricing', entry.recordId);
+          await setActive(tx, 'base_pricing', entry.recordId, false);
+          await recordChange(tx, 'base_pricing', 'retired', before, await findExistingRow(tx, 'base_pricing', entry.recordId), changedBy);
+        }
+
+        return describeDiff(diff);
+      },
+      // A full matrix is a few thousand writes, more than the default 5 second transaction allows
+      { timeout: 60_000 }
+    );
+  },
+
+  /**
+   * Changes to the pricing tables, newest first, with who made them
+   */
+  async history(filters: { table?: PricingTable; recordId?: string; limit: number }) {
+    const changes = await prisma.pricingTableChange.findMany({
+      where: {
+        ...(filters.table && { table: filters.table }),
+        ...(filters.recordId && { recordId: filters.recordId }),
+      },
+      orderBy: { changedAt: 'desc' },
+      take: filters.limit,
+    });
+
+    const userIds = [...new Set(changes.map((change) => change.changedBy).filter((userId): userId is string => !!userId))];
+    const users = await prisma.user.findMany({
+      where: { id: { in: userIds } },
+      select: { id: true, email: true },
+    });
+
+    return changes.map((change) => ({
+      ...change,
+      changedBy: users.find((user) => user.id === change.changedBy) ?? (change.changedBy ? { id: change.changedBy, email: null } : null),
+    }));
+  },
+};
@@ -0,0 +1,341 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '../config/database.js';
+import { storageService } from './storageService.js';
+
+// Bumped whenever the shape of the export archive changes
+const EXPORT_FORMAT_VERSION = 2;
+
+// Signed download links in an export stay valid for this many days
+const EXPORT_DOWNLOAD_LINK_DAYS = 1;
+
+interface ErasureOptions {
+  performedBy?: string;
+}
+
+/**
+ * Error raised when personal data cannot be exported or erased
+ * Carries an HTTP status so the global error handler can respond with it
+ */
+export class PrivacyError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = 'PrivacyError';
+  }
+}
+
+export const privacyService = {
+  /**
+   * Collect everything stored about a user into one JSON-serialisable archive
+   * Secrets (OTP hashes, TOTP secrets, refresh tokens) are never included
+   */
+  async exportUserData(userId: string) {
+    const user = await prisma.user.findUnique({ where: { id: userId } });
+
+    if (!user || user.erasedAt) {
+      throw new PrivacyError('User not found', 404);
+    }
+
+    const [
+      identities,
+      sessions,
+      projects,
+      quotes,
+      counterOffers,
+      strategyCalls,
+      auditIdentities,
+      auditManifests,
+      auditSubmissions,
+      uploadedFiles,
+      conversations,
+      otpVerifications,
+      twoFactor,
+      accountMerges,
+      memberships,
+      referralCodes,
+      auditLogs,
+    ] = await Promise.all([
+      prisma.userIdentity.findMany({ where: { userId }, orderBy: { createdAt: 'asc' } }),
+      prisma.authSession.findMany({
+        where: { userId },
+        select: {
+          id: true,
+          deviceName: true,
+          ipAddress: true,
+          userAgent: true,
+          createdAt: true,
+          lastUsedAt: true,
+          expiresAt: true,
+          revokedAt: true,
+          revokedReason: true,
+        },
+        orderBy: { createdAt: 'asc' },
+      }),
+      prisma.projectAssessment.findMany({
+        where: { userId },
+        include: { statusHistory: { orderBy: { createdAt: 'asc' } } },
+        orderBy: { createdAt: 'asc' },
+      }),
+      prisma.projectQuote.findMany({ where: { userId }, orderBy: { createdAt: 'asc' } }),
+      prisma.quoteCounterOffer.findMany({ where: { userId }, orderBy: { createdAt: 'asc' } }),
+      prisma.strategyCall.findMany({ where: { userId }, orderBy: { createdAt: 'asc' } }),
+      prisma.auditIdentity.findMany({ where: { userId }, orderBy: { createdAt: 'asc' } }),
+      prisma.auditManifest.findMany({
+        where: { userId },
+        include: { files: { select: { fileId: true } } },
+        orderBy: { createdAt: 'asc' },
+      }),
+      prisma.auditSubmission.findMany({ where: { userId }, orderBy: { createdAt: 'asc' } }),
+      prisma.uploadedFile.findMany({ where: { userId }, orderBy: { createdAt: 'asc' } }),
+      prisma.conversation.findMany({
+        where: { userId },
+        include: { messages: { select: { role: true, content: true, timestamp: true }, orderBy: { timestamp: 'asc' } } },
+        orderBy: { createdAt: 'asc' },
+      }),
+      prisma.otpVerification.findMany({
+        where: { userId },
+        select: { otpType: true, purpose: true, destination: true, verified: true, createdAt: true },
+        orderBy: { createdAt: 'asc' },
+      }),
+      prisma.userTwoFactor.findUnique({ where: { userId }, select: { enabledAt: true } }),
+      prisma.accountMerge.findMany({ where: { targetUserId: userId }, orderBy: { createdAt: 'asc' } }),
+      prisma.organizationMember.findMany({
+        where: { userId },
+        select: { role: true, createdAt: true, organization: { select: { id: true, name: true } } },
+        orderBy: { createdAt: 'asc' },
+      }),
+      prisma.promoCode.findMany({
+        where: { referrerId: userId },
+        select: { code: true, active: true, redemptionCount: true, createdAt: true },
+        orderBy: { createdAt: 'asc' },
+      }),
+      prisma.auditLog.findMany({ where: { userId }, orderBy: { loggedAt: 'asc' } }),
+    ]);
+
+    // Fresh short-lived links so the archive can be used to fetch the files themselves
+    const files = await Promise.all(
+      uploadedFiles.map(async ({ signedUrl, signedUrlExpiry, ...file }) => {
+        const link = await storageService
+          .regenerateSignedUrl(file.bucketPath, EXPORT_DOWNLOAD_LINK_DAYS)
+          .catch(() => null);
+
+        return {
+          ...file,
+          downloadUrl: link?.signedUrl ?? null,
+          downloadUrlExpiry: link?.signedUrlExpiry ?? null,
+        };
+      })
+    );
+
+    return {
+      formatVersion: EXPORT_FORMAT_VERSION,
+      exportedAt: new Date().toISOString(),
+      user,
+      identities,
+      sessions,
+      twoFactor: { enabled: !!twoFactor?.enabledAt, enabledAt: twoFactor?.enabledAt ?? null },
+      projects,
+      quotes,
+      counterOffers,
+      strategyCalls,
+      audit: {
+        identities: auditIdentities,
+        manifests: auditManifests.map(({ files: manifestFiles, ...manifest }) => ({
+          ...manifest,
+          fileIds: manifestFiles.map((file) => file.fileId),
+        })),
+        submissions: auditSubmissions,
+      },
+      uploadedFiles: files,
+      conversations,
+      otpVerifications,
+      accountMerges,
+      organizations: memberships.map(({ organization, role, createdAt }) => ({ ...organization, role, joinedAt: createdAt })),
+      referralCodes,
+      auditLogs,
+    };
+  },
+
+  /**
+   * Erase a user's personal data
+   *
+   * Stored files are removed from the bucket first; if any cannot be removed nothing
+   * else is touched and the request can simply be retried. Accepted quotes (and their
+   * projects) are kept as business records with free text scrubbed; projects of
+   * organizations the user belonged to stay with those organizations; everything else
+   * the user created is deleted. The user row survives as an anonymous tombstone so
+   * those records and the audit trail keep a valid owner. Audit log entries lose
+   * their IP, user agent and payload, and one minimal `user_erased` entry is written.
+   */
+  async eraseUser(userId: string, options: ErasureOptions = {}) {
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { id: true, email: true, phoneE164: true, erasedAt: true },
+    });
+
+    if (!user || user.erasedAt) {
+      throw new PrivacyError('User not found', 404);
+    }
+
+    // An organization cannot be left without an owner while others still depend on it
+    const ownedOrganizations = await prisma.organization.findMany({
+      where: { members: { some: { userId, role: 'owner' } } },
+      select: {
+        id: true,
+        name: true,
+        members: { where: { userId: { not: userId } }, select: { role: true } },
+      },
+    });
+
+    const orphaned = ownedOrganizations.find(
+      (organization) =>
+        organization.members.length > 0 && !organization.members.some((member) => member.role === 'owner')
+    );
+
+    if (orphaned) {
+      throw new PrivacyError(`Transfer ownership of ${orphaned.name} to another member first`, 409);
+    }
+
+    // Organizations with no other members go with the user; their projects revert to their creators
+    const soleOrganizationIds = ownedOrganizations
+      .filter((organization) => organization.members.length === 0)
+      .map((organization) => organization.id);
+
+    const files = await prisma.uploadedFile.findMany({
+      where: { userId },
+      select: { id: true, bucketPath: true },
+    });
+
+    for (const file of files) {
+      try {
+        await storageService.deleteFile(file.bucketPath);
+      } catch (error) {
+        // Already gone is fine; anything else aborts before the database is changed
+        if (await storageService.fileExists(file.bucketPath)) {
+          console.error(`Erasure: could not delete ${file.bucketPath}:`, error);
+          throw new PrivacyError('Stored files could not be deleted. Please try again later', 502);
+        }
+      }
+    }
+
+    const retainedProjectIds = (
+      await prisma.projectQuote.findMany({
+        where: { userId, status: 'accepted' },
+        select: { projectId: true },
+      })
+    ).map((quote) => quote.projectId);
+
+    const otpDestinations = [user.email, user.phoneE164].filter((value): value is string => !!value);
+    const erasedAt = new Date();
+
+    const removed = await prisma.$transaction(async (tx) => {
+      await tx.organization.deleteMany({ where: { id: { in: soleOrganizationIds } } });
+
+      // Records of organization projects belong to the organization and are left in place
+      const counts = {
+        uploadedFiles: (await tx.uploadedFile.deleteMany({ where: { userId } })).count,
+        auditManifests: (await tx.auditManifest.deleteMany({ where: { userId } })).count,
+        auditSubmissions: (await tx.auditSubmission.deleteMany({ where: { userId } })).count,
+        auditIdentities: (await tx.auditIdentity.deleteMany({ where: { userId } })).count,
+        conversations: (await tx.conversation.deleteMany({ where: { userId } })).count,
+        strategyCalls: (
+          await tx.strategyCall.deleteMany({
+            where: { userId, OR: [{ projectId: null }, { project: { organizationId: null } }] },
+          })
+        ).count,
+        quotes: (
+          await tx.projectQuote.deleteMany({
+            where: { userId, status: { not: 'accepted' }, project: { organizationId: null } },
+          })
+        ).count,
+        projects: (
+          await tx.projectAssessment.deleteMany({
+            where: { userId, organizationId: null, id: { notIn: retainedProjectIds } },
+          })
+        ).count,
+        memberships: (await tx.organizationMember.deleteMany({ where: { userId } })).count,
+        identities: (await tx.userIdentity.deleteMany({ where: { userId } })).count,
+        sessions: (await tx.authSession.deleteMany({ where: { userId } })).count,
+        otpVerifications: (
+          await tx.otpVerification.deleteMany({
+            where: { OR: [{ userId }, { destination: { in: otpDestinations } }] },
+          })
+        ).count,
+      };
+
+      await tx.twoFactorRecoveryCode.deleteMany({ where: { userId } });
+      await tx.userTwoFactor.deleteMany({ where: { userId } });
+      // Referral codes stop working but keep crediting past referrals in reports
+      await tx.promoCode.updateMany({ where: { referrerId: userId }, data: { active: false } });
+
+      await tx.projectAssessment.updateMany({
+        where: { userId, organizationId: null },
+        data: { projectDescription: null, projectScope: Prisma.DbNull },
+      });
+      await tx.projectStatusHistory.updateMany({
+        where: { project: { userId, organizationId: null } },
+        data: { reason: null },
+      });
+      await tx.projectQuote.updateMany({
+        where: { userId, project: { organizationId: null } },
+        data: { metadata: {} },
+      });
+      await tx.quoteCounterOffer.updateMany({
+        where: { userId, quote: { project: { organizationId: null } } },
+        data: { comment: null },
+      });
+      if (user.email) {
+        await tx.organizationInvitation.deleteMany({ where: { email: user.email.toLowerCase() } });
+      }
+
+      await tx.accountMerge.updateMany({
+        where: { OR: [{ targetUserId: userId }, { sourceUserId: userId }] },
+        data: { sourceSnapshot: {} },
+      });
+
+      const auditLogs = await tx.auditLog.updateMany({
+        where: { userId },
+        data: { ipAddress: null, userAgent: null, requestData: Prisma.DbNull },
+      });
+
+      await tx.user.update({
+        where: { id: userId },
+        data: {
+          email: null,
+          emailVerified: false,
+          walletAddress: null,
+          privyUserId: null,
+          phoneE164: null,
+          phoneVerified: false,
+          whatsappVerified: false,
+          businessName: null,
+          authStage: 0,
+          roles: ['user'],
+          permissions: [],
+          metadata: {},
+          erasedAt,
+        },
+      });
+
+      // Minimal record that the erasure happened: who, when, and how much
+      await tx.auditLog.create({
+        data: {
+          userId,
+          action: 'user_erased',
+          entityType: 'user',
+          entityId: userId,
+          requestData: {
+            performedBy: options.performedBy === userId ? 'self' : options.performedBy ?? null,
+            retainedProjects: retainedProjectIds.length,
+            anonymisedAuditLogs: auditLogs.count,
+            ...counts,
+          },
+          responseStatus: 200,
+        },
+      });
+
+      return counts;
+    });
+
+    return { erasedAt, removed, retainedProjects: retainedProjectIds.length };
+  },
+};
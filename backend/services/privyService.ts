@@ -1,17 +1,26 @@
 import { PrivyClient } from '@privy-io/node';
 
-// Initialize Privy client
-const privyAppId = process.env.PRIVY_APP_ID;
-const privyAppSecret = process.env.PRIVY_APP_SECRET;
+// Privy client is created on first use so routes that don't need Privy
+// (e.g. Sign-In With Ethereum) work without Privy credentials
+let privyClient: PrivyClient | null = null;
 
-if (!privyAppId || !privyAppSecret) {
-  throw new Error('PRIVY_APP_ID and PRIVY_APP_SECRET must be set in environment variables');
-}
+export const getPrivyClient = (): PrivyClient => {
+  if (!privyClient) {
+    const privyAppId = process.env.PRIVY_APP_ID;
+    const privyAppSecret = process.env.PRIVY_APP_SECRET;
 
-export const privyClient = new PrivyClient({
-  appId: privyAppId,
-  appSecret: privyAppSecret,
-});
+    if (!privyAppId || !privyAppSecret) {
+      throw new Error('PRIVY_APP_ID and PRIVY_APP_SECRET must be set in environment variables');
+    }
+
+    privyClient = new PrivyClient({
+      appId: privyAppId,
+      appSecret: privyAppSecret,
+    });
+  }
+
+  return privyClient;
+};
 
 export const privyService = {
   /**
@@ -20,8 +29,9 @@ export const privyService = {
    * @returns The verified claims from the token
    */
   async verifyToken(accessToken: string) {
+    const client = getPrivyClient();
     try {
-      const verifiedClaims = await privyClient.utils().auth().verifyAccessToken(accessToken);
+      const verifiedClaims = await client.utils().auth().verifyAccessToken(accessToken);
       return verifiedClaims;
     } catch (error) {
       console.error('Privy token verification error:', error);
@@ -36,7 +46,7 @@ export const privyService = {
    */
   async getUserByDid(userId: string) {
     try {
-      const user = await privyClient.users()._get(userId);
+      const user = await getPrivyClient().users()._get(userId);
       return user;
     } catch (error) {
       console.error('Error fetching Privy user:', error);
@@ -51,7 +61,7 @@ export const privyService = {
    */
   async getUserByWalletAddress(walletAddress: string) {
     try {
-      const user = await privyClient.users().getByWalletAddress({
+      const user = await getPrivyClient().users().getByWalletAddress({
         address: walletAddress,
       });
       return user;
@@ -68,7 +78,7 @@ export const privyService = {
    */
   async getUserByEmail(email: string) {
     try {
-      const user = await privyClient.users().getByEmailAddress({
+      const user = await getPrivyClient().users().getByEmailAddress({
         address: email,
       });
       return user;
@@ -0,0 +1,59 @@
+import { ProjectStatus } from '@prisma/client';
+import { describe, it, expect } from 'vitest';
+import { PROJECT_TRANSITIONS, ProjectTransitionError, projectLifecycleService } from './projectLifecycleService.js';
+
+const STATUSES = Object.keys(PROJECT_TRANSITIONS) as ProjectStatus[];
+const COMMITTED: ProjectStatus[] = ['quote_accepted', 'in_progress', 'completed'];
+
+describe('PROJECT_TRANSITIONS', () => {
+  it('lists every status and only moves to known statuses', () => {
+    expect(STATUSES.sort()).toEqual(Object.values(ProjectStatus).sort());
+
+    for (const targets of Object.values(PROJECT_TRANSITIONS)) {
+      expect(targets.every((status) => STATUSES.includes(status))).toBe(true);
+    }
+  });
+
+  it('never moves back past an accepted quote', () => {
+    for (const from of COMMITTED) {
+      for (const to of PROJECT_TRANSITIONS[from]) {
+        expect(COMMITTED.indexOf(to)).toBeGreaterThan(COMMITTED.indexOf(from));
+      }
+    }
+  });
+
+  it('accepts a quote only from a quoted project or a booked strategy call', () => {
+    const from = STATUSES.filter((status) => PROJECT_TRANSITIONS[status].includes('quote_accepted'));
+
+    expect(from.sort()).toEqual(['quote_generated', 'strategy_call_booked']);
+  });
+
+  it('ends at completed', () => {
+    expect(PROJECT_TRANSITIONS.completed).toEqual([]);
+  });
+});
+
+describe('projectLifecycleService.assertTransition', () => {
+  const project = (status: ProjectStatus, archivedAt: Date | null = null) => ({ status, archivedAt });
+
+  it('allows listed transitions and staying in the same status', () => {
+    expect(() => projectLifecycleService.assertTransition(project('quote_generated'), 'quote_accepted')).not.toThrow();
+    expect(() => projectLifecycleService.assertTransition(project('completed'), 'completed')).not.toThrow();
+  });
+
+  it('rejects unlisted transitions, naming the allowed ones', () => {
+    expect(() => projectLifecycleService.assertTransition(project('in_progress'), 'quote_generated')).toThrow(
+      'Project cannot move from in_progress to quote_generated (allowed: completed)'
+    );
+    expect(() => projectLifecycleService.assertTransition(project('completed'), 'in_progress')).toThrow(
+      'Project cannot move from completed to in_progress (no further changes allowed)'
+    );
+  });
+
+  it('rejects any change to an archived project with a 409', () => {
+    const change = () => projectLifecycleService.assertTransition(project('initiated', new Date()), 'quote_generated');
+
+    expect(change).toThrow(ProjectTransitionError);
+    expect(change).toThrow(expect.objectContaining({ message: 'Project is archived', status: 409 }));
+  });
+});
@@ -0,0 +1,205 @@
+import { Prisma, ProjectStatus } from '@prisma/client';
+import { prisma } from '../config/database.js';
+
+type Tx = Prisma.TransactionClient;
+
+interface TransitionContext {
+  actorId?: string | null;
+  reason?: string | null;
+}
+
+interface LifecycleProject {
+  status: ProjectStatus;
+  archivedAt: Date | null;
+}
+
+/**
+ * Error raised when a project status change is not allowed
+ * Carries an HTTP status so controllers can respond with it
+ */
+export class ProjectTransitionError extends Error {
+  constructor(message: string, public status: number = 409) {
+    super(message);
+    this.name = 'ProjectTransitionError';
+  }
+}
+
+/**
+ * Statuses each project status may move to
+ * Anything not listed here is rejected, so projects can never move backwards
+ * past an accepted quote (a quote that lapses sends the project back to be re-quoted)
+ */
+export const PROJECT_TRANSITIONS: Record<ProjectStatus, ProjectStatus[]> = {
+  initiated: ['assessment_complete', 'quote_generated', 'strategy_call_booked'],
+  assessment_complete: ['quote_generated', 'strategy_call_booked'],
+  quote_generated: ['strategy_call_booked', 'quote_accepted', 'assessment_complete', 'initiated'],
+  strategy_call_booked: ['quote_generated', 'quote_accepted'],
+  quote_accepted: ['in_progress'],
+  in_progress: ['completed'],
+  completed: [],
+};
+
+/**
+ * Preconditions checked inside the transaction that applies the change
+ * Each returns an error message, or null when the project may enter the status
+ */
+const GUARDS: Partial<Record<ProjectStatus, (tx: Tx, projectId: string) => Promise<string | null>>> = {
+  async assessment_complete(tx, projectId) {
+    const project = await tx.projectAssessment.findUnique({
+      where: { id: projectId },
+      select: { projectScope: true, budgetRange: true },
+    });
+
+    return project?.projectScope && project.budgetRange
+      ? null
+      : 'A project scope and budget range are required to complete the assessment';
+  },
+
+  async quote_generated(tx, projectId) {
+    const quote = await tx.projectQuote.findFirst({
+      where: { projectId, status: { in: ['pending', 'sent'] } },
+      select: { id: true },
+    });
+
+    return quote ? null : 'No open quote exists for this project';
+  },
+
+  async strategy_call_booked(tx, projectId) {
+    const call = await tx.strategyCall.findFirst({
+      where: { projectId, status: { in: ['scheduled', 'confirmed'] } },
+      select: { id: true },
+    });
+
+    return call ? null : 'No scheduled strategy call exists for this project';
+  },
+
+  async quote_accepted(tx, projectId) {
+    const quote = await tx.projectQuote.findFirst({
+      where: { projectId, status: 'accepted' },
+      select: { id: true },
+    });
+
+    return quote ? null : 'No accepted quote exists for this project';
+  },
+
+  async in_progress(tx, projectId) {
+    const quote = await tx.projectQuote.findFirst({
+      where: { projectId, status: 'accepted' },
+      select: { id: true },
+    });
+
+    return quote ? null : 'Work cannot start without an accepted quote';
+  },
+};
+
+const applyTransition = async (
+  tx: Tx,
+  projectId: string,
+  to: ProjectStatus,
+  context: TransitionContext
+) => {
+  const project = await tx.projectAssessment.findUnique({ where: { id: projectId } });
+
+  if (!project) {
+    throw new ProjectTransitionError('Project not found', 404);
+  }
+
+  // Re-entering the current status (e.g. a second quote after a decline) is not a change
+  if (project.status === to) {
+    return project;
+  }
+
+  projectLifecycleService.assertTransition(project, to);
+
+  const guardError = await GUARDS[to]?.(tx, projectId);
+
+  if (guardError) {
+    throw new ProjectTransitionError(guardError);
+  }
+
+  // Only move from the status we validated against; a concurrent change loses
+  const { count } = await tx.projectAssessment.updateMany({
+    where: { id: projectId, status: project.status },
+    data: { status: to },
+  });
+
+  if (count === 0) {
+    throw new ProjectTransitionError('Project status changed concurrently. Please retry');
+  }
+
+  await tx.projectStatusHistory.create({
+    data: {
+      projectId,
+      fromStatus: project.status,
+      toStatus: to,
+      actorId: context.actorId ?? null,
+      reason: context.reason ?? null,
+    },
+  });
+
+  return { ...project, status: to };
+};
+
+export const projectLifecycleService = {
+  /**
+   * Whether a project may move directly from one status to another
+   */
+  canTransition(from: ProjectStatus, to: ProjectStatus): boolean {
+    return PROJECT_TRANSITIONS[from].includes(to);
+  },
+
+  /**
+   * Check a transition against the table without touching the database
+   * Used before side effects (calendar events, quote calculation) that should
+   * not happen for a change that will be rejected anyway
+   */
+  assertTransition(project: LifecycleProject, to: ProjectStatus): void {
+    if (project.archivedAt) {
+      throw new ProjectTransitionError('Project is archived');
+    }
+
+    if (project.status !== to && !this.canTransition(project.status, to)) {
+      const allowed = PROJECT_TRANSITIONS[project.status];
+      throw new ProjectTransitionError(
+        `Project cannot move from ${project.status} to ${to}` +
+          (allowed.length > 0 ? ` (allowed: ${allowed.join(', ')})` : ' (no further changes allowed)')
+      );
+    }
+  },
+
+  /**
+   * Move a project to a new status, enforcing the transition table and guards,
+   * and record the change in its status history
+   * Pass a transaction client to apply it together with the change that caused it
+   */
+  async transition(projectId: string, to: ProjectStatus, context: TransitionContext = {}, tx?: Tx) {
+    return tx
+      ? applyTransition(tx, projectId, to, context)
+      : prisma.$transaction((client) => applyTransition(client, projectId, to, context));
+  },
+
+  /**
+   * Record the initial status of a newly created project
+   */
+  async recordCreated(projectId: string, actorId: string | null, tx: Tx = prisma) {
+    await tx.projectStatusHistory.create({
+      data: {
+        projectId,
+        fromStatus: null,
+        toStatus: 'initiated',
+        actorId,
+      },
+    });
+  },
+
+  /**
+   * Status history of a project, oldest first
+   */
+  async getTimeline(projectId: string) {
+    return prisma.projectStatusHistory.findMany({
+      where: { projectId },
+      select: { id: true, fromStatus: true, toStatus: true, actorId: true, reason: true, createdAt: true },
+      orderBy: { createdAt: 'asc' },
+    });
+  },
+};
@@ -0,0 +1,254 @@
+import { ClientTier, DiscountType, Prisma, PromoCode, PromoCodeKind } from '@prisma/client';
+import { prisma } from '../config/database.js';
+
+type Tx = Prisma.TransactionClient;
+
+export const PROMO_CODE_PATTERN = /^[A-Z0-9_-]{3,40}$/;
+
+export interface PromoCodeInput {
+  code: string;
+  kind: PromoCodeKind;
+  description: string | null;
+  discountType: DiscountType;
+  discountValue: number;
+  referrerId: string | null;
+  clientTiers: ClientTier[];
+  maxRedemptions: number | null;
+  expiresAt: Date | null;
+}
+
+// Fields that can change once a code has been handed out
+export type PromoCodeUpdate = Partial<
+  Pick<PromoCodeInput, 'description' | 'discountType' | 'discountValue' | 'clientTiers' | 'maxRedemptions' | 'expiresAt'>
+>;
+
+interface RedeemingProject {
+  id: string;
+  userId: string;
+  clientTier: ClientTier | null;
+}
+
+/**
+ * Error raised when a promo code cannot be applied or managed
+ * Carries an HTTP status so controllers can respond with it
+ */
+export class PromoCodeError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = 'PromoCodeError';
+  }
+}
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+export const normalizePromoCode = (code: string) => code.trim().toUpperCase();
+
+export const serializePromoCode = (promoCode: PromoCode) => ({
+  ...promoCode,
+  discountValue: parseFloat(promoCode.discountValue.toString()),
+});
+
+/**
+ * Amount a code takes off a total (a fixed discount never exceeds the total)
+ */
+export const promoDiscountFor = (
+  promoCode: Pick<PromoCode, 'discountType' | 'discountValue'>,
+  total: number
+): number => {
+  const value = parseFloat(promoCode.discountValue.toString());
+  return promoCode.discountType === 'percentage' ? round((total * value) / 100) : round(Math.min(value, total));
+};
+
+const validateDiscount = (discountType: DiscountType, discountValue: number) => {
+  if (discountType === 'percentage' && discountValue > 100) {
+    throw new PromoCodeError('A percentage discount cannot be more than 100');
+  }
+};
+
+export const promoCodeService = {
+  /**
+   * Check a code can be applied to a project's quote and work out its discount
+   * A project that already redeemed the code may keep using it when re-quoted, even at the cap
+   */
+  async quoteDiscount(code: string, project: RedeemingProject, redeemedBy: string, total: number) {
+    const promoCode = await prisma.promoCode.findUnique({ where: { code: normalizePromoCode(code) } });
+
+    if (!promoCode || !promoCode.active) {
+      throw new PromoCodeError('Promo code not found', 404);
+    }
+
+    if (promoCode.expiresAt && promoCode.expiresAt <= new Date()) {
+      throw new PromoCodeError('Promo code has expired');
+    }
+
+    if (
+      promoCode.clientTiers.length > 0 &&
+      (!project.clientTier || !promoCode.clientTiers.includes(project.clientTier))
+    ) {
+      throw new PromoCodeError('Promo code is not available for this client tier');
+    }
+
+    if (promoCode.referrerId && (promoCode.referrerId === redeemedBy || promoCode.referrerId === project.userId)) {
+      throw new PromoCodeError('Referral codes cannot be used on your own projects');
+    }
+
+    if (promoCode.maxRedemptions !== null && promoCode.redemptionCount >= promoCode.maxRedemptions) {
+      const existing = await prisma.promoRedemption.findUnique({
+        where: { uq_promo_redemptions_code_project: { promoCodeId: promoCode.id, projectId: project.id } },
+        select: { id: true },
+      });
+
+      if (!existing) {
+        throw new PromoCodeError('Promo code has reached its redemption limit', 409);
+      }
+    }
+
+    return { promoCode, discount: promoDiscountFor(promoCode, total) };
+  },
+
+  /**
+   * Record a code's use on a quote; the first use by a project counts towards the cap
+   */
+  async recordRedemption(
+    promoCode: PromoCode,
+    redemption: { projectId: string; quoteId: string; redeemedBy: string; discountAmount: number },
+    tx: Tx
+  ) {
+    const key = { promoCodeId: promoCode.id, projectId: redemption.projectId };
+    const existing = await tx.promoRedemption.findUnique({ where: { uq_promo_redemptions_code_project: key } });
+
+    if (existing) {
+      return tx.promoRedemption.update({
+        where: { id: existing.id },
+        data: { quoteId: redemption.quoteId, discountAmount: redemption.discountAmount },
+      });
+    }
+
+    // The cap is checked in the update itself so concurrent quotes cannot overshoot it
+    const { count } = await tx.promoCode.updateMany({
+      where: {
+        id: promoCode.id,
+        ...(promoCode.maxRedemptions !== null && { redemptionCount: { lt: promoCode.maxRedemptions } }),
+      },
+      data: { redemptionCount: { increment: 1 } },
+    });
+
+    if (count === 0) {
+      throw new PromoCodeError('Promo code has reached its redemption limit', 409);
+    }
+
+    return tx.promoRedemption.create({
+      data: { ...key, ...redemption, referrerId: promoCode.referrerId },
+    });
+  },
+
+  /**
+   * Point a project's redemptions at the revision that replaced their quote
+   */
+  async moveToQuote(fromQuoteId: string, toQuoteId: string, tx: Tx) {
+    await tx.promoRedemption.updateMany({
+      where: { quoteId: fromQuoteId },
+      data: { quoteId: toQuoteId },
+    });
+  },
+
+  async listCodes(filters: { kind?: PromoCodeKind; includeInactive?: boolean }) {
+    const promoCodes = await prisma.promoCode.findMany({
+      where: {
+        ...(filters.kind && { kind: filters.kind }),
+        ...(!filters.includeInactive && { active: true }),
+      },
+      include: { referrer: { select: { id: true, email: true, businessName: true } } },
+      orderBy: [{ active: 'desc' }, { createdAt: 'desc' }],
+    });
+
+    return promoCodes.map(serializePromoCode);
+  },
+
+  async createCode(input: PromoCodeInput, createdBy: string) {
+    validateDiscount(input.discountType, input.discountValue);
+
+    if (input.referrerId) {
+      const referrer = await prisma.user.findUnique({ where: { id: input.referrerId }, select: { erasedAt: true } });
+
+      if (!referrer || referrer.erasedAt) {
+        throw new PromoCodeError('Referrer not found', 404);
+      }
+    }
+
+    const existing = await prisma.promoCode.findUnique({ where: { code: input.code }, select: { id: true } });
+
+    if (existing) {
+      throw new PromoCodeError('A promo code with this code already exists', 409);
+    }
+
+    const promoCode = await prisma.promoCode.create({ data: { ...input, createdBy } });
+    return serializePromoCode(promoCode);
+  },
+
+  /**
+   * Quotes keep the discount they were issued with
+   */
+  async updateCode(promoCodeId: string, input: PromoCodeUpdate) {
+    const existing = await prisma.promoCode.findUnique({ where: { id: promoCodeId } });
+
+    if (!existing) {
+      throw new PromoCodeError('Promo code not found', 404);
+    }
+
+    validateDiscount(
+      input.discountType ?? existing.discountType,
+      input.discountValue ?? parseFloat(existing.discountValue.toString())
+    );
+
+    const promoCode = await prisma.promoCode.update({ where: { id: promoCodeId }, data: input });
+    return serializePromoCode(promoCode);
+  },
+
+  async deactivateCode(promoCodeId: string) {
+    const { count } = await prisma.promoCode.updateMany({
+      where: { id: promoCodeId, active: true },
+      data: { active: false },
+    });
+
+    if (count === 0) {
+      throw new PromoCodeError('Active promo code not found', 404);
+    }
+  },
+
+  /**
+   * Projects brought in by each referrer, how many of them accepted a quote, and what they were worth
+   */
+  async referralReport(since: Date | null) {
+    const redemptions = await prisma.promoRedemption.findMany({
+      where: { referrerId: { not: null }, ...(since && { createdAt: { gte: since } }) },
+      include: {
+        promoCode: { select: { code: true } },
+        quote: { select: { status: true, totalEstimate: true } },
+      },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    const referrerIds = [...new Set(redemptions.map((redemption) => redemption.referrerId!))];
+    const referrers = await prisma.user.findMany({
+      where: { id: { in: referrerIds } },
+      select: { id: true, email: true, businessName: true },
+    });
+
+    return referrerIds.map((referrerId) => {
+      const referred = redemptions.filter((redemption) => redemption.referrerId === referrerId);
+      const accepted = referred.filter((redemption) => redemption.quote?.status === 'accepted');
+
+      return {
+        referrer: referrers.find((referrer) => referrer.id === referrerId) ?? { id: referrerId, email: null, businessName: null },
+        codes: [...new Set(referred.map((redemption) => redemption.promoCode.code))],
+        referredProjects: referred.length,
+        acceptedQuotes: accepted.length,
+        acceptedValue: round(accepted.reduce((total, redemption) => total + Number(redemption.quote!.totalEstimate), 0)),
+        discountGiven: round(accepted.reduce((total, redemption) => total + Number(redemption.discountAmount), 0)),
+        firstReferralAt: referred[0].createdAt,
+        lastReferralAt: referred[referred.length - 1].createdAt,
+      };
+    });
+  },
+};
@@ -0,0 +1,308 @@
+import crypto from 'crypto';
+import { Prisma } from '@prisma/client';
+import { prisma } from '../config/database.js';
+import { renderPdf, PdfBlock } from './pdfService.js';
+import { QuoteInstallment, QuotePaymentTerms } from './paymentTermsService.js';
+
+// Bump when the layout changes so stored hashes can be matched to the renderer that produced them
+export const QUOTE_DOCUMENT_VERSION = 6;
+
+const BRAND_NAME = process.env.FROM_NAME || 'Decensat Design';
+
+const PROJECT_TYPE_LABELS: Record<string, string> = {
+  creative: 'Creative',
+  fullstack: 'Full-stack',
+  web3: 'Web3',
+  ai_automation: 'AI Automation',
+};
+
+const PAYMENT_LABELS: Record<string, string> = {
+  deposit: 'Deposit (due on acceptance)',
+  milestone_1: 'Milestone 1',
+  milestone_2: 'Milestone 2',
+  final: 'Final payment (on delivery)',
+};
+
+/**
+ * Error raised when a quote document cannot be produced
+ * Carries an HTTP status so the global error handler can respond with it
+ */
+export class QuoteDocumentError extends Error {
+  constructor(message: string, public status: number = 404) {
+    super(message);
+    this.name = 'QuoteDocumentError';
+  }
+}
+
+const money = (value: Prisma.Decimal | number) =>
+  `$${Number(value.toString()).toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+// Dates are printed in UTC so the bytes do not depend on the server's timezone
+const day = (date: Date | null) => (date ? date.toISOString().slice(0, 10) : 'To be confirmed');
+
+const label = (key: string) =>
+  PAYMENT_LABELS[key] ?? key.replace(/_/g, ' ').replace(/^\w/, (char) => char.toUpperCase());
+
+const installmentLabel = (installment: QuoteInstallment, milestone: number) =>
+  installment.trigger === 'delivery'
+    ? 'On delivery'
+    : installment.trigger === 'days'
+      ? `Due ${installment.dueInDays} days after acceptance`
+      : `Milestone ${milestone}`;
+
+/**
+ * Payment schedule rows from the quote's stored terms, or its flat payment structure for older quotes
+ */
+const paymentBlocks = (terms: QuotePaymentTerms | null, structure: Record<string, number>): PdfBlock[] => {
+  if (!terms) {
+    return Object.entries(structure).map(([key, amount]) => ({ type: 'row', label: label(key), value: money(amount) }));
+  }
+
+  const blocks: PdfBlock[] = [
+    { type: 'row', label: `Advance, ${terms.advancePercentage}% (due on acceptance)`, value: money(terms.advanceAmount) },
+  ];
+  let milestone = 0;
+
+  for (const installment of terms.installments) {
+    if (installment.trigger === 'milestone') milestone++;
+    blocks.push({
+      type: 'row',
+      label: `${installmentLabel(installment, milestone)}, ${installment.percentage}%`,
+      value: money(installment.amount),
+    });
+  }
+
+  const notes = [
+    terms.remainingTerms,
+    terms.earlyPayDiscount?.enabled &&
+      `${terms.earlyPayDiscount.percentage}% early-payment discount when settled within ${terms.earlyPayDiscount.windowDays} days`,
+    terms.requiresEscrow && 'Payments are held in escrow until delivery is confirmed',
+  ].filter(Boolean);
+
+  if (notes.length > 0) {
+    blocks.push({ type: 'text', text: notes.join('. '), size: 9, color: [0.45, 0.45, 0.45] });
+  }
+
+  return blocks;
+};
+
+export const quoteDocumentService = {
+  /**
+   * Render a quote and its project scope as a PDF
+   * The document contains only the quote's terms and the project brief (not the quote's
+   * status), so the same terms always hash the same before and after acceptance
+   */
+  async render(quoteId: string) {
+    const quote = await prisma.projectQuote.findUnique({
+      where: { id: quoteId },
+      include: {
+        lineItems: { orderBy: { position: 'asc' } },
+        promoCode: { select: { code: true, kind: true } },
+        project: {
+          select: {
+            projectName: true,
+            projectType: true,
+            projectDescription: true,
+            projectScope: true,
+            urgency: true,
+            organization: { select: { name: true } },
+            user: { select: { businessName: true } },
+          },
+        },
+      },
+    });
+
+    if (!quote) {
+      throw new QuoteDocumentError('Quote not found');
+    }
+
+    const { project } = quote;
+    const scope = (project.projectScope ?? {}) as {
+      features?: string[];
+      integrations?: { type: string; name?: string }[];
+      timeline?: string;
+      notes?: string;
+    };
+    const preparedFor = project.organization?.name ?? project.user.businessName;
+
+    const blocks: PdfBlock[] = [
+      { type: 'text', text: project.projectName, bold: true, size: 16 },
+      {
+        type: 'text',
+        text: [
+          `${PROJECT_TYPE_LABELS[project.projectType] ?? project.projectType} project`,
+          `${project.urgency ?? 'standard'} urgency`,
+          preparedFor && `Prepared for ${preparedFor}`,
+        ]
+          .filter(Boolean)
+          .join('  |  '),
+        color: [0.45, 0.45, 0.45],
+      },
+      { type: 'spacer', height: 8 },
+    ];
+
+    if (quote.lineItems.length > 0) {
+      blocks.push({ type: 'heading', text: 'Line items' });
+
+      for (const item of quote.lineItems) {
+        blocks.push({
+          type: 'row',
+          label: `${item.name}${item.quantity > 1 ? ` x ${item.quantity} at ${money(item.unitPrice)}` : ''}, ${item.timelineWeeks} weeks`,
+          value: money(item.lineTotal),
+        });
+
+        if (Number(item.discountAmount) > 0) {
+          blocks.push({
+            type: 'text',
+            text: `Includes ${money(item.discountAmount)} off: ${item.discountReason ?? 'discount'}`,
+            size: 9,
+            color: [0.45, 0.45, 0.45],
+          });
+        }
+      }
+
+      blocks.push({ type: 'spacer' });
+    }
+
+    blocks.push(
+      { type: 'heading', text: 'Investment' },
+      { type: 'row', label: 'Base rate', value: money(quote.baseRate) },
+      { type: 'row', label: 'Company scale adjustment', value: money(quote.scaleAdjustment) },
+      { type: 'row', label: 'Complexity adjustment', value: money(quote.complexityAdjustment) },
+      { type: 'row', label: 'Urgency adjustment', value: money(quote.urgencyAdjustment) }
+    );
+
+    if (Number(quote.discountAmount) > 0) {
+      blocks.push({ type: 'row', label: 'Line item discounts', value: `-${money(quote.discountAmount)}` });
+    }
+
+    if (Number(quote.ruleAdjustment) !== 0) {
+      blocks.push({ type: 'row', label: 'Pricing adjustments', value: money(quote.ruleAdjustment) });
+    }
+
+    if (Number(quote.promoDiscount) > 0) {
+      blocks.push({
+        type: 'row',
+        label: `${quote.promoCode?.kind === 'referral' ? 'Referral' : 'Promo'} code${quote.promoCode ? ` ${quote.promoCode.code}` : ''}`,
+        value: `-${money(quote.promoDiscount)}`,
+      });
+    }
+
+    const adjustment = Number((quote.metadata as Record<string, unknown>)?.negotiatedAdjustment ?? 0);
+
+    if (adjustment) {
+      blocks.push({ type: 'row', label: 'Negotiated adjustment', value: money(adjustment) });
+    }
+
+    blocks.push(
+      { type: 'rule' },
+      { type: 'row', label: 'Total estimate', value: money(quote.totalEstimate), bold: true },
+      { type: 'row', label: 'Not to exceed (guaranteed ceiling)', value: money(quote.notToExceed), bold: true },
+      { type: 'spacer' }
+    );
+
+    const payments = paymentBlocks(
+      quote.paymentTerms as QuotePaymentTerms | null,
+      (quote.paymentStructure ?? {}) as Record<string, number>
+    );
+
+    if (payments.length > 0) {
+      blocks.push({ type: 'heading', text: 'Payment schedule' }, ...payments, { type: 'spacer' });
+    }
+
+    blocks.push(
+      { type: 'heading', text: 'Timeline' },
+      {
+        type: 'row',
+        label: 'Estimated duration',
+        value: quote.estimatedTimelineWeeks ? `${quote.estimatedTimelineWeeks} weeks` : 'To be confirmed',
+      },
+      { type: 'row', label: 'Target delivery', value: day(quote.deliveryDate) },
+      { type: 'row', label: 'Quote valid until', value: day(quote.validUntil) },
+      { type: 'spacer' },
+      { type: 'heading', text: 'Project scope' }
+    );
+
+    if (project.projectDescription) {
+      blocks.push({ type: 'text', text: project.projectDescription }, { type: 'spacer', height: 6 });
+    }
+
+    if (scope.features?.length) {
+      blocks.push({ type: 'text', text: 'Features', bold: true });
+      for (const feature of scope.features) {
+        blocks.push({ type: 'text', text: `-  ${feature}` });
+      }
+      blocks.push({ type: 'spacer', height: 6 });
+    }
+
+    if (scope.integrations?.length) {
+      blocks.push({ type: 'text', text: 'Integrations', bold: true });
+      for (const integration of scope.integrations) {
+        blocks.push({
+          type: 'text',
+          text: `-  ${integration.name ? `${integration.name} (${integration.type})` : integration.type}`,
+        });
+      }
+      blocks.push({ type: 'spacer', height: 6 });
+    }
+
+    if (scope.notes) {
+      blocks.push({ type: 'text', text: 'Notes', bold: true }, { type: 'text', text: scope.notes });
+    }
+
+    if (!project.projectDescription && !scope.features?.length && !scope.integrations?.length && !scope.notes) {
+      blocks.push({ type: 'text', text: 'Scope to be finalised during the strategy call.' });
+    }
+
+    blocks.push(
+      { type: 'spacer', height: 16 },
+      {
+        type: 'text',
+        text:
+          'The total will not exceed the guaranteed ceiling above unless the scope changes in writing. ' +
+          'This quote can be accepted online until the validity date.',
+        size: 8,
+        color: [0.45, 0.45, 0.45],
+      }
+    );
+
+    const reference = `Q-${quote.id.slice(0, 8).toUpperCase()}-R${quote.revision}`;
+
+    const buffer = renderPdf(blocks, {
+      title: `${project.projectName} - Quote ${reference}`,
+      author: BRAND_NAME,
+      createdAt: quote.createdAt,
+      headerTitle: 'Project Quote',
+      headerSubtitle: `${reference}  |  Issued ${day(quote.createdAt)}`,
+      footer: `${BRAND_NAME}  |  Quote ${quote.id}  |  Revision ${quote.revision}`,
+    });
+
+    return {
+      buffer,
+      sha256: crypto.createHash('sha256').update(buffer).digest('hex'),
+      filename: `quote-${reference.toLowerCase()}.pdf`,
+      quote,
+    };
+  },
+
+  /**
+   * Remember the hash of the latest rendering in the quote's metadata
+   */
+  async recordRendered(quoteId: string, metadata: Prisma.JsonValue, sha256: string) {
+    const current = (metadata ?? {}) as Record<string, any>;
+
+    if (current.document?.sha256 === sha256 && current.document?.version === QUOTE_DOCUMENT_VERSION) {
+      return;
+    }
+
+    await prisma.projectQuote.update({
+      where: { id: quoteId },
+      data: {
+        metadata: {
+          ...current,
+          document: { sha256, version: QUOTE_DOCUMENT_VERSION, renderedAt: new Date().toISOString() },
+        },
+      },
+    });
+  },
+};
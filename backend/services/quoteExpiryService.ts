@@ -0,0 +1,286 @@
+import { Prisma, ProjectStatus } from '@prisma/client';
+import { prisma } from '../config/database.js';
+import { getMessageProvider } from './messageProviders.js';
+import { projectLifecycleService } from './projectLifecycleService.js';
+import { quoteRevisionService } from './quoteRevisionService.js';
+
+const FRONTEND_URL = process.env.FRONTEND_URL || 'http://localhost:3000';
+const INTERVAL_MINUTES = parseInt(process.env.QUOTE_EXPIRY_INTERVAL_MINUTES || '60');
+const BATCH_SIZE = 100;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Days before validUntil at which the client is reminded, e.g. "7,1"
+const REMINDER_DAYS = (process.env.QUOTE_REMINDER_DAYS || '7,1')
+  .split(',')
+  .map((value) => parseInt(value.trim()))
+  .filter((value) => value > 0)
+  .sort((a, b) => a - b);
+
+export interface QuoteExpiryRun {
+  expired: number;
+  projectsReopened: number;
+  remindersSent: number;
+  reminderFailures: number;
+}
+
+type Tx = Prisma.TransactionClient;
+
+let timer: NodeJS.Timeout | null = null;
+let running = false;
+
+const logSystemEvent = (action: string, quoteId: string, requestData: object) =>
+  prisma.auditLog.create({
+    data: {
+      action,
+      entityType: 'quote',
+      entityId: quoteId,
+      requestData,
+      responseStatus: 200,
+    },
+  });
+
+/**
+ * Where a project goes back to once its last open quote lapses
+ * A booked call still stands; otherwise it returns to the assessment stage it had reached
+ */
+const fallbackStatus = async (projectId: string, tx: Tx): Promise<ProjectStatus> => {
+  const call = await tx.strategyCall.findFirst({
+    where: { projectId, status: { in: ['scheduled', 'confirmed'] } },
+    select: { id: true },
+  });
+
+  if (call) return 'strategy_call_booked';
+
+  const project = await tx.projectAssessment.findUnique({
+    where: { id: projectId },
+    select: { projectScope: true, budgetRange: true },
+  });
+
+  return project?.projectScope && project.budgetRange ? 'assessment_complete' : 'initiated';
+};
+
+/**
+ * People who decide on a quote: the project owner, or an organization's owners and billing members
+ */
+const reminderRecipients = async (quote: {
+  userId: string;
+  project: { userId: string; organizationId: string | null };
+}): Promise<string[]> => {
+  const users = quote.project.organizationId
+    ? await prisma.user.findMany({
+        where: {
+          memberships: {
+            some: { organizationId: quote.project.organizationId, role: { in: ['owner', 'billing'] } },
+          },
+        },
+        select: { email: true, emailVerified: true },
+      })
+    : await prisma.user.findMany({
+        where: { id: quote.project.userId },
+        select: { email: true, emailVerified: true },
+      });
+
+  return users.filter((user) => user.email && user.emailVerified).map((user) => user.email!);
+};
+
+export const quoteExpiryService = {
+  /**
+   * Expire open quotes past their validity date and move their projects back
+   * Each quote is claimed with a conditional update, so concurrent runs on several
+   * instances never expire the same quote twice
+   */
+  async expireStaleQuotes(): Promise<Pick<QuoteExpiryRun, 'expired' | 'projectsReopened'>> {
+    const now = new Date();
+    let expired = 0;
+    let projectsReopened = 0;
+
+    const stale = await prisma.projectQuote.findMany({
+      where: { status: { in: ['pending', 'sent'] }, validUntil: { lt: now } },
+      select: { id: true, projectId: true, validUntil: true },
+      orderBy: { validUntil: 'asc' },
+      take: BATCH_SIZE,
+    });
+
+    for (const quote of stale) {
+      const reopenedTo = await prisma.$transaction(async (tx) => {
+        const { count } = await tx.projectQuote.updateMany({
+          where: { id: quote.id, status: { in: ['pending', 'sent'] } },
+          data: { status: 'expired', expiredAt: now },
+        });
+
+        if (count === 0) return undefined;
+
+        await quoteRevisionService.withdrawOpenCounterOffers(quote.id, tx);
+
+        const project = await tx.projectAssessment.findUnique({
+          where: { id: quote.projectId },
+          select: { status: true, archivedAt: true },
+        });
+
+        const stillOpen = await tx.projectQuote.count({
+          where: { projectId: quote.projectId, status: { in: ['pending', 'sent'] } },
+        });
+
+        // Only a project waiting on this quote moves; later stages are left alone
+        if (!project || project.archivedAt || project.status !== 'quote_generated' || stillOpen > 0) {
+          return null;
+        }
+
+        const to = await fallbackStatus(quote.projectId, tx);
+        await projectLifecycleService.transition(
+          quote.projectId,
+          to,
+          { actorId: null, reason: `Quote ${quote.id} expired` },
+          tx
+        );
+
+        return to;
+      });
+
+      if (reopenedTo === undefined) continue;
+
+      expired++;
+      if (reopenedTo) projectsReopened++;
+
+      await logSystemEvent('quote_expired', quote.id, {
+        projectId: quote.projectId,
+        validUntil: quote.validUntil,
+        projectStatus: reopenedTo,
+      });
+    }
+
+    return { expired, projectsReopened };
+  },
+
+  /**
+   * Email "expiring in N days" reminders for open quotes
+   * Each threshold is sent at most once per quote; a quote that is already closer to
+   * expiry than a larger threshold only gets the nearest one
+   */
+  async sendExpiryReminders(): Promise<Pick<QuoteExpiryRun, 'remindersSent' | 'reminderFailures'>> {
+    let remindersSent = 0;
+    let reminderFailures = 0;
+
+    if (REMINDER_DAYS.length === 0) {
+      return { remindersSent, reminderFailures };
+    }
+
+    const now = new Date();
+    const horizon = new Date(now.getTime() + REMINDER_DAYS[REMINDER_DAYS.length - 1] * DAY_MS);
+
+    const expiring = await prisma.projectQuote.findMany({
+      where: { status: { in: ['pending', 'sent'] }, validUntil: { gte: now, lte: horizon } },
+      select: {
+        id: true,
+        userId: true,
+        validUntil: true,
+        remindersSent: true,
+        totalEstimate: true,
+        project: { select: { userId: true, organizationId: true, projectName: true } },
+      },
+      orderBy: { validUntil: 'asc' },
+      take: BATCH_SIZE,
+    });
+
+    const provider = getMessageProvider('email');
+
+    for (const quote of expiring) {
+      const daysLeft = Math.ceil((quote.validUntil.getTime() - now.getTime()) / DAY_MS);
+      const threshold = REMINDER_DAYS.find((days) => daysLeft <= days);
+
+      if (threshold === undefined || quote.remindersSent.includes(threshold)) continue;
+
+      // Claim this reminder before sending so no other instance sends it too
+      const { count } = await prisma.projectQuote.updateMany({
+        where: { id: quote.id, status: { in: ['pending', 'sent'] }, NOT: { remindersSent: { has: threshold } } },
+        data: { remindersSent: { push: threshold } },
+      });
+
+      if (count === 0) continue;
+
+      const recipients = await reminderRecipients(quote);
+      const validUntil = quote.validUntil.toISOString().slice(0, 10);
+      const dayLabel = daysLeft === 1 ? '1 day' : `${daysLeft} days`;
+      let delivered = 0;
+
+      for (const to of recipients) {
+        try {
+          await provider.send({
+            channel: 'email',
+            to,
+            subject: `Your quote for ${quote.project.projectName} expires in ${dayLabel}`,
+            text:
+              `Your quote for ${quote.project.projectName} is valid until ${validUntil}. ` +
+              `Review, accept or request changes before then: ${FRONTEND_URL}/quotes/${quote.id}`,
+          });
+          delivered++;
+        } catch (error) {
+          console.error(`Error sending quote reminder via ${provider.name}:`, error);
+        }
+      }
+
+      if (recipients.length > 0 && delivered === 0) {
+        // Release only this claim so the next run retries; other thresholds recorded meanwhile stay
+        await prisma.$executeRaw`
+          UPDATE project_quotes
+          SET reminders_sent = array_remove(reminders_sent, ${threshold})
+          WHERE id = ${quote.id}::uuid
+        `;
+        reminderFailures++;
+        continue;
+      }
+
+      remindersSent++;
+      await logSystemEvent('quote_expiry_reminder_sent', quote.id, {
+        daysLeft,
+        threshold,
+        recipients: recipients.length,
+      });
+    }
+
+    return { remindersSent, reminderFailures };
+  },
+
+  /**
+   * One pass of the scheduler: expire first so lapsed quotes get no reminder
+   */
+  async run(): Promise<QuoteExpiryRun> {
+    const expiry = await this.expireStaleQuotes();
+    const reminders = await this.sendExpiryReminders();
+    return { ...expiry, ...reminders };
+  },
+
+  /**
+   * Run on an interval in this process (disable with QUOTE_EXPIRY_INTERVAL_MINUTES=0,
+   * e.g. when an external cron calls POST /api/admin/quotes/expiry/run instead)
+   */
+  start(): void {
+    if (timer || INTERVAL_MINUTES <= 0) return;
+
+    const tick = async () => {
+      if (running) return;
+      running = true;
+
+      try {
+        const result = await this.run();
+        if (result.expired || result.remindersSent || result.reminderFailures) {
+          console.log('Quote expiry run:', result);
+        }
+      } catch (error) {
+        console.error('Quote expiry run error:', error);
+      } finally {
+        running = false;
+      }
+    };
+
+    timer = setInterval(tick, INTERVAL_MINUTES * 60 * 1000);
+    // Do not keep the process alive just for the scheduler
+    timer.unref();
+    void tick();
+  },
+
+  stop(): void {
+    if (timer) clearInterval(timer);
+    timer = null;
+  },
+};
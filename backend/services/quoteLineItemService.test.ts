@@ -0,0 +1,86 @@
+import { describe, it, expect } from 'vitest';
+import { MAX_LINE_QUANTITY, buildLineItems, parseBundleSelection } from './quoteLineItemService.js';
+
+type PricedLine = Parameters<typeof buildLineItems>[1][number];
+
+// A priced bundle with only the fields line items are built from
+const line = (bundleId: string, quantity: number, finalPrice: number, timelineWeeks: number | null = 4): PricedLine =>
+  ({
+    bundleId,
+    quantity,
+    pricing: {
+      finalPrice,
+      complexityAdjustment: 1,
+      breakdown: { base: finalPrice, scaleAdjustment: 0, complexityAdjustment: 0, urgencyAdjustment: 0 },
+      resolved: { basePricingId: `bp_${bundleId}`, bundleName: bundleId, timelineWeeks },
+    },
+  }) as unknown as PricedLine;
+
+describe('buildLineItems', () => {
+  it('charges every unit when the cart has fewer than four', () => {
+    const { lineItems, totals } = buildLineItems('fullstack', [line('core', 3, 1000)]);
+
+    expect(lineItems[0]).toMatchObject({ quantity: 3, discountAmount: 0, discountReason: null, lineTotal: 3000 });
+    expect(totals).toMatchObject({ baseRate: 3000, discountAmount: 0, totalEstimate: 3000 });
+  });
+
+  it('makes every fourth unit free, counting units in price order across lines', () => {
+    const { lineItems, totals } = buildLineItems('fullstack', [
+      line('cheap', 2, 100),
+      line('premium', 3, 1000),
+      line('mid', 3, 500),
+    ]);
+
+    // Units by price: 1000 1000 1000 [500] 500 500 100 [100]
+    expect(lineItems.map(({ discountAmount, lineTotal }) => [discountAmount, lineTotal])).toEqual([
+      [100, 100],
+      [0, 3000],
+      [500, 1000],
+    ]);
+    expect(lineItems[0].discountReason).toBe('443 collateral (every 4th item free)');
+    expect(totals).toMatchObject({ baseRate: 4700, discountAmount: 600, totalEstimate: 4100 });
+  });
+
+  it('gives a line several free units when it fills several intervals', () => {
+    const { lineItems } = buildLineItems('fullstack', [line('core', 9, 250)]);
+
+    expect(lineItems[0]).toMatchObject({ discountAmount: 500, lineTotal: 1750 });
+  });
+
+  it('breaks price ties in cart order', () => {
+    const { lineItems } = buildLineItems('fullstack', [line('first', 2, 300), line('second', 2, 300)]);
+
+    expect(lineItems.map(({ discountAmount }) => discountAmount)).toEqual([0, 300]);
+  });
+
+  it('numbers lines and takes the longest line as the timeline', () => {
+    const { lineItems, estimatedTimelineWeeks } = buildLineItems('web3', [line('core', 1, 100, 3), line('audit', 1, 100, null)]);
+
+    expect(lineItems.map(({ position, timelineWeeks }) => [position, timelineWeeks])).toEqual([
+      [1, 3],
+      [2, 12],
+    ]);
+    expect(estimatedTimelineWeeks).toBe(12);
+  });
+});
+
+describe('parseBundleSelection', () => {
+  it('merges repeated bundles and caps their quantity', () => {
+    expect(
+      parseBundleSelection([
+        { bundleId: ' core ' },
+        { bundleId: 'core', quantity: MAX_LINE_QUANTITY },
+        { bundleId: 'audit', quantity: 2 },
+      ])
+    ).toEqual([
+      { bundleId: 'core', quantity: MAX_LINE_QUANTITY },
+      { bundleId: 'audit', quantity: 2 },
+    ]);
+  });
+
+  it('rejects empty carts and unusable quantities', () => {
+    expect(parseBundleSelection([])).toMatch(/^items must be a list/);
+    expect(parseBundleSelection([{ bundleId: 'core', quantity: 1.5 }])).toMatch(/^quantity must be a whole number/);
+    expect(parseBundleSelection([{ quantity: 1 }])).toBe('Each item needs a bundleId of at most 100 characters');
+  });
+});
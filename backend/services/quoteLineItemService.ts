@@ -0,0 +1,152 @@
+import { Prisma, ProjectType, QuoteLineItem } from '@prisma/client';
+import { prisma } from '../config/database.js';
+import { BundleSelection, pricingService } from './pricingService.js';
+
+type Tx = Prisma.TransactionClient;
+type PricedBundle = Awaited<ReturnType<typeof pricingService.priceBundles>>['lines'][number];
+
+// "Not to Exceed" guarantee: 15% buffer over the estimate
+export const NOT_TO_EXCEED_MULTIPLIER = 1.15;
+
+export const MAX_LINE_ITEMS = 20;
+export const MAX_LINE_QUANTITY = 100;
+
+// 443 collateral: every 4th unit in the cart, most expensive first, is free
+export const COLLATERAL_FREE_INTERVAL = 4;
+const COLLATERAL_DISCOUNT_REASON = '443 collateral (every 4th item free)';
+
+// Base timeline (weeks) by project type for bundles without their own, stretched by the complexity tier's multiplier
+export const BASE_TIMELINE_WEEKS: Record<ProjectType, number> = {
+  creative: 4,
+  fullstack: 8,
+  web3: 12,
+  ai_automation: 10,
+};
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Validate the items of a cart checkout, merging repeated bundles into one line
+ * Returns an error message when the items are not usable
+ */
+export const parseBundleSelection = (items: unknown): BundleSelection[] | string => {
+  if (!Array.isArray(items) || items.length === 0 || items.length > MAX_LINE_ITEMS) {
+    return `items must be a list of 1 to ${MAX_LINE_ITEMS} bundles`;
+  }
+
+  const selection: BundleSelection[] = [];
+
+  for (const item of items) {
+    const quantity = item?.quantity ?? 1;
+
+    if (typeof item?.bundleId !== 'string' || !item.bundleId.trim() || item.bundleId.length > 100) {
+      return 'Each item needs a bundleId of at most 100 characters';
+    }
+
+    if (!Number.isInteger(quantity) || quantity < 1 || quantity > MAX_LINE_QUANTITY) {
+      return `quantity must be a whole number between 1 and ${MAX_LINE_QUANTITY}`;
+    }
+
+    const bundleId = item.bundleId.trim();
+    const existing = selection.find((line) => line.bundleId === bundleId);
+
+    if (existing) {
+      existing.quantity = Math.min(existing.quantity + quantity, MAX_LINE_QUANTITY);
+    } else {
+      selection.push({ bundleId, quantity });
+    }
+  }
+
+  return selection;
+};
+
+/**
+ * Line items and quote totals for priced bundles
+ * The quote's breakdown is the sum of its lines, less their discounts; the bundles are
+ * delivered in parallel, so the quote takes as long as its longest line
+ */
+export const buildLineItems = (projectType: ProjectType, lines: PricedBundle[]) => {
+  // Units in price order (stable, so equal prices keep cart order) decide which are free
+  const units = lines
+    .flatMap((line, index) => Array.from({ length: line.quantity }, () => ({ index, price: line.pricing.finalPrice })))
+    .sort((a, b) => b.price - a.price);
+  const freeUnits = lines.map(() => 0);
+
+  units.forEach((unit, position) => {
+    if ((position + 1) % COLLATERAL_FREE_INTERVAL === 0) freeUnits[unit.index]++;
+  });
+
+  const lineItems = lines.map(({ bundleId, quantity, pricing }, index) => {
+    const discountAmount = round(pricing.finalPrice * freeUnits[index]);
+
+    return {
+      position: index + 1,
+      bundleId,
+      basePricingId: pricing.resolved.basePricingId,
+      name: pricing.resolved.bundleName,
+      quantity,
+      unitPrice: pricing.finalPrice,
+      discountAmount,
+      discountReason: discountAmount > 0 ? COLLATERAL_DISCOUNT_REASON : null,
+      lineTotal: round(pricing.finalPrice * quantity - discountAmount),
+      timelineWeeks: Math.ceil(
+        (pricing.resolved.timelineWeeks ?? BASE_TIMELINE_WEEKS[projectType] ?? 6) * pricing.complexityAdjustment
+      ),
+    };
+  });
+
+  const sum = (value: (line: PricedBundle) => number) =>
+    round(lines.reduce((total, line) => total + value(line) * line.quantity, 0));
+
+  return {
+    lineItems,
+    totals: {
+      baseRate: sum((line) => line.pricing.breakdown.base),
+      scaleAdjustment: sum((line) => line.pricing.breakdown.scaleAdjustment),
+      complexityAdjustment: sum((line) => line.pricing.breakdown.complexityAdjustment),
+      urgencyAdjustment: sum((line) => line.pricing.breakdown.urgencyAdjustment),
+      discountAmount: round(lineItems.reduce((total, line) => total + line.discountAmount, 0)),
+      totalEstimate: round(lineItems.reduce((total, line) => total + line.lineTotal, 0)),
+    },
+    estimatedTimelineWeeks: Math.max(...lineItems.map((line) => line.timelineWeeks)),
+  };
+};
+
+/**
+ * Line item with its decimal amounts as numbers, as returned by the API
+ */
+export const serializeLineItem = (lineItem: QuoteLineItem) => ({
+  ...lineItem,
+  unitPrice: parseFloat(lineItem.unitPrice.toString()),
+  discountAmount: parseFloat(lineItem.discountAmount.toString()),
+  lineTotal: parseFloat(lineItem.lineTotal.toString()),
+});
+
+export const quoteLineItemService = {
+  /**
+   * Carry a quote's line items over to a new revision of it and return the copies
+   */
+  async copyToRevision(fromQuoteId: string, toQuoteId: string, tx: Tx = prisma) {
+    const lineItems = await tx.quoteLineItem.findMany({
+      where: { quoteId: fromQuoteId },
+      select: {
+        position: true,
+        bundleId: true,
+        basePricingId: true,
+        name: true,
+        quantity: true,
+        unitPrice: true,
+        discountAmount: true,
+        discountReason: true,
+        lineTotal: true,
+        timelineWeeks: true,
+      },
+    });
+
+    await tx.quoteLineItem.createMany({
+      data: lineItems.map((lineItem) => ({ ...lineItem, quoteId: toQuoteId })),
+    });
+
+    return tx.quoteLineItem.findMany({ where: { quoteId: toQuoteId }, orderBy: { position: 'asc' } });
+  },
+};
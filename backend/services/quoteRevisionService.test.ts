@@ -0,0 +1,67 @@
+import { Prisma, ProjectQuote } from '@prisma/client';
+import { describe, it, expect } from 'vitest';
+import { diffQuotes } from './quoteRevisionService.js';
+
+// A revision with only the fields that are compared
+const quote = (overrides: Partial<ProjectQuote> = {}): ProjectQuote =>
+  ({
+    id: 'quote_1',
+    revision: 1,
+    status: 'sent',
+    baseRate: new Prisma.Decimal('1000.00'),
+    scaleAdjustment: new Prisma.Decimal('0.00'),
+    complexityAdjustment: new Prisma.Decimal('150.00'),
+    urgencyAdjustment: new Prisma.Decimal('0.00'),
+    discountAmount: new Prisma.Decimal('0.00'),
+    promoDiscount: new Prisma.Decimal('0.00'),
+    totalEstimate: new Prisma.Decimal('1150.00'),
+    notToExceed: new Prisma.Decimal('1322.50'),
+    estimatedTimelineWeeks: 8,
+    deliveryDate: null,
+    validUntil: new Date('2026-11-18T00:00:00.000Z'),
+    paymentStructure: { deposit: 575, final: 575 },
+    ...overrides,
+  }) as ProjectQuote;
+
+describe('diffQuotes', () => {
+  it('reports no changes between equal revisions', () => {
+    const diff = diffQuotes(quote(), quote({ id: 'quote_2', revision: 2, status: 'pending' }));
+
+    expect(diff).toEqual({
+      from: { id: 'quote_1', revision: 1, status: 'sent' },
+      to: { id: 'quote_2', revision: 2, status: 'pending' },
+      changes: [],
+    });
+  });
+
+  it('compares decimal amounts and dates by value', () => {
+    const to = quote({
+      totalEstimate: new Prisma.Decimal('1150'),
+      notToExceed: new Prisma.Decimal('1200.00'),
+      validUntil: new Date('2026-11-20T00:00:00.000Z'),
+      deliveryDate: new Date('2027-01-15T00:00:00.000Z'),
+    });
+
+    expect(diffQuotes(quote(), to).changes).toEqual([
+      { field: 'notToExceed', from: 1322.5, to: 1200 },
+      { field: 'deliveryDate', from: null, to: '2027-01-15T00:00:00.000Z' },
+      { field: 'validUntil', from: '2026-11-18T00:00:00.000Z', to: '2026-11-20T00:00:00.000Z' },
+    ]);
+  });
+
+  it('compares payment structure entries one by one', () => {
+    const to = quote({ paymentStructure: { deposit: 500, milestone_1: 325, final: 575 } });
+
+    expect(diffQuotes(quote(), to).changes).toEqual([
+      { field: 'paymentStructure.deposit', from: 575, to: 500 },
+      { field: 'paymentStructure.milestone_1', from: null, to: 325 },
+    ]);
+  });
+
+  it('treats a missing payment structure as empty', () => {
+    expect(diffQuotes(quote({ paymentStructure: null }), quote()).changes).toEqual([
+      { field: 'paymentStructure.deposit', from: null, to: 575 },
+      { field: 'paymentStructure.final', from: null, to: 575 },
+    ]);
+  });
+});
@@ -0,0 +1,368 @@
+import { CounterOfferStatus, Prisma, ProjectQuote, QuoteLineItem } from '@prisma/client';
+import { prisma } from '../config/database.js';
+import { pricingOverrideService } from './pricingOverrideService.js';
+import { paymentTermsService } from './paymentTermsService.js';
+import { quoteLineItemService, serializeLineItem, NOT_TO_EXCEED_MULTIPLIER } from './quoteLineItemService.js';
+import { promoCodeService } from './promoCodeService.js';
+
+type Tx = Prisma.TransactionClient;
+
+const QUOTE_VALIDITY_DAYS = 30;
+
+// Quotes that can still be accepted, declined, countered or revised
+const OPEN_QUOTE_STATUSES: Prisma.EnumQuoteStatusFilter = { in: ['pending', 'sent'] };
+
+// Fields compared between two revisions
+const DIFF_FIELDS = [
+  'baseRate',
+  'scaleAdjustment',
+  'complexityAdjustment',
+  'urgencyAdjustment',
+  'discountAmount',
+  'promoDiscount',
+  'totalEstimate',
+  'notToExceed',
+  'estimatedTimelineWeeks',
+  'deliveryDate',
+  'validUntil',
+] as const;
+
+interface CounterOfferInput {
+  proposedTotal?: number | null;
+  proposedTimelineWeeks?: number | null;
+  comment: string;
+}
+
+interface RevisionInput {
+  totalEstimate?: number;
+  notToExceed?: number;
+  estimatedTimelineWeeks?: number;
+  comment?: string | null;
+}
+
+/**
+ * Error raised when a counter-offer or revision is not allowed
+ * Carries an HTTP status so controllers can respond with it
+ */
+export class QuoteRevisionError extends Error {
+  constructor(message: string, public status: number = 409) {
+    super(message);
+    this.name = 'QuoteRevisionError';
+  }
+}
+
+const toNumber = (value: Prisma.Decimal | null) => (value === null ? null : parseFloat(value.toString()));
+
+/**
+ * Quote with its decimal amounts as numbers, as returned by the API (line items too, when loaded)
+ */
+export const serializeQuote = <T extends ProjectQuote & { lineItems?: QuoteLineItem[] }>(quote: T) => ({
+  ...quote,
+  baseRate: parseFloat(quote.baseRate.toString()),
+  scaleAdjustment: parseFloat(quote.scaleAdjustment.toString()),
+  complexityAdjustment: parseFloat(quote.complexityAdjustment.toString()),
+  urgencyAdjustment: parseFloat(quote.urgencyAdjustment.toString()),
+  discountAmount: parseFloat(quote.discountAmount.toString()),
+  promoDiscount: parseFloat(quote.promoDiscount.toString()),
+  ruleAdjustment: parseFloat(quote.ruleAdjustment.toString()),
+  totalEstimate: parseFloat(quote.totalEstimate.toString()),
+  notToExceed: parseFloat(quote.notToExceed.toString()),
+  ...(quote.lineItems && { lineItems: quote.lineItems.map(serializeLineItem) }),
+});
+
+export const serializeCounterOffer = <T extends { proposedTotal: Prisma.Decimal | null }>(counterOffer: T) => ({
+  ...counterOffer,
+  proposedTotal: toNumber(counterOffer.proposedTotal),
+});
+
+const comparable = (value: unknown) =>
+  value instanceof Date ? value.toISOString() : value instanceof Prisma.Decimal ? parseFloat(value.toString()) : value;
+
+/**
+ * Field-by-field changes between two revisions of a quote
+ * Payment structure entries are compared individually (e.g. paymentStructure.deposit)
+ */
+export const diffQuotes = (from: ProjectQuote, to: ProjectQuote) => {
+  const changes: { field: string; from: unknown; to: unknown }[] = [];
+
+  for (const field of DIFF_FIELDS) {
+    const before = comparable(from[field]);
+    const after = comparable(to[field]);
+
+    if (before !== after) {
+      changes.push({ field, from: before ?? null, to: after ?? null });
+    }
+  }
+
+  const beforePayments = (from.paymentStructure ?? {}) as Record<string, unknown>;
+  const afterPayments = (to.paymentStructure ?? {}) as Record<string, unknown>;
+
+  for (const key of new Set([...Object.keys(beforePayments), ...Object.keys(afterPayments)])) {
+    if (beforePayments[key] !== afterPayments[key]) {
+      changes.push({
+        field: `paymentStructure.${key}`,
+        from: beforePayments[key] ?? null,
+        to: afterPayments[key] ?? null,
+      });
+    }
+  }
+
+  return {
+    from: { id: from.id, revision: from.revision, status: from.status },
+    to: { id: to.id, revision: to.revision, status: to.status },
+    changes,
+  };
+};
+
+export const quoteRevisionService = {
+  /**
+   * Next revision number for a project's quotes (numbering is per project)
+   */
+  async nextRevision(projectId: string, tx: Tx = prisma): Promise<number> {
+    const { _max } = await tx.projectQuote.aggregate({
+      where: { projectId },
+      _max: { revision: true },
+    });
+
+    return (_max.revision ?? 0) + 1;
+  },
+
+  /**
+   * Record a client's counter-proposal on an open quote
+   * Only one counter-offer per quote may be open at a time
+   */
+  async submitCounterOffer(quote: ProjectQuote, userId: string, input: CounterOfferInput) {
+    if (quote.status !== 'pending' && quote.status !== 'sent') {
+      throw new QuoteRevisionError(`Quote cannot be countered (status: ${quote.status})`);
+    }
+
+    if (new Date() > quote.validUntil) {
+      throw new QuoteRevisionError('Quote has expired', 400);
+    }
+
+    const open = await prisma.quoteCounterOffer.findFirst({
+      where: { quoteId: quote.id, status: 'open' },
+      select: { id: true },
+    });
+
+    if (open) {
+      throw new QuoteRevisionError('A counter-offer on this quote is already awaiting a response');
+    }
+
+    const counterOffer = await prisma.quoteCounterOffer.create({
+      data: {
+        quoteId: quote.id,
+        userId,
+        proposedTotal: input.proposedTotal ?? null,
+        proposedTimelineWeeks: input.proposedTimelineWeeks ?? null,
+        comment: input.comment,
+      },
+    });
+
+    return serializeCounterOffer(counterOffer);
+  },
+
+  /**
+   * Issue a new revision of an open quote and supersede it
+   * Unchanged terms carry over; open counter-offers on the old revision are answered by the new one
+   */
+  async reviseQuote(quoteId: string, respondedBy: string, input: RevisionInput) {
+    const found = await prisma.projectQuote.findUnique({
+      where: { id: quoteId },
+      include: { project: { select: { clientTier: true, kybStatus: true } } },
+    });
+
+    if (!found) {
+      throw new QuoteRevisionError('Quote not found', 404);
+    }
+
+    const { project, ...current } = found;
+
+    if (current.status !== 'pending' && current.status !== 'sent') {
+      throw new QuoteRevisionError(`Only pending or sent quotes can be revised (status: ${current.status})`);
+    }
+
+    const currentTotal = parseFloat(current.totalEstimate.toString());
+    const totalEstimate = input.totalEstimate ?? currentTotal;
+    const notToExceed =
+      input.notToExceed ??
+      (input.totalEstimate !== undefined
+        ? Math.ceil(totalEstimate * NOT_TO_EXCEED_MULTIPLIER)
+        : parseFloat(current.notToExceed.toString()));
+
+    if (notToExceed < totalEstimate) {
+      throw new QuoteRevisionError('notToExceed cannot be lower than totalEstimate', 400);
+    }
+
+    const estimatedTimelineWeeks = input.estimatedTimelineWeeks ?? current.estimatedTimelineWeeks;
+    let deliveryDate = current.deliveryDate;
+
+    if (input.estimatedTimelineWeeks !== undefined) {
+      deliveryDate = new Date();
+      deliveryDate.setDate(deliveryDate.getDate() + input.estimatedTimelineWeeks * 7);
+    }
+
+    const validUntil = new Date();
+    validUntil.setDate(validUntil.getDate() + QUOTE_VALIDITY_DAYS);
+
+    // Quote-specific overrides belong to the old revision; the project's override still applies
+    const pricingOverride = await pricingOverrideService.getActiveForProject(current.projectId);
+
+    // Difference from the calculated price, kept so the breakdown still adds up
+    const calculatedTotal =
+      parseFloat(current.baseRate.toString()) +
+      parseFloat(current.scaleAdjustment.toString()) +
+      parseFloat(current.complexityAdjustment.toString()) +
+      parseFloat(current.urgencyAdjustment.toString()) -
+      parseFloat(current.discountAmount.toString()) +
+      parseFloat(current.ruleAdjustment.toString()) -
+      parseFloat(current.promoDiscount.toString());
+
+    return prisma.$transaction(async (tx) => {
+      const { count } = await tx.projectQuote.updateMany({
+        where: { id: quoteId, status: OPEN_QUOTE_STATUSES },
+        data: { status: 'superseded', supersededAt: new Date() },
+      });
+
+      if (count === 0) {
+        throw new QuoteRevisionError('Quote changed concurrently. Please retry');
+      }
+
+      const revision = await tx.projectQuote.create({
+        data: {
+          projectId: current.projectId,
+          userId: current.userId,
+          revision: await this.nextRevision(current.projectId, tx),
+          previousQuoteId: current.id,
+          baseRate: current.baseRate,
+          scaleAdjustment: current.scaleAdjustment,
+          complexityAdjustment: current.complexityAdjustment,
+          urgencyAdjustment: current.urgencyAdjustment,
+          discountAmount: current.discountAmount,
+          promoCodeId: current.promoCodeId,
+          promoDiscount: current.promoDiscount,
+          pricingSnapshot: current.pricingSnapshot ?? Prisma.DbNull,
+          priceBookId: current.priceBookId,
+          ruleAdjustment: current.ruleAdjustment,
+          pricingRuleSetId: current.pricingRuleSetId,
+          totalEstimate,
+          notToExceed,
+          estimatedTimelineWeeks,
+          deliveryDate,
+          ...(await paymentTermsService.termsFor(
+            {
+              total: totalEstimate,
+              clientTier: project.clientTier,
+              kybStatus: project.kybStatus,
+              settlementRail: current.settlementRail,
+              advanceOverride: pricingOverride ? parseFloat(pricingOverride.advancePercentage.toString()) : null,
+            },
+            tx
+          )),
+          settlementRail: current.settlementRail,
+          pricingOverrideId: pricingOverride?.id ?? null,
+          validUntil,
+          status: 'sent',
+          metadata: {
+            negotiatedAdjustment: Math.round((totalEstimate - calculatedTotal) * 100) / 100,
+            ...(input.comment && { revisionComment: input.comment }),
+          },
+        },
+      });
+
+      const lineItems = await quoteLineItemService.copyToRevision(current.id, revision.id, tx);
+      await promoCodeService.moveToQuote(current.id, revision.id, tx);
+
+      const answered = await tx.quoteCounterOffer.findMany({
+        where: { quoteId, status: 'open' },
+        select: { id: true },
+      });
+
+      await tx.quoteCounterOffer.updateMany({
+        where: { quoteId, status: 'open' },
+        data: {
+          status: 'revised',
+          response: input.comment ?? null,
+          respondedBy,
+          respondedAt: new Date(),
+          revisionQuoteId: revision.id,
+        },
+      });
+
+      return {
+        quote: serializeQuote({ ...revision, lineItems }),
+        supersededQuoteId: current.id,
+        answeredCounterOfferIds: answered.map((counterOffer) => counterOffer.id),
+      };
+    });
+  },
+
+  /**
+   * Decline a counter-offer and keep the current revision as it is
+   */
+  async rejectCounterOffer(counterOfferId: string, respondedBy: string, response: string | null) {
+    const { count } = await prisma.quoteCounterOffer.updateMany({
+      where: { id: counterOfferId, status: 'open' },
+      data: { status: 'rejected', response, respondedBy, respondedAt: new Date() },
+    });
+
+    if (count === 0) {
+      throw new QuoteRevisionError('Open counter-offer not found', 404);
+    }
+
+    const counterOffer = await prisma.quoteCounterOffer.findUniqueOrThrow({ where: { id: counterOfferId } });
+    return serializeCounterOffer(counterOffer);
+  },
+
+  /**
+   * Close counter-offers left open when the client accepts or declines the quote itself
+   */
+  async withdrawOpenCounterOffers(quoteId: string, tx: Tx = prisma) {
+    await tx.quoteCounterOffer.updateMany({
+      where: { quoteId, status: 'open' },
+      data: { status: 'withdrawn' },
+    });
+  },
+
+  /**
+   * Every revision of a project's quotes with their counter-offers, oldest first
+   */
+  async listRevisions(projectId: string) {
+    const quotes = await prisma.projectQuote.findMany({
+      where: { projectId },
+      include: { counterOffers: { orderBy: { createdAt: 'asc' } } },
+      orderBy: { revision: 'asc' },
+    });
+
+    return quotes.map(({ counterOffers, ...quote }) => ({
+      ...serializeQuote(quote),
+      counterOffers: counterOffers.map(serializeCounterOffer),
+    }));
+  },
+
+  async listCounterOffers(status?: CounterOfferStatus) {
+    const counterOffers = await prisma.quoteCounterOffer.findMany({
+      where: status ? { status } : {},
+      include: {
+        quote: {
+          select: {
+            id: true,
+            revision: true,
+            totalEstimate: true,
+            estimatedTimelineWeeks: true,
+            status: true,
+            project: { select: { id: true, projectName: true } },
+          },
+        },
+        user: { select: { id: true, email: true, businessName: true } },
+      },
+      orderBy: { createdAt: 'asc' },
+      take: 200,
+    });
+
+    return counterOffers.map(({ quote, ...counterOffer }) => ({
+      ...serializeCounterOffer(counterOffer),
+      quote: { ...quote, totalEstimate: parseFloat(quote.totalEstimate.toString()) },
+    }));
+  },
+};
@@ -0,0 +1,348 @@
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import { Role } from '@prisma/client';
+import { prisma } from '../config/database.js';
+
+const JWT_SECRET = process.env.JWT_SECRET || 'default-secret-change-in-production';
+
+// Short-lived access tokens; sessions are kept alive through refresh token rotation
+const ACCESS_TOKEN_EXPIRES_IN = process.env.JWT_EXPIRES_IN || '15m';
+const REFRESH_TOKEN_TTL_DAYS = parseInt(process.env.REFRESH_TOKEN_TTL_DAYS || '30');
+
+// How stale lastUsedAt may get before an authenticated request refreshes it
+const ACTIVITY_UPDATE_INTERVAL_MS = 5 * 60 * 1000;
+
+// Impersonation sessions cannot be refreshed and end after this many minutes
+const IMPERSONATION_TTL_MINUTES = parseInt(process.env.IMPERSONATION_TTL_MINUTES || '30');
+
+interface SessionUser {
+  id: string;
+  authStage: number;
+  roles: Role[];
+}
+
+interface SessionContext {
+  ipAddress?: string;
+  userAgent?: string;
+}
+
+interface IssuedTokens {
+  sessionId: string;
+  accessToken: string;
+  refreshToken: string;
+  expiresIn: string;
+}
+
+/**
+ * Error raised when a refresh token cannot be exchanged
+ * Carries an HTTP status so the global error handler can respond with it
+ */
+export class SessionError extends Error {
+  constructor(message: string, public status: number = 401) {
+    super(message);
+    this.name = 'SessionError';
+  }
+}
+
+const hashToken = (token: string): string =>
+  crypto.createHash('sha256').update(token).digest('hex');
+
+const generateRefreshToken = (): string => crypto.randomBytes(48).toString('base64url');
+
+const refreshExpiry = (): Date => {
+  const expiresAt = new Date();
+  expiresAt.setDate(expiresAt.getDate() + REFRESH_TOKEN_TTL_DAYS);
+  return expiresAt;
+};
+
+export const sessionService = {
+  /**
+   * Sign an access token bound to a session
+   */
+  generateAccessToken(userId: string, authStage: number, roles: Role[], sessionId: string): string {
+    return jwt.sign(
+      { userId, authStage, roles, sid: sessionId },
+      JWT_SECRET,
+      { expiresIn: ACCESS_TOKEN_EXPIRES_IN as any }
+    );
+  },
+
+  /**
+   * Start a new session and issue the first access/refresh token pair
+   */
+  async createSession(user: SessionUser, context: SessionContext): Promise<IssuedTokens> {
+    const refreshToken = generateRefreshToken();
+    const expiresAt = refreshExpiry();
+
+    const session = await prisma.authSession.create({
+      data: {
+        userId: user.id,
+        ipAddress: context.ipAddress,
+        userAgent: context.userAgent,
+        expiresAt,
+        refreshTokens: {
+          create: {
+            tokenHash: hashToken(refreshToken),
+            expiresAt,
+          },
+        },
+      },
+    });
+
+    return {
+      sessionId: session.id,
+      accessToken: this.generateAccessToken(user.id, user.authStage, user.roles, session.id),
+      refreshToken,
+      expiresIn: ACCESS_TOKEN_EXPIRES_IN,
+    };
+  },
+
+  /**
+   * Start a short-lived session in which a staff member acts as another user
+   * The access token carries the impersonator (imp claim) and no refresh token is issued
+   */
+  async createImpersonationSession(
+    user: SessionUser,
+    impersonatorId: string,
+    reason: string,
+    context: SessionContext
+  ): Promise<{ sessionId: string; accessToken: string; expiresAt: Date }> {
+    const expiresAt = new Date(Date.now() + IMPERSONATION_TTL_MINUTES * 60 * 1000);
+
+    const session = await prisma.authSession.create({
+      data: {
+        userId: user.id,
+        deviceName: 'Impersonation',
+        ipAddress: context.ipAddress,
+        userAgent: context.userAgent,
+        expiresAt,
+        impersonatorId,
+        impersonationReason: reason,
+      },
+    });
+
+    const accessToken = jwt.sign(
+      { userId: user.id, authStage: user.authStage, roles: user.roles, sid: session.id, imp: impersonatorId },
+      JWT_SECRET,
+      { expiresIn: `${IMPERSONATION_TTL_MINUTES}m` as any }
+    );
+
+    return { sessionId: session.id, accessToken, expiresAt };
+  },
+
+  /**
+   * Exchange a refresh token for a new token pair
+   * Presenting an already-used refresh token is treated as theft:
+   * the whole session is revoked and the caller must sign in again
+   */
+  async rotateRefreshToken(refreshToken: string, context: SessionContext): Promise<IssuedTokens & { userId: string }> {
+    const record = await prisma.refreshToken.findUnique({
+      where: { tokenHash: hashToken(refreshToken) },
+      include: {
+        session: {
+          include: {
+            user: { select: { id: true, authStage: true, roles: true } },
+          },
+        },
+      },
+    });
+
+    if (!record) {
+      throw new SessionError('Invalid refresh token');
+    }
+
+    const { session } = record;
+
+    if (session.revokedAt) {
+      throw new SessionError('Session has been revoked');
+    }
+
+    const reuseDetected = async () => {
+      await this.revokeSession(session.id, 'refresh_token_reuse');
+      await prisma.auditLog.create({
+        data: {
+          userId: session.userId,
+          action: 'refresh_token_reuse_detected',
+          entityType: 'session',
+          entityId: session.id,
+          ipAddress: context.ipAddress,
+          userAgent: context.userAgent,
+          responseStatus: 401,
+        },
+      });
+      return new SessionError('Refresh token reuse detected. Session revoked, please sign in again');
+    };
+
+    if (record.usedAt) {
+      throw await reuseDetected();
+    }
+
+    const now = new Date();
+    if (record.expiresAt < now || session.expiresAt < now) {
+      throw new SessionError('Refresh token has expired');
+    }
+
+    const nextRefreshToken = generateRefreshToken();
+
+    const claimed = await prisma.$transaction(async (tx) => {
+      // Claim the token only if it is still unused, so two concurrent refreshes cannot both succeed
+      const { count } = await tx.refreshToken.updateMany({
+        where: { id: record.id, usedAt: null },
+        data: { usedAt: now },
+      });
+
+      if (count === 0) {
+        return false;
+      }
+
+      await tx.refreshToken.create({
+        data: {
+          sessionId: session.id,
+          tokenHash: hashToken(nextRefreshToken),
+          expiresAt: session.expiresAt,
+        },
+      });
+      await tx.authSession.update({
+        where: { id: session.id },
+        data: {
+          lastUsedAt: now,
+          ipAddress: context.ipAddress,
+          userAgent: context.userAgent,
+        },
+      });
+      return true;
+    });
+
+    if (!claimed) {
+      throw await reuseDetected();
+    }
+
+    return {
+      userId: session.userId,
+      sessionId: session.id,
+      accessToken: this.generateAccessToken(
+        session.user.id,
+        session.user.authStage,
+        session.user.roles,
+        session.id
+      ),
+      refreshToken: nextRefreshToken,
+      expiresIn: ACCESS_TOKEN_EXPIRES_IN,
+    };
+  },
+
+  /**
+   * Check that a session is still usable (not revoked or expired)
+   * and record device activity (last seen, IP, user agent) at most every few minutes
+   */
+  async verifySession(sessionId: string, context: SessionContext): Promise<boolean> {
+    const session = await prisma.authSession.findUnique({
+      where: { id: sessionId },
+      select: { revokedAt: true, expiresAt: true, lastUsedAt: true },
+    });
+
+    const now = new Date();
+    if (!session || session.revokedAt || session.expiresAt <= now) {
+      return false;
+    }
+
+    if (now.getTime() - session.lastUsedAt.getTime() > ACTIVITY_UPDATE_INTERVAL_MS) {
+      await prisma.authSession.update({
+        where: { id: sessionId },
+        data: {
+          lastUsedAt: now,
+          ipAddress: context.ipAddress,
+          userAgent: context.userAgent,
+        },
+      });
+    }
+
+    return true;
+  },
+
+  /**
+   * Revoke a single session
+   */
+  async revokeSession(sessionId: string, reason: string): Promise<void> {
+    await prisma.authSession.updateMany({
+      where: { id: sessionId, revokedAt: null },
+      data: { revokedAt: new Date(), revokedReason: reason },
+    });
+  },
+
+  /**
+   * Revoke every active session of a user, optionally keeping one
+   * Returns the number of sessions revoked
+   */
+  async revokeAllSessions(userId: string, reason: string, exceptSessionId?: string): Promise<number> {
+    const result = await prisma.authSession.updateMany({
+      where: {
+        userId,
+        revokedAt: null,
+        ...(exceptSessionId && { id: { not: exceptSessionId } }),
+      },
+      data: { revokedAt: new Date(), revokedReason: reason },
+    });
+
+    return result.count;
+  },
+
+  /**
+   * List a user's active sessions (impersonation sessions are not the user's devices)
+   */
+  async listActiveSessions(userId: string) {
+    return await prisma.authSession.findMany({
+      where: {
+        userId,
+        impersonatorId: null,
+        revokedAt: null,
+        expiresAt: { gt: new Date() },
+      },
+      select: {
+        id: true,
+        deviceName: true,
+        ipAddress: true,
+        userAgent: true,
+        createdAt: true,
+        lastUsedAt: true,
+        expiresAt: true,
+      },
+      orderBy: { lastUsedAt: 'desc' },
+    });
+  },
+
+  /**
+   * Give one of a user's sessions a friendly device name
+   * Returns false when the session does not belong to the user
+   */
+  async renameSession(userId: string, sessionId: string, deviceName: string | null): Promise<boolean> {
+    const result = await prisma.authSession.updateMany({
+      where: { id: sessionId, userId, revokedAt: null },
+      data: { deviceName },
+    });
+
+    return result.count > 0;
+  },
+
+  /**
+   * Record that the session just passed a second-factor check
+   */
+  async markSecondFactor(sessionId: string): Promise<void> {
+    await prisma.authSession.update({
+      where: { id: sessionId },
+      data: { secondFactorAt: new Date() },
+    });
+  },
+
+  /**
+   * When the session last passed a second-factor check, if ever
+   */
+  async getSecondFactorAt(sessionId: string): Promise<Date | null> {
+    const session = await prisma.authSession.findUnique({
+      where: { id: sessionId },
+      select: { secondFactorAt: true },
+    });
+
+    return session?.secondFactorAt ?? null;
+  },
+};
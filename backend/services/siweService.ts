@@ -0,0 +1,83 @@
+import { Hex, isAddressEqual, recoverMessageAddress } from 'viem';
+import { generateSiweNonce, parseSiweMessage, validateSiweMessage } from 'viem/siwe';
+import { prisma } from '../config/database.js';
+
+// Domain and URI the frontend puts into the EIP-4361 message
+const SIWE_DOMAIN = process.env.SIWE_DOMAIN || 'localhost:3000';
+const SIWE_URI = process.env.SIWE_URI || `http://${SIWE_DOMAIN}`;
+const SIWE_CHAIN_ID = parseInt(process.env.SIWE_CHAIN_ID || '1');
+const SIWE_STATEMENT = 'Sign in to Decensat Design';
+const NONCE_TTL_MINUTES = 10;
+
+/**
+ * Error raised when a SIWE message or signature is rejected
+ * Carries an HTTP status so the global error handler can respond with it
+ */
+export class SiweError extends Error {
+  constructor(message: string, public status: number = 401) {
+    super(message);
+    this.name = 'SiweError';
+  }
+}
+
+export const siweService = {
+  /**
+   * Issue a single-use nonce plus the fields the client needs to build the message
+   */
+  async issueNonce(ipAddress?: string) {
+    const nonce = generateSiweNonce();
+    const expiresAt = new Date(Date.now() + NONCE_TTL_MINUTES * 60 * 1000);
+
+    await prisma.siweNonce.create({
+      data: { nonce, ipAddress, expiresAt },
+    });
+
+    return {
+      nonce,
+      expiresAt,
+      domain: SIWE_DOMAIN,
+      uri: SIWE_URI,
+      chainId: SIWE_CHAIN_ID,
+      statement: SIWE_STATEMENT,
+      version: '1',
+    };
+  },
+
+  /**
+   * Verify a signed EIP-4361 message entirely locally
+   * Checks domain, chain, validity window and the one-time nonce, then recovers
+   * the signer (EOA signatures only) and returns the lowercased address
+   */
+  async verify(message: string, signature: string): Promise<string> {
+    const fields = parseSiweMessage(message);
+
+    if (!fields.address || !fields.nonce) {
+      throw new SiweError('Malformed SIWE message', 400);
+    }
+
+    if (fields.chainId !== SIWE_CHAIN_ID) {
+      throw new SiweError(`SIWE message must target chain ${SIWE_CHAIN_ID}`);
+    }
+
+    if (!validateSiweMessage({ message: fields, domain: SIWE_DOMAIN })) {
+      throw new SiweError('SIWE message is expired, not yet valid or for another domain');
+    }
+
+    const signer = await recoverMessageAddress({ message, signature: signature as Hex }).catch(() => null);
+    if (!signer || !isAddressEqual(signer, fields.address)) {
+      throw new SiweError('Invalid SIWE signature');
+    }
+
+    // Consume the nonce only after the signature checks out
+    const consumed = await prisma.siweNonce.updateMany({
+      where: { nonce: fields.nonce, usedAt: null, expiresAt: { gt: new Date() } },
+      data: { usedAt: new Date() },
+    });
+
+    if (consumed.count === 0) {
+      throw new SiweError('SIWE nonce is invalid, expired or already used');
+    }
+
+    return fields.address.toLowerCase();
+  },
+};
@@ -0,0 +1,53 @@
+import { describe, it, expect } from 'vitest';
+import { base32Decode, base32Encode, hotp } from './totpService.js';
+
+// Shared secret of the RFC 4226 and RFC 6238 test vectors
+const RFC_SECRET = Buffer.from('12345678901234567890', 'ascii');
+
+describe('base32', () => {
+  // RFC 4648 test vectors, without padding as authenticator apps expect
+  const vectors: [string, string][] = [
+    ['', ''],
+    ['f', 'MY'],
+    ['fo', 'MZXQ'],
+    ['foo', 'MZXW6'],
+    ['foob', 'MZXW6YQ'],
+    ['fooba', 'MZXW6YTB'],
+    ['foobar', 'MZXW6YTBOI'],
+  ];
+
+  it.each(vectors)('encodes %j as %j', (text, encoded) => {
+    expect(base32Encode(Buffer.from(text))).toBe(encoded);
+  });
+
+  it.each(vectors)('decodes %j from %j', (text, encoded) => {
+    expect(base32Decode(encoded).toString()).toBe(text);
+  });
+
+  it('decodes padded and lowercase input', () => {
+    expect(base32Decode('mzxw6ytboi======').toString()).toBe('foobar');
+  });
+
+  it('round-trips a generated secret', () => {
+    const secret = Buffer.from('a1b2c3d4e5f60718293a4b5c6d7e8f9012345678', 'hex');
+
+    expect(base32Decode(base32Encode(secret)).equals(secret)).toBe(true);
+  });
+});
+
+describe('hotp', () => {
+  it('matches the RFC 4226 test vectors', () => {
+    const expected = ['755224', '287082', '359152', '969429', '338314', '254676', '287922', '162583', '399871', '520489'];
+
+    expect(expected.map((_, counter) => hotp(RFC_SECRET, counter))).toEqual(expected);
+  });
+
+  it('matches the RFC 6238 SHA-1 test vectors at 30-second steps', () => {
+    const step = (seconds: number) => Math.floor(seconds / 30);
+
+    expect(hotp(RFC_SECRET, step(59))).toBe('287082');
+    expect(hotp(RFC_SECRET, step(1111111109))).toBe('081804');
+    expect(hotp(RFC_SECRET, step(1234567890))).toBe('005924');
+    expect(hotp(RFC_SECRET, step(2000000000))).toBe('279037');
+  });
+});
@@ -0,0 +1,246 @@
+import crypto from 'crypto';
+import { prisma } from '../config/database.js';
+
+// RFC 6238 defaults understood by every authenticator app
+const TOTP_PERIOD_SECONDS = 30;
+const TOTP_DIGITS = 6;
+const TOTP_WINDOW = 1; // accept one step of clock drift either way
+const TOTP_ISSUER = process.env.TOTP_ISSUER || 'Decensat Design';
+const RECOVERY_CODE_COUNT = 10;
+
+// Secrets are encrypted at rest with AES-256-GCM
+const ENCRYPTION_KEY = crypto
+  .createHash('sha256')
+  .update(process.env.TOTP_ENCRYPTION_KEY || process.env.JWT_SECRET || 'default-secret-change-in-production')
+  .digest();
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+/**
+ * Error raised when a second factor cannot be enrolled or verified
+ * Carries an HTTP status so the global error handler can respond with it
+ */
+export class TwoFactorError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = 'TwoFactorError';
+  }
+}
+
+export const base32Encode = (buffer: Buffer): string => {
+  let bits = 0;
+  let value = 0;
+  let output = '';
+
+  for (const byte of buffer) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+
+  return output;
+};
+
+export const base32Decode = (input: string): Buffer => {
+  let bits = 0;
+  let value = 0;
+  const bytes: number[] = [];
+
+  for (const char of input.replace(/=+$/, '').toUpperCase()) {
+    value = (value << 5) | BASE32_ALPHABET.indexOf(char);
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+
+  return Buffer.from(bytes);
+};
+
+const encryptSecret = (secret: string): string => {
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv('aes-256-gcm', ENCRYPTION_KEY, iv);
+  const encrypted = Buffer.concat([cipher.update(secret, 'utf8'), cipher.final()]);
+  return [iv, cipher.getAuthTag(), encrypted].map((part) => part.toString('base64')).join('.');
+};
+
+const decryptSecret = (payload: string): string => {
+  const [iv, tag, encrypted] = payload.split('.').map((part) => Buffer.from(part, 'base64'));
+  const decipher = crypto.createDecipheriv('aes-256-gcm', ENCRYPTION_KEY, iv);
+  decipher.setAuthTag(tag);
+  return Buffer.concat([decipher.update(encrypted), decipher.final()]).toString('utf8');
+};
+
+export const hotp = (secret: Buffer, counter: number): string => {
+  const message = Buffer.alloc(8);
+  message.writeBigUInt64BE(BigInt(counter));
+
+  const digest = crypto.createHmac('sha1', secret).update(message).digest();
+  const offset = digest[digest.length - 1] & 0xf;
+  const binary = digest.readUInt32BE(offset) & 0x7fffffff;
+
+  return (binary % 10 ** TOTP_DIGITS).toString().padStart(TOTP_DIGITS, '0');
+};
+
+const hashRecoveryCode = (code: string): string =>
+  crypto.createHash('sha256').update(code.replace(/-/g, '').toLowerCase()).digest('hex');
+
+const generateRecoveryCode = (): string => {
+  const raw = crypto.randomBytes(5).toString('hex');
+  return `${raw.slice(0, 5)}-${raw.slice(5)}`;
+};
+
+export const totpService = {
+  /**
+   * Start (or restart) enrolment: store a new pending secret and return the provisioning URI
+   */
+  async beginEnrolment(userId: string, accountName: string): Promise<{ secret: string; otpauthUrl: string }> {
+    const existing = await prisma.userTwoFactor.findUnique({ where: { userId } });
+    if (existing?.enabledAt) {
+      throw new TwoFactorError('Two-factor authentication is already enabled', 409);
+    }
+
+    const secret = base32Encode(crypto.randomBytes(20));
+
+    await prisma.userTwoFactor.upsert({
+      where: { userId },
+      create: { userId, secretEncrypted: encryptSecret(secret) },
+      update: { secretEncrypted: encryptSecret(secret), lastUsedStep: null },
+    });
+
+    const label = encodeURIComponent(`${TOTP_ISSUER}:${accountName}`);
+    const params = new URLSearchParams({
+      secret,
+      issuer: TOTP_ISSUER,
+      algorithm: 'SHA1',
+      digits: String(TOTP_DIGITS),
+      period: String(TOTP_PERIOD_SECONDS),
+    });
+
+    return { secret, otpauthUrl: `otpauth://totp/${label}?${params.toString()}` };
+  },
+
+  /**
+   * Finish enrolment with a first valid code and issue recovery codes
+   * Returns the plaintext recovery codes; only their hashes are stored
+   */
+  async confirmEnrolment(userId: string, code: string): Promise<string[]> {
+    const twoFactor = await prisma.userTwoFactor.findUnique({ where: { userId } });
+    if (!twoFactor) {
+      throw new TwoFactorError('Start enrolment first', 404);
+    }
+    if (twoFactor.enabledAt) {
+      throw new TwoFactorError('Two-factor authentication is already enabled', 409);
+    }
+
+    await this.verifyTotp(userId, code);
+
+    await prisma.userTwoFactor.update({
+      where: { userId },
+      data: { enabledAt: new Date() },
+    });
+
+    return await this.regenerateRecoveryCodes(userId);
+  },
+
+  /**
+   * Check a TOTP code; each time step can only be used once
+   */
+  async verifyTotp(userId: string, code: string): Promise<void> {
+    const twoFactor = await prisma.userTwoFactor.findUnique({ where: { userId } });
+    if (!twoFactor) {
+      throw new TwoFactorError('Two-factor authentication is not enabled', 404);
+    }
+
+    const secret = base32Decode(decryptSecret(twoFactor.secretEncrypted));
+    const currentStep = Math.floor(Date.now() / 1000 / TOTP_PERIOD_SECONDS);
+    const normalized = String(code).replace(/\s/g, '');
+
+    for (let drift = -TOTP_WINDOW; drift <= TOTP_WINDOW; drift++) {
+      const step = currentStep + drift;
+      const expected = hotp(secret, step);
+
+      if (
+        normalized.length === expected.length &&
+        crypto.timingSafeEqual(Buffer.from(normalized), Buffer.from(expected))
+      ) {
+        if (twoFactor.lastUsedStep !== null && step <= twoFactor.lastUsedStep) {
+          throw new TwoFactorError('This code has already been used');
+        }
+
+        await prisma.userTwoFactor.update({
+          where: { userId },
+          data: { lastUsedStep: step },
+        });
+        return;
+      }
+    }
+
+    throw new TwoFactorError('Invalid authentication code');
+  },
+
+  /**
+   * Consume a single-use recovery code
+   */
+  async useRecoveryCode(userId: string, code: string): Promise<number> {
+    const consumed = await prisma.twoFactorRecoveryCode.updateMany({
+      where: { userId, codeHash: hashRecoveryCode(code), usedAt: null },
+      data: { usedAt: new Date() },
+    });
+
+    if (consumed.count === 0) {
+      throw new TwoFactorError('Invalid recovery code');
+    }
+
+    return await prisma.twoFactorRecoveryCode.count({ where: { userId, usedAt: null } });
+  },
+
+  /**
+   * Replace all recovery codes with a fresh set
+   */
+  async regenerateRecoveryCodes(userId: string): Promise<string[]> {
+    const codes = Array.from({ length: RECOVERY_CODE_COUNT }, generateRecoveryCode);
+
+    await prisma.$transaction([
+      prisma.twoFactorRecoveryCode.deleteMany({ where: { userId } }),
+      prisma.twoFactorRecoveryCode.createMany({
+        data: codes.map((code) => ({ userId, codeHash: hashRecoveryCode(code) })),
+      }),
+    ]);
+
+    return codes;
+  },
+
+  /**
+   * Remove the second factor and its recovery codes
+   */
+  async disable(userId: string): Promise<void> {
+    await prisma.$transaction([
+      prisma.twoFactorRecoveryCode.deleteMany({ where: { userId } }),
+      prisma.userTwoFactor.deleteMany({ where: { userId } }),
+    ]);
+  },
+
+  /**
+   * Enrolment state for a user
+   */
+  async getStatus(userId: string) {
+    const [twoFactor, recoveryCodesRemaining] = await Promise.all([
+      prisma.userTwoFactor.findUnique({ where: { userId }, select: { enabledAt: true } }),
+      prisma.twoFactorRecoveryCode.count({ where: { userId, usedAt: null } }),
+    ]);
+
+    return {
+      enabled: !!twoFactor?.enabledAt,
+      enabledAt: twoFactor?.enabledAt ?? null,
+      recoveryCodesRemaining,
+    };
+  },
+};
@@ -0,0 +1,48 @@
+import { PrismaClient, Role } from '@prisma/client';
+
+const prisma = new PrismaClient();
+
+/**
+ * Bootstrap a role for a user by email (e.g. the first admin)
+ * Usage: npx tsx test/grant-role.ts <email> <role>
+ */
+async function grantRole() {
+  const [email, role] = process.argv.slice(2);
+  const roles: Role[] = ['user', 'admin', 'ops', 'finance'];
+
+  if (!email || !roles.includes(role as Role)) {
+    console.log('Usage: npx tsx test/grant-role.ts <email> <user|admin|ops|finance>');
+    process.exit(1);
+  }
+
+  try {
+    const user = await prisma.user.findUnique({
+      where: { email: email.toLowerCase() },
+    });
+
+    if (!user) {
+      console.log(`✗ User NOT found with email: ${email}`);
+      process.exit(1);
+    }
+
+    if (user.roles.includes(role as Role)) {
+      console.log(`✅ ${email} already has role: ${role}`);
+      return;
+    }
+
+    const updated = await prisma.user.update({
+      where: { id: user.id },
+      data: { roles: { push: role as Role } },
+    });
+
+    console.log(`✅ Granted ${role} to ${email}`);
+    console.log(`Roles: ${updated.roles.join(', ')}`);
+  } catch (error) {
+    console.error('❌ Error granting role:', error);
+    process.exit(1);
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+grantRole();
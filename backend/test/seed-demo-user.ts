@@ -1,5 +1,5 @@
 import { PrismaClient } from '@prisma/client';
-import jwt from 'jsonwebtoken';
+import { sessionService } from '../services/sessionService.js';
 
 const prisma = new PrismaClient();
 
@@ -24,6 +24,12 @@ async function seedDemoUser() {
           businessName: 'Demo Company',
           authStage: 2, // Fully authenticated
           lastLogin: new Date(),
+          identities: {
+            create: [
+              { type: 'email', value: 'shradhesh@test.com', verified: true },
+              { type: 'phone', value: '+1234567890', verified: true },
+            ],
+          },
         }
       });
       console.log('✅ Demo user created successfully');
@@ -39,17 +45,18 @@ async function seedDemoUser() {
     console.log(`Email Verified:  ${demoUser.emailVerified}`);
     console.log(`Phone Verified:  ${demoUser.phoneVerified}`);
     
-    // Generate JWT token (matching the format used by authController)
-    const secret = process.env.JWT_SECRET || 'Shradhesh71';
-    const token = jwt.sign(
-      { userId: demoUser.id, authStage: demoUser.authStage },
-      secret,
-      { expiresIn: '10d' }
-    );
+    // Start a session so the token passes authenticateToken's revocation check
+    const { accessToken: token, refreshToken } = await sessionService.createSession(demoUser, {
+      userAgent: 'seed-demo-user',
+    });
 
     console.log('\n🔑 JWT Token for Testing:');
     console.log('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
     console.log(token);
+
+    console.log('\n♻️  Refresh Token (POST /api/auth/refresh):');
+    console.log('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
+    console.log(refreshToken);
     
     console.log('\n📝 Usage Example:');
     console.log('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
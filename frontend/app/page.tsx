@@ -15,9 +15,12 @@ import WhatsAppSupport from '@/components/WhatsAppSupport';
 import ProjectAssessmentHub from '@/components/ProjectAssessmentHub_NEW';
 import Learn2LaunchPathway from '@/components/Learn2LaunchPathway';
 import AiConcierge from '@/components/AiConcierge';
+import ImpersonationBanner from '@/components/ImpersonationBanner';
+import Builder443 from '@/components/Builder443';
 import { Menu, Radio, User as UserIcon, ShieldCheck, Fingerprint, Zap, Target, BookOpen, Rocket, ChevronDown } from 'lucide-react';
-import { UserProfile, AuthStage } from '@/types';
+import { UserProfile, AuthStage, CartItem } from '@/types';
 import { SERVICE_TIERS } from '@/constants';
+import { authAPI, projectAPI } from '@/services/apiService';
 
 const Home: React.FC = () => {
   const router = useRouter();
@@ -31,12 +34,16 @@ const Home: React.FC = () => {
   const mainRef = useRef<HTMLElement>(null);
   const avatarMenuRef = useRef<HTMLDivElement>(null);
   const [avatarMenuOpen, setAvatarMenuOpen] = useState(false);
+  // The 443 builder quotes its cart against the signed-in user's newest project
+  const [cart, setCart] = useState<CartItem[]>([]);
+  const [activeProjectId, setActiveProjectId] = useState<string | null>(null);
 
   const sections = useMemo(() => [
     { id: 'hero', label: 'Home' },
     { id: 'node-infrastructure', label: 'Network' },
     { id: 'portfolio', label: 'Portfolio' },
     { id: 'project-assessment', label: 'Audit' },
+    { id: 'builder', label: 'Builder' },
     { id: 'creative', label: 'Capabilities' },
     { id: 'ai-optimization', label: 'Automation' },
     { id: 'learn-to-launch', label: 'Talent' },
@@ -76,6 +83,19 @@ const Home: React.FC = () => {
     }
   }, [privyUser]);
 
+  // Newest open project of the signed-in user, for builder checkout
+  useEffect(() => {
+    if (!currentUser) {
+      setActiveProjectId(null);
+      return;
+    }
+    let cancelled = false;
+    projectAPI.listProjects().then(({ data }) => {
+      if (!cancelled) setActiveProjectId(data?.projects[0]?.id ?? null);
+    });
+    return () => { cancelled = true; };
+  }, [currentUser]);
+
   // System time update
   useEffect(() => {
     const updateTime = () => {
@@ -131,6 +151,7 @@ const Home: React.FC = () => {
 
   const handleLogout = useCallback(async () => {
     try {
+      await authAPI.logout();
       await logout();
     } finally {
       setAvatarMenuOpen(false);
@@ -193,6 +214,9 @@ const Home: React.FC = () => {
   return (
     <div className="flex flex-col h-screen w-screen max-w-full bg-[#020617] overflow-hidden relative selection:bg-decensat selection:text-black antialiased">
 
+      {/* Impersonation Banner */}
+      <ImpersonationBanner />
+
       {/* Sidebar Overlay */}
       <div 
         className={`fixed inset-0 z-[2000] transition-opacity duration-500 ease-expo ${sidebarOpen ? 'opacity-100 pointer-events-auto' : 'opacity-0 pointer-events-none'}`}
@@ -370,6 +394,13 @@ const Home: React.FC = () => {
             <ProjectAssessmentHub onLogin={currentUser ? undefined : handleLogin} />
           </section>
 
+          <Builder443
+            cart={cart}
+            onAddToCart={(item) => setCart(prev => [...prev, { ...item, id: `${item.id}_${Date.now()}` }])}
+            onRemoveFromCart={(id) => setCart(prev => prev.filter(item => item.id !== id))}
+            projectId={activeProjectId}
+          />
+
           <section id="creative" className="scroll-mt-16 lg:scroll-mt-28 contain-layout py-12 lg:py-24">
             <PricingTiers 
               title="Platform Capabilities" 
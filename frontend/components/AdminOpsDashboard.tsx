@@ -15,9 +15,10 @@ import {
   Workflow, ArrowRight, BookOpen, Trash, EyeOff, LayoutTemplate, PieChart, TrendingDown,
   Sliders, ShieldPlus, Cog, Braces, Binary
 } from 'lucide-react';
-import { UserProfile, Project, Quote, AuditLog, OutreachEvent, BdrLead, AutomationConfig, EmailSequenceTemplate, PendingEmail, AdminView, KycStatus, ProjectStatus, ProjectType, Urgency, ClientTier } from '../types';
+import { UserProfile, Project, Quote, AuditLog, OutreachEvent, BdrLead, AutomationConfig, EmailSequenceTemplate, PendingEmail, AdminView, KycStatus, ProjectStatus, ProjectType, Urgency, ClientTier, PricingTablePath, PricingTableRow, PricingTableChange } from '../types';
 import { RESEND_SEQUENCES } from '../core/email.config';
 import { PRICING_CONFIG } from '../core/pricing.config';
+import { adminAPI } from '../services/apiService';
 
 interface AdminOpsDashboardProps {
   user: UserProfile;
@@ -131,6 +132,51 @@ const MOCK_EMAILS: PendingEmail[] = [
   }
 ];
 
+// Backend pricing tables editable from the Pricing view; locked fields identify a row and are only set on create
+const PRICING_TABLES: { path: PricingTablePath; label: string }[] = [
+  { path: 'revenue-categories', label: 'Revenue_Categories' },
+  { path: 'company-scales', label: 'Company_Scales' },
+  { path: 'complexity-tiers', label: 'Complexity_Tiers' },
+  { path: 'base-pricing', label: 'Base_Pricing' },
+];
+
+const PRICING_TABLE_FIELDS: Record<PricingTablePath, { key: string; label: string; numeric?: boolean; locked?: boolean }[]> = {
+  'revenue-categories': [
+    { key: 'name', label: 'Name', locked: true },
+    { key: 'code', label: 'Code', locked: true },
+    { key: 'description', label: 'Description' },
+  ],
+  'company-scales': [
+    { key: 'name', label: 'Name', locked: true },
+    { key: 'code', label: 'Code', locked: true },
+    { key: 'revenueMin', label: 'Revenue_Min', numeric: true },
+    { key: 'revenueMax', label: 'Revenue_Max', numeric: true },
+    { key: 'multiplier', label: 'Multiplier', numeric: true },
+    { key: 'description', label: 'Description' },
+  ],
+  'complexity-tiers': [
+    { key: 'rating', label: 'Rating', numeric: true, locked: true },
+    { key: 'name', label: 'Name' },
+    { key: 'adjustmentMultiplier', label: 'Multiplier', numeric: true },
+    { key: 'description', label: 'Description' },
+  ],
+  'base-pricing': [
+    { key: 'bundleId', label: 'Bundle', locked: true },
+    { key: 'revenueCategory', label: 'Category', locked: true },
+    { key: 'companyScale', label: 'Scale', locked: true },
+    { key: 'bundleName', label: 'Bundle_Name' },
+    { key: 'basePrice', label: 'Base_Price', numeric: true },
+    { key: 'timelineWeeks', label: 'Weeks', numeric: true },
+    { key: 'description', label: 'Description' },
+  ],
+};
+
+// Base prices show their category and scale by code
+const pricingRowValue = (row: PricingTableRow, key: string) => {
+  const value = row[key as keyof PricingTableRow];
+  return value !== null && typeof value === 'object' ? value.code : value;
+};
+
 const STATUS_ORDER: ProjectStatus[] = ['initiated', 'assessment_complete', 'quote_generated', 'closed'];
 
 const AdminOpsDashboard: React.FC<AdminOpsDashboardProps> = ({ user, onExit }) => {
@@ -160,16 +206,24 @@ const AdminOpsDashboard: React.FC<AdminOpsDashboardProps> = ({ user, onExit }) =
   const [filterTier, setFilterTier] = useState<ClientTier | 'all'>('all');
   const [sortOrder, setSortOrder] = useState<'asc' | 'desc'>('desc');
 
-  // Persistence logic for SysAdmin Overrides
-  const [overridePercentage, setOverridePercentage] = useState<number>(() => {
-    const saved = localStorage.getItem('dc3_sysadmin_payment_override');
-    return saved ? Number(saved) : PRICING_CONFIG.DEFAULTS.ADVANCE_PERCENTAGE;
-  });
-  const [overrideReason, setOverrideReason] = useState<string>(() => {
-    return localStorage.getItem('dc3_sysadmin_override_reason') || '';
-  });
+  // SysAdmin Overrides are stored per project on the backend (admin/finance only), keyed by the project's real id
+  const [overrideProjectId, setOverrideProjectId] = useState<string>('');
+  const [overridePercentage, setOverridePercentage] = useState<number>(PRICING_CONFIG.DEFAULTS.ADVANCE_PERCENTAGE);
+  const [overrideReason, setOverrideReason] = useState<string>('');
+
+  // Pricing tables are stored on the backend (pricing:manage); every change lands in their history
+  const [pricingTable, setPricingTable] = useState<PricingTablePath>('revenue-categories');
+  const [pricingRows, setPricingRows] = useState<PricingTableRow[]>([]);
+  const [pricingHistory, setPricingHistory] = useState<PricingTableChange[]>([]);
+  const [includeRetired, setIncludeRetired] = useState(false);
+  const [pricingForm, setPricingForm] = useState<Record<string, string>>({});
+  const [editingPricingRowId, setEditingPricingRowId] = useState<string | null>(null);
+  const [historyRecordId, setHistoryRecordId] = useState<string | null>(null);
+  const [pricingError, setPricingError] = useState<string | null>(null);
 
   const OVERRIDE_REASON_REGEX = /^(AUTH|RISK|SLA|TECH): [A-Z0-9_\s]{10,}$/;
+  const PROJECT_ID_REGEX = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+  const isOverrideProjectValid = PROJECT_ID_REGEX.test(overrideProjectId.trim());
   const isOverrideValid = useMemo(() => {
     if (overridePercentage === PRICING_CONFIG.DEFAULTS.ADVANCE_PERCENTAGE) return true;
     return OVERRIDE_REASON_REGEX.test(overrideReason);
@@ -183,6 +237,34 @@ const AdminOpsDashboard: React.FC<AdminOpsDashboardProps> = ({ user, onExit }) =
     projects.find(p => p.id === selectedProjectId) || null
   , [projects, selectedProjectId]);
 
+  // Load the override currently in force for the targeted project
+  useEffect(() => {
+    if (!isOverrideProjectValid) return;
+    let cancelled = false;
+    adminAPI.listPricingOverrides({ projectId: overrideProjectId.trim(), active: true }).then(({ data }) => {
+      if (cancelled) return;
+      const active = data?.overrides.find(o => o.quoteId === null);
+      setOverridePercentage(active ? active.advancePercentage : PRICING_CONFIG.DEFAULTS.ADVANCE_PERCENTAGE);
+      setOverrideReason(active ? active.reason : '');
+    });
+    return () => { cancelled = true; };
+  }, [overrideProjectId, isOverrideProjectValid]);
+
+  const loadPricingTable = async () => {
+    const [rows, history] = await Promise.all([
+      adminAPI.listPricingTableRows(pricingTable, includeRetired),
+      adminAPI.getPricingTableHistory({ table: pricingTable, recordId: historyRecordId ?? undefined, limit: 50 }),
+    ]);
+    setPricingRows(rows.data?.rows ?? []);
+    setPricingHistory(history.data?.changes ?? []);
+    setPricingError(rows.error ?? history.error ?? null);
+  };
+
+  useEffect(() => {
+    if (activeView !== 'pricing') return;
+    loadPricingTable();
+  }, [activeView, pricingTable, includeRetired, historyRecordId]);
+
   const selectedEmail = useMemo(() => 
     emails.find(e => e.id === selectedEmailId) || null
   , [emails, selectedEmailId]);
@@ -303,11 +385,70 @@ const AdminOpsDashboard: React.FC<AdminOpsDashboardProps> = ({ user, onExit }) =
       alert("SIGNAL_REJECTED: Protocol formatting violation in documentation field.");
       return;
     }
+    if (!isOverrideProjectValid) {
+      alert("SIGNAL_REJECTED: Target project id must be the project's UUID.");
+      return;
+    }
     setIsSaving(true);
-    await new Promise(r => setTimeout(r, 1500));
-    localStorage.setItem('dc3_sysadmin_payment_override', overridePercentage.toString());
-    localStorage.setItem('dc3_sysadmin_override_reason', overrideReason);
+    const { error } = await adminAPI.setProjectPricingOverride(overrideProjectId.trim(), {
+      advancePercentage: overridePercentage,
+      reason: overrideReason,
+    });
+    setIsSaving(false);
+    if (error) alert(`SIGNAL_REJECTED: ${error}`);
+  };
+
+  const handleSelectPricingTable = (path: PricingTablePath) => {
+    setPricingTable(path);
+    setPricingForm({});
+    setEditingPricingRowId(null);
+    setHistoryRecordId(null);
+  };
+
+  const handleEditPricingRow = (row: PricingTableRow) => {
+    setEditingPricingRowId(row.id);
+    setPricingForm(Object.fromEntries(
+      PRICING_TABLE_FIELDS[pricingTable].map(field => [field.key, String(pricingRowValue(row, field.key) ?? '')])
+    ));
+  };
+
+  const handleSavePricingRow = async () => {
+    // Blank numbers and descriptions are sent as null (an open revenue bound, the default timeline)
+    const fields = PRICING_TABLE_FIELDS[pricingTable].filter(field => !editingPricingRowId || !field.locked);
+    const body = Object.fromEntries(fields.map(field => {
+      const value = (pricingForm[field.key] ?? '').trim();
+      if (field.numeric) return [field.key, value === '' ? null : Number(value)];
+      return [field.key, value === '' && field.key === 'description' ? null : value];
+    }));
+
+    setIsSaving(true);
+    const { error } = editingPricingRowId
+      ? await adminAPI.updatePricingTableRow(pricingTable, editingPricingRowId, body)
+      : await adminAPI.createPricingTableRow(pricingTable, body);
     setIsSaving(false);
+
+    if (error) {
+      setPricingError(error);
+      return;
+    }
+    setPricingForm({});
+    setEditingPricingRowId(null);
+    await loadPricingTable();
+  };
+
+  const handleTogglePricingRow = async (row: PricingTableRow) => {
+    if (row.active && !confirm(`Retire this row?${pricingTable === 'revenue-categories' || pricingTable === 'company-scales' ? ' Its base prices are retired with it.' : ''}`)) return;
+    setIsSaving(true);
+    const { error } = row.active
+      ? await adminAPI.retirePricingTableRow(pricingTable, row.id)
+      : await adminAPI.restorePricingTableRow(pricingTable, row.id);
+    setIsSaving(false);
+
+    if (error) {
+      setPricingError(error);
+      return;
+    }
+    await loadPricingTable();
   };
 
   const getStatusPill = (status: ProjectStatus) => {
@@ -324,6 +465,7 @@ const AdminOpsDashboard: React.FC<AdminOpsDashboardProps> = ({ user, onExit }) =
     { id: 'projects', label: 'Lifecycle', icon: Briefcase, roles: ['admin', 'ops'] },
     { id: 'approvals', label: 'Gate', icon: Mail, roles: ['admin', 'ops'] },
     { id: 'automation', label: 'Protocol', icon: Settings, roles: ['admin', 'ops'] },
+    { id: 'pricing', label: 'Pricing', icon: DollarSign, roles: ['admin', 'finance'] },
     { id: 'architecture', label: 'Architecture', icon: Workflow, roles: ['admin'] },
     { id: 'audit', label: 'Audit Logs', icon: Terminal, roles: ['admin'] },
   ].filter(item => item.roles.some(r => user.roles.includes(r as any)));
@@ -926,6 +1068,37 @@ const AdminOpsDashboard: React.FC<AdminOpsDashboardProps> = ({ user, onExit }) =
                               </div>
                            </div>
 
+                           <div className="grid sm:grid-cols-2 gap-10">
+                              <div className="space-y-4">
+                                 <label className="text-[10px] font-black text-slate-500 uppercase tracking-widest ml-1">Target_Project_ID</label>
+                                 <input
+                                    type="text"
+                                    value={overrideProjectId}
+                                    onChange={(e) => setOverrideProjectId(e.target.value)}
+                                    placeholder="00000000-0000-0000-0000-000000000000"
+                                    className="w-full bg-zinc-950 border-2 border-white/10 rounded-2xl px-6 py-5 text-sm font-mono text-white outline-none focus:border-decensat/40 transition-all"
+                                 />
+                              </div>
+                              <div className="space-y-4">
+                                 <label className="text-[10px] font-black text-slate-500 uppercase tracking-widest ml-1">Override_Reason</label>
+                                 <input
+                                    type="text"
+                                    value={overrideReason}
+                                    onChange={(e) => setOverrideReason(e.target.value)}
+                                    placeholder="RISK: APPROVED_BY_FINANCE_REVIEW"
+                                    className={`w-full bg-zinc-950 border-2 rounded-2xl px-6 py-5 text-sm font-mono text-white outline-none transition-all ${isOverrideValid ? 'border-white/10 focus:border-decensat/40' : 'border-rose-500/40'}`}
+                                 />
+                              </div>
+                           </div>
+
+                           <button
+                              onClick={handleApplyOverride}
+                              disabled={isSaving || !isOverrideProjectValid}
+                              className="w-full py-5 bg-decensat text-black font-black uppercase text-[10px] tracking-[0.4em] rounded-2xl hover:bg-white transition-all disabled:opacity-30 flex items-center justify-center gap-3"
+                           >
+                              {isSaving ? <Loader2 size={14} className="animate-spin" /> : <Save size={14} />} Apply_Advance_Override
+                           </button>
+
                            <div className="pt-8 border-t border-white/5">
                               <div className="grid sm:grid-cols-3 gap-6">
                                  {[
@@ -1068,6 +1241,114 @@ const AdminOpsDashboard: React.FC<AdminOpsDashboardProps> = ({ user, onExit }) =
             </div>
           )}
 
+          {activeView === 'pricing' && (
+            <div className="space-y-8 animate-in slide-in-from-bottom-6 duration-700">
+               <div className="flex flex-col gap-6 sm:flex-row sm:items-end justify-between border-b border-white/5 pb-8">
+                  <div>
+                    <h2 className="text-2xl sm:text-4xl font-black text-white uppercase tracking-tighter italic">Pricing <span className="text-decensat not-italic">Tables</span></h2>
+                    <p className="text-[9px] sm:text-[10px] text-slate-500 font-mono uppercase tracking-[0.4em] mt-1">Rate_Matrix_Registry</p>
+                  </div>
+                  <div className="flex flex-wrap gap-3 items-center bg-black/40 p-2 sm:p-3 rounded-2xl border border-white/5 backdrop-blur-sm">
+                    {PRICING_TABLES.map(table => (
+                      <button key={table.path} onClick={() => handleSelectPricingTable(table.path)} className={`px-3 py-1.5 rounded-lg border text-[9px] font-black uppercase tracking-widest transition-all ${pricingTable === table.path ? 'bg-decensat border-decensat text-black' : 'bg-black border-white/10 text-slate-400 hover:text-white'}`}>
+                        {table.label}
+                      </button>
+                    ))}
+                    <button onClick={() => setIncludeRetired(prev => !prev)} className="flex items-center gap-2 px-3 py-1.5 bg-white/5 rounded-lg border border-white/10 text-[9px] font-black uppercase text-slate-400 hover:text-decensat transition-all">
+                      {includeRetired ? <ToggleRight size={14} className="text-decensat" /> : <ToggleLeft size={14} />} Retired
+                    </button>
+                  </div>
+               </div>
+
+               {pricingError && (
+                 <div className="flex items-center justify-between gap-4 p-4 bg-red-500/10 border border-red-500/20 rounded-2xl text-[10px] font-black uppercase tracking-widest text-red-400">
+                   <span className="flex items-center gap-3"><AlertCircle size={14} /> {pricingError}</span>
+                   <button onClick={() => setPricingError(null)} className="text-red-400 hover:text-white"><X size={14} /></button>
+                 </div>
+               )}
+
+               <div className="bg-black border border-white/5 rounded-[1.5rem] sm:rounded-[3rem] overflow-x-auto shadow-[0_64px_128px_-32px_rgba(0,0,0,1)]">
+                  <table className="w-full text-left min-w-[1000px]">
+                     <thead>
+                       <tr className="border-b border-white/5 bg-white/5">
+                         {PRICING_TABLE_FIELDS[pricingTable].filter(field => field.key !== 'description').map(field => (
+                           <th key={field.key} className="px-6 py-6 text-[9px] font-black text-slate-500 uppercase tracking-[0.4em]">{field.label}</th>
+                         ))}
+                         <th className="px-6 py-6 text-[9px] font-black text-slate-500 uppercase tracking-[0.4em] text-right">Actions</th>
+                       </tr>
+                     </thead>
+                     <tbody className="divide-y divide-white/5">
+                        {pricingRows.map(row => (
+                          <tr key={row.id} className={`hover:bg-white/5 transition-colors ${row.active ? '' : 'opacity-40'}`}>
+                             {PRICING_TABLE_FIELDS[pricingTable].filter(field => field.key !== 'description').map(field => (
+                               <td key={field.key} className="px-6 py-5 font-mono text-[11px] text-slate-300">{String(pricingRowValue(row, field.key) ?? '--')}</td>
+                             ))}
+                             <td className="px-6 py-5 text-right space-x-2 whitespace-nowrap">
+                                <button onClick={() => setHistoryRecordId(historyRecordId === row.id ? null : row.id)} title="Row History" className={`p-2 border rounded-lg transition-all ${historyRecordId === row.id ? 'bg-decensat/10 border-decensat/30 text-decensat' : 'bg-white/5 border-white/10 text-slate-500 hover:text-decensat'}`}><History size={12} /></button>
+                                {row.active && <button onClick={() => handleEditPricingRow(row)} title="Edit Row" className="p-2 bg-white/5 border border-white/10 rounded-lg text-slate-500 hover:text-decensat transition-all"><Edit3 size={12} /></button>}
+                                <button onClick={() => handleTogglePricingRow(row)} disabled={isSaving} className="px-4 py-2 bg-white/5 border border-white/10 rounded-xl text-[9px] font-black uppercase tracking-widest text-slate-500 hover:bg-decensat hover:text-black transition-all disabled:opacity-40">{row.active ? 'Retire' : 'Restore'}</button>
+                             </td>
+                          </tr>
+                        ))}
+                        {pricingRows.length === 0 && (
+                          <tr><td colSpan={PRICING_TABLE_FIELDS[pricingTable].length} className="px-6 py-10 text-center text-[10px] font-black text-slate-600 uppercase tracking-widest">No_Rows</td></tr>
+                        )}
+                     </tbody>
+                  </table>
+               </div>
+
+               <div className="grid grid-cols-1 xl:grid-cols-2 gap-8">
+                  <div className="p-8 bg-black border-2 border-white/5 rounded-[2.5rem] space-y-6 shadow-2xl">
+                     <div className="flex items-center justify-between border-b border-white/10 pb-4">
+                        <span className="flex items-center gap-4 text-decensat font-black text-[11px] uppercase tracking-[0.4em]"><Database size={18} /> {editingPricingRowId ? 'Edit_Row' : 'Add_Row'}</span>
+                        {editingPricingRowId && <button onClick={() => { setEditingPricingRowId(null); setPricingForm({}); }} className="text-[9px] font-black uppercase tracking-widest text-slate-500 hover:text-white">Cancel</button>}
+                     </div>
+                     <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                        {PRICING_TABLE_FIELDS[pricingTable].map(field => (
+                          <label key={field.key} className={`flex flex-col gap-2 ${field.key === 'description' ? 'sm:col-span-2' : ''}`}>
+                            <span className="text-[8px] font-black text-slate-500 uppercase tracking-widest">{field.label}</span>
+                            <input
+                              type={field.numeric ? 'number' : 'text'}
+                              value={pricingForm[field.key] ?? ''}
+                              disabled={!!editingPricingRowId && field.locked}
+                              onChange={(e) => setPricingForm(prev => ({ ...prev, [field.key]: e.target.value }))}
+                              className="bg-black border border-white/10 rounded-lg px-3 py-2 text-[11px] font-mono text-white outline-none focus:border-decensat disabled:opacity-40"
+                            />
+                          </label>
+                        ))}
+                     </div>
+                     <button onClick={handleSavePricingRow} disabled={isSaving} className="w-full py-4 bg-decensat text-black rounded-2xl text-[10px] font-black uppercase tracking-widest flex items-center justify-center gap-3 disabled:opacity-40">
+                        {isSaving ? <Loader2 size={14} className="animate-spin" /> : <Save size={14} />} {editingPricingRowId ? 'Save_Changes' : 'Create_Row'}
+                     </button>
+                  </div>
+
+                  <div className="bg-black border-2 border-white/5 rounded-[2.5rem] overflow-hidden shadow-2xl">
+                     <div className="p-8 border-b border-white/5 bg-zinc-950 flex items-center justify-between">
+                        <span className="flex items-center gap-4 text-[11px] font-black text-white uppercase tracking-widest"><History size={18} className="text-decensat" /> {historyRecordId ? 'Row_History' : 'Table_History'}</span>
+                        <button onClick={loadPricingTable} className="p-2 text-slate-600 hover:text-white transition-all"><RefreshCw size={16} /></button>
+                     </div>
+                     <div className="divide-y divide-white/5 max-h-[480px] overflow-y-auto custom-scrollbar">
+                        {pricingHistory.map(change => (
+                          <div key={change.id} className="p-6 space-y-2">
+                             <div className="flex items-center justify-between gap-4">
+                                <span className="text-[10px] font-black text-decensat uppercase tracking-widest px-2 py-1 bg-decensat/5 border border-decensat/20 rounded-md">{change.action}</span>
+                                <span className="text-[9px] font-mono text-slate-600">{new Date(change.changedAt).toLocaleString()} · {change.changedBy?.email ?? 'SYSTEM'}</span>
+                             </div>
+                             <div className="text-[10px] font-mono text-slate-400 break-all">
+                                {PRICING_TABLE_FIELDS[pricingTable]
+                                  .filter(field => !change.before || pricingRowValue(change.before, field.key) !== pricingRowValue(change.after, field.key))
+                                  .map(field => `${field.label}: ${change.before ? `${pricingRowValue(change.before, field.key) ?? '--'} → ` : ''}${pricingRowValue(change.after, field.key) ?? '--'}`)
+                                  .join(' · ') || `${pricingRowValue(change.after, PRICING_TABLE_FIELDS[pricingTable][0].key)}`}
+                             </div>
+                          </div>
+                        ))}
+                        {pricingHistory.length === 0 && <div className="p-6 text-[10px] font-black text-slate-600 uppercase tracking-widest">No_Changes</div>}
+                     </div>
+                  </div>
+               </div>
+            </div>
+          )}
+
           {activeView === 'audit' && (
             <div className="space-y-12 animate-in slide-in-from-bottom-8 duration-1000">
                <div className="border-b border-white/5 pb-8">
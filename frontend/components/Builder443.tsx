@@ -8,14 +8,17 @@ import {
 
 import React, { useMemo, useState, useEffect } from 'react';
 import { SERVICES_CATALOG } from '../constants';
-import { CartItem, KycStatus, QuotePaymentTerms, SettlementRail } from '../types';
+import { CartItem, KycStatus, QuotePaymentTerms, QuoteRecord, SettlementRail } from '../types';
 import SwipeableActionWrapper from './SwipeableActionWrapper';
 import { PRICING_CONFIG } from '../core/pricing.config';
+import { quoteAPI } from '../services/apiService';
 
 interface Builder443Props {
   cart: CartItem[];
   onAddToCart: (item: CartItem) => void;
   onRemoveFromCart: (id: string) => void;
+  // Project the cart is quoted for; checkout generates its quote from the cart's bundles
+  projectId?: string | null;
 }
 
 const STRIPE_FEE_MULTIPLIER = 1.03333; // 3.333% Fee
@@ -28,19 +31,19 @@ const MULTI_USDC_RAILS = [
   { id: 'usdc_eth' as SettlementRail, label: 'USDC (Ethereum)', sub: 'L1 Enterprise Grade', latency: '12s', color: 'text-indigo-400', icon: ShieldCheck },
 ];
 
-const Builder443: React.FC<Builder443Props> = ({ cart, onAddToCart, onRemoveFromCart }) => {
+const Builder443: React.FC<Builder443Props> = ({ cart, onAddToCart, onRemoveFromCart, projectId = null }) => {
   const [showCheckout, setShowCheckout] = useState(false);
   const [isDeploying, setIsDeploying] = useState(false);
+  const [quote, setQuote] = useState<QuoteRecord | null>(null);
+  const [checkoutError, setCheckoutError] = useState<string | null>(null);
+  const [promoCode, setPromoCode] = useState('');
   const [selectedRail, setSelectedRail] = useState<SettlementRail>('crypto_wallet');
   const [checkoutStep, setCheckoutStep] = useState<'schedule' | 'acceptance' | 'kyc' | 'payment' | 'success'>('schedule');
   const [kycStatus, setKycStatus] = useState<KycStatus>('idle');
   const [signature, setSignature] = useState('');
   
-  // Simulated SysAdmin Override from local node storage
-  const [adminOverride, setAdminOverride] = useState<number | null>(() => {
-    const saved = localStorage.getItem('dc3_payment_override_v4');
-    return saved ? Number(saved) : null;
-  });
+  // SysAdmin Override approved on the backend, carried on the generated quote
+  const adminOverride = quote?.pricingOverride?.advancePercentage ?? null;
 
   const [kybData, setKybData] = useState({
     company: '',
@@ -64,7 +67,12 @@ const Builder443: React.FC<Builder443Props> = ({ cart, onAddToCart, onRemoveFrom
     return { subtotal, discount, final: subtotal - discount, freeItemIds: freeIds };
   }, [cart]);
 
+  // Terms stored on the generated quote are shown as-is instead of the local estimate
+  const quotedTerms = quote?.paymentTerms ?? null;
+
   const dynamicTerms = useMemo((): QuotePaymentTerms => {
+    if (quotedTerms) return quotedTerms;
+
     const base = {
       kycStatus,
       requiresEscrow: kycStatus === 'rejected',
@@ -119,16 +127,31 @@ const Builder443: React.FC<Builder443Props> = ({ cart, onAddToCart, onRemoveFrom
         installments: []
       } as QuotePaymentTerms;
     }
-  }, [final, kycStatus, adminOverride]);
+  }, [final, kycStatus, adminOverride, quotedTerms]);
 
   const stripeFinal = dynamicTerms.advanceAmount * STRIPE_FEE_MULTIPLIER;
   const currentFinal = selectedRail === 'stripe' ? stripeFinal : dynamicTerms.advanceAmount;
 
+  // Checkout prices the cart on the backend as a quote with one line item per bundle
   const handleExecuteSqueeze = async () => {
     if (cart.length === 0 || isDeploying) return;
+    if (!projectId) {
+      setCheckoutError('Submit a project brief before checking out');
+      return;
+    }
+    setCheckoutError(null);
     setIsDeploying(true);
-    await new Promise(resolve => setTimeout(resolve, 1500));
+    const { data, error } = await quoteAPI.generateQuote(projectId, {
+      settlementRail: selectedRail,
+      items: cart.map(item => ({ bundleId: item.bundleId ?? item.id })),
+      promoCode: promoCode.trim() || undefined,
+    });
     setIsDeploying(false);
+    if (!data?.quote) {
+      setCheckoutError(error ?? 'Quote could not be generated');
+      return;
+    }
+    setQuote(data.quote);
     setShowCheckout(true);
     setCheckoutStep('schedule');
   };
@@ -194,6 +217,45 @@ const Builder443: React.FC<Builder443Props> = ({ cart, onAddToCart, onRemoveFrom
                      Baseline sync date must align with principal node availability clusters. 72-hour provisioning buffer enforced.
                    </p>
                 </div>
+                {quote?.lineItems && quote.lineItems.length > 0 && (
+                  <div className="bg-black/40 border-2 border-white/5 rounded-[3rem] p-8 lg:p-10 space-y-4">
+                    {quote.lineItems.map(item => (
+                      <div key={item.id} className="flex justify-between items-center gap-6 font-mono">
+                        <div className="min-w-0">
+                          <div className="text-sm lg:text-base font-black text-white uppercase tracking-tight truncate">
+                            {item.name}{item.quantity > 1 ? ` x${item.quantity}` : ''}
+                          </div>
+                          <div className="text-[9px] lg:text-[10px] font-black text-slate-500 uppercase tracking-[0.3em]">
+                            {item.timelineWeeks} WEEKS{item.discountAmount > 0 ? ` // -$${item.discountAmount.toLocaleString()}` : ''}
+                          </div>
+                        </div>
+                        <span className="text-lg lg:text-xl font-black text-white tracking-tighter shrink-0">${item.lineTotal.toLocaleString()}</span>
+                      </div>
+                    ))}
+                    {quote.ruleAdjustment !== 0 && (
+                      <div className="flex justify-between items-center gap-6 font-mono text-slate-300">
+                        <span className="text-[10px] lg:text-[12px] font-black uppercase tracking-[0.4em]">Pricing_Adjustments</span>
+                        <span className="text-lg lg:text-xl font-black tracking-tighter shrink-0">
+                          {quote.ruleAdjustment < 0 ? '-' : '+'}${Math.abs(quote.ruleAdjustment).toLocaleString()}
+                        </span>
+                      </div>
+                    )}
+                    {quote.promoDiscount > 0 && (
+                      <div className="flex justify-between items-center gap-6 font-mono text-decensat">
+                        <span className="text-[10px] lg:text-[12px] font-black uppercase tracking-[0.4em]">
+                          {quote.promoCode?.kind === 'referral' ? 'Referral' : 'Promo'}_{quote.promoCode?.code ?? 'CODE'}
+                        </span>
+                        <span className="text-lg lg:text-xl font-black tracking-tighter shrink-0">-${quote.promoDiscount.toLocaleString()}</span>
+                      </div>
+                    )}
+                    <div className="flex justify-between items-center pt-4 border-t-2 border-white/5 font-mono">
+                      <span className="text-[10px] lg:text-[12px] font-black text-slate-500 uppercase tracking-[0.4em]">
+                        Quote_Total // {quote.estimatedTimelineWeeks ?? '-'} WEEKS
+                      </span>
+                      <span className="text-2xl lg:text-3xl font-black text-decensat tracking-tighter">${quote.totalEstimate.toLocaleString()}</span>
+                    </div>
+                  </div>
+                )}
                 <button 
                   onClick={() => setCheckoutStep('acceptance')}
                   className="w-full py-8 bg-decensat text-black font-black uppercase text-xs lg:text-sm tracking-[0.4em] rounded-[2rem] hover:bg-white transition-all shadow-glow-md flex items-center justify-center gap-6"
@@ -552,10 +614,19 @@ const Builder443: React.FC<Builder443Props> = ({ cart, onAddToCart, onRemoveFrom
                   </div>
                 </div>
 
+                <input
+                  type="text"
+                  value={promoCode}
+                  onChange={(e) => setPromoCode(e.target.value.toUpperCase())}
+                  maxLength={40}
+                  className="w-full mt-10 lg:mt-12 bg-white/5 border-2 border-white/10 rounded-2xl px-6 py-4 text-white font-black font-mono text-xs lg:text-sm uppercase tracking-[0.3em] outline-none focus:border-decensat/40 transition-all placeholder:text-slate-700"
+                  placeholder="PROMO_OR_REFERRAL_CODE"
+                />
+
                 <button 
                   onClick={handleExecuteSqueeze}
                   disabled={isDeploying || cart.length === 0}
-                  className={`w-full mt-12 lg:mt-16 text-black font-black text-xs lg:text-sm uppercase tracking-[0.4em] py-6 lg:py-8 rounded-2xl lg:rounded-[3rem] transition-all duration-500 flex items-center justify-center gap-4 lg:gap-6 shadow-[0_24px_48px_-12px_rgba(163,230,53,0.4)] relative overflow-hidden ${
+                  className={`w-full mt-6 lg:mt-8 text-black font-black text-xs lg:text-sm uppercase tracking-[0.4em] py-6 lg:py-8 rounded-2xl lg:rounded-[3rem] transition-all duration-500 flex items-center justify-center gap-4 lg:gap-6 shadow-[0_24px_48px_-12px_rgba(163,230,53,0.4)] relative overflow-hidden ${
                     isDeploying || cart.length === 0 ? 'bg-slate-800 opacity-50 cursor-not-allowed' : 'bg-decensat hover:bg-white active:scale-95'
                   }`}
                 >
@@ -563,6 +634,12 @@ const Builder443: React.FC<Builder443Props> = ({ cart, onAddToCart, onRemoveFrom
                   {isDeploying ? <Loader2 size={16} className="w-6 h-6 lg:w-7 lg:h-7 animate-spin" /> : <Lock size={16} className="w-6 h-6 lg:w-7 lg:h-7" />}
                   <span>{isDeploying ? 'SYNCING_PROTOCOL...' : 'EXECUTE_SQUEEZE'}</span>
                 </button>
+                {checkoutError && (
+                  <div className="mt-6 flex items-center gap-3 text-[10px] lg:text-[11px] font-black text-rose-500 uppercase tracking-[0.2em]">
+                    <AlertCircle size={16} className="shrink-0" />
+                    <span>{checkoutError}</span>
+                  </div>
+                )}
              </div>
           </div>
         </div>
@@ -1,11 +1,12 @@
 
-import React, { useState, useMemo } from 'react';
-import { Bundle } from '../types';
+import React, { useState, useMemo, useEffect } from 'react';
+import { Bundle, BundlePriceVersion } from '../types';
 import { 
   Check, Loader2, Rocket, Network, Cpu, Coins, Zap, 
   Target, ListChecks, ArrowUpRight, BarChart3, Sparkles, User, Bot
 } from 'lucide-react';
 import { AreaChart, Area, ResponsiveContainer } from 'recharts';
+import { pricingAPI } from '../services/apiService';
 
 interface BundleCardProps {
   bundle: Bundle;
@@ -19,14 +20,27 @@ const BundleCard: React.FC<BundleCardProps> = ({ bundle, isSelected, onAddToCart
   const [isSyncing, setIsSyncing] = useState(false);
   const [showPricingTooltip, setShowPricingTooltip] = useState(false);
 
-  const sparklineData = useMemo(() => [
-    { value: 40 + Math.random() * 10 }, 
-    { value: 55 + Math.random() * 15 }, 
-    { value: 48 + Math.random() * 20 }, 
-    { value: 75 + Math.random() * 10 }, 
-    { value: 68 + Math.random() * 15 }, 
-    { value: 92 + Math.random() * 5 }
-  ], []);
+  const [priceHistory, setPriceHistory] = useState<BundlePriceVersion[]>(bundle.priceHistory);
+
+  // Published price books for the backend bundle, when the card is tied to one
+  useEffect(() => {
+    if (!bundle.bundleId || bundle.priceHistory.length > 0) return;
+
+    let cancelled = false;
+    pricingAPI.getBundlePriceHistory(bundle.bundleId).then((response) => {
+      if (!cancelled && response.data?.history) setPriceHistory(response.data.history);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [bundle.bundleId, bundle.priceHistory.length]);
+
+  // Starting price in each price book version
+  const sparklineData = useMemo(
+    () => priceHistory.map((version) => ({ version: version.version, value: version.minPrice })),
+    [priceHistory]
+  );
 
   const handleInitialize = async () => {
     if (isSyncing) return;
@@ -101,6 +115,20 @@ const BundleCard: React.FC<BundleCardProps> = ({ bundle, isSelected, onAddToCart
                <span className="text-4xl sm:text-5xl font-black text-white tracking-tighter font-mono">${activePrice.amount.toLocaleString()}</span>
             </div>
          </div>
+         {sparklineData.length > 1 && (
+           <div className="w-28 shrink-0 relative" title={`Starting price across ${sparklineData.length} price book versions`}>
+              <div className="text-[7px] font-black text-slate-600 uppercase tracking-[0.3em] mb-1 flex items-center gap-1 justify-end">
+                <BarChart3 size={10} className="text-decensat" /> PRICE_HISTORY
+              </div>
+              <div className="h-12">
+                <ResponsiveContainer width="100%" height="100%">
+                  <AreaChart data={sparklineData}>
+                    <Area type="monotone" dataKey="value" stroke="#a3e635" fill="#a3e635" fillOpacity={0.15} strokeWidth={2} isAnimationActive={false} />
+                  </AreaChart>
+                </ResponsiveContainer>
+              </div>
+           </div>
+         )}
       </div>
 
       {/* Content */}
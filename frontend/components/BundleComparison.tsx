@@ -1,6 +1,8 @@
-import React from 'react';
-import { Bundle } from '../types';
+import React, { useEffect, useState } from 'react';
+import { Bundle, BundlePriceVersion } from '../types';
 import { X, Check, Server, Shield, Users, Clock } from 'lucide-react';
+import { AreaChart, Area, ResponsiveContainer } from 'recharts';
+import { pricingAPI } from '../services/apiService';
 
 interface BundleComparisonProps {
   selectedBundles: Bundle[];
@@ -8,7 +10,55 @@ interface BundleComparisonProps {
   onRemove: (id: string) => void;
 }
 
+// Starting price across published price book versions, first and latest
+const PriceHistorySummary: React.FC<{ history: BundlePriceVersion[] }> = ({ history }) => {
+  if (history.length < 2) {
+    return <span className="text-xs text-gray-500">No price changes published</span>;
+  }
+
+  const first = history[0];
+  const latest = history[history.length - 1];
+
+  return (
+    <>
+      <div className="h-16 w-28 shrink-0">
+        <ResponsiveContainer width="100%" height="100%">
+          <AreaChart data={history.map((version) => ({ value: version.minPrice }))}>
+            <Area type="monotone" dataKey="value" stroke="#a3e635" fill="#a3e635" fillOpacity={0.15} strokeWidth={2} isAnimationActive={false} />
+          </AreaChart>
+        </ResponsiveContainer>
+      </div>
+      <div className="text-xs text-gray-400 leading-relaxed">
+        <div>v{first.version}: from ${first.minPrice.toLocaleString()}</div>
+        <div className="text-white">v{latest.version}: from ${latest.minPrice.toLocaleString()}</div>
+      </div>
+    </>
+  );
+};
+
 const BundleComparison: React.FC<BundleComparisonProps> = ({ selectedBundles, onClose, onRemove }) => {
+  const [fetchedHistory, setFetchedHistory] = useState<Record<string, BundlePriceVersion[]>>({});
+
+  // Price history for bundles tied to a backend bundle that came without it
+  useEffect(() => {
+    let cancelled = false;
+
+    selectedBundles
+      .filter((bundle) => bundle.bundleId && bundle.priceHistory.length === 0 && !fetchedHistory[bundle.id])
+      .forEach((bundle) => {
+        pricingAPI.getBundlePriceHistory(bundle.bundleId!).then((response) => {
+          const history = response.data?.history;
+          if (!cancelled && history) {
+            setFetchedHistory((current) => ({ ...current, [bundle.id]: history }));
+          }
+        });
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedBundles]);
+
   return (
     <div className="fixed inset-0 z-[100] flex items-center justify-center p-4">
       {/* Backdrop */}
@@ -57,6 +107,7 @@ const BundleComparison: React.FC<BundleComparisonProps> = ({ selectedBundles, on
                 <div className="min-h-[120px] p-6 bg-node-800/30 flex items-start">Tech Stack</div>
                 <div className="h-24 p-6 flex items-center">Licensing</div>
                 <div className="h-16 flex items-center px-6 bg-node-800/30">SLA</div>
+                <div className="h-24 flex items-center px-6">Price History</div>
               </div>
             </div>
 
@@ -143,6 +194,13 @@ const BundleComparison: React.FC<BundleComparisonProps> = ({ selectedBundles, on
                   <div className="h-16 flex items-center px-6 bg-node-800/30 text-xs text-juice-300 font-mono">
                      <Shield size={12} className="mr-2"/> {bundle.sla}
                   </div>
+
+                  {/* Price History */}
+                  <div className="h-24 flex items-center gap-4 px-6">
+                    <PriceHistorySummary
+                      history={bundle.priceHistory.length > 0 ? bundle.priceHistory : fetchedHistory[bundle.id] ?? []}
+                    />
+                  </div>
                 </div>
               </div>
             ))}
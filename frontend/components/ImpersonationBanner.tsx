@@ -0,0 +1,52 @@
+import React, { useState, useEffect } from 'react';
+import { Eye, LogOut, Loader2 } from 'lucide-react';
+import { ImpersonationInfo } from '../types';
+import { adminAPI, authTokenStore } from '../services/apiService';
+
+const ImpersonationBanner: React.FC = () => {
+  const [impersonation, setImpersonation] = useState<ImpersonationInfo | null>(null);
+  const [isStopping, setIsStopping] = useState(false);
+
+  useEffect(() => {
+    setImpersonation(authTokenStore.getImpersonation());
+  }, []);
+
+  // The server ends the session on its own; drop the stale token once it has
+  useEffect(() => {
+    if (!impersonation) return;
+    const remaining = new Date(impersonation.expiresAt).getTime() - Date.now();
+    const timer = setTimeout(() => {
+      authTokenStore.endImpersonation();
+      window.location.reload();
+    }, Math.max(0, remaining));
+    return () => clearTimeout(timer);
+  }, [impersonation]);
+
+  const handleStop = async () => {
+    setIsStopping(true);
+    await adminAPI.stopImpersonation();
+    window.location.reload();
+  };
+
+  if (!impersonation) return null;
+
+  return (
+    <div className="w-full bg-amber-500 text-black px-4 py-2 flex items-center justify-between gap-4 z-[5000] shrink-0">
+      <div className="flex items-center gap-3 min-w-0 text-[10px] font-black uppercase tracking-widest">
+        <Eye size={14} className="shrink-0" />
+        <span className="truncate">
+          Viewing as {impersonation.email || impersonation.userId} · Read-only · Ends {new Date(impersonation.expiresAt).toLocaleTimeString()}
+        </span>
+      </div>
+      <button
+        onClick={handleStop}
+        disabled={isStopping}
+        className="shrink-0 flex items-center gap-2 px-3 py-1.5 rounded-lg bg-black text-amber-500 text-[9px] font-black uppercase tracking-widest hover:bg-zinc-900 transition-all disabled:opacity-50"
+      >
+        {isStopping ? <Loader2 size={12} className="animate-spin" /> : <LogOut size={12} />} Exit
+      </button>
+    </div>
+  );
+};
+
+export default ImpersonationBanner;
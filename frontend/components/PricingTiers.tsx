@@ -103,6 +103,7 @@ const PricingTiers: React.FC<PricingTiersProps> = ({ title, subtitle, data = [],
             // Mapping incoming data to Bundle format for the BundleCard
             const bundleFormat = {
                 id: item.id,
+                bundleId: item.bundleId,
                 slug: item.id,
                 name: item.name,
                 shortSummary: item.summary,
@@ -135,6 +135,11 @@ const ProjectAssessmentHub: React.FC<{ onLogin?: (email: string) => void }> = ({
   const [ustTime, setUstTime] = useState('');
   const [isAuthenticated, setIsAuthenticated] = useState(false);
   const [phoneValue, setPhoneValue] = useState('');
+  const [phoneCountry, setPhoneCountry] = useState('US');
+  const [otpCode, setOtpCode] = useState('');
+  const [otpSent, setOtpSent] = useState(false);
+  const [otpVerified, setOtpVerified] = useState(false);
+  const [otpBusy, setOtpBusy] = useState(false);
   const [calendarMonth, setCalendarMonth] = useState(() => new Date());
   const [chatMessages, setChatMessages] = useState<Array<{from: string, message: string, time: string}>>([
     {from: 'support', message: 'Welcome! How can we help you today?', time: new Date().toLocaleTimeString()}
@@ -218,8 +223,47 @@ const ProjectAssessmentHub: React.FC<{ onLogin?: (email: string) => void }> = ({
   useEffect(() => {
     const normalized = phoneValue ? `+${phoneValue}` : '';
     setSubmission((prev) => ({ ...prev, phoneNumber: normalized }));
+    // A different number needs a fresh verification
+    setOtpSent(false);
+    setOtpVerified(false);
+    setOtpCode('');
   }, [phoneValue]);
 
+  // Mirrors auditSubmissionSchema: US contacts must verify their phone by OTP
+  const otpRequired = phoneCountry === 'US';
+
+  const handleSendOtp = async () => {
+    const phoneValidation = validateInternationalPhone(submission.phoneNumber);
+    if (!phoneValidation.valid) {
+      setErrors({ phoneNumber: phoneValidation.error || '[!] ERROR: Invalid phone number' });
+      return;
+    }
+
+    setOtpBusy(true);
+    const { error } = await auditAPI.sendOtp(submission.phoneNumber);
+    setOtpBusy(false);
+
+    if (error) {
+      setErrors({ otp: `[!] ERROR: ${error}` });
+      return;
+    }
+    setErrors({});
+    setOtpSent(true);
+  };
+
+  const handleVerifyOtp = async () => {
+    setOtpBusy(true);
+    const { error } = await auditAPI.verifyOtp(submission.phoneNumber, otpCode);
+    setOtpBusy(false);
+
+    if (error) {
+      setErrors({ otp: `[!] ERROR: ${error}` });
+      return;
+    }
+    setErrors({});
+    setOtpVerified(true);
+  };
+
   const handleNext = async () => {
     // Validation for each step
     if (currentStep === 'privy_auth') {
@@ -253,6 +297,11 @@ const ProjectAssessmentHub: React.FC<{ onLogin?: (email: string) => void }> = ({
         setErrors({ phoneNumber: phoneValidation.error || '[!] ERROR: Invalid phone number' });
         return;
       }
+
+      if (otpRequired && !otpVerified) {
+        setErrors({ otp: '[!] ERROR: OTP verification required for USA contacts' });
+        return;
+      }
     }
 
     if (currentStep === 'google_meet_booking') {
@@ -275,13 +324,13 @@ const ProjectAssessmentHub: React.FC<{ onLogin?: (email: string) => void }> = ({
           canAdvance = false;
         } else {
           const { data, error } = await authAPI.authenticateWithPrivy(accessToken);
-          const token = (data as { token?: string } | undefined)?.token;
+          const { token, refreshToken } = (data as { token?: string; refreshToken?: string } | undefined) || {};
 
           if (error || !token) {
             setErrors({ email: `[!] ERROR: ${error || 'Authentication failed'}` });
             canAdvance = false;
           } else {
-            authTokenStore.set(token);
+            authTokenStore.set(token, refreshToken);
           }
         }
       }
@@ -307,6 +356,7 @@ const ProjectAssessmentHub: React.FC<{ onLogin?: (email: string) => void }> = ({
           linkedinUrl: submission.linkedinUrl,
           businessEmail: submission.email || undefined,
           whatsappNumber: submission.phoneNumber,
+          country: phoneCountry,
         });
 
         const identityId = (data as { identityId?: string } | undefined)?.identityId;
@@ -701,8 +751,11 @@ const ProjectAssessmentHub: React.FC<{ onLogin?: (email: string) => void }> = ({
                       country="us"
                       enableSearch
                       value={phoneValue}
-                      onChange={(value) => {
+                      onChange={(value, country) => {
                         setPhoneValue(value || '');
+                        if (country && 'countryCode' in country) {
+                          setPhoneCountry(country.countryCode.toUpperCase());
+                        }
                         setErrors({});
                       }}
                       inputProps={{
@@ -725,6 +778,42 @@ const ProjectAssessmentHub: React.FC<{ onLogin?: (email: string) => void }> = ({
                 </div>
                 {errors.phoneNumber && <p className="text-rose-500 text-[8px] sm:text-xs font-black uppercase px-4 xs:px-6 py-2 bg-rose-500/5 rounded-xl border border-rose-500/20 flex items-center gap-2 leading-tight animate-in slide-in-from-top-1"><AlertCircle size={14} className="shrink-0" /> {String(errors.phoneNumber)}</p>}
               </div>
+
+              {otpRequired && (
+                <div className="space-y-2">
+                  <label className="text-[9px] xs:text-[10px] sm:text-xs font-black text-slate-500 uppercase tracking-[0.4em] flex items-center gap-2">
+                    <ShieldCheck size={16} className="text-decensat" />  WhatsApp Verification (required for USA)
+                  </label>
+                  {otpVerified ? (
+                    <div className="text-[9px] sm:text-xs font-black text-emerald-500 uppercase tracking-widest px-4 py-3 bg-emerald-500/5 rounded-xl border border-emerald-500/20 flex items-center gap-2">
+                      <CheckCircle2 size={14} /> Phone verified
+                    </div>
+                  ) : (
+                    <div className="flex flex-col sm:flex-row gap-3">
+                      {otpSent && (
+                        <input
+                          disabled={otpBusy}
+                          inputMode="numeric"
+                          maxLength={6}
+                          value={otpCode}
+                          onChange={(e) => { setOtpCode(e.target.value.replace(/\D/g, '')); setErrors({}); }}
+                          placeholder="6-digit code"
+                          className="flex-1 bg-black/40 border-[2px] border-white/5 rounded-xl px-4 py-3 text-xs sm:text-lg font-black text-white focus:outline-none focus:border-decensat/40 font-mono tracking-[0.4em] placeholder:text-slate-800 placeholder:tracking-normal"
+                        />
+                      )}
+                      {otpSent && (
+                        <button disabled={otpBusy || otpCode.length !== 6} onClick={handleVerifyOtp} className="px-5 py-3 bg-decensat text-black font-black uppercase text-[10px] sm:text-xs tracking-[0.2em] rounded-xl inline-flex items-center justify-center gap-2 disabled:opacity-50">
+                          {otpBusy ? <Loader2 className="animate-spin" size={14} /> : 'Verify'}
+                        </button>
+                      )}
+                      <button disabled={otpBusy || !submission.phoneNumber} onClick={handleSendOtp} className="px-5 py-3 border border-white/10 text-slate-300 hover:text-white font-black uppercase text-[10px] sm:text-xs tracking-[0.2em] rounded-xl inline-flex items-center justify-center gap-2 disabled:opacity-50">
+                        {otpBusy && !otpSent ? <Loader2 className="animate-spin" size={14} /> : otpSent ? 'Resend Code' : 'Send Code'}
+                      </button>
+                    </div>
+                  )}
+                  {errors.otp && <p className="text-rose-500 text-[8px] sm:text-xs font-black uppercase px-4 xs:px-6 py-2 bg-rose-500/5 rounded-xl border border-rose-500/20 flex items-center gap-2 leading-tight animate-in slide-in-from-top-1"><AlertCircle size={14} className="shrink-0" /> {String(errors.otp)}</p>}
+                </div>
+              )}
             </div>
 
             <div className="flex flex-col sm:flex-row gap-3 sm:gap-6 pt-4 xs:pt-6 justify-between items-center">
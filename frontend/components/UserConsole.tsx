@@ -6,12 +6,13 @@ import {
   RefreshCw, Coins, Landmark, Calendar, Database,
   TrendingUp, BarChart3, Bell, User, LayoutGrid, Menu, Cpu, Fingerprint, Activity, Terminal, Eye, Shield, CheckCircle2, Circle,
   Camera, Upload, ImageIcon, Sparkles, Loader2, Mail, Key, BellRing, ToggleLeft, ToggleRight, Save, AlertCircle,
-  MessageSquare, LogOut, ExternalLink,
+  MessageSquare, LogOut, ExternalLink, Monitor, Pencil, Download, Trash2,
   // Fix: Added Info icon to imports from lucide-react
   Info
 } from 'lucide-react';
-import { UserProfile, Agreement, AuditLog, AuthStage } from '../types';
+import { UserProfile, Agreement, AuditLog, AuthStage, DeviceSession } from '../types';
 import SwipeableActionWrapper from './SwipeableActionWrapper';
+import { authAPI, userAPI } from '../services/apiService';
 
 interface UserConsoleProps {
   user: UserProfile;
@@ -32,6 +33,90 @@ const UserConsole: React.FC<UserConsoleProps> = ({ user, onClose, onLogout, onOp
   const [isUploading, setIsUploading] = useState(false);
   const [isSaving, setIsSaving] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const [devices, setDevices] = useState<DeviceSession[]>([]);
+  const [devicesLoading, setDevicesLoading] = useState(false);
+  const [devicesError, setDevicesError] = useState<string | null>(null);
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [renameValue, setRenameValue] = useState('');
+  const [privacyBusy, setPrivacyBusy] = useState(false);
+  const [privacyError, setPrivacyError] = useState<string | null>(null);
+  const [eraseConfirm, setEraseConfirm] = useState('');
+
+  const loadDevices = async () => {
+    setDevicesLoading(true);
+    const { data, error } = await authAPI.listSessions();
+    setDevicesLoading(false);
+    if (error || !data) {
+      setDevicesError(error || 'Unable to load devices');
+      return;
+    }
+    setDevicesError(null);
+    setDevices(data.sessions);
+  };
+
+  useEffect(() => {
+    if (activeTab === 'settings') loadDevices();
+  }, [activeTab]);
+
+  const handleRenameDevice = async (sessionId: string) => {
+    const { error } = await authAPI.renameSession(sessionId, renameValue.trim() || null);
+    if (error) {
+      setDevicesError(error);
+      return;
+    }
+    setRenamingId(null);
+    loadDevices();
+  };
+
+  const handleSignOutDevice = async (device: DeviceSession) => {
+    if (device.current) {
+      onLogout();
+      return;
+    }
+    const { error } = await authAPI.revokeSession(device.id);
+    if (error) {
+      setDevicesError(error);
+      return;
+    }
+    loadDevices();
+  };
+
+  const handleSignOutOtherDevices = async () => {
+    const { error } = await authAPI.revokeOtherSessions();
+    if (error) {
+      setDevicesError(error);
+      return;
+    }
+    loadDevices();
+  };
+
+  const handleExportData = async () => {
+    setPrivacyBusy(true);
+    const { data, error } = await userAPI.exportMyData();
+    setPrivacyBusy(false);
+    if (error || !data) {
+      setPrivacyError(error || 'Unable to export data');
+      return;
+    }
+    setPrivacyError(null);
+    const url = URL.createObjectURL(new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `personal-data-${new Date().toISOString().slice(0, 10)}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleEraseAccount = async () => {
+    setPrivacyBusy(true);
+    const { error } = await userAPI.eraseMyData();
+    setPrivacyBusy(false);
+    if (error) {
+      setPrivacyError(error);
+      return;
+    }
+    onLogout();
+  };
 
   const isC3Authorized = user.authStage >= AuthStage.ProjectEngaged;
 
@@ -173,6 +258,126 @@ const UserConsole: React.FC<UserConsoleProps> = ({ user, onClose, onLogout, onOp
                           </div>
                        </div>
                     </div>
+
+                    <div className="space-y-6">
+                       <div className="flex items-center justify-between gap-4">
+                          <div className="text-[10px] font-black text-slate-500 uppercase tracking-widest flex items-center gap-2 border-l-2 border-decensat pl-4">
+                             <Monitor size={12} className="text-decensat" /> Signed-In Devices
+                          </div>
+                          <button
+                            onClick={handleSignOutOtherDevices}
+                            disabled={devicesLoading || devices.filter(d => !d.current).length === 0}
+                            className="px-4 py-2 rounded-xl text-[9px] font-black uppercase tracking-widest text-rose-500 border border-rose-500/20 hover:bg-rose-500/10 transition-all disabled:opacity-30 disabled:cursor-not-allowed"
+                          >
+                             Sign Out All Other Devices
+                          </button>
+                       </div>
+                       <div className="bg-black/40 border border-white/5 rounded-[2.5rem] p-8 space-y-4 shadow-inner">
+                          {devicesError && (
+                            <div className="flex items-center gap-2 text-[10px] font-black text-rose-500 uppercase tracking-widest">
+                               <AlertCircle size={14} /> {devicesError}
+                            </div>
+                          )}
+                          {devicesLoading && devices.length === 0 && (
+                            <div className="flex items-center gap-2 text-[10px] font-black text-slate-500 uppercase tracking-widest">
+                               <Loader2 size={14} className="animate-spin" /> Loading devices
+                            </div>
+                          )}
+                          {devices.map(device => (
+                            <div key={device.id} className="p-5 bg-zinc-950 border border-white/5 rounded-xl flex flex-col sm:flex-row sm:items-center gap-4">
+                               <div className="flex-1 min-w-0 space-y-1">
+                                  {renamingId === device.id ? (
+                                    <div className="flex items-center gap-2">
+                                       <input
+                                         value={renameValue}
+                                         onChange={(e) => setRenameValue(e.target.value)}
+                                         maxLength={100}
+                                         autoFocus
+                                         className="flex-1 bg-black border border-white/10 rounded-lg px-3 py-2 text-xs text-white font-mono outline-none focus:border-decensat"
+                                       />
+                                       <button onClick={() => handleRenameDevice(device.id)} className="p-2 text-decensat hover:bg-white/5 rounded-lg transition-all">
+                                          <Save size={14} />
+                                       </button>
+                                       <button onClick={() => setRenamingId(null)} className="p-2 text-slate-500 hover:bg-white/5 rounded-lg transition-all">
+                                          <X size={14} />
+                                       </button>
+                                    </div>
+                                  ) : (
+                                    <div className="flex items-center gap-2 text-sm text-white font-black truncate">
+                                       {device.deviceName || 'Unnamed device'}
+                                       {device.current && (
+                                         <span className="px-2 py-0.5 rounded-md bg-decensat/10 text-decensat text-[8px] uppercase tracking-widest">This device</span>
+                                       )}
+                                    </div>
+                                  )}
+                                  <div className="text-[9px] text-slate-500 font-mono truncate">{device.userAgent || 'Unknown client'}</div>
+                                  <div className="text-[9px] text-slate-600 font-mono uppercase tracking-widest">
+                                     IP {device.ipAddress || 'unknown'} · First seen {new Date(device.createdAt).toLocaleString()} · Last seen {new Date(device.lastUsedAt).toLocaleString()}
+                                  </div>
+                               </div>
+                               <div className="flex items-center gap-2 shrink-0">
+                                  <button
+                                    onClick={() => { setRenamingId(device.id); setRenameValue(device.deviceName || ''); }}
+                                    className="p-2 text-slate-500 hover:text-white hover:bg-white/5 rounded-lg transition-all"
+                                  >
+                                     <Pencil size={14} />
+                                  </button>
+                                  <button
+                                    onClick={() => handleSignOutDevice(device)}
+                                    className="px-3 py-2 rounded-lg text-[9px] font-black uppercase tracking-widest text-rose-500 hover:bg-rose-500/10 transition-all"
+                                  >
+                                     Sign Out
+                                  </button>
+                               </div>
+                            </div>
+                          ))}
+                       </div>
+                    </div>
+
+                    <div className="space-y-6">
+                       <div className="text-[10px] font-black text-slate-500 uppercase tracking-widest flex items-center gap-2 border-l-2 border-decensat pl-4">
+                          <Database size={12} className="text-decensat" /> Personal Data
+                       </div>
+                       <div className="bg-black/40 border border-white/5 rounded-[2.5rem] p-8 space-y-6 shadow-inner">
+                          {privacyError && (
+                            <div className="flex items-center gap-2 text-[10px] font-black text-rose-500 uppercase tracking-widest">
+                               <AlertCircle size={14} /> {privacyError}
+                            </div>
+                          )}
+                          <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+                             <div className="text-[10px] text-slate-500 font-mono leading-relaxed">
+                                Download everything we store about you (projects, quotes, calls, audits, files, chats, activity) as JSON.
+                             </div>
+                             <button
+                               onClick={handleExportData}
+                               disabled={privacyBusy}
+                               className="shrink-0 flex items-center gap-2 px-4 py-2 rounded-xl text-[9px] font-black uppercase tracking-widest text-decensat border border-decensat/20 hover:bg-decensat/10 transition-all disabled:opacity-30 disabled:cursor-not-allowed"
+                             >
+                                <Download size={12} /> Download My Data
+                             </button>
+                          </div>
+                          <div className="pt-6 border-t border-white/5 space-y-3">
+                             <div className="text-[10px] text-slate-500 font-mono leading-relaxed">
+                                Erase your account: stored files, projects, chats and identities are deleted; accepted quotes are kept anonymised. Type ERASE to confirm.
+                             </div>
+                             <div className="flex items-center gap-2">
+                                <input
+                                  value={eraseConfirm}
+                                  onChange={(e) => setEraseConfirm(e.target.value)}
+                                  placeholder="ERASE"
+                                  className="flex-1 bg-zinc-950 border border-white/10 rounded-lg px-3 py-2 text-xs text-white font-mono outline-none focus:border-rose-500"
+                                />
+                                <button
+                                  onClick={handleEraseAccount}
+                                  disabled={privacyBusy || eraseConfirm !== 'ERASE'}
+                                  className="flex items-center gap-2 px-4 py-2 rounded-xl text-[9px] font-black uppercase tracking-widest text-rose-500 border border-rose-500/20 hover:bg-rose-500/10 transition-all disabled:opacity-30 disabled:cursor-not-allowed"
+                                >
+                                   <Trash2 size={12} /> Erase Account
+                                </button>
+                             </div>
+                          </div>
+                       </div>
+                    </div>
                   </div>
                 )}
              </div>
@@ -12,6 +12,7 @@ export const SERVICE_TIERS = {
     },
     {
       id: 'b_growing',
+      bundleId: 'node_creative_strategy',
       name: 'Deployment Bundle | Velocity',
       price: 1595,
       summary: 'High-velocity branding & social ops. Dual principal expertise across creative hubs.',
@@ -30,6 +31,7 @@ export const SERVICE_TIERS = {
   WEB3: [
     {
       id: 'w_startup',
+      bundleId: 'node_web3_protocol',
       name: 'Talent Node | Protocol',
       price: 3495,
       summary: 'Core protocol development and smart contract engineering.',
@@ -38,6 +40,7 @@ export const SERVICE_TIERS = {
     },
     {
       id: 'w_growing',
+      bundleId: 'node_treasury_tech',
       name: 'Deployment Bundle | Treasury',
       price: 5595,
       summary: 'Advanced treasury tech and cross-border settlement rails.',
@@ -56,6 +59,7 @@ export const SERVICE_TIERS = {
   FULLSTACK: [
     {
       id: 'f_scale',
+      bundleId: 'node_platform_core',
       name: 'Platform Node | Core',
       price: 4995,
       summary: 'High-performance end-to-end platform engineering.',
@@ -187,13 +191,14 @@ export const AI_OPTIMIZATION_NODES: AiSolution[] = [
   }
 ];
 
+// bundleId is the backend BasePricing bundle each node is quoted from
 export const SERVICES_CATALOG = [
-  { id: 'sc1', name: 'Platform Core Node', price: 4995, category: 'Engineering' },
-  { id: 'sc2', name: 'Web3 Protocol Node', price: 3495, category: 'Engineering' },
-  { id: 'sc3', name: 'Treasury Tech Node', price: 5595, category: 'Engineering' },
-  { id: 'sc4', name: 'Creative Strategy Node', price: 1595, category: 'Design' },
-  { id: 'sc5', name: 'AI Optimization Node', price: 2000, category: 'Automation' },
-  { id: 'sc6', name: 'Branding Node', price: 1800, category: 'Creative' }
+  { id: 'sc1', name: 'Platform Core Node', price: 4995, category: 'Engineering', bundleId: 'node_platform_core' },
+  { id: 'sc2', name: 'Web3 Protocol Node', price: 3495, category: 'Engineering', bundleId: 'node_web3_protocol' },
+  { id: 'sc3', name: 'Treasury Tech Node', price: 5595, category: 'Engineering', bundleId: 'node_treasury_tech' },
+  { id: 'sc4', name: 'Creative Strategy Node', price: 1595, category: 'Design', bundleId: 'node_creative_strategy' },
+  { id: 'sc5', name: 'AI Optimization Node', price: 2000, category: 'Automation', bundleId: 'node_ai_optimization' },
+  { id: 'sc6', name: 'Branding Node', price: 1800, category: 'Creative', bundleId: 'node_branding' }
 ];
 
 export const BUNDLES: Bundle[] = [
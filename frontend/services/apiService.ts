@@ -3,9 +3,33 @@
  * Replace API_BASE_URL with your actual backend URL
  */
 
+import {
+  BundlePriceVersion,
+  DeviceSession,
+  ImpersonationInfo,
+  OrganizationDetail,
+  OrganizationRole,
+  OrganizationSummary,
+  PricingOverride,
+  PricingTableChange,
+  PricingTablePath,
+  PricingTableRow,
+  ProjectBriefInput,
+  ProjectLifecycleStatus,
+  ProjectRecord,
+  ProjectTimeline,
+  QuoteRecord,
+  SettlementRail,
+  TwoFactorStatus,
+} from '../types';
+
 // Get the API base URL from environment variable or use default
 const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:8000/api';
 const AUTH_TOKEN_KEY = 'decensat_auth_token';
+const REFRESH_TOKEN_KEY = 'decensat_refresh_token';
+const IMPERSONATOR_AUTH_TOKEN_KEY = 'decensat_impersonator_auth_token';
+const IMPERSONATOR_REFRESH_TOKEN_KEY = 'decensat_impersonator_refresh_token';
+const IMPERSONATION_KEY = 'decensat_impersonation';
 
 const getStoredAuthToken = (): string | null => {
   if (typeof window === 'undefined') {
@@ -16,17 +40,59 @@ const getStoredAuthToken = (): string | null => {
 
 export const authTokenStore = {
   get: getStoredAuthToken,
-  set: (token: string) => {
+  getRefresh: (): string | null => {
+    if (typeof window === 'undefined') {
+      return null;
+    }
+    return localStorage.getItem(REFRESH_TOKEN_KEY);
+  },
+  set: (token: string, refreshToken?: string) => {
     if (typeof window === 'undefined') {
       return;
     }
     localStorage.setItem(AUTH_TOKEN_KEY, token);
+    if (refreshToken) {
+      localStorage.setItem(REFRESH_TOKEN_KEY, refreshToken);
+    }
   },
   clear: () => {
     if (typeof window === 'undefined') {
       return;
     }
     localStorage.removeItem(AUTH_TOKEN_KEY);
+    localStorage.removeItem(REFRESH_TOKEN_KEY);
+  },
+  // Impersonation: the staff member's own tokens are set aside until impersonation ends
+  getImpersonation: (): ImpersonationInfo | null => {
+    if (typeof window === 'undefined') {
+      return null;
+    }
+    const stored = localStorage.getItem(IMPERSONATION_KEY);
+    return stored ? (JSON.parse(stored) as ImpersonationInfo) : null;
+  },
+  startImpersonation: (token: string, info: ImpersonationInfo) => {
+    if (typeof window === 'undefined') {
+      return;
+    }
+    localStorage.setItem(IMPERSONATOR_AUTH_TOKEN_KEY, localStorage.getItem(AUTH_TOKEN_KEY) || '');
+    localStorage.setItem(IMPERSONATOR_REFRESH_TOKEN_KEY, localStorage.getItem(REFRESH_TOKEN_KEY) || '');
+    localStorage.setItem(AUTH_TOKEN_KEY, token);
+    localStorage.removeItem(REFRESH_TOKEN_KEY);
+    localStorage.setItem(IMPERSONATION_KEY, JSON.stringify(info));
+  },
+  endImpersonation: () => {
+    if (typeof window === 'undefined') {
+      return;
+    }
+    const token = localStorage.getItem(IMPERSONATOR_AUTH_TOKEN_KEY);
+    const refreshToken = localStorage.getItem(IMPERSONATOR_REFRESH_TOKEN_KEY);
+    localStorage.removeItem(AUTH_TOKEN_KEY);
+    localStorage.removeItem(REFRESH_TOKEN_KEY);
+    if (token) localStorage.setItem(AUTH_TOKEN_KEY, token);
+    if (refreshToken) localStorage.setItem(REFRESH_TOKEN_KEY, refreshToken);
+    localStorage.removeItem(IMPERSONATOR_AUTH_TOKEN_KEY);
+    localStorage.removeItem(IMPERSONATOR_REFRESH_TOKEN_KEY);
+    localStorage.removeItem(IMPERSONATION_KEY);
   },
 };
 
@@ -38,12 +104,51 @@ const getAuthHeader = (): Record<string, string> => {
   return { Authorization: `Bearer ${token}` };
 };
 
+// Shared in-flight refresh so concurrent 401s rotate the refresh token only once
+let refreshInFlight: Promise<boolean> | null = null;
+
+/**
+ * Exchange the stored refresh token for a new token pair
+ * Clears stored tokens when the session can no longer be refreshed
+ */
+const refreshAccessToken = (): Promise<boolean> => {
+  const refreshToken = authTokenStore.getRefresh();
+  if (!refreshToken) {
+    return Promise.resolve(false);
+  }
+
+  if (!refreshInFlight) {
+    refreshInFlight = fetch(`${API_BASE_URL}/auth/refresh`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ refreshToken }),
+    })
+      .then(async (response) => {
+        if (!response.ok) {
+          authTokenStore.clear();
+          return false;
+        }
+        const data = await response.json();
+        authTokenStore.set(data.token, data.refreshToken);
+        return true;
+      })
+      .catch(() => false)
+      .finally(() => {
+        refreshInFlight = null;
+      });
+  }
+
+  return refreshInFlight;
+};
+
 /**
  * Generic API request handler with error handling
+ * Retries once with a refreshed access token when the current one is rejected
  */
 async function apiRequest<T>(
   endpoint: string,
-  options: RequestInit = {}
+  options: RequestInit = {},
+  retryOnUnauthorized = true
 ): Promise<{ data?: T; error?: string }> {
   try {
     const response = await fetch(`${API_BASE_URL}${endpoint}`, {
@@ -55,6 +160,10 @@ async function apiRequest<T>(
       },
     });
 
+    if (response.status === 401 && retryOnUnauthorized && (await refreshAccessToken())) {
+      return apiRequest<T>(endpoint, options, false);
+    }
+
     if (!response.ok) {
       const errorData = await response.json().catch(() => ({}));
       return {
@@ -71,6 +180,179 @@ async function apiRequest<T>(
   }
 }
 
+/**
+ * Project APIs
+ */
+export const projectAPI = {
+  createProject: async (project: ProjectBriefInput) => {
+    return apiRequest<{ success: boolean; project: ProjectRecord }>('/projects', {
+      method: 'POST',
+      body: JSON.stringify(project),
+    });
+  },
+
+  listProjects: async (options: { status?: string; organizationId?: string; includeArchived?: boolean } = {}) => {
+    const params = new URLSearchParams();
+    if (options.status) params.set('status', options.status);
+    if (options.organizationId) params.set('organizationId', options.organizationId);
+    if (options.includeArchived) params.set('includeArchived', 'true');
+    const query = params.toString();
+    return apiRequest<{ success: boolean; projects: ProjectRecord[] }>(`/projects${query ? `?${query}` : ''}`, {
+      method: 'GET',
+    });
+  },
+
+  getProject: async (projectId: string) => {
+    return apiRequest<{ success: boolean; project: ProjectRecord }>(`/projects/${projectId}`, {
+      method: 'GET',
+    });
+  },
+
+  updateProject: async (projectId: string, updates: Partial<ProjectBriefInput>) => {
+    return apiRequest<{ success: boolean; project: ProjectRecord }>(`/projects/${projectId}`, {
+      method: 'PATCH',
+      body: JSON.stringify(updates),
+    });
+  },
+
+  archiveProject: async (projectId: string) => {
+    return apiRequest<{ success: boolean; project: ProjectRecord }>(`/projects/${projectId}/archive`, {
+      method: 'POST',
+    });
+  },
+
+  // Requires a scope and budget range on the brief
+  submitProject: async (projectId: string) => {
+    return apiRequest<{ success: boolean; project: ProjectRecord }>(`/projects/${projectId}/submit`, {
+      method: 'POST',
+    });
+  },
+
+  getTimeline: async (projectId: string) => {
+    return apiRequest<{ success: boolean } & ProjectTimeline>(`/projects/${projectId}/timeline`, {
+      method: 'GET',
+    });
+  },
+};
+
+/**
+ * Quote APIs
+ */
+export const quoteAPI = {
+  // Prices the given bundles as line items, or the project's own bundle when items is omitted
+  generateQuote: async (
+    projectId: string,
+    options: {
+      settlementRail?: SettlementRail;
+      items?: { bundleId: string; quantity?: number }[];
+      promoCode?: string;
+    } = {}
+  ) => {
+    return apiRequest<{ success: boolean; message: string; quote: QuoteRecord }>(`/quotes/generate/${projectId}`, {
+      method: 'POST',
+      body: JSON.stringify(options),
+    });
+  },
+
+  getQuote: async (quoteId: string) => {
+    return apiRequest<{ success: boolean; quote: QuoteRecord }>(`/quotes/${quoteId}`, {
+      method: 'GET',
+    });
+  },
+
+  listQuotes: async () => {
+    return apiRequest<{ success: boolean; quotes: QuoteRecord[] }>('/quotes', {
+      method: 'GET',
+    });
+  },
+};
+
+/**
+ * Pricing APIs
+ */
+export const pricingAPI = {
+  // Base prices per published price book, oldest first; narrow with category and scale codes
+  getBundlePriceHistory: async (
+    bundleId: string,
+    filters: { revenueCategory?: string; companyScale?: string } = {}
+  ) => {
+    const params = new URLSearchParams();
+    if (filters.revenueCategory) params.set('revenueCategory', filters.revenueCategory);
+    if (filters.companyScale) params.set('companyScale', filters.companyScale);
+    const query = params.toString();
+    return apiRequest<{ success: boolean; bundleId: string; history: BundlePriceVersion[] }>(
+      `/pricing/bundles/${encodeURIComponent(bundleId)}/history${query ? `?${query}` : ''}`,
+      { method: 'GET' }
+    );
+  },
+};
+
+/**
+ * Organization APIs (shared client accounts)
+ */
+export const organizationAPI = {
+  createOrganization: async (name: string) => {
+    return apiRequest<{ success: boolean; organization: OrganizationSummary }>('/organizations', {
+      method: 'POST',
+      body: JSON.stringify({ name }),
+    });
+  },
+
+  listOrganizations: async () => {
+    return apiRequest<{ success: boolean; organizations: OrganizationSummary[] }>('/organizations', {
+      method: 'GET',
+    });
+  },
+
+  getOrganization: async (organizationId: string) => {
+    return apiRequest<{ success: boolean; organization: OrganizationDetail }>(`/organizations/${organizationId}`, {
+      method: 'GET',
+    });
+  },
+
+  renameOrganization: async (organizationId: string, name: string) => {
+    return apiRequest(`/organizations/${organizationId}`, {
+      method: 'PATCH',
+      body: JSON.stringify({ name }),
+    });
+  },
+
+  inviteMember: async (organizationId: string, email: string, role: OrganizationRole) => {
+    return apiRequest(`/organizations/${organizationId}/invitations`, {
+      method: 'POST',
+      body: JSON.stringify({ email, role }),
+    });
+  },
+
+  revokeInvitation: async (organizationId: string, invitationId: string) => {
+    return apiRequest(`/organizations/${organizationId}/invitations/${invitationId}`, {
+      method: 'DELETE',
+    });
+  },
+
+  // token comes from the emailed /invite?token=... link
+  acceptInvitation: async (token: string) => {
+    return apiRequest<{ success: boolean; organization: OrganizationSummary }>('/organizations/invitations/accept', {
+      method: 'POST',
+      body: JSON.stringify({ token }),
+    });
+  },
+
+  updateMemberRole: async (organizationId: string, userId: string, role: OrganizationRole) => {
+    return apiRequest(`/organizations/${organizationId}/members/${userId}`, {
+      method: 'PATCH',
+      body: JSON.stringify({ role }),
+    });
+  },
+
+  // Pass your own userId to leave
+  removeMember: async (organizationId: string, userId: string) => {
+    return apiRequest(`/organizations/${organizationId}/members/${userId}`, {
+      method: 'DELETE',
+    });
+  },
+};
+
 /**
  * Assessment/Audit Form APIs
  */
@@ -138,6 +420,99 @@ export const authAPI = {
       body: JSON.stringify({ accessToken }),
     });
   },
+
+  // Sign-In With Ethereum (EIP-4361)
+  getSiweNonce: async () => {
+    return apiRequest<{
+      nonce: string;
+      domain: string;
+      uri: string;
+      chainId: number;
+      statement: string;
+      version: string;
+      expiresAt: string;
+    }>('/auth/siwe/nonce', {
+      method: 'GET',
+    });
+  },
+
+  authenticateWithSiwe: async (message: string, signature: string) => {
+    return apiRequest('/auth/siwe/verify', {
+      method: 'POST',
+      body: JSON.stringify({ message, signature }),
+    });
+  },
+
+  logout: async () => {
+    const result = await apiRequest('/auth/logout', { method: 'POST' }, false);
+    authTokenStore.clear();
+    return result;
+  },
+
+  // Signed-in devices
+  listSessions: async () => {
+    return apiRequest<{ success: boolean; sessions: DeviceSession[] }>('/auth/sessions', {
+      method: 'GET',
+    });
+  },
+
+  renameSession: async (sessionId: string, deviceName: string | null) => {
+    return apiRequest(`/auth/sessions/${sessionId}`, {
+      method: 'PATCH',
+      body: JSON.stringify({ deviceName }),
+    });
+  },
+
+  revokeSession: async (sessionId: string) => {
+    return apiRequest(`/auth/sessions/${sessionId}`, {
+      method: 'DELETE',
+    });
+  },
+
+  revokeOtherSessions: async () => {
+    return apiRequest<{ success: boolean; revoked: number }>('/auth/sessions/revoke-others', {
+      method: 'POST',
+    });
+  },
+
+  // Two-factor authentication (TOTP)
+  getTwoFactorStatus: async () => {
+    return apiRequest<{ success: boolean } & TwoFactorStatus>('/auth/2fa/status', {
+      method: 'GET',
+    });
+  },
+
+  enrollTwoFactor: async () => {
+    return apiRequest<{ success: boolean; secret: string; otpauthUrl: string }>('/auth/2fa/enroll', {
+      method: 'POST',
+    });
+  },
+
+  confirmTwoFactor: async (code: string) => {
+    return apiRequest<{ success: boolean; recoveryCodes: string[] }>('/auth/2fa/enroll/confirm', {
+      method: 'POST',
+      body: JSON.stringify({ code }),
+    });
+  },
+
+  verifyTwoFactor: async (payload: { code?: string; recoveryCode?: string }) => {
+    return apiRequest<{ success: boolean; recoveryCodesRemaining: number }>('/auth/2fa/verify', {
+      method: 'POST',
+      body: JSON.stringify(payload),
+    });
+  },
+
+  regenerateRecoveryCodes: async () => {
+    return apiRequest<{ success: boolean; recoveryCodes: string[] }>('/auth/2fa/recovery-codes', {
+      method: 'POST',
+    });
+  },
+
+  disableTwoFactor: async () => {
+    return apiRequest('/auth/2fa', {
+      method: 'DELETE',
+    });
+  },
 };
 
 /**
@@ -188,6 +563,7 @@ export const auditAPI = {
     linkedinUrl?: string;
     businessEmail?: string;
     whatsappNumber?: string;
+    country?: string;
   }) => {
     return apiRequest('/audit/identity', {
       method: 'POST',
@@ -250,6 +626,20 @@ export const userAPI = {
       method: 'GET',
     });
   },
+
+  // Personal data (GDPR)
+  exportMyData: async () => {
+    return apiRequest<Record<string, unknown>>('/users/me/export', {
+      method: 'GET',
+    });
+  },
+
+  eraseMyData: async () => {
+    return apiRequest<{ success: boolean; erasedAt: string }>('/users/me/erase', {
+      method: 'POST',
+      body: JSON.stringify({ confirm: 'ERASE' }),
+    }, false);
+  },
 };
 
 /**
@@ -318,6 +708,142 @@ export const fileAPI = {
   },
 };
 
+/**
+ * Admin APIs
+ */
+export const adminAPI = {
+  // "View as user": the returned token is read-only and expires after a short time
+  startImpersonation: async (userId: string, reason: string) => {
+    const result = await apiRequest<{
+      success: boolean;
+      token: string;
+      expiresAt: string;
+      user: { id: string; email: string | null };
+    }>(`/admin/users/${userId}/impersonate`, {
+      method: 'POST',
+      body: JSON.stringify({ reason }),
+    });
+
+    if (result.data?.token) {
+      authTokenStore.startImpersonation(result.data.token, {
+        userId: result.data.user.id,
+        email: result.data.user.email,
+        reason,
+        expiresAt: result.data.expiresAt,
+      });
+    }
+
+    return result;
+  },
+
+  stopImpersonation: async () => {
+    const result = await apiRequest('/admin/impersonation/stop', { method: 'POST' }, false);
+    authTokenStore.endImpersonation();
+    return result;
+  },
+
+  transitionProject: async (projectId: string, status: ProjectLifecycleStatus, reason?: string) => {
+    return apiRequest<{ success: boolean; project: ProjectRecord }>(`/admin/projects/${projectId}/status`, {
+      method: 'POST',
+      body: JSON.stringify({ status, reason }),
+    });
+  },
+
+  getProjectTimeline: async (projectId: string) => {
+    return apiRequest<{ success: boolean } & ProjectTimeline>(`/admin/projects/${projectId}/timeline`, {
+      method: 'GET',
+    });
+  },
+
+  // Pricing override writes need the pricing:override permission and a recent second factor
+  setProjectPricingOverride: async (
+    projectId: string,
+    override: { advancePercentage: number; reason: string; expiresAt?: string }
+  ) => {
+    return apiRequest<{ success: boolean; override: PricingOverride; affectedQuoteIds: string[] }>(
+      `/admin/projects/${projectId}/pricing-override`,
+      {
+        method: 'POST',
+        body: JSON.stringify(override),
+      }
+    );
+  },
+
+  setQuotePricingOverride: async (
+    quoteId: string,
+    override: { advancePercentage: number; reason: string; expiresAt?: string }
+  ) => {
+    return apiRequest<{ success: boolean; override: PricingOverride }>(`/admin/quotes/${quoteId}/pricing-override`, {
+      method: 'POST',
+      body: JSON.stringify(override),
+    });
+  },
+
+  revokePricingOverride: async (overrideId: string) => {
+    return apiRequest<{ success: boolean; affectedQuoteIds: string[] }>(`/admin/pricing-overrides/${overrideId}`, {
+      method: 'DELETE',
+    });
+  },
+
+  listPricingOverrides: async (filters: { projectId?: string; active?: boolean } = {}) => {
+    const params = new URLSearchParams();
+    if (filters.projectId) params.set('projectId', filters.projectId);
+    if (filters.active) params.set('active', 'true');
+    const query = params.toString();
+    return apiRequest<{ success: boolean; overrides: PricingOverride[] }>(
+      `/admin/pricing-overrides${query ? `?${query}` : ''}`,
+      { method: 'GET' }
+    );
+  },
+
+  // Pricing tables need the pricing:manage permission
+  listPricingTableRows: async (table: PricingTablePath, includeRetired = false) => {
+    return apiRequest<{ success: boolean; rows: PricingTableRow[] }>(
+      `/admin/pricing-tables/${table}${includeRetired ? '?includeRetired=true' : ''}`,
+      { method: 'GET' }
+    );
+  },
+
+  createPricingTableRow: async (table: PricingTablePath, row: Record<string, unknown>) => {
+    return apiRequest<{ success: boolean; row: PricingTableRow }>(`/admin/pricing-tables/${table}`, {
+      method: 'POST',
+      body: JSON.stringify(row),
+    });
+  },
+
+  updatePricingTableRow: async (table: PricingTablePath, recordId: string, changes: Record<string, unknown>) => {
+    return apiRequest<{ success: boolean; row: PricingTableRow }>(`/admin/pricing-tables/${table}/${recordId}`, {
+      method: 'PATCH',
+      body: JSON.stringify(changes),
+    });
+  },
+
+  retirePricingTableRow: async (table: PricingTablePath, recordId: string) => {
+    return apiRequest<{ success: boolean; retiredBasePricingIds: string[] }>(
+      `/admin/pricing-tables/${table}/${recordId}`,
+      { method: 'DELETE' }
+    );
+  },
+
+  restorePricingTableRow: async (table: PricingTablePath, recordId: string) => {
+    return apiRequest<{ success: boolean; row: PricingTableRow }>(`/admin/pricing-tables/${table}/${recordId}/restore`, {
+      method: 'POST',
+    });
+  },
+
+  getPricingTableHistory: async (filters: { table?: PricingTablePath; recordId?: string; limit?: number } = {}) => {
+    const params = new URLSearchParams();
+    if (filters.table) params.set('table', filters.table);
+    if (filters.recordId) params.set('recordId', filters.recordId);
+    if (filters.limit) params.set('limit', String(filters.limit));
+    const query = params.toString();
+    return apiRequest<{ success: boolean; changes: PricingTableChange[] }>(
+      `/admin/pricing-tables/history${query ? `?${query}` : ''}`,
+      { method: 'GET' }
+    );
+  },
+};
+
 /**
  * Analytics/Tracking APIs
  */
@@ -331,10 +857,13 @@ export const analyticsAPI = {
 };
 
 export default {
+  projectAPI,
+  organizationAPI,
   assessmentAPI,
   authAPI,
   auditAPI,
   userAPI,
   fileAPI,
+  adminAPI,
   analyticsAPI,
 };
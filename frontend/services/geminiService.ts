@@ -58,7 +58,7 @@ const getSystemInstruction = (
     
     ${contextType === 'talent_audit' ? L2L_QUALIFICATION_PROMPT : `
     HARDENED OPERATIONAL PROTOCOLS (v1.1):
-    1. STATE MACHINE ENFORCEMENT: initiated -> assessment_complete -> quote_generated -> closed.
+    1. STATE MACHINE ENFORCEMENT: initiated -> assessment_complete -> quote_generated -> strategy_call_booked -> quote_accepted -> in_progress -> completed. Projects never move backwards once a quote is accepted.
     2. PROSPECT JOURNEY ENFORCEMENT.
     3. TONE: Institutional, machine-speed, monospaced style.
     4. PROTOCOL KNOWLEDGE: Fully supports Google UCP and Coinbase Agent2Agent (A2A) commerce settlement.
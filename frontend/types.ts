@@ -99,6 +99,48 @@ export interface Quote {
   selectedRail?: SettlementRail;
 }
 
+// One priced bundle on a backend quote
+export interface QuoteLineItem {
+  id: string;
+  position: number;
+  bundleId: string;
+  basePricingId: string | null;
+  name: string;
+  quantity: number;
+  unitPrice: number;
+  discountAmount: number;
+  discountReason: string | null;
+  lineTotal: number;
+  timelineWeeks: number;
+}
+
+// Quote as returned by the backend's /quotes endpoints
+export interface QuoteRecord {
+  id: string;
+  projectId: string;
+  revision: number;
+  baseRate: number;
+  scaleAdjustment: number;
+  complexityAdjustment: number;
+  urgencyAdjustment: number;
+  discountAmount: number;
+  promoDiscount: number;
+  // Net change made by the active pricing rules, before the promo discount
+  ruleAdjustment: number;
+  promoCode?: { code: string; kind: 'promo' | 'referral' } | null;
+  priceBook?: { version: number; name: string } | null;
+  totalEstimate: number;
+  notToExceed: number;
+  estimatedTimelineWeeks: number | null;
+  deliveryDate: string | null;
+  paymentTerms: QuotePaymentTerms | null;
+  settlementRail: SettlementRail | null;
+  validUntil: string;
+  status: 'pending' | 'sent' | 'accepted' | 'declined' | 'expired' | 'superseded';
+  lineItems?: QuoteLineItem[];
+  pricingOverride?: { id: string; advancePercentage: number; expiresAt: string | null } | null;
+}
+
 export interface AuditLog {
   id: string;
   actorRole: string;
@@ -110,7 +152,169 @@ export interface AuditLog {
   createdAt: string;
 }
 
-export interface CartItem { id: string; name: string; price: number; category: string; icon?: string; }
+export interface DeviceSession {
+  id: string;
+  deviceName: string | null;
+  ipAddress: string | null;
+  userAgent: string | null;
+  createdAt: string;
+  lastUsedAt: string;
+  expiresAt: string;
+  current: boolean;
+}
+
+export interface TwoFactorStatus {
+  enabled: boolean;
+  enabledAt: string | null;
+  recoveryCodesRemaining: number;
+  required: boolean;
+  sessionVerifiedAt: string | null;
+}
+
+// Project assessments as stored by the backend (/api/projects)
+export interface ProjectBriefInput {
+  projectName: string;
+  projectType: 'creative' | 'fullstack' | 'web3' | 'ai_automation';
+  projectDescription?: string | null;
+  projectScope?: {
+    features?: string[];
+    integrations?: { type: string; name?: string }[];
+    timeline?: 'standard' | 'urgent' | 'critical';
+    notes?: string;
+  } | null;
+  budgetRange?: 'under_10k' | '10k_25k' | '25k_50k' | '50k_100k' | '100k_250k' | 'over_250k' | null;
+  urgency?: 'standard' | 'urgent' | 'critical' | null;
+  // Pricing inputs used by quote generation (codes from /api/pricing)
+  bundleId?: string | null;
+  revenueCategory?: string | null;
+  companyScale?: string | null;
+  organizationId?: string | null;
+}
+
+// Statuses enforced by the backend project lifecycle
+export type ProjectLifecycleStatus =
+  | 'initiated'
+  | 'assessment_complete'
+  | 'quote_generated'
+  | 'strategy_call_booked'
+  | 'quote_accepted'
+  | 'in_progress'
+  | 'completed';
+
+export interface ProjectRecord extends ProjectBriefInput {
+  id: string;
+  userId: string;
+  status: ProjectLifecycleStatus;
+  complexityScore: string | null;
+  archivedAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface ProjectStatusChange {
+  id: string;
+  fromStatus: ProjectLifecycleStatus | null;
+  toStatus: ProjectLifecycleStatus;
+  actorId: string | null;
+  reason: string | null;
+  createdAt: string;
+}
+
+export interface ProjectTimeline {
+  status: ProjectLifecycleStatus;
+  nextStatuses: ProjectLifecycleStatus[];
+  timeline: ProjectStatusChange[];
+}
+
+// Advance (deposit) percentage approved by admin/finance, stored on the backend
+export interface PricingOverride {
+  id: string;
+  projectId: string;
+  quoteId: string | null;
+  advancePercentage: number;
+  reason: string;
+  approvedBy: string | null;
+  expiresAt: string | null;
+  revokedAt: string | null;
+  revokedBy: string | null;
+  createdAt: string;
+  project?: { projectName: string };
+}
+
+// Backend pricing tables, as managed from the admin console (URL segment of each table)
+export type PricingTablePath = 'revenue-categories' | 'company-scales' | 'complexity-tiers' | 'base-pricing';
+
+export interface PricingTableRow {
+  id: string;
+  active: boolean;
+  createdAt: string;
+  name?: string;
+  code?: string;
+  description: string | null;
+  // company-scales
+  revenueMin?: number | null;
+  revenueMax?: number | null;
+  multiplier?: number;
+  // complexity-tiers
+  rating?: number;
+  adjustmentMultiplier?: number;
+  // base-pricing
+  bundleId?: string;
+  bundleName?: string;
+  basePrice?: number;
+  timelineWeeks?: number | null;
+  revenueCategory?: { code: string; name: string };
+  companyScale?: { code: string; name: string };
+}
+
+export interface PricingTableChange {
+  id: string;
+  table: 'revenue_category' | 'company_scale' | 'complexity_tier' | 'base_pricing';
+  recordId: string;
+  action: 'created' | 'updated' | 'retired' | 'restored';
+  before: PricingTableRow | null;
+  after: PricingTableRow;
+  changedBy: { id: string; email: string | null } | null;
+  changedAt: string;
+}
+
+export type OrganizationRole = 'owner' | 'editor' | 'billing' | 'viewer';
+
+export interface OrganizationSummary {
+  id: string;
+  name: string;
+  role: OrganizationRole;
+  memberCount: number;
+  projectCount: number;
+  createdAt: string;
+}
+
+export interface OrganizationDetail {
+  id: string;
+  name: string;
+  members: {
+    role: OrganizationRole;
+    createdAt: string;
+    user: { id: string; email: string | null; businessName: string | null };
+  }[];
+  invitations: {
+    id: string;
+    email: string;
+    role: OrganizationRole;
+    invitedBy: string | null;
+    expiresAt: string;
+    createdAt: string;
+  }[];
+}
+
+export interface ImpersonationInfo {
+  userId: string;
+  email: string | null;
+  reason: string;
+  expiresAt: string;
+}
+
+export interface CartItem { id: string; name: string; price: number; category: string; icon?: string; bundleId?: string; }
 export type ChatMessage = { role: 'user' | 'model'; text: string; timestamp: number; sources?: { uri: string; title: string }[]; };
 export interface AiSolution { 
   id: string; 
@@ -172,8 +376,21 @@ export interface BundleTeamMember {
   location: string;
 }
 
+// A bundle's base prices in one published price book
+export interface BundlePriceVersion {
+  version: number;
+  name: string;
+  effectiveFrom: string;
+  effectiveTo: string | null;
+  minPrice: number;
+  maxPrice: number;
+  prices: { revenueCategory: string; companyScale: string; basePrice: number }[];
+}
+
 export interface Bundle {
   id: string;
+  // Backend pricing bundle, when the bundle has published price history
+  bundleId?: string;
   slug: string;
   name: string;
   shortSummary: string;
@@ -193,7 +410,7 @@ export interface Bundle {
   stack: string[];
   prerequisites: string[];
   prices: BundlePrice[];
-  priceHistory: any[];
+  priceHistory: BundlePriceVersion[];
   tier: PricingTier;
   rating: number;
   reviewCount: number;
@@ -222,7 +439,7 @@ export interface PendingEmail {
   clientName?: string;
 }
 
-export type AdminView = 'dashboard' | 'projects' | 'quotes' | 'outreach' | 'audit' | 'health' | 'automation' | 'approvals' | 'architecture';
+export type AdminView = 'dashboard' | 'projects' | 'quotes' | 'outreach' | 'audit' | 'health' | 'automation' | 'approvals' | 'architecture' | 'pricing';
 
 export enum JobStatus {
   Bidding = 'bidding',